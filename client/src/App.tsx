@@ -10,6 +10,9 @@ import LoginPage from "@/pages/login";
 import TeacherDashboard from "@/pages/teacher-dashboard";
 import TeacherSessionReport from "@/pages/teacher-session-report";
 import AdminDashboard from "@/pages/admin-dashboard";
+import StudentReport from "@/pages/student-report";
+import CourseReport from "@/pages/course-report";
+import ComparePage from "@/pages/compare";
 
 function ProtectedRoute({ component: Component, role, ...rest }: { component: React.ComponentType<any>; role?: "admin" | "teacher"; [key: string]: any }) {
   const { teacher, isLoading } = useAuth();
@@ -47,6 +50,12 @@ function Router() {
       <Route path="/teacher">
         {() => <ProtectedRoute component={TeacherDashboard} role="teacher" />}
       </Route>
+      <Route path="/session/:sessionId/student/:userId">
+        {(params: any) => <ProtectedRoute component={StudentReport} params={params} />}
+      </Route>
+      <Route path="/compare">
+        {() => <ProtectedRoute component={ComparePage} />}
+      </Route>
       <Route path="/teacher/session/:sessionId">
         {(params: any) => <ProtectedRoute component={TeacherSessionReport} params={params} />}
       </Route>
@@ -55,6 +64,9 @@ function Router() {
       <Route path="/admin">
         {() => <ProtectedRoute component={AdminDashboard} role="admin" />}
       </Route>
+      <Route path="/admin/course/:courseId">
+        {(params: any) => <ProtectedRoute component={CourseReport} role="admin" params={params} />}
+      </Route>
 
       <Route component={NotFound} />
     </Switch>
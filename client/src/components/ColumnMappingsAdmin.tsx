@@ -0,0 +1,205 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Columns3, RotateCcw } from "lucide-react";
+import { apiRequest, getQueryFn } from "@/lib/queryClient";
+
+interface MappingDefinition {
+  columns: Record<string, string[]>;
+  required: string[];
+}
+
+interface MappingVersion {
+  id: number;
+  fileType: string;
+  version: number;
+  mapping: MappingDefinition;
+  isActive: boolean;
+  notes: string | null;
+  createdBy: number | null;
+  createdAt: string;
+}
+
+interface ColumnMappingsResponse {
+  defaults: Record<string, MappingDefinition>;
+  versions: MappingVersion[];
+}
+
+const FILE_TYPE_LABELS: Record<string, string> = {
+  courseSession: "بيانات الحصة",
+  transcript: "النص المفرغ",
+  chats: "المحادثات",
+  classroomActivity: "الأنشطة الصفية",
+  userPoll: "إجابات الأسئلة",
+  userReaction: "تفاعلات الطلاب",
+  userSession: "حضور الطلاب",
+};
+
+/**
+ * Admin editor for the column mapping used when importing each export file.
+ * Saving creates a new version and activates it; older versions can be
+ * re-activated, and resetting falls back to the built-in mapping.
+ */
+export default function ColumnMappingsAdmin() {
+  const queryClient = useQueryClient();
+  const [fileType, setFileType] = useState("courseSession");
+  const [draft, setDraft] = useState("");
+  const [notes, setNotes] = useState("");
+  const [error, setError] = useState("");
+
+  const { data, isLoading } = useQuery<ColumnMappingsResponse>({
+    queryKey: ["/api/admin/column-mappings"],
+    queryFn: getQueryFn({ on401: "throw" }),
+  });
+
+  const versions = (data?.versions || []).filter((v) => v.fileType === fileType);
+  const active = versions.find((v) => v.isActive);
+  const activeDefinition = active?.mapping || data?.defaults[fileType];
+
+  useEffect(() => {
+    if (activeDefinition) setDraft(JSON.stringify(activeDefinition, null, 2));
+    setError("");
+  }, [fileType, active?.id, !!data]);
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/admin/column-mappings"] });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      let mapping: unknown;
+      try {
+        mapping = JSON.parse(draft);
+      } catch {
+        throw new Error("JSON غير صالح");
+      }
+      await apiRequest("POST", "/api/admin/column-mappings", { fileType, mapping, notes: notes || null });
+    },
+    onSuccess: () => {
+      invalidate();
+      setNotes("");
+      setError("");
+    },
+    onError: (err: Error) => setError(err.message),
+  });
+
+  const activateMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("POST", `/api/admin/column-mappings/${id}/activate`);
+    },
+    onSuccess: invalidate,
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/admin/column-mappings/${fileType}/reset`);
+    },
+    onSuccess: invalidate,
+  });
+
+  return (
+    <Card className="border-0 shadow-sm">
+      <CardHeader className="flex flex-row items-center justify-between pb-3">
+        <CardTitle className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+          <Columns3 className="w-4 h-4" />
+          ربط أعمدة ملفات الاستيراد
+        </CardTitle>
+        <select
+          value={fileType}
+          onChange={(e) => setFileType(e.target.value)}
+          className="rounded border border-gray-300 text-xs px-2 py-1"
+        >
+          {Object.entries(FILE_TYPE_LABELS).map(([type, label]) => (
+            <option key={type} value={type}>{label}</option>
+          ))}
+        </select>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-40 rounded" />
+        ) : (
+          <>
+            <div className="flex items-center gap-2 text-xs text-gray-500">
+              <span>الإصدار الفعّال:</span>
+              <Badge variant="outline" className="text-xs">
+                {active ? `v${active.version}` : "الافتراضي"}
+              </Badge>
+              <div className="flex-1" />
+              {active && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-xs text-gray-500"
+                  disabled={resetMutation.isPending}
+                  onClick={() => resetMutation.mutate()}
+                >
+                  <RotateCcw className="w-3.5 h-3.5 ml-1" />
+                  العودة للافتراضي
+                </Button>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-[11px] text-gray-400">
+                لكل حقل قائمة بأسماء الأعمدة المقبولة بالترتيب؛ ‎#N‎ تعني رقم العمود و‎#N+‎ تعني دمج الأعمدة من N فما بعد.
+              </p>
+              <Textarea
+                dir="ltr"
+                className="font-mono text-xs text-left min-h-[240px]"
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+              />
+              <div className="flex items-center gap-3">
+                <Input
+                  className="text-sm flex-1"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="ملاحظات عن هذا الإصدار (اختياري)"
+                />
+                <Button
+                  size="sm"
+                  className="bg-teal-600 hover:bg-teal-700"
+                  disabled={!draft || saveMutation.isPending}
+                  onClick={() => saveMutation.mutate()}
+                >
+                  {saveMutation.isPending ? "جاري الحفظ..." : "حفظ كإصدار جديد"}
+                </Button>
+              </div>
+              {error && <p className="text-xs text-red-500" dir="ltr">{error}</p>}
+            </div>
+
+            {versions.length > 0 && (
+              <div className="divide-y">
+                {versions.map((v) => (
+                  <div key={v.id} className="flex items-center gap-3 py-2 text-sm">
+                    <Badge variant="outline" className="text-xs">v{v.version}</Badge>
+                    <span className="flex-1 truncate text-xs text-gray-600">{v.notes || "—"}</span>
+                    <span className="text-[11px] text-gray-400">
+                      {new Date(v.createdAt).toLocaleDateString("ar-SA")}
+                    </span>
+                    {v.isActive ? (
+                      <Badge className="text-[10px] bg-teal-100 text-teal-700 hover:bg-teal-100">فعّال</Badge>
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-xs text-teal-600"
+                        disabled={activateMutation.isPending}
+                        onClick={() => activateMutation.mutate(v.id)}
+                      >
+                        تفعيل
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
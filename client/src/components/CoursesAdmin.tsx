@@ -0,0 +1,65 @@
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ChevronLeft, GraduationCap } from "lucide-react";
+import { getQueryFn } from "@/lib/queryClient";
+
+interface CourseRow {
+  courseId: number;
+  sessionCount: number;
+  teacherCount: number;
+  firstSessionAt: string | null;
+  lastSessionAt: string | null;
+  sampleSessionName: string | null;
+}
+
+function formatDate(iso: string | null) {
+  return iso ? new Date(iso).toLocaleDateString("ar-SA") : "—";
+}
+
+/** Courses with imported sessions; each opens its course-level report. */
+export default function CoursesAdmin() {
+  const [, setLocation] = useLocation();
+  const { data: courses, isLoading } = useQuery<CourseRow[]>({
+    queryKey: ["/api/admin/courses"],
+    queryFn: getQueryFn({ on401: "throw" }),
+  });
+
+  return (
+    <Card className="border-0 shadow-sm">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+          <GraduationCap className="w-4 h-4" />
+          تقارير المقررات
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-24 rounded" />
+        ) : !courses || courses.length === 0 ? (
+          <p className="text-sm text-gray-400 text-center py-6">لا توجد مقررات مستوردة</p>
+        ) : (
+          <div className="divide-y">
+            {courses.map((course) => (
+              <button
+                key={course.courseId}
+                type="button"
+                className="w-full flex items-center gap-3 py-2.5 px-1 text-right hover:bg-gray-50"
+                onClick={() => setLocation(`/admin/course/${course.courseId}`)}
+              >
+                <span className="text-sm font-semibold text-gray-800 w-24 shrink-0" dir="ltr">#{course.courseId}</span>
+                <span className="flex-1 text-xs text-gray-500 truncate">{course.sampleSessionName ?? ""}</span>
+                <span className="text-xs text-gray-500 w-28 shrink-0">{course.sessionCount} حصة · {course.teacherCount} معلم</span>
+                <span className="text-xs text-gray-400 w-40 shrink-0">
+                  {formatDate(course.firstSessionAt)} – {formatDate(course.lastSessionAt)}
+                </span>
+                <ChevronLeft className="w-4 h-4 text-gray-400" />
+              </button>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
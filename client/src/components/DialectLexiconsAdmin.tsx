@@ -0,0 +1,309 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Languages, Trash2 } from "lucide-react";
+import { apiRequest, getQueryFn } from "@/lib/queryClient";
+
+interface DialectPack {
+  id: string;
+  name: string;
+  description: string;
+  language: "ar" | "en";
+  terms: Record<string, string[]>;
+}
+
+interface LexiconAssignment {
+  id: number;
+  packId: string;
+  scopeType: "teacher" | "course";
+  scopeValue: string;
+}
+
+interface LexiconsResponse {
+  defaultPackIds: Record<"ar" | "en", string>;
+  keys: string[];
+  packs: DialectPack[];
+  assignments: LexiconAssignment[];
+  teachers: { id: number; name: string }[];
+  courseIds: number[];
+}
+
+interface TestResult {
+  line: string;
+  matches: string[];
+}
+
+const KEY_LABELS: Record<string, string> = {
+  confusion: "ارتباك",
+  steps: "خطوات",
+  rephrase: "إعادة صياغة",
+  example: "مثال",
+  verify: "تحقق من الفهم",
+  transition: "انتقال",
+  openQuestion: "سؤال مفتوح",
+  closedQuestion: "سؤال مغلق",
+  prompt: "دعوة للمشاركة",
+  rhetorical: "سؤال بلاغي",
+  clarification: "توضيح",
+  intro: "تمهيد",
+  summary: "تلخيص",
+  encourage: "تشجيع",
+  effort: "تشجيع المحاولة",
+  motivation: "تحفيز",
+  recovery: "بعد الخطأ",
+  question: "سؤال",
+  studentCall: "مناداة طالب",
+  repeat: "تكرار",
+  stageCall: "دعوة للشرح",
+};
+
+const LANGUAGE_LABELS: Record<string, string> = {
+  ar: "عربي",
+  en: "إنجليزي",
+};
+
+const SCOPE_LABELS: Record<string, string> = {
+  teacher: "معلم",
+  course: "مقرر",
+};
+
+/**
+ * Admin view of the dialect packs the discourse detectors use: browse a
+ * pack's terms, try it on sample transcript lines, and assign packs to
+ * teachers or courses.
+ */
+export default function DialectLexiconsAdmin() {
+  const queryClient = useQueryClient();
+  const [packId, setPackId] = useState("");
+  const [sample, setSample] = useState("");
+  const [results, setResults] = useState<TestResult[] | null>(null);
+  const [showTerms, setShowTerms] = useState(false);
+  const [scopeType, setScopeType] = useState<"teacher" | "course">("teacher");
+  const [scopeValue, setScopeValue] = useState("");
+  const [assignPackId, setAssignPackId] = useState("");
+  const [error, setError] = useState("");
+
+  const { data, isLoading } = useQuery<LexiconsResponse>({
+    queryKey: ["/api/admin/lexicons"],
+    queryFn: getQueryFn({ on401: "throw" }),
+  });
+
+  const activePackId = packId || data?.defaultPackIds.ar || "";
+  const pack = data?.packs.find((p) => p.id === activePackId);
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/admin/lexicons"] });
+
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      const lines = sample.split("\n").map((l) => l.trim()).filter(Boolean);
+      const res = await apiRequest("POST", "/api/admin/lexicons/test", { packId: activePackId, lines });
+      return ((await res.json()) as { results: TestResult[] }).results;
+    },
+    onSuccess: setResults,
+    onError: (err: Error) => setError(err.message),
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/admin/lexicon-assignments", { packId: assignPackId, scopeType, scopeValue });
+    },
+    onSuccess: () => {
+      setScopeValue("");
+      setError("");
+      invalidate();
+    },
+    onError: (err: Error) => setError(err.message),
+  });
+
+  const unassignMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/admin/lexicon-assignments/${id}`);
+    },
+    onSuccess: invalidate,
+  });
+
+  const packName = (id: string) => data?.packs.find((p) => p.id === id)?.name ?? id;
+  const scopeName = (a: LexiconAssignment) => a.scopeType === "teacher"
+    ? data?.teachers.find((t) => String(t.id) === a.scopeValue)?.name ?? `#${a.scopeValue}`
+    : a.scopeValue;
+
+  return (
+    <Card className="border-0 shadow-sm">
+      <CardHeader className="flex flex-row items-center justify-between pb-3">
+        <CardTitle className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+          <Languages className="w-4 h-4" />
+          اللهجات ومعجم تحليل الخطاب
+        </CardTitle>
+        {data && (
+          <select
+            className="border rounded-md px-2 py-1 text-xs bg-white"
+            value={activePackId}
+            onChange={(e) => {
+              setPackId(e.target.value);
+              setResults(null);
+            }}
+          >
+            {data.packs.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}{Object.values(data.defaultPackIds).includes(p.id) ? " (افتراضي)" : ""}
+              </option>
+            ))}
+          </select>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !data || !pack ? (
+          <Skeleton className="h-40 rounded" />
+        ) : (
+          <>
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-xs text-gray-500">
+                <Badge variant="outline" className="text-[10px] ml-2">{LANGUAGE_LABELS[pack.language]}</Badge>
+                {pack.description}
+              </p>
+              <Button variant="ghost" size="sm" className="text-xs text-teal-600" onClick={() => setShowTerms(!showTerms)}>
+                {showTerms ? "إخفاء المصطلحات" : "عرض المصطلحات"}
+              </Button>
+            </div>
+            {showTerms && (
+              <div className="bg-gray-50 rounded-lg p-3 space-y-1 max-h-64 overflow-y-auto">
+                {data.keys.map((key) => (
+                  <div key={key} className="flex gap-2 text-xs">
+                    <span className="w-28 shrink-0 font-semibold text-gray-600">{KEY_LABELS[key] ?? key}</span>
+                    <span className="text-gray-500">{pack.terms[key].join(" · ")}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Textarea
+                className="text-sm min-h-[80px]"
+                value={sample}
+                onChange={(e) => setSample(e.target.value)}
+                placeholder="ألصق أسطراً من النص المفرغ للحصة، سطر لكل جملة"
+              />
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={!sample.trim() || testMutation.isPending}
+                onClick={() => testMutation.mutate()}
+              >
+                {testMutation.isPending ? "جاري الاختبار..." : "اختبار اللهجة"}
+              </Button>
+              {results && (
+                <div className="divide-y">
+                  {results.map((r, i) => (
+                    <div key={i} className="py-2 space-y-1">
+                      <p className="text-xs text-gray-700">{r.line}</p>
+                      <div className="flex flex-wrap gap-1">
+                        {r.matches.length === 0 ? (
+                          <span className="text-[11px] text-gray-400">لا توجد مطابقة</span>
+                        ) : r.matches.map((key) => (
+                          <Badge key={key} variant="outline" className="text-[10px]">{KEY_LABELS[key] ?? key}</Badge>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="border-t pt-3 space-y-2">
+              <p className="text-xs font-semibold text-gray-600">التعيينات</p>
+              {data.assignments.length === 0 ? (
+                <p className="text-xs text-gray-400">لا توجد تعيينات — جميع الحصص تستخدم الحزمة الافتراضية للغتها.</p>
+              ) : (
+                <div className="divide-y">
+                  {data.assignments.map((a) => (
+                    <div key={a.id} className="flex items-center gap-3 py-2 text-sm">
+                      <Badge variant="outline" className="text-xs">{SCOPE_LABELS[a.scopeType]}</Badge>
+                      <span className="text-xs text-gray-700">{scopeName(a)}</span>
+                      <span className="flex-1 text-xs text-gray-500">← {packName(a.packId)}</span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-xs text-gray-400"
+                        disabled={unassignMutation.isPending}
+                        onClick={() => unassignMutation.mutate(a.id)}
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="flex items-center gap-2">
+                <select
+                  className="border rounded-md px-2 py-1 text-xs bg-white"
+                  value={scopeType}
+                  onChange={(e) => {
+                    setScopeType(e.target.value as "teacher" | "course");
+                    setScopeValue("");
+                  }}
+                >
+                  <option value="teacher">{SCOPE_LABELS.teacher}</option>
+                  <option value="course">{SCOPE_LABELS.course}</option>
+                </select>
+                {scopeType === "teacher" ? (
+                  <select
+                    className="border rounded-md px-2 py-1 text-xs bg-white w-40"
+                    value={scopeValue}
+                    onChange={(e) => setScopeValue(e.target.value)}
+                  >
+                    <option value="">اختر المعلم</option>
+                    {data.teachers.map((t) => (
+                      <option key={t.id} value={t.id}>{t.name}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <>
+                    <Input
+                      dir="ltr"
+                      list="lexicon-course-ids"
+                      className="text-left text-xs h-8 w-40"
+                      value={scopeValue}
+                      onChange={(e) => setScopeValue(e.target.value.replace(/\D/g, ""))}
+                      placeholder="Course ID"
+                    />
+                    <datalist id="lexicon-course-ids">
+                      {data.courseIds.map((id) => <option key={id} value={id} />)}
+                    </datalist>
+                  </>
+                )}
+                <select
+                  className="border rounded-md px-2 py-1 text-xs bg-white"
+                  value={assignPackId}
+                  onChange={(e) => setAssignPackId(e.target.value)}
+                >
+                  <option value="">اختر اللهجة</option>
+                  {data.packs.map((p) => (
+                    <option key={p.id} value={p.id}>{p.name}</option>
+                  ))}
+                </select>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={!scopeValue || !assignPackId || assignMutation.isPending}
+                  onClick={() => assignMutation.mutate()}
+                >
+                  تعيين
+                </Button>
+              </div>
+              {error && <p className="text-xs text-red-500" dir="ltr">{error}</p>}
+              <p className="text-[11px] text-gray-400">
+                تُكتشف لغة كل حصة من نصها المفرغ، ولا يُطبَّق التعيين إلا على حصص لغة الحزمة؛ وإلا تُستخدم الحزمة الافتراضية لتلك اللغة.
+                تعيين المعلم يتقدّم على تعيين المقرر. تُطبَّق التغييرات على التقارير عند إنشائها من جديد.
+              </p>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,57 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { FileText } from "lucide-react";
+import { getQueryFn } from "@/lib/queryClient";
+
+interface ImportEntry {
+  id: number;
+  fileType: string;
+  fileName: string;
+  rowCount: number;
+  mode: string;
+  encoding: string | null;
+  importedAt: string;
+}
+
+const MODE_LABELS: Record<string, string> = {
+  create: "رفع أول",
+  replace: "استبدال كامل",
+  patch: "تحديث جزئي",
+};
+
+export default function ImportHistory({ sessionId }: { sessionId: string }) {
+  const { data: history } = useQuery<ImportEntry[] | null>({
+    queryKey: ["/api/sessions", sessionId, "imports"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  if (!history || history.length === 0) return null;
+
+  return (
+    <Card dir="rtl" className="border-0 shadow-sm mt-6">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base font-semibold text-gray-700">
+          مصادر بيانات التقرير
+        </CardTitle>
+        <p className="text-xs text-gray-500">الملفات التي تم استيرادها لهذه الحصة</p>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {history.map((entry) => (
+          <div key={entry.id} className="flex items-center gap-3 text-sm border-b last:border-0 pb-2">
+            <FileText className="w-4 h-4 text-gray-400 shrink-0" />
+            <span className="flex-1 truncate text-gray-700" dir="ltr">{entry.fileName}</span>
+            <span className="text-xs text-gray-500">{entry.rowCount} صف</span>
+            {entry.encoding && (
+              <span className="text-[11px] text-gray-400" dir="ltr">{entry.encoding}</span>
+            )}
+            <Badge variant="outline" className="text-xs">{MODE_LABELS[entry.mode] || entry.mode}</Badge>
+            <span className="text-xs text-gray-400">
+              {new Date(entry.importedAt).toLocaleString("ar-SA")}
+            </span>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,94 @@
+import { useEffect, useRef } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Loader2, XCircle, Clock } from "lucide-react";
+
+export interface ImportJobSummary {
+  id: number;
+  status: "pending" | "processing" | "completed" | "failed";
+  mode: string;
+  stage: string | null;
+  progress: number;
+  sessionIds: number[] | null;
+  error: string | null;
+  fileNames: string[];
+  createdAt: string;
+  finishedAt: string | null;
+}
+
+const STATUS_LABELS: Record<ImportJobSummary["status"], string> = {
+  pending: "في الانتظار",
+  processing: "جاري المعالجة",
+  completed: "مكتمل",
+  failed: "فشل",
+};
+
+/**
+ * Uploads that have not finished (or failed) yet, shown above the session list.
+ * Polls while any job is active and refreshes the session list when one completes.
+ */
+export default function ImportJobsList() {
+  const queryClient = useQueryClient();
+
+  const { data: jobs } = useQuery<ImportJobSummary[]>({
+    queryKey: ["/api/my-import-jobs"],
+    refetchInterval: (query) => {
+      const data = query.state.data as ImportJobSummary[] | undefined;
+      return data?.some((j) => j.status === "pending" || j.status === "processing") ? 2000 : false;
+    },
+  });
+
+  const completedCount = (jobs || []).filter((j) => j.status === "completed").length;
+  const lastCompleted = useRef(completedCount);
+  useEffect(() => {
+    if (completedCount > lastCompleted.current) {
+      queryClient.invalidateQueries({ queryKey: ["/api/my-sessions"] });
+    }
+    lastCompleted.current = completedCount;
+  }, [completedCount, queryClient]);
+
+  const visible = (jobs || []).filter((j) => j.status !== "completed");
+  if (visible.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {visible.map((job) => (
+        <Card key={job.id} className="border-0 shadow-sm">
+          <CardContent className="p-4 space-y-2">
+            <div className="flex items-center gap-2">
+              {job.status === "failed" ? (
+                <XCircle className="w-4 h-4 text-red-500" />
+              ) : job.status === "processing" ? (
+                <Loader2 className="w-4 h-4 text-teal-600 animate-spin" />
+              ) : (
+                <Clock className="w-4 h-4 text-gray-400" />
+              )}
+              <span className="text-sm font-medium text-gray-700">
+                {job.sessionIds && job.sessionIds.length > 0
+                  ? `حصة ${job.sessionIds.join("، ")}`
+                  : job.fileNames[0]}
+              </span>
+              <Badge
+                variant="outline"
+                className={`mr-auto text-xs ${job.status === "failed" ? "text-red-600 border-red-200" : "text-teal-700 border-teal-200"}`}
+              >
+                {STATUS_LABELS[job.status]}
+              </Badge>
+            </div>
+            {job.status !== "failed" && (
+              <>
+                <Progress value={job.progress} className="h-1.5" />
+                {job.stage && <p className="text-xs text-gray-500" dir="ltr">{job.stage}</p>}
+              </>
+            )}
+            {job.status === "failed" && job.error && (
+              <p className="text-xs text-red-600" dir="ltr">{job.error}</p>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Library, Search, X } from "lucide-react";
+import { getQueryFn } from "@/lib/queryClient";
+
+interface BankQuestion {
+  questionId: number;
+  questionText: string;
+  sessions: number;
+  teachers: number;
+  seen: number;
+  answered: number;
+  percent: number;
+  lastUsedAt: string | null;
+  likelyItemProblem: boolean;
+}
+
+interface QuestionSession {
+  courseSessionId: number;
+  courseSessionName: string | null;
+  scheduledStartTime: string | null;
+  teacherName: string | null;
+  seen: number;
+  answered: number;
+  correct: number;
+  percent: number;
+  activity: string | null;
+  teacherExplanationMin: number | null;
+  teacherExplanationVerdict: string | null;
+}
+
+interface QuestionHistory {
+  questionId: number;
+  questionText: string;
+  answered: number;
+  percent: number;
+  sessions: QuestionSession[];
+  teachers: { teacherDbId: number | null; teacherName: string | null; sessions: number; answered: number; percent: number }[];
+}
+
+const LIST_LIMIT = 50;
+
+function percentColor(percent: number) {
+  if (percent >= 70) return "bg-emerald-500";
+  if (percent >= 50) return "bg-amber-500";
+  return "bg-red-500";
+}
+
+/**
+ * Admin view of every poll question across imported sessions: how each one
+ * scored over time and per teacher, to tell broken items from badly taught
+ * ones.
+ */
+export default function QuestionBankAdmin() {
+  const [searchText, setSearchText] = useState("");
+  const [search, setSearch] = useState("");
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const { data, isLoading } = useQuery<{ questions: BankQuestion[] }>({
+    queryKey: [`/api/admin/question-bank?search=${encodeURIComponent(search)}`],
+    queryFn: getQueryFn({ on401: "throw" }),
+  });
+
+  const { data: history, isLoading: loadingHistory } = useQuery<QuestionHistory>({
+    queryKey: ["/api/admin/question-bank", selectedId],
+    queryFn: getQueryFn({ on401: "throw" }),
+    enabled: selectedId !== null,
+  });
+
+  const questions = data?.questions ?? [];
+
+  return (
+    <Card className="border-0 shadow-sm">
+      <CardHeader className="flex flex-row items-center justify-between pb-3">
+        <CardTitle className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+          <Library className="w-4 h-4" />
+          بنك الأسئلة
+        </CardTitle>
+        <form
+          className="flex items-center gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            setSearch(searchText.trim());
+          }}
+        >
+          <Input
+            className="text-xs h-8 w-56"
+            value={searchText}
+            onChange={(e) => setSearchText(e.target.value)}
+            placeholder="ابحث بنص السؤال أو رقمه"
+          />
+          <Button type="submit" size="sm" variant="outline" className="h-8">
+            <Search className="w-3.5 h-3.5" />
+          </Button>
+        </form>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-40 rounded" />
+        ) : questions.length === 0 ? (
+          <p className="text-sm text-gray-400 text-center py-6">لا توجد أسئلة مطابقة</p>
+        ) : (
+          <div className="divide-y max-h-80 overflow-y-auto">
+            {questions.slice(0, LIST_LIMIT).map((q) => (
+              <button
+                key={q.questionId}
+                type="button"
+                className={`w-full flex items-center gap-3 py-2 px-1 text-right hover:bg-gray-50 ${selectedId === q.questionId ? "bg-teal-50" : ""}`}
+                onClick={() => setSelectedId(q.questionId)}
+              >
+                <span className="text-[11px] text-gray-400 w-14 shrink-0 tabular-nums" dir="ltr">#{q.questionId}</span>
+                <span className="flex-1 text-xs text-gray-700 truncate" dir="auto">{q.questionText || "—"}</span>
+                {q.likelyItemProblem && (
+                  <Badge variant="outline" className="text-[10px] text-red-600 border-red-300">مشكلة محتملة في السؤال</Badge>
+                )}
+                <span className="text-[11px] text-gray-500 w-20 shrink-0">{q.sessions} حصة · {q.teachers} معلم</span>
+                <span className="text-xs font-semibold text-gray-700 w-10 shrink-0 tabular-nums">{q.percent}%</span>
+              </button>
+            ))}
+          </div>
+        )}
+        {questions.length > LIST_LIMIT && (
+          <p className="text-[11px] text-gray-400">يُعرض أول {LIST_LIMIT} سؤالاً من {questions.length} — استخدم البحث لتضييق النتائج.</p>
+        )}
+
+        {selectedId !== null && (
+          <div className="border-t pt-3 space-y-3">
+            {loadingHistory || !history ? (
+              <Skeleton className="h-32 rounded" />
+            ) : (
+              <>
+                <div className="flex items-start justify-between gap-3">
+                  <div className="space-y-1">
+                    <p className="text-sm text-gray-800" dir="auto">{history.questionText}</p>
+                    <p className="text-xs text-gray-500">
+                      {history.percent}% إجابات صحيحة من {history.answered} إجابة في {history.sessions.length} حصة
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="sm" className="text-gray-400" onClick={() => setSelectedId(null)}>
+                    <X className="w-3.5 h-3.5" />
+                  </Button>
+                </div>
+
+                <div className="space-y-1">
+                  <p className="text-xs font-semibold text-gray-600">النتائج حسب المعلم</p>
+                  {history.teachers.map((t) => (
+                    <div key={t.teacherDbId ?? "none"} className="flex items-center gap-3 text-xs">
+                      <span className="w-40 truncate text-gray-700">{t.teacherName ?? "غير معيّن"}</span>
+                      <span className="text-gray-400 w-16">{t.sessions} حصة</span>
+                      <div className="flex-1 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                        <div className={`h-full ${percentColor(t.percent)}`} style={{ width: `${t.percent}%` }} />
+                      </div>
+                      <span className="w-10 font-semibold text-gray-700 tabular-nums">{t.percent}%</span>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="space-y-1">
+                  <p className="text-xs font-semibold text-gray-600">الصعوبة عبر الزمن</p>
+                  <div className="divide-y">
+                    {history.sessions.map((s) => (
+                      <div key={s.courseSessionId} className="py-2 space-y-1">
+                        <div className="flex items-center gap-3 text-xs">
+                          <span className="w-20 text-gray-400 tabular-nums">
+                            {s.scheduledStartTime ? new Date(s.scheduledStartTime).toLocaleDateString("ar-SA") : "—"}
+                          </span>
+                          <span className="w-32 truncate text-gray-700">{s.courseSessionName ?? s.courseSessionId}</span>
+                          <span className="w-32 truncate text-gray-500">{s.teacherName ?? "غير معيّن"}</span>
+                          <div className="flex-1 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                            <div className={`h-full ${percentColor(s.percent)}`} style={{ width: `${s.percent}%` }} />
+                          </div>
+                          <span className="w-16 text-gray-500 tabular-nums">{s.correct}/{s.answered}</span>
+                          <span className="w-10 font-semibold text-gray-700 tabular-nums">{s.percent}%</span>
+                        </div>
+                        {s.teacherExplanationVerdict && (
+                          <p className="text-[11px] text-gray-500 pr-3 border-r-2 border-teal-200" dir="ltr">
+                            {s.activity ? `${s.activity}: ` : ""}{s.teacherExplanationVerdict}
+                          </p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+                <p className="text-[11px] text-gray-400">
+                  يُعدّ السؤال مشكلة محتملة عندما يستخدمه معلمان أو أكثر وتقلّ نتيجة كل منهم عن الحد الأدنى في معايير التقييم.
+                  تأتي أحكام الشرح من آخر تقرير محفوظ لكل حصة.
+                </p>
+              </>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
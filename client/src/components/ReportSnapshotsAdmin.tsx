@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { RefreshCw } from "lucide-react";
+import { apiRequest, getQueryFn } from "@/lib/queryClient";
+
+interface RegenerationStatus {
+  running: boolean;
+  total: number;
+  done: number;
+  created: number;
+  failed: { sessionId: number; error: string }[];
+  startedAt: string | null;
+  finishedAt: string | null;
+  engineVersion: string;
+}
+
+/** Admin controls for regenerating stored report snapshots after an analysis engine change. */
+export default function ReportSnapshotsAdmin() {
+  const queryClient = useQueryClient();
+  const [sessionId, setSessionId] = useState("");
+  const [message, setMessage] = useState("");
+
+  const { data: status } = useQuery<RegenerationStatus>({
+    queryKey: ["/api/admin/reports/regenerate"],
+    queryFn: getQueryFn({ on401: "throw" }),
+    refetchInterval: (query) => ((query.state.data as RegenerationStatus | undefined)?.running ? 2000 : false),
+  });
+
+  const regenerateOne = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/reports/regenerate", { sessionId: parseInt(sessionId) });
+      return (await res.json()) as { created: boolean };
+    },
+    onSuccess: (result) => {
+      setMessage(result.created ? "تم إنشاء نسخة جديدة من التقرير" : "التقرير محدث بالفعل، لم تتغير البيانات أو المحرك");
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions", parseInt(sessionId), "reports"] });
+    },
+    onError: (err: Error) => setMessage(err.message.includes("404") ? "الحصة غير موجودة" : "فشل في إعادة إنشاء التقرير"),
+  });
+
+  const regenerateAll = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/admin/reports/regenerate");
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/admin/reports/regenerate"] }),
+  });
+
+  return (
+    <Card className="border-0 shadow-sm">
+      <CardHeader className="flex flex-row items-center justify-between pb-3">
+        <CardTitle className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+          <RefreshCw className="w-4 h-4" />
+          نسخ التقارير
+        </CardTitle>
+        {status && (
+          <Badge variant="outline" className="text-xs" dir="ltr">engine v{status.engineVersion}</Badge>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-3">
+          <Input
+            dir="ltr"
+            className="text-left text-sm w-40"
+            inputMode="numeric"
+            value={sessionId}
+            onChange={(e) => setSessionId(e.target.value.replace(/\D/g, ""))}
+            placeholder="Session ID"
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={!sessionId || regenerateOne.isPending}
+            onClick={() => regenerateOne.mutate()}
+          >
+            {regenerateOne.isPending ? "جاري الإنشاء..." : "إعادة إنشاء تقرير الحصة"}
+          </Button>
+          {message && <p className="text-xs text-gray-500">{message}</p>}
+        </div>
+
+        <div className="bg-gray-50 rounded-lg p-4 space-y-2">
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-xs text-gray-600">
+              إعادة إنشاء تقارير جميع الحصص بالمحرك الحالي. التقارير التي لم تتغير بياناتها أو محركها تبقى كما هي.
+            </p>
+            <Button
+              size="sm"
+              className="bg-teal-600 hover:bg-teal-700 shrink-0"
+              disabled={status?.running || regenerateAll.isPending}
+              onClick={() => regenerateAll.mutate()}
+            >
+              إعادة إنشاء الكل
+            </Button>
+          </div>
+          {status && status.startedAt && (
+            <div className="space-y-1">
+              <Progress value={status.total > 0 ? Math.round((status.done / status.total) * 100) : 100} className="h-1.5" />
+              <p className="text-[11px] text-gray-500">
+                {status.done} / {status.total} حصة · {status.created} نسخة جديدة
+                {status.failed.length > 0 && <span className="text-red-500"> · {status.failed.length} فشل</span>}
+                {status.finishedAt && !status.running && " · اكتمل"}
+              </p>
+              {status.failed.slice(0, 5).map((f) => (
+                <p key={f.sessionId} className="text-[11px] text-red-500" dir="ltr">{f.sessionId}: {f.error}</p>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
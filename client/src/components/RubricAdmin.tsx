@@ -0,0 +1,289 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { RotateCcw, SlidersHorizontal } from "lucide-react";
+import { apiRequest, getQueryFn } from "@/lib/queryClient";
+
+type RubricConfig = Record<string, Record<string, number>>;
+
+interface RubricVersion {
+  id: number;
+  version: number;
+  config: RubricConfig;
+  isActive: boolean;
+  notes: string | null;
+  createdBy: number | null;
+  createdAt: string;
+}
+
+interface RubricResponse {
+  defaults: RubricConfig;
+  active: { version: number; config: RubricConfig };
+  versions: RubricVersion[];
+}
+
+const SECTIONS: { key: string; label: string; fields: Record<string, string> }[] = [
+  {
+    key: "correctness",
+    label: "نسب الإجابات الصحيحة (%)",
+    fields: {
+      excellent: "نتيجة متميزة",
+      strong: "فهم جيد",
+      moderate: "فهم جزئي",
+      low: "ضعيف جداً",
+      overExplained: "شرح أطول من اللازم عند صحة",
+    },
+  },
+  {
+    key: "timing",
+    label: "التوقيت",
+    fields: {
+      longSegmentSec: "أطول حديث متواصل (ثانية)",
+      maxTeacherTalkMin: "الحد الأقصى لحديث المعلم (دقيقة)",
+      scheduledSessionMin: "مدة الحصة المتوقعة (دقيقة)",
+      confusionWindowSec: "نافذة تجميع رسائل الارتباك (ثانية)",
+      chatReplyWindowSec: "مهلة رد المعلم على الطالب (ثانية)",
+      preTeachLongSec: "شرح طويل قبل النشاط (ثانية)",
+      preTeachShortSec: "شرح قصير قبل النشاط (ثانية)",
+      underInvestedPreTeachSec: "شرح غير كافٍ قبل نشاط ضعيف (ثانية)",
+      teacherTalkToleranceMin: "تجاوز مقبول لحديث المعلم (دقيقة)",
+      transitionGapMin: "فجوة الانتقال بين الأنشطة (دقيقة)",
+    },
+  },
+  {
+    key: "postActivityExplanation",
+    label: "الشرح بعد النشاط (ثانية)",
+    fields: {
+      strongMaxSec: "بعد نتيجة جيدة — حتى",
+      moderateMaxSec: "بعد نتيجة جزئية — حتى",
+      weakMaxSec: "بعد نتيجة ضعيفة — حتى",
+    },
+  },
+  {
+    key: "engagement",
+    label: "التفاعل (%)",
+    fields: {
+      highResponseRate: "نسبة استجابة مرتفعة",
+      minResponseRate: "أدنى نسبة استجابة",
+      highTemperature: "حرارة حصة مرتفعة",
+      minTemperature: "أدنى حرارة حصة",
+      highChatParticipation: "مشاركة مرتفعة في المحادثة",
+      minChatParticipation: "أدنى مشاركة في المحادثة",
+      highPositiveSentiment: "انطباع إيجابي مرتفع",
+      minPositiveSentiment: "أدنى انطباع إيجابي",
+      targetStudentActivePercent: "نسبة وقت نشاط الطلاب المستهدفة",
+      highStudentActivePercent: "نسبة نشاط طلاب ممتازة",
+      minStudentActivePercent: "أدنى نسبة نشاط للطلاب",
+      highSessionCompletion: "نسبة إكمال حصة مرتفعة",
+      minSessionCompletion: "أدنى نسبة إكمال للحصة",
+      recommendSessionCompletion: "توصية بإبطاء الإيقاع تحت إكمال",
+      recommendResponseRate: "توصية بزيادة الاستجابة تحت",
+      recommendChatParticipation: "توصية بتشجيع المحادثة تحت",
+      recommendTemperature: "توصية بزيادة التفاعل تحت حرارة",
+      minActivityCompletion: "أدنى نسبة إكمال للنشاط",
+    },
+  },
+  {
+    key: "atRisk",
+    label: "الطلاب المعرضون للتعثر",
+    fields: {
+      lowCorrectness: "نسبة صحة منخفضة (%)",
+      exitTicketDropPoints: "تراجع تذكرة الخروج عن فحص القسم (نقطة)",
+      unansweredPollPercent: "أسئلة شوهدت دون إجابة (%)",
+      earlyExitMin: "مغادرة مبكرة قبل نهاية الحصة (دقيقة)",
+      highRiskReasons: "عدد الأسباب لخطورة مرتفعة",
+    },
+  },
+  {
+    key: "itemAnalysis",
+    label: "تحليل جودة الأسئلة",
+    fields: {
+      tooEasyPercent: "سؤال سهل جداً عند صحة (%)",
+      tooHardPercent: "سؤال صعب جداً تحت صحة (%)",
+      minDiscriminationPoints: "أدنى فرق بين المجموعة العليا والدنيا (نقطة)",
+      minExaminees: "أدنى عدد طلاب لحساب التمييز",
+    },
+  },
+];
+
+/**
+ * Admin editor for the scoring rubric the report analysis uses. Saving creates
+ * a new version and activates it; reports pick it up when they are next
+ * generated, and each report records the rubric version that produced it.
+ */
+export default function RubricAdmin() {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<RubricConfig | null>(null);
+  const [notes, setNotes] = useState("");
+  const [error, setError] = useState("");
+  const [saved, setSaved] = useState(false);
+
+  const { data, isLoading } = useQuery<RubricResponse>({
+    queryKey: ["/api/admin/rubric"],
+    queryFn: getQueryFn({ on401: "throw" }),
+  });
+
+  useEffect(() => {
+    if (data) setDraft(structuredClone(data.active.config));
+  }, [data?.active.version]);
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/admin/rubric"] });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/admin/rubric", { config: draft, notes: notes || null });
+    },
+    onSuccess: () => {
+      invalidate();
+      setNotes("");
+      setError("");
+      setSaved(true);
+    },
+    onError: (err: Error) => setError(err.message),
+  });
+
+  const activateMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("POST", `/api/admin/rubric/${id}/activate`);
+    },
+    onSuccess: () => {
+      invalidate();
+      setSaved(true);
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/admin/rubric/reset");
+    },
+    onSuccess: () => {
+      invalidate();
+      setSaved(true);
+    },
+  });
+
+  const setField = (section: string, field: string, value: string) => {
+    if (!draft) return;
+    setSaved(false);
+    setDraft({ ...draft, [section]: { ...draft[section], [field]: value === "" ? NaN : Number(value) } });
+  };
+
+  const isDirty = !!data && !!draft && JSON.stringify(draft) !== JSON.stringify(data.active.config);
+  const hasInvalid = !!draft && Object.values(draft).some((section) => Object.values(section).some((v) => isNaN(v)));
+
+  return (
+    <Card className="border-0 shadow-sm">
+      <CardHeader className="flex flex-row items-center justify-between pb-3">
+        <CardTitle className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+          <SlidersHorizontal className="w-4 h-4" />
+          معايير التقييم
+        </CardTitle>
+        {data && (
+          <div className="flex items-center gap-2">
+            <Badge variant="outline" className="text-xs">
+              {data.active.version > 0 ? `v${data.active.version}` : "الافتراضي"}
+            </Badge>
+            {data.active.version > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-xs text-gray-500"
+                disabled={resetMutation.isPending}
+                onClick={() => resetMutation.mutate()}
+              >
+                <RotateCcw className="w-3.5 h-3.5 ml-1" />
+                العودة للافتراضي
+              </Button>
+            )}
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !data || !draft ? (
+          <Skeleton className="h-40 rounded" />
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {SECTIONS.map((section) => (
+                <div key={section.key} className="bg-gray-50 rounded-lg p-3 space-y-2">
+                  <p className="text-xs font-semibold text-gray-600">{section.label}</p>
+                  {Object.entries(section.fields).map(([field, label]) => {
+                    const value = draft[section.key]?.[field];
+                    const fallback = data.defaults[section.key]?.[field];
+                    return (
+                      <div key={field} className="flex items-center gap-2">
+                        <label className="flex-1 text-xs text-gray-600">{label}</label>
+                        <Input
+                          type="number"
+                          dir="ltr"
+                          className="w-20 h-7 text-xs text-left"
+                          value={value === undefined || isNaN(value) ? "" : value}
+                          onChange={(e) => setField(section.key, field, e.target.value)}
+                        />
+                        <span className="w-10 text-[10px] text-gray-400" title="القيمة الافتراضية">{fallback}</span>
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-3">
+              <Input
+                className="text-sm flex-1"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="ملاحظات عن هذا الإصدار (اختياري)"
+              />
+              <Button
+                size="sm"
+                className="bg-teal-600 hover:bg-teal-700"
+                disabled={!isDirty || hasInvalid || saveMutation.isPending}
+                onClick={() => saveMutation.mutate()}
+              >
+                {saveMutation.isPending ? "جاري الحفظ..." : "حفظ كإصدار جديد"}
+              </Button>
+            </div>
+            {error && <p className="text-xs text-red-500" dir="ltr">{error}</p>}
+            {saved && (
+              <p className="text-xs text-gray-500">
+                تُطبَّق المعايير على التقارير عند إنشائها من جديد — استخدم «إعادة إنشاء الكل» في قسم نسخ التقارير لتحديث التقارير الحالية.
+              </p>
+            )}
+
+            {data.versions.length > 0 && (
+              <div className="divide-y">
+                {data.versions.map((v) => (
+                  <div key={v.id} className="flex items-center gap-3 py-2 text-sm">
+                    <Badge variant="outline" className="text-xs">v{v.version}</Badge>
+                    <span className="flex-1 truncate text-xs text-gray-600">{v.notes || "—"}</span>
+                    <span className="text-[11px] text-gray-400">
+                      {new Date(v.createdAt).toLocaleDateString("ar-SA")}
+                    </span>
+                    {v.isActive ? (
+                      <Badge className="text-[10px] bg-teal-100 text-teal-700 hover:bg-teal-100">فعّال</Badge>
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-xs text-teal-600"
+                        disabled={activateMutation.isPending}
+                        onClick={() => activateMutation.mutate(v.id)}
+                      >
+                        تفعيل
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,340 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Scale, Trash2 } from "lucide-react";
+import { apiRequest, getQueryFn } from "@/lib/queryClient";
+
+interface ProfileConfig {
+  criteria: Record<string, { enabled: boolean; weight: number }>;
+  passScore: number;
+  failScore: number;
+}
+
+interface ScoringProfile {
+  id: number;
+  name: string;
+  description: string | null;
+  config: ProfileConfig;
+  updatedAt: string;
+}
+
+interface ProfileAssignment {
+  id: number;
+  profileId: number;
+  scopeType: "course" | "classType";
+  scopeValue: string;
+}
+
+interface ProfilesResponse {
+  defaults: ProfileConfig;
+  profiles: ScoringProfile[];
+  assignments: ProfileAssignment[];
+  scopes: { courseIds: number[]; classTypes: string[] };
+}
+
+const CRITERIA: Record<string, string> = {
+  "1": "إتقان المحتوى والشرح",
+  "2": "دعم الطلاب وتحفيزهم",
+  "3": "التواصل وحضور المعلّم",
+  "4": "الالتزام بتصميم وخطة الدرس وإدارة الوقت",
+  "5": "أخطاء المعلم أثناء التدريس والشرح",
+  "6": "لحظات تميّز من المعلم",
+  "7": "التقييم العام والجودة",
+};
+
+const SCOPE_LABELS: Record<string, string> = {
+  course: "مقرر",
+  classType: "نوع الحصة",
+};
+
+/**
+ * Admin editor for QA scoring profiles: which criteria count toward the
+ * overall score, their weights, and the strength / improvement bands. Each
+ * profile can be assigned to courses or class types; anything unassigned
+ * uses the default profile.
+ */
+export default function ScoringProfilesAdmin() {
+  const queryClient = useQueryClient();
+  const [selectedId, setSelectedId] = useState<number | "new">("new");
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [draft, setDraft] = useState<ProfileConfig | null>(null);
+  const [error, setError] = useState("");
+  const [scopeType, setScopeType] = useState<"course" | "classType">("course");
+  const [scopeValue, setScopeValue] = useState("");
+  const [assignProfileId, setAssignProfileId] = useState("");
+
+  const { data, isLoading } = useQuery<ProfilesResponse>({
+    queryKey: ["/api/admin/scoring-profiles"],
+    queryFn: getQueryFn({ on401: "throw" }),
+  });
+
+  const selected = selectedId === "new" ? undefined : data?.profiles.find((p) => p.id === selectedId);
+
+  useEffect(() => {
+    if (!data) return;
+    setName(selected?.name ?? "");
+    setDescription(selected?.description ?? "");
+    setDraft(structuredClone(selected?.config ?? data.defaults));
+    setError("");
+  }, [data, selectedId]);
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/admin/scoring-profiles"] });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = { name, description: description || null, config: draft };
+      const res = selected
+        ? await apiRequest("PUT", `/api/admin/scoring-profiles/${selected.id}`, body)
+        : await apiRequest("POST", "/api/admin/scoring-profiles", body);
+      return (await res.json()) as ScoringProfile;
+    },
+    onSuccess: (profile) => {
+      setSelectedId(profile.id);
+      invalidate();
+    },
+    onError: (err: Error) => setError(err.message),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/admin/scoring-profiles/${id}`);
+    },
+    onSuccess: () => {
+      setSelectedId("new");
+      invalidate();
+    },
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/admin/scoring-profile-assignments", {
+        profileId: parseInt(assignProfileId),
+        scopeType,
+        scopeValue,
+      });
+    },
+    onSuccess: () => {
+      setScopeValue("");
+      setError("");
+      invalidate();
+    },
+    onError: (err: Error) => setError(err.message),
+  });
+
+  const unassignMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/admin/scoring-profile-assignments/${id}`);
+    },
+    onSuccess: invalidate,
+  });
+
+  const setCriterion = (id: string, patch: Partial<{ enabled: boolean; weight: number }>) => {
+    if (!draft) return;
+    setDraft({ ...draft, criteria: { ...draft.criteria, [id]: { ...draft.criteria[id], ...patch } } });
+  };
+
+  const toNumber = (value: string) => (value === "" ? NaN : Number(value));
+  const hasInvalid = !draft || !name.trim()
+    || isNaN(draft.passScore) || isNaN(draft.failScore)
+    || Object.values(draft.criteria).some((c) => isNaN(c.weight));
+  const profileName = (id: number) => data?.profiles.find((p) => p.id === id)?.name ?? `#${id}`;
+  const scopeOptions = scopeType === "course"
+    ? (data?.scopes.courseIds ?? []).map(String)
+    : data?.scopes.classTypes ?? [];
+
+  return (
+    <Card className="border-0 shadow-sm">
+      <CardHeader className="flex flex-row items-center justify-between pb-3">
+        <CardTitle className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+          <Scale className="w-4 h-4" />
+          ملفات أوزان التقييم
+        </CardTitle>
+        {data && (
+          <select
+            className="border rounded-md px-2 py-1 text-xs bg-white"
+            value={selectedId}
+            onChange={(e) => setSelectedId(e.target.value === "new" ? "new" : parseInt(e.target.value))}
+          >
+            <option value="new">+ ملف جديد</option>
+            {data.profiles.map((p) => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !data || !draft ? (
+          <Skeleton className="h-40 rounded" />
+        ) : (
+          <>
+            <div className="flex items-center gap-3">
+              <Input
+                className="text-sm w-56"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="اسم الملف"
+              />
+              <Input
+                className="text-sm flex-1"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="وصف (اختياري)"
+              />
+            </div>
+
+            <div className="bg-gray-50 rounded-lg p-3 space-y-2">
+              <p className="text-xs font-semibold text-gray-600">المعايير والأوزان</p>
+              {Object.entries(CRITERIA).map(([id, label]) => {
+                const setting = draft.criteria[id];
+                return (
+                  <div key={id} className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={setting.enabled}
+                      onChange={(e) => setCriterion(id, { enabled: e.target.checked })}
+                    />
+                    <label className={`flex-1 text-xs ${setting.enabled ? "text-gray-600" : "text-gray-400 line-through"}`}>
+                      {id}. {label}
+                    </label>
+                    <Input
+                      type="number"
+                      dir="ltr"
+                      step="0.5"
+                      className="w-20 h-7 text-xs text-left"
+                      disabled={!setting.enabled}
+                      value={isNaN(setting.weight) ? "" : setting.weight}
+                      onChange={(e) => setCriterion(id, { weight: toNumber(e.target.value) })}
+                    />
+                  </div>
+                );
+              })}
+              <p className="text-[11px] text-gray-400">
+                درجة المعيار 7 هي المتوسط الموزون للمعايير 1–6 المفعّلة.
+              </p>
+            </div>
+
+            <div className="flex items-center gap-4">
+              <label className="flex items-center gap-2 text-xs text-gray-600">
+                نقطة القوة من
+                <Input
+                  type="number"
+                  dir="ltr"
+                  className="w-16 h-7 text-xs text-left"
+                  value={isNaN(draft.passScore) ? "" : draft.passScore}
+                  onChange={(e) => setDraft({ ...draft, passScore: toNumber(e.target.value) })}
+                />
+              </label>
+              <label className="flex items-center gap-2 text-xs text-gray-600">
+                يحتاج تحسين تحت
+                <Input
+                  type="number"
+                  dir="ltr"
+                  className="w-16 h-7 text-xs text-left"
+                  value={isNaN(draft.failScore) ? "" : draft.failScore}
+                  onChange={(e) => setDraft({ ...draft, failScore: toNumber(e.target.value) })}
+                />
+              </label>
+              <div className="flex-1" />
+              {selected && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-xs text-red-500"
+                  disabled={deleteMutation.isPending}
+                  onClick={() => deleteMutation.mutate(selected.id)}
+                >
+                  <Trash2 className="w-3.5 h-3.5 ml-1" />
+                  حذف
+                </Button>
+              )}
+              <Button
+                size="sm"
+                className="bg-teal-600 hover:bg-teal-700"
+                disabled={hasInvalid || saveMutation.isPending}
+                onClick={() => saveMutation.mutate()}
+              >
+                {saveMutation.isPending ? "جاري الحفظ..." : selected ? "حفظ التعديلات" : "إنشاء الملف"}
+              </Button>
+            </div>
+            {error && <p className="text-xs text-red-500" dir="ltr">{error}</p>}
+
+            <div className="border-t pt-3 space-y-2">
+              <p className="text-xs font-semibold text-gray-600">التعيينات</p>
+              {data.assignments.length === 0 ? (
+                <p className="text-xs text-gray-400">لا توجد تعيينات — جميع الحصص تستخدم الملف الافتراضي.</p>
+              ) : (
+                <div className="divide-y">
+                  {data.assignments.map((a) => (
+                    <div key={a.id} className="flex items-center gap-3 py-2 text-sm">
+                      <Badge variant="outline" className="text-xs">{SCOPE_LABELS[a.scopeType]}</Badge>
+                      <span className="text-xs text-gray-700" dir="ltr">{a.scopeValue}</span>
+                      <span className="flex-1 text-xs text-gray-500">← {profileName(a.profileId)}</span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-xs text-gray-400"
+                        disabled={unassignMutation.isPending}
+                        onClick={() => unassignMutation.mutate(a.id)}
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {data.profiles.length > 0 && (
+                <div className="flex items-center gap-2">
+                  <select
+                    className="border rounded-md px-2 py-1 text-xs bg-white"
+                    value={scopeType}
+                    onChange={(e) => setScopeType(e.target.value as "course" | "classType")}
+                  >
+                    <option value="course">{SCOPE_LABELS.course}</option>
+                    <option value="classType">{SCOPE_LABELS.classType}</option>
+                  </select>
+                  <Input
+                    dir="ltr"
+                    list="scoring-profile-scopes"
+                    className="text-left text-xs h-8 w-40"
+                    value={scopeValue}
+                    onChange={(e) => setScopeValue(e.target.value)}
+                    placeholder={scopeType === "course" ? "Course ID" : "Class type"}
+                  />
+                  <datalist id="scoring-profile-scopes">
+                    {scopeOptions.map((v) => <option key={v} value={v} />)}
+                  </datalist>
+                  <select
+                    className="border rounded-md px-2 py-1 text-xs bg-white"
+                    value={assignProfileId}
+                    onChange={(e) => setAssignProfileId(e.target.value)}
+                  >
+                    <option value="">اختر الملف</option>
+                    {data.profiles.map((p) => (
+                      <option key={p.id} value={p.id}>{p.name}</option>
+                    ))}
+                  </select>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={!scopeValue.trim() || !assignProfileId || assignMutation.isPending}
+                    onClick={() => assignMutation.mutate()}
+                  >
+                    تعيين
+                  </Button>
+                </div>
+              )}
+              <p className="text-[11px] text-gray-400">
+                تعيين المقرر يتقدّم على تعيين نوع الحصة. تُطبَّق التغييرات على التقارير عند إنشائها من جديد.
+              </p>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ChevronLeft, ChevronRight, Search } from "lucide-react";
+
+export interface SessionListItem {
+  courseSessionId: number;
+  courseSessionName: string | null;
+  courseId: number | null;
+  courseSessionClassType: string | null;
+  scheduledStartTime: string | null;
+  teachingTime: number | null;
+  sessionTemperature: number | null;
+  courseSessionStatus: string | null;
+  teacherDbId: number | null;
+  teacherName: string | null;
+}
+
+interface SessionListResponse {
+  sessions: SessionListItem[];
+  total: number;
+  page: number;
+  pageSize: number;
+  statuses: string[];
+}
+
+const PAGE_SIZE = 10;
+
+/** Filterable, paginated list of sessions for choosing which report to open. */
+export default function SessionPicker({ selectedId, onSelect }: { selectedId?: number; onSelect: (sessionId: number) => void }) {
+  const [courseId, setCourseId] = useState("");
+  const [status, setStatus] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [page, setPage] = useState(1);
+
+  const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+  if (courseId) params.set("courseId", courseId);
+  if (status) params.set("status", status);
+  if (from) params.set("from", from);
+  if (to) params.set("to", to);
+
+  const { data, isLoading } = useQuery<SessionListResponse>({
+    queryKey: [`/api/sessions?${params.toString()}`],
+  });
+
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
+  return (
+    <Card data-testid="card-session-picker">
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <label className="text-xs text-muted-foreground">Course ID</label>
+            <div className="relative">
+              <Search className="absolute left-2 top-2.5 h-3.5 w-3.5 text-muted-foreground" />
+              <Input
+                className="pl-7 h-9 w-36 text-sm"
+                inputMode="numeric"
+                value={courseId}
+                onChange={(e) => updateFilter(setCourseId)(e.target.value.replace(/\D/g, ""))}
+                data-testid="input-filter-course"
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs text-muted-foreground">Status</label>
+            <select
+              value={status}
+              onChange={(e) => updateFilter(setStatus)(e.target.value)}
+              className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+              data-testid="select-filter-status"
+            >
+              <option value="">All</option>
+              {(data?.statuses || []).map((s) => (
+                <option key={s} value={s}>{s}</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs text-muted-foreground">From</label>
+            <Input type="date" className="h-9 text-sm" value={from} onChange={(e) => updateFilter(setFrom)(e.target.value)} data-testid="input-filter-from" />
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs text-muted-foreground">To</label>
+            <Input type="date" className="h-9 text-sm" value={to} onChange={(e) => updateFilter(setTo)(e.target.value)} data-testid="input-filter-to" />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map((i) => <Skeleton key={i} className="h-10" />)}
+          </div>
+        ) : !data || data.sessions.length === 0 ? (
+          <p className="text-sm text-muted-foreground" data-testid="text-no-sessions">No sessions match these filters.</p>
+        ) : (
+          <div className="divide-y rounded-md border">
+            {data.sessions.map((s) => (
+              <button
+                key={s.courseSessionId}
+                type="button"
+                onClick={() => onSelect(s.courseSessionId)}
+                className={`w-full flex items-center gap-3 px-3 py-2 text-left text-sm hover-elevate ${
+                  s.courseSessionId === selectedId ? "bg-primary/10" : ""
+                }`}
+                data-testid={`button-session-${s.courseSessionId}`}
+              >
+                <span className="font-medium w-16 shrink-0">{s.courseSessionId}</span>
+                <span className="flex-1 truncate">{s.courseSessionName || "Untitled session"}</span>
+                {s.teacherName && <span className="text-xs text-muted-foreground truncate max-w-[10rem]">{s.teacherName}</span>}
+                <span className="text-xs text-muted-foreground w-24 shrink-0">
+                  {s.scheduledStartTime ? s.scheduledStartTime.slice(0, 10) : "—"}
+                </span>
+                {s.courseSessionStatus && <Badge variant="outline" className="text-xs">{s.courseSessionStatus}</Badge>}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {data && data.total > data.pageSize && (
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span>{data.total} sessions</span>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)} data-testid="button-page-prev">
+                <ChevronLeft className="h-3.5 w-3.5" />
+              </Button>
+              <span>Page {page} of {totalPages}</span>
+              <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)} data-testid="button-page-next">
+                <ChevronRight className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,158 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { TrendingUp, TrendingDown, Minus, LineChart as LineChartIcon } from "lucide-react";
+
+interface TrendPoint {
+  courseSessionId: number;
+  courseSessionName: string | null;
+  scheduledStartTime: string | null;
+  value: number;
+  rollingAverage: number;
+  delta: number | null;
+}
+
+interface TrendSeries {
+  key: string;
+  label: string;
+  labelAr: string;
+  scale: { min: number; max: number };
+  points: TrendPoint[];
+  change: number;
+  direction: "improving" | "declining" | "steady";
+  movers: { courseSessionId: number; courseSessionName: string | null; delta: number }[];
+}
+
+interface TeacherTrendsResponse {
+  teacherId: number;
+  sessionCount: number;
+  window: number;
+  series: TrendSeries[];
+}
+
+const DIRECTIONS = {
+  improving: { label: "تحسّن", icon: TrendingUp, className: "text-emerald-600 border-emerald-200" },
+  declining: { label: "تراجع", icon: TrendingDown, className: "text-red-600 border-red-200" },
+  steady: { label: "ثابت", icon: Minus, className: "text-gray-500 border-gray-200" },
+};
+
+const chartConfig = {
+  value: { label: "الحصة", color: "#0d9488" },
+  rollingAverage: { label: "المتوسط المتحرك", color: "#94a3b8" },
+} satisfies ChartConfig;
+
+function shortDate(iso: string | null) {
+  return iso ? new Date(iso).toLocaleDateString("ar-SA", { month: "short", day: "numeric" }) : "—";
+}
+
+/**
+ * A teacher's QA, communication and correctness scores across their
+ * sessions. Clicking a point, or one of the sessions that moved the line
+ * most, opens that session's report.
+ */
+export default function TeacherTrends({ teacherId }: { teacherId: number }) {
+  const [, setLocation] = useLocation();
+  const [selectedKey, setSelectedKey] = useState("overall");
+
+  const { data, isLoading } = useQuery<TeacherTrendsResponse>({
+    queryKey: ["/api/teachers", teacherId, "trends"],
+  });
+
+  if (isLoading) return <Skeleton className="h-72 rounded-xl" />;
+  if (!data || data.sessionCount < 2) return null;
+
+  const series = data.series.find((s) => s.key === selectedKey) ?? data.series[0];
+  if (!series) return null;
+  const chartData = series.points.map((p) => ({ ...p, date: shortDate(p.scheduledStartTime) }));
+  const openSession = (courseSessionId: number) => setLocation(`/teacher/session/${courseSessionId}`);
+
+  return (
+    <Card className="border-0 shadow-sm">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+          <LineChartIcon className="w-4 h-4" />
+          تطور الأداء عبر الحصص
+          <span className="text-xs font-normal text-gray-400">({data.sessionCount} حصة)</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {data.series.map((s) => {
+            const direction = DIRECTIONS[s.direction];
+            const Icon = direction.icon;
+            return (
+              <button
+                key={s.key}
+                type="button"
+                onClick={() => setSelectedKey(s.key)}
+                className={`flex items-center gap-1.5 rounded-full border px-3 py-1 text-xs ${s.key === series.key ? "bg-teal-50 border-teal-300 text-teal-700" : "bg-white text-gray-600"}`}
+              >
+                <span>{s.labelAr}</span>
+                <Icon className={`w-3.5 h-3.5 ${direction.className.split(" ")[0]}`} />
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Badge variant="outline" className={`text-xs ${DIRECTIONS[series.direction].className}`}>
+            {DIRECTIONS[series.direction].label}
+          </Badge>
+          <span className="text-xs text-gray-500" dir="ltr">
+            {series.change > 0 ? "+" : ""}{series.change} / {series.scale.max}
+          </span>
+          <span className="text-xs text-gray-400">المتوسط المتحرك لآخر {data.window} حصص</span>
+        </div>
+
+        <div dir="ltr">
+          <ChartContainer config={chartConfig} className="h-56 w-full aspect-auto">
+            <LineChart
+              data={chartData}
+              margin={{ top: 8, right: 12, left: 0, bottom: 0 }}
+              className="cursor-pointer"
+              onClick={(state: any) => {
+                const point = state?.activePayload?.[0]?.payload as TrendPoint | undefined;
+                if (point) openSession(point.courseSessionId);
+              }}
+            >
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="date" tickLine={false} axisLine={false} />
+              <YAxis domain={[series.scale.min, series.scale.max]} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip
+                content={<ChartTooltipContent labelFormatter={(_, payload) => payload?.[0]?.payload?.courseSessionName ?? ""} />}
+              />
+              <Line dataKey="value" type="monotone" stroke="var(--color-value)" strokeWidth={2} dot={{ r: 3 }} activeDot={{ r: 5 }} />
+              <Line dataKey="rollingAverage" type="monotone" stroke="var(--color-rollingAverage)" strokeDasharray="4 4" dot={false} />
+            </LineChart>
+          </ChartContainer>
+        </div>
+
+        {series.movers.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-xs font-semibold text-gray-600">الحصص الأكثر تأثيراً على المؤشر</p>
+            <div className="flex flex-wrap gap-2">
+              {series.movers.map((m) => (
+                <button
+                  key={m.courseSessionId}
+                  type="button"
+                  onClick={() => openSession(m.courseSessionId)}
+                  className="flex items-center gap-1.5 rounded-md border bg-white px-2 py-1 text-xs text-gray-700 hover:bg-gray-50"
+                >
+                  <span>{m.courseSessionName ?? m.courseSessionId}</span>
+                  <span className={m.delta > 0 ? "text-emerald-600" : "text-red-600"} dir="ltr">
+                    {m.delta > 0 ? "+" : ""}{m.delta}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
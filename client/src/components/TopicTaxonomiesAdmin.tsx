@@ -0,0 +1,262 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Plus, Tags, Trash2, X } from "lucide-react";
+import { apiRequest, getQueryFn } from "@/lib/queryClient";
+
+interface TaxonomyTerm {
+  pattern: string;
+  label: string;
+}
+
+interface TaxonomyConfig {
+  subject: string;
+  name: string;
+  keywords: string[];
+  terms: TaxonomyTerm[];
+}
+
+interface StoredTaxonomy extends TaxonomyConfig {
+  id: number;
+  updatedAt: string;
+}
+
+interface TaxonomiesResponse {
+  builtIn: TaxonomyConfig[];
+  custom: StoredTaxonomy[];
+}
+
+const EMPTY: TaxonomyConfig = { subject: "", name: "", keywords: [], terms: [{ pattern: "", label: "" }] };
+
+/**
+ * Admin editor for the per-subject topic taxonomies that label transcript
+ * segments. Saving a taxonomy under a built-in's subject key overrides it;
+ * deleting the saved copy restores the built-in.
+ */
+export default function TopicTaxonomiesAdmin() {
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState("new");
+  const [draft, setDraft] = useState<TaxonomyConfig>(EMPTY);
+  const [keywordsText, setKeywordsText] = useState("");
+  const [error, setError] = useState("");
+  const [sessionName, setSessionName] = useState("");
+  const [matched, setMatched] = useState<{ subject: string; name: string } | null>(null);
+
+  const { data, isLoading } = useQuery<TaxonomiesResponse>({
+    queryKey: ["/api/admin/topic-taxonomies"],
+    queryFn: getQueryFn({ on401: "throw" }),
+  });
+
+  const customBySubject = new Map((data?.custom ?? []).map((t) => [t.subject, t]));
+  const subjects = Array.from(new Set([...(data?.builtIn ?? []).map((t) => t.subject), ...Array.from(customBySubject.keys())]));
+  const builtInSubjects = new Set((data?.builtIn ?? []).map((t) => t.subject));
+  const stored = customBySubject.get(selected);
+
+  useEffect(() => {
+    if (!data) return;
+    const source = selected === "new"
+      ? EMPTY
+      : customBySubject.get(selected) ?? data.builtIn.find((t) => t.subject === selected) ?? EMPTY;
+    setDraft(structuredClone({ subject: source.subject, name: source.name, keywords: source.keywords, terms: source.terms }));
+    setKeywordsText(source.keywords.join("، "));
+    setError("");
+  }, [data, selected]);
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/admin/topic-taxonomies"] });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const keywords = keywordsText.split(/[,،\n]/).map((k) => k.trim()).filter(Boolean);
+      const terms = draft.terms.filter((t) => t.pattern.trim() && t.label.trim());
+      await apiRequest("POST", "/api/admin/topic-taxonomies", { ...draft, keywords, terms });
+    },
+    onSuccess: () => {
+      setSelected(draft.subject);
+      setError("");
+      invalidate();
+    },
+    onError: (err: Error) => setError(err.message),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/admin/topic-taxonomies/${id}`);
+    },
+    onSuccess: () => {
+      if (!builtInSubjects.has(selected)) setSelected("new");
+      invalidate();
+    },
+  });
+
+  const matchMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("GET", `/api/admin/topic-taxonomies/match?sessionName=${encodeURIComponent(sessionName)}`);
+      return (await res.json()) as { subject: string; name: string };
+    },
+    onSuccess: setMatched,
+  });
+
+  const setTerm = (index: number, patch: Partial<TaxonomyTerm>) => {
+    setDraft({ ...draft, terms: draft.terms.map((t, i) => (i === index ? { ...t, ...patch } : t)) });
+  };
+
+  const canSave = !!draft.subject.trim() && !!draft.name.trim()
+    && draft.terms.some((t) => t.pattern.trim() && t.label.trim());
+
+  return (
+    <Card className="border-0 shadow-sm">
+      <CardHeader className="flex flex-row items-center justify-between pb-3">
+        <CardTitle className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+          <Tags className="w-4 h-4" />
+          تصنيفات المواضيع حسب المادة
+        </CardTitle>
+        {data && (
+          <select
+            className="border rounded-md px-2 py-1 text-xs bg-white"
+            value={selected}
+            onChange={(e) => setSelected(e.target.value)}
+          >
+            <option value="new">+ تصنيف جديد</option>
+            {subjects.map((subject) => (
+              <option key={subject} value={subject}>
+                {customBySubject.get(subject)?.name ?? data.builtIn.find((t) => t.subject === subject)?.name ?? subject}
+                {builtInSubjects.has(subject) ? (customBySubject.has(subject) ? " (معدّل)" : " (مدمج)") : ""}
+              </option>
+            ))}
+          </select>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !data ? (
+          <Skeleton className="h-40 rounded" />
+        ) : (
+          <>
+            <div className="flex items-center gap-3">
+              <Input
+                dir="ltr"
+                className="text-left text-sm w-48"
+                value={draft.subject}
+                disabled={selected !== "new"}
+                onChange={(e) => setDraft({ ...draft, subject: e.target.value.toLowerCase() })}
+                placeholder="subject-key"
+              />
+              <Input
+                className="text-sm flex-1"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="اسم التصنيف"
+              />
+            </div>
+            <div className="space-y-1">
+              <Input
+                className="text-sm"
+                value={keywordsText}
+                onChange={(e) => setKeywordsText(e.target.value)}
+                placeholder="كلمات في اسم الحصة تختار هذا التصنيف، مفصولة بفواصل"
+              />
+              <p className="text-[11px] text-gray-400">
+                يُختار التصنيف عندما يحتوي موضوع الحصة (اسمها دون رقم المستوى) على إحدى هذه الكلمات.
+              </p>
+            </div>
+
+            <div className="bg-gray-50 rounded-lg p-3 space-y-2">
+              <p className="text-xs font-semibold text-gray-600">المصطلحات (نمط عربي ← عنوان إنجليزي)</p>
+              {draft.terms.map((term, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <Input
+                    dir="rtl"
+                    className="h-7 text-xs flex-1 font-mono"
+                    value={term.pattern}
+                    onChange={(e) => setTerm(i, { pattern: e.target.value })}
+                    placeholder="الوتر|وتر"
+                  />
+                  <Input
+                    dir="ltr"
+                    className="h-7 text-xs w-48 text-left"
+                    value={term.label}
+                    onChange={(e) => setTerm(i, { label: e.target.value })}
+                    placeholder="Chord"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-gray-400"
+                    onClick={() => setDraft({ ...draft, terms: draft.terms.filter((_, j) => j !== i) })}
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-xs text-teal-600"
+                onClick={() => setDraft({ ...draft, terms: [...draft.terms, { pattern: "", label: "" }] })}
+              >
+                <Plus className="w-3.5 h-3.5 ml-1" />
+                إضافة مصطلح
+              </Button>
+            </div>
+
+            <div className="flex items-center gap-3">
+              <div className="flex-1" />
+              {stored && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-xs text-red-500"
+                  disabled={deleteMutation.isPending}
+                  onClick={() => deleteMutation.mutate(stored.id)}
+                >
+                  <Trash2 className="w-3.5 h-3.5 ml-1" />
+                  {builtInSubjects.has(stored.subject) ? "استعادة المدمج" : "حذف"}
+                </Button>
+              )}
+              <Button
+                size="sm"
+                className="bg-teal-600 hover:bg-teal-700"
+                disabled={!canSave || saveMutation.isPending}
+                onClick={() => saveMutation.mutate()}
+              >
+                {saveMutation.isPending ? "جاري الحفظ..." : "حفظ التصنيف"}
+              </Button>
+            </div>
+            {error && <p className="text-xs text-red-500" dir="ltr">{error}</p>}
+
+            <div className="border-t pt-3 flex items-center gap-3">
+              <Input
+                className="text-sm w-56"
+                value={sessionName}
+                onChange={(e) => {
+                  setSessionName(e.target.value);
+                  setMatched(null);
+                }}
+                placeholder="اسم حصة للتجربة، مثل الدائرةL2"
+              />
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={!sessionName.trim() || matchMutation.isPending}
+                onClick={() => matchMutation.mutate()}
+              >
+                أي تصنيف يُطبَّق؟
+              </Button>
+              {matched && (
+                <Badge variant="outline" className="text-xs">
+                  {matched.subject === "general" ? "عام — لا يوجد تصنيف مطابق" : matched.name}
+                </Badge>
+              )}
+            </div>
+            <p className="text-[11px] text-gray-400">
+              تُطبَّق التغييرات على التقارير عند إنشائها من جديد.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -13,6 +13,14 @@ import {
   Plus, ShieldCheck, UserX, UserCheck, ChevronLeft, BarChart3,
 } from "lucide-react";
 import { apiRequest, getQueryFn } from "@/lib/queryClient";
+import ColumnMappingsAdmin from "@/components/ColumnMappingsAdmin";
+import ReportSnapshotsAdmin from "@/components/ReportSnapshotsAdmin";
+import RubricAdmin from "@/components/RubricAdmin";
+import ScoringProfilesAdmin from "@/components/ScoringProfilesAdmin";
+import TopicTaxonomiesAdmin from "@/components/TopicTaxonomiesAdmin";
+import DialectLexiconsAdmin from "@/components/DialectLexiconsAdmin";
+import QuestionBankAdmin from "@/components/QuestionBankAdmin";
+import CoursesAdmin from "@/components/CoursesAdmin";
 
 interface TeacherRow {
   id: number;
@@ -387,6 +395,30 @@ export default function AdminDashboard() {
             )}
           </CardContent>
         </Card>
+
+        {/* Course Reports */}
+        <CoursesAdmin />
+
+        {/* Scoring Rubric */}
+        <RubricAdmin />
+
+        {/* Scoring Profiles */}
+        <ScoringProfilesAdmin />
+
+        {/* Topic Taxonomies */}
+        <TopicTaxonomiesAdmin />
+
+        {/* Dialect Lexicons */}
+        <DialectLexiconsAdmin />
+
+        {/* Question Bank */}
+        <QuestionBankAdmin />
+
+        {/* Report Snapshots */}
+        <ReportSnapshotsAdmin />
+
+        {/* Import Column Mappings */}
+        <ColumnMappingsAdmin />
       </main>
     </div>
   );
@@ -0,0 +1,309 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation, useSearch } from "wouter";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { SectionHeading } from "./dashboard";
+import {
+  Columns2, ClipboardCheck, BarChart3, Clock, Mic, MessageSquare, Sparkles,
+} from "lucide-react";
+
+interface CompareRow {
+  key: string;
+  label: string;
+  unit: "score" | "percent" | "minutes" | "communication" | "breakdown";
+  values: (number | null)[];
+  spread: number | null;
+  significant: boolean;
+}
+
+interface CompareSession {
+  courseSessionId: number;
+  snapshotId: number;
+  courseSessionName: string | null;
+  teacherName: string | null;
+  scheduledStartTime: string | null;
+  topic: string | null;
+  level: string | null;
+}
+
+interface CompareData {
+  sessions: CompareSession[];
+  criteria: CompareRow[];
+  activities: { activityType: string; label: string; instances: number[]; correctness: CompareRow; duration: CompareRow }[];
+  time: CompareRow[];
+  communication: CompareRow[];
+  engagement: { minute: number; counts: number[] }[];
+  highlights: { key: string; text: string }[];
+}
+
+const MIN_SESSIONS = 2;
+
+/** One line colour per compared session, in column order. */
+const SESSION_COLORS = ["#0d9488", "#d97706", "#6366f1", "#db2777", "#65a30d", "#0284c7"];
+
+function parseIds(value: string): number[] {
+  const ids = value.split(/[\s,]+/).map(v => parseInt(v)).filter(n => !isNaN(n) && n > 0);
+  return Array.from(new Set(ids));
+}
+
+function sessionLabel(session: CompareSession) {
+  return session.courseSessionName || `Session ${session.courseSessionId}`;
+}
+
+function formatValue(row: CompareRow, value: number | null) {
+  if (value === null) return "—";
+  if (row.unit === "percent") return `${value}%`;
+  if (row.unit === "minutes") return `${value} min`;
+  if (row.unit === "score") return `${value}/5`;
+  return String(value);
+}
+
+function CompareTable({ rows, sessions, testId }: { rows: CompareRow[]; sessions: CompareSession[]; testId: string }) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm" data-testid={testId}>
+        <thead>
+          <tr className="border-b">
+            <th className="pb-3 pl-4 text-left font-medium text-muted-foreground">Metric</th>
+            {sessions.map((s) => (
+              <th key={s.courseSessionId} className="pb-3 pl-4 text-left font-medium text-muted-foreground">
+                #{s.courseSessionId}
+              </th>
+            ))}
+            <th className="pb-3 text-left font-medium text-muted-foreground">Spread</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr
+              key={row.key}
+              className={`border-b last:border-0 ${row.significant ? "bg-amber-50 dark:bg-amber-950/30" : ""}`}
+              data-testid={`row-compare-${row.key}`}
+            >
+              <td className="py-3 pl-4 font-medium">{row.label}</td>
+              {row.values.map((value, i) => (
+                <td key={i} className="py-3 pl-4 tabular-nums">{formatValue(row, value)}</td>
+              ))}
+              <td className="py-3 tabular-nums">
+                {row.spread === null ? "—" : (
+                  <span className={row.significant ? "font-semibold text-amber-700 dark:text-amber-400" : "text-muted-foreground"}>
+                    {row.spread}
+                  </span>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/**
+ * Side-by-side view of two or more sessions' latest reports, kept in
+ * `?sessions=1,2`. Rows whose values differ by more than the server's
+ * significance threshold are highlighted and summarised at the top.
+ */
+export default function ComparePage() {
+  const search = useSearch();
+  const [, setLocation] = useLocation();
+  const ids = parseIds(new URLSearchParams(search).get("sessions") || "");
+  const [idsText, setIdsText] = useState(ids.join(", "));
+
+  const { data, isLoading, error } = useQuery<CompareData>({
+    queryKey: [`/api/compare?sessions=${ids.join(",")}`],
+    enabled: ids.length >= MIN_SESSIONS,
+  });
+
+  const chartConfig = Object.fromEntries(
+    (data?.sessions ?? []).map((s, i) => [`s${i}`, { label: sessionLabel(s), color: SESSION_COLORS[i % SESSION_COLORS.length] }]),
+  ) satisfies ChartConfig;
+  const engagementData = (data?.engagement ?? []).map((e) => ({
+    minute: e.minute,
+    ...Object.fromEntries(e.counts.map((c, i) => [`s${i}`, c])),
+  }));
+
+  return (
+    <div className="min-h-screen bg-background" data-testid="compare-page">
+      <div className="max-w-6xl mx-auto px-4 py-8 space-y-8">
+        <div className="rounded-md bg-[hsl(43,55%,70%)]/15 dark:bg-[hsl(43,40%,30%)]/20 border border-[hsl(43,55%,70%)]/30 dark:border-[hsl(43,40%,40%)]/30 p-5 space-y-3" data-testid="compare-header">
+          <div className="flex items-center gap-3 flex-wrap">
+            <div className="flex items-center justify-center h-9 w-9 rounded-md bg-primary/15 text-primary">
+              <Columns2 className="h-5 w-5" />
+            </div>
+            <h1 className="text-2xl font-bold tracking-tight">Compare Sessions</h1>
+          </div>
+          <form
+            className="flex items-center gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              setLocation(`/compare?sessions=${parseIds(idsText).join(",")}`);
+            }}
+          >
+            <Input
+              className="max-w-sm"
+              value={idsText}
+              onChange={(e) => setIdsText(e.target.value)}
+              placeholder="Session IDs, e.g. 101, 102"
+              data-testid="input-compare-sessions"
+            />
+            <Button type="submit" size="sm" data-testid="button-compare">Compare</Button>
+          </form>
+          {data && (
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-x-6 gap-y-2 text-sm">
+              {data.sessions.map((s, i) => (
+                <button
+                  key={s.courseSessionId}
+                  type="button"
+                  className="text-left hover:underline"
+                  onClick={() => setLocation(`/?session=${s.courseSessionId}`)}
+                  data-testid={`link-compare-session-${s.courseSessionId}`}
+                >
+                  <span className="inline-block h-2.5 w-2.5 rounded-full mr-2" style={{ backgroundColor: SESSION_COLORS[i % SESSION_COLORS.length] }} />
+                  <span className="font-medium">#{s.courseSessionId} {sessionLabel(s)}</span>
+                  <span className="block text-muted-foreground text-xs pl-4">
+                    {s.teacherName || "Unknown teacher"}
+                    {s.scheduledStartTime ? ` · ${new Date(s.scheduledStartTime).toLocaleDateString()}` : ""}
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {ids.length < MIN_SESSIONS ? (
+          <p className="text-sm text-muted-foreground" data-testid="text-compare-empty">
+            Enter at least {MIN_SESSIONS} session IDs to compare.
+          </p>
+        ) : isLoading ? (
+          <div className="space-y-6">
+            <Skeleton className="h-32 w-full" />
+            <Skeleton className="h-64 w-full" />
+          </div>
+        ) : error || !data ? (
+          <Card className="max-w-md" data-testid="compare-error">
+            <CardHeader>
+              <CardTitle className="text-lg">Failed to compare sessions</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-muted-foreground text-sm">{error ? (error as Error).message : "No data"}</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <div className="space-y-3">
+              <SectionHeading
+                icon={<Sparkles className="h-4 w-4" />}
+                title="Significant Differences"
+                badge={String(data.highlights.length)}
+                testId="heading-compare-highlights"
+              />
+              <Card data-testid="card-compare-highlights">
+                <CardContent className="pt-6">
+                  {data.highlights.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">These sessions are close on every compared metric.</p>
+                  ) : (
+                    <ul className="space-y-1.5 text-sm list-disc pl-5">
+                      {data.highlights.map((h) => <li key={h.key}>{h.text}</li>)}
+                    </ul>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="space-y-3">
+              <SectionHeading icon={<ClipboardCheck className="h-4 w-4" />} title="QA Evaluation" testId="heading-compare-criteria" />
+              <Card>
+                <CardContent className="pt-6">
+                  <CompareTable rows={data.criteria} sessions={data.sessions} testId="table-compare-criteria" />
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="space-y-3">
+              <SectionHeading icon={<BarChart3 className="h-4 w-4" />} title="Activities" testId="heading-compare-activities" />
+              <Card>
+                <CardContent className="pt-6 space-y-4">
+                  <div className="flex flex-wrap gap-2">
+                    {data.activities.map((a) => (
+                      <Badge key={a.activityType} variant="secondary" className="text-xs">
+                        {a.label}: {a.instances.join(" / ")}
+                      </Badge>
+                    ))}
+                  </div>
+                  <CompareTable
+                    rows={data.activities.flatMap((a) => [a.correctness, a.duration])}
+                    sessions={data.sessions}
+                    testId="table-compare-activities"
+                  />
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="space-y-3">
+              <SectionHeading icon={<Clock className="h-4 w-4" />} title="Time Distribution" testId="heading-compare-time" />
+              <Card>
+                <CardContent className="pt-6">
+                  <CompareTable rows={data.time} sessions={data.sessions} testId="table-compare-time" />
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="space-y-3">
+              <SectionHeading icon={<Mic className="h-4 w-4" />} title="Teacher Communication" testId="heading-compare-communication" />
+              <Card>
+                <CardContent className="pt-6">
+                  <CompareTable rows={data.communication} sessions={data.sessions} testId="table-compare-communication" />
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="space-y-3">
+              <SectionHeading
+                icon={<MessageSquare className="h-4 w-4" />}
+                title="Engagement Timeline"
+                badge="chats + reactions per minute"
+                testId="heading-compare-engagement"
+              />
+              <Card data-testid="card-compare-engagement">
+                <CardContent className="pt-6">
+                  {engagementData.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No chat or reaction activity recorded.</p>
+                  ) : (
+                    <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+                      <LineChart data={engagementData} margin={{ top: 8, right: 12, left: 0, bottom: 0 }}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="minute" tickLine={false} axisLine={false} tickFormatter={(m) => `${m}m`} />
+                        <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                        <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `Minute ${payload?.[0]?.payload?.minute ?? ""}`} />} />
+                        {data.sessions.map((_, i) => (
+                          <Line key={i} dataKey={`s${i}`} type="monotone" stroke={`var(--color-s${i})`} strokeWidth={2} dot={false} />
+                        ))}
+                      </LineChart>
+                    </ChartContainer>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card className="border-dashed">
+              <CardContent className="pt-6">
+                <p className="text-xs text-muted-foreground">
+                  Each column uses the session's latest stored report. Highlighted rows differ by at least 1 point on a
+                  QA criterion, 15 percentage points, 5 minutes, 15 communication points or 5 points on a communication
+                  component. Engagement minutes count from the teacher's start time.
+                </p>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
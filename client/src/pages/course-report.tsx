@@ -0,0 +1,280 @@
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import {
+  AlertTriangle, BookOpen, ChevronLeft, ClipboardCheck, GraduationCap, ShieldCheck, Users, TrendingUp,
+} from "lucide-react";
+import { getQueryFn } from "@/lib/queryClient";
+
+interface CourseSessionRow {
+  courseSessionId: number;
+  courseSessionName: string | null;
+  scheduledStartTime: string | null;
+  teacherName: string | null;
+  hasReport: boolean;
+  attendance: number | null;
+  completionPercent: number | null;
+  correctness: number | null;
+  overallScore: number | null;
+}
+
+interface CourseReportData {
+  courseId: number;
+  sessionCount: number;
+  reportedSessions: number;
+  firstSessionAt: string | null;
+  lastSessionAt: string | null;
+  sessions: CourseSessionRow[];
+  activityTypes: { activityType: string; label: string; instances: number; avgCorrectness: number | null }[];
+  confusionTopics: { topic: string; occurrences: number; sessions: number }[];
+  teachers: { teacherDbId: number | null; teacherName: string | null; sessions: number; avgOverallScore: number | null }[];
+  criteria: { id: number; nameEn: string; nameAr: string; sessions: number; average: number | null }[];
+}
+
+const curveConfig = {
+  attendance: { label: "الحضور", color: "#0d9488" },
+  completionPercent: { label: "نسبة الإكمال %", color: "#f59e0b" },
+} satisfies ChartConfig;
+
+function formatDate(iso: string | null, options?: Intl.DateTimeFormatOptions) {
+  return iso ? new Date(iso).toLocaleDateString("ar-SA", options) : "—";
+}
+
+function ValueBar({ value, max, color }: { value: number | null; max: number; color: string }) {
+  return (
+    <div className="flex-1 h-2 bg-gray-100 rounded-full overflow-hidden">
+      <div className={`h-full ${color}`} style={{ width: `${value === null ? 0 : Math.min(100, value / max * 100)}%` }} />
+    </div>
+  );
+}
+
+/**
+ * Course-level report for program managers: every session of one course
+ * rolled up from the sessions' latest stored reports.
+ */
+export default function CourseReport({ params }: { params: { courseId: string } }) {
+  const [, setLocation] = useLocation();
+  const courseId = parseInt(params.courseId);
+
+  const { data, isLoading, error } = useQuery<CourseReportData>({
+    queryKey: ["/api/admin/courses", courseId, "report"],
+    queryFn: getQueryFn({ on401: "throw" }),
+    enabled: !isNaN(courseId),
+  });
+
+  const curve = (data?.sessions ?? [])
+    .filter((s) => s.hasReport)
+    .map((s) => ({ ...s, date: formatDate(s.scheduledStartTime, { month: "short", day: "numeric" }) }));
+
+  return (
+    <div dir="rtl" className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100">
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-6xl mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-purple-100 rounded-full flex items-center justify-center">
+              <GraduationCap className="w-5 h-5 text-purple-600" />
+            </div>
+            <div>
+              <h1 className="text-lg font-bold text-gray-800">تقرير المقرر <span dir="ltr">#{params.courseId}</span></h1>
+              {data && (
+                <p className="text-xs text-gray-500">
+                  {formatDate(data.firstSessionAt)} – {formatDate(data.lastSessionAt)}
+                </p>
+              )}
+            </div>
+          </div>
+          <Button variant="ghost" size="sm" onClick={() => setLocation("/admin")} className="text-gray-500">
+            <ChevronLeft className="w-4 h-4 ml-1" />
+            لوحة الإدارة
+          </Button>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-4 py-6 space-y-6">
+        {isLoading ? (
+          <Skeleton className="h-64 rounded-xl" />
+        ) : error || !data ? (
+          <p className="text-sm text-gray-500 text-center py-12">تعذّر تحميل تقرير المقرر</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {[
+                { icon: BookOpen, label: "الحصص", value: data.sessionCount, tint: "bg-teal-50 text-teal-600" },
+                { icon: ClipboardCheck, label: "حصص لها تقرير", value: data.reportedSessions, tint: "bg-amber-50 text-amber-600" },
+                { icon: Users, label: "المعلمون", value: data.teachers.length, tint: "bg-blue-50 text-blue-600" },
+                { icon: AlertTriangle, label: "مواضيع ارتباك متكررة", value: data.confusionTopics.filter((t) => t.sessions > 1).length, tint: "bg-red-50 text-red-600" },
+              ].map(({ icon: Icon, label, value, tint }) => (
+                <Card key={label} className="border-0 shadow-sm">
+                  <CardContent className="p-4 flex items-center gap-3">
+                    <div className={`w-10 h-10 rounded-lg flex items-center justify-center ${tint}`}>
+                      <Icon className="w-5 h-5" />
+                    </div>
+                    <div>
+                      <p className="text-xs text-gray-500">{label}</p>
+                      <p className="text-xl font-bold text-gray-800">{value}</p>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            <Card className="border-0 shadow-sm">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+                  <TrendingUp className="w-4 h-4" />
+                  الحضور والإكمال عبر الفصل
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {curve.length < 2 ? (
+                  <p className="text-sm text-gray-400 text-center py-6">يلزم تقريران محفوظان على الأقل لرسم المنحنى</p>
+                ) : (
+                  <div dir="ltr">
+                    <ChartContainer config={curveConfig} className="h-64 w-full aspect-auto">
+                      <LineChart data={curve} margin={{ top: 8, right: 12, left: 0, bottom: 0 }}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="date" tickLine={false} axisLine={false} />
+                        <YAxis yAxisId="attendance" tickLine={false} axisLine={false} width={32} allowDecimals={false} />
+                        <YAxis yAxisId="percent" orientation="right" domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+                        <ChartTooltip
+                          content={<ChartTooltipContent labelFormatter={(_, payload) => payload?.[0]?.payload?.courseSessionName ?? ""} />}
+                        />
+                        <ChartLegend content={<ChartLegendContent />} />
+                        <Line yAxisId="attendance" dataKey="attendance" type="monotone" stroke="var(--color-attendance)" strokeWidth={2} dot={{ r: 3 }} />
+                        <Line yAxisId="percent" dataKey="completionPercent" type="monotone" stroke="var(--color-completionPercent)" strokeWidth={2} dot={{ r: 3 }} />
+                      </LineChart>
+                    </ChartContainer>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <div className="grid md:grid-cols-2 gap-6">
+              <Card className="border-0 shadow-sm">
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-sm font-semibold text-gray-700">متوسط الصحة حسب نوع النشاط</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {data.activityTypes.length === 0 ? (
+                    <p className="text-sm text-gray-400">لا توجد أنشطة مقيّمة</p>
+                  ) : data.activityTypes.map((a) => (
+                    <div key={a.activityType} className="flex items-center gap-3 text-sm">
+                      <span className="w-32 text-gray-700" dir="ltr">{a.label}</span>
+                      <ValueBar value={a.avgCorrectness} max={100} color="bg-teal-500" />
+                      <span className="w-12 font-semibold text-gray-700 tabular-nums">{a.avgCorrectness ?? "—"}%</span>
+                      <span className="w-16 text-xs text-gray-400">{a.instances} نشاط</span>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+
+              <Card className="border-0 shadow-sm">
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+                    <AlertTriangle className="w-4 h-4" />
+                    مواضيع الارتباك المتكررة
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {data.confusionTopics.length === 0 ? (
+                    <p className="text-sm text-gray-400">لم تُرصد لحظات ارتباك</p>
+                  ) : (
+                    <div className="divide-y">
+                      {data.confusionTopics.map((t) => (
+                        <div key={t.topic} className="flex items-center gap-3 py-2 text-sm">
+                          <span className="flex-1 text-gray-700" dir="auto">{t.topic}</span>
+                          <Badge variant="outline" className="text-xs">{t.sessions} حصة</Badge>
+                          <span className="text-xs text-gray-400 w-16">{t.occurrences} مرة</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card className="border-0 shadow-sm">
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+                    <ShieldCheck className="w-4 h-4" />
+                    متوسط معايير التقييم
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {data.criteria.map((c) => (
+                    <div key={c.id} className="flex items-center gap-3 text-sm">
+                      <span className="w-44 text-gray-700 truncate" title={c.nameEn}>{c.nameAr || c.nameEn}</span>
+                      <ValueBar value={c.average} max={5} color="bg-purple-500" />
+                      <span className="w-10 font-semibold text-gray-700 tabular-nums">{c.average ?? "—"}</span>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+
+              <Card className="border-0 shadow-sm">
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+                    <Users className="w-4 h-4" />
+                    المعلمون
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="divide-y">
+                    {data.teachers.map((t) => (
+                      <div key={t.teacherDbId ?? "none"} className="flex items-center gap-3 py-2 text-sm">
+                        <span className="flex-1 text-gray-700">{t.teacherName ?? "غير معيّن"}</span>
+                        <span className="text-xs text-gray-500 w-16">{t.sessions} حصة</span>
+                        <span className="text-xs font-semibold text-gray-700 w-16 tabular-nums">
+                          {t.avgOverallScore !== null ? `${t.avgOverallScore}/5` : "—"}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card className="border-0 shadow-sm">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm font-semibold text-gray-700 flex items-center gap-2">
+                  <BookOpen className="w-4 h-4" />
+                  الحصص
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="divide-y">
+                  {data.sessions.map((s) => (
+                    <button
+                      key={s.courseSessionId}
+                      type="button"
+                      className="w-full flex items-center gap-3 py-2 px-1 text-right text-sm hover:bg-gray-50"
+                      onClick={() => setLocation(`/?session=${s.courseSessionId}`)}
+                    >
+                      <span className="w-24 text-xs text-gray-400">{formatDate(s.scheduledStartTime)}</span>
+                      <span className="flex-1 text-gray-700 truncate">{s.courseSessionName ?? s.courseSessionId}</span>
+                      <span className="w-32 text-xs text-gray-500 truncate">{s.teacherName ?? "غير معيّن"}</span>
+                      {s.hasReport ? (
+                        <>
+                          <span className="w-16 text-xs text-gray-500">{s.attendance ?? "—"} طالب</span>
+                          <span className="w-14 text-xs text-gray-500 tabular-nums">{s.correctness ?? "—"}%</span>
+                          <span className="w-12 text-xs font-semibold text-gray-700 tabular-nums">{s.overallScore ?? "—"}/5</span>
+                        </>
+                      ) : (
+                        <Badge variant="outline" className="text-[10px] text-gray-400">بلا تقرير</Badge>
+                      )}
+                      <ChevronLeft className="w-4 h-4 text-gray-400" />
+                    </button>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,16 +1,20 @@
 
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { useLocation, useSearch } from "wouter";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Collapsible, CollapsibleTrigger, CollapsibleContent } from "@/components/ui/collapsible";
+import SessionPicker from "@/components/SessionPicker";
+import { useAuth } from "@/lib/auth";
 import {
   Users, Clock, ThermometerSun, CheckCircle, BarChart3, Percent,
   ThumbsUp, AlertTriangle, BookOpen, ClipboardCheck, ChevronDown, ChevronLeft, ChevronRight,
   ListChecks, UsersRound, Target, Timer, Lightbulb, MessageSquare, GraduationCap,
   ShieldCheck, Star, ArrowRight, Eye, HelpCircle, TrendingUp, TrendingDown,
-  Sparkles, Search, Quote, Heart, Mic, Award, SmilePlus, Volume2
+  Sparkles, Search, Quote, Heart, Mic, Award, SmilePlus, Volume2, Download, UserX, Columns2
 } from "lucide-react";
 
 interface ActivityCorrectness {
@@ -40,8 +44,25 @@ interface QuestionAnalysis {
   teacherExplanationMin?: number;
   teacherExplanationTopic?: string;
   teacherExplanationVerdict?: string;
+  itemAnalysis?: ItemAnalysis;
 }
 
+interface ItemAnalysis {
+  examinees: number;
+  difficulty: number | null;
+  discrimination: number | null;
+  pointBiserial: number | null;
+  seenRate: number;
+  responseRate: number;
+  flags: ("too_easy" | "too_hard" | "non_discriminating")[];
+}
+
+const ITEM_FLAG_LABELS: Record<string, string> = {
+  too_easy: "Too easy",
+  too_hard: "Too hard",
+  non_discriminating: "Non-discriminating",
+};
+
 interface CombinedAnalysis {
   activityIds: number[];
   count: number;
@@ -90,7 +111,34 @@ interface ActivityAnalysis {
   instances: ActivityInstance[];
 }
 
+interface ReportSnapshotMeta {
+  id: number;
+  engineVersion: string;
+  inputHash: string;
+  rubricVersion: number;
+  trigger: string;
+  createdAt: string;
+  isLatest: boolean;
+  currentEngineVersion: string;
+}
+
+interface DialectLexiconMeta {
+  id: string;
+  name: string;
+  language?: "ar" | "en";
+}
+
+interface AtRiskStudent {
+  userId: number;
+  userName: string | null;
+  riskLevel: "High" | "Medium";
+  correctness: number | null;
+  reasons: { code: string; detail: string }[];
+}
+
 interface DashboardData {
+  snapshot: ReportSnapshotMeta;
+  dialectLexicon?: DialectLexiconMeta;
   session: {
     courseSessionId: number;
     courseSessionName: string;
@@ -125,6 +173,18 @@ interface DashboardData {
     avgLearningTime: number;
     teachingTime: number;
   };
+  students: {
+    userId: number;
+    userName: string | null;
+    sentiment: string | null;
+    activeTime: number | null;
+    learningTime: number | null;
+    pollsSeen: number | null;
+    pollsResponded: number | null;
+    messages: number | null;
+    handRaises: number | null;
+  }[];
+  atRiskStudents?: AtRiskStudent[];
   feedback: {
     wentWell: FeedbackItem[];
     needsImprovement: FeedbackItem[];
@@ -140,8 +200,13 @@ interface DashboardData {
       comments: string[];
       recommendations: string[];
       notes: string;
+      weight?: number;
     }[];
     overallScore: number;
+    profile?: { id: number | null; name: string; updatedAt: string | null };
+    bands?: { passScore: number; failScore: number };
+    strongAreas?: string[];
+    weakAreas?: string[];
     activityTimeline: {
       activityId: number;
       activityType: string;
@@ -280,13 +345,13 @@ function ScoreStars({ score }: { score: number }) {
   );
 }
 
-function ScoreBadge({ score }: { score: number }) {
-  const color = score >= 4
+function ScoreBadge({ score, bands = { passScore: 4, failScore: 3 } }: { score: number; bands?: { passScore: number; failScore: number } }) {
+  const color = score >= bands.passScore
     ? "bg-emerald-100 text-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-400"
-    : score >= 3
+    : score >= bands.failScore
     ? "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-400"
     : "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400";
-  const label = score >= 4 ? "Excellent" : score >= 3 ? "Acceptable" : "Needs Improvement";
+  const label = score >= bands.passScore ? "Excellent" : score >= bands.failScore ? "Acceptable" : "Needs Improvement";
   return (
     <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${color}`} data-testid="score-badge">
       {label}
@@ -294,8 +359,71 @@ function ScoreBadge({ score }: { score: number }) {
   );
 }
 
-function QAEvaluationSection({ evaluation }: { evaluation: DashboardData["qaEvaluation"] }) {
+interface Benchmark {
+  value: number;
+  higherIsBetter: boolean;
+  cohortSize: number;
+  percentile: number | null;
+  distribution: { min: number; p25: number; median: number; p75: number; max: number } | null;
+}
+
+interface SessionBenchmarks {
+  cohort: BenchmarkCohort;
+  cohortValue: string | null;
+  cohortSize: number;
+  minCohortSize: number;
+  criteria: (Benchmark & { id: number; name: string })[];
+  metrics: Record<"communicationScore" | "responseRate" | "correctness" | "teacherTalkRatio" | "studentActivePercent", Benchmark | null>;
+}
+
+type BenchmarkCohort = "course" | "subject" | "level";
+
+const COHORT_LABELS: Record<BenchmarkCohort, string> = {
+  course: "Course",
+  subject: "Subject",
+  level: "Grade level",
+};
+
+const BENCHMARK_METRICS: { key: keyof SessionBenchmarks["metrics"]; label: string; unit: string }[] = [
+  { key: "communicationScore", label: "Communication", unit: "/100" },
+  { key: "responseRate", label: "Response Rate", unit: "%" },
+  { key: "correctness", label: "Correctness", unit: "%" },
+  { key: "teacherTalkRatio", label: "Teacher Talk Ratio", unit: "%" },
+  { key: "studentActivePercent", label: "Student Activity", unit: "%" },
+];
+
+function PercentileBadge({ benchmark, testId }: { benchmark: Benchmark | null | undefined; testId: string }) {
+  if (!benchmark || benchmark.percentile === null) return null;
+  // For lower-is-better metrics a high rank is the weak end, so colour by the rank's meaning, not its size
+  const standing = benchmark.higherIsBetter ? benchmark.percentile : 100 - benchmark.percentile;
+  const tone = standing >= 75
+    ? "text-emerald-700 dark:text-emerald-400 border-emerald-400/50"
+    : standing < 25
+      ? "text-red-700 dark:text-red-400 border-red-400/50"
+      : "text-muted-foreground";
+  const d = benchmark.distribution;
+  return (
+    <Badge
+      variant="outline"
+      className={`text-xs tabular-nums ${tone}`}
+      title={d ? `Cohort of ${benchmark.cohortSize}: median ${d.median}, middle half ${d.p25}\u2013${d.p75}, range ${d.min}\u2013${d.max}` : undefined}
+      data-testid={testId}
+    >
+      P{benchmark.percentile}
+    </Badge>
+  );
+}
+
+function QAEvaluationSection({ evaluation, sessionId }: { evaluation: DashboardData["qaEvaluation"]; sessionId: number }) {
   const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [cohort, setCohort] = useState<BenchmarkCohort>("course");
+  // Benchmarks draw on other teachers' sessions, so they are for signed-in viewers only
+  const { teacher } = useAuth();
+  const { data: benchmarks } = useQuery<SessionBenchmarks>({
+    queryKey: [`/api/sessions/${sessionId}/benchmarks?cohort=${cohort}`],
+    enabled: !!teacher,
+  });
+  const criterionBenchmark = (id: number) => benchmarks?.criteria.find((c) => c.id === id);
 
   return (
     <div className="space-y-3" data-testid="section-qa-evaluation">
@@ -318,8 +446,13 @@ function QAEvaluationSection({ evaluation }: { evaluation: DashboardData["qaEval
                 <div className="flex items-center gap-2">
                   <span className="text-2xl font-bold tabular-nums" data-testid="text-overall-score">{evaluation.overallScore}</span>
                   <span className="text-lg text-muted-foreground">/5</span>
-                  <ScoreBadge score={evaluation.overallScore} />
+                  <ScoreBadge score={evaluation.overallScore} bands={evaluation.bands} />
                 </div>
+                {evaluation.profile && evaluation.profile.id !== null && (
+                  <p className="text-xs text-muted-foreground" data-testid="text-scoring-profile">
+                    Scoring profile: {evaluation.profile.name}
+                  </p>
+                )}
               </div>
             </div>
             <div className="grid grid-cols-2 md:grid-cols-3 gap-x-6 gap-y-2 text-sm flex-1">
@@ -329,6 +462,63 @@ function QAEvaluationSection({ evaluation }: { evaluation: DashboardData["qaEval
             </div>
           </div>
 
+          {teacher && (
+            <div className="rounded-md border p-3 mb-5 space-y-3" data-testid="qa-benchmarks">
+              <div className="flex items-center justify-between gap-3 flex-wrap">
+                <div className="flex items-center gap-2 text-sm font-medium">
+                  <BarChart3 className="h-4 w-4 text-primary" />
+                  <span>Peer Benchmark</span>
+                  {benchmarks && (
+                    <span className="text-xs font-normal text-muted-foreground">
+                      {benchmarks.cohortValue === null
+                        ? `no ${COHORT_LABELS[cohort].toLowerCase()} recorded for this session`
+                        : `percentile among ${benchmarks.cohortSize} sessions in ${COHORT_LABELS[cohort].toLowerCase()} ${benchmarks.cohortValue}`}
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center gap-1">
+                  {(Object.keys(COHORT_LABELS) as BenchmarkCohort[]).map((key) => (
+                    <Button
+                      key={key}
+                      size="sm"
+                      variant={cohort === key ? "secondary" : "ghost"}
+                      className="h-7 text-xs"
+                      onClick={() => setCohort(key)}
+                      data-testid={`button-cohort-${key}`}
+                    >
+                      {COHORT_LABELS[key]}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+              {benchmarks && benchmarks.cohortSize < benchmarks.minCohortSize ? (
+                <p className="text-xs text-muted-foreground">
+                  Percentiles need at least {benchmarks.minCohortSize} sessions with stored reports in the cohort.
+                </p>
+              ) : (
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                  {BENCHMARK_METRICS.map(({ key, label, unit }) => {
+                    const benchmark = benchmarks?.metrics[key];
+                    return (
+                      <div key={key} className="space-y-1" data-testid={`benchmark-${key}`}>
+                        <p className="text-xs text-muted-foreground">{label}</p>
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm font-semibold tabular-nums">
+                            {benchmark ? `${benchmark.value}${unit}` : "\u2014"}
+                          </span>
+                          <PercentileBadge benchmark={benchmark} testId={`percentile-${key}`} />
+                        </div>
+                        {benchmark?.distribution && (
+                          <p className="text-[11px] text-muted-foreground tabular-nums">median {benchmark.distribution.median}{unit}</p>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          )}
+
           <div className="space-y-1">
             {evaluation.criteria.map((criterion) => (
               <Collapsible
@@ -344,9 +534,15 @@ function QAEvaluationSection({ evaluation }: { evaluation: DashboardData["qaEval
                     {expandedId === criterion.id ? <ChevronDown className="h-4 w-4 flex-shrink-0" /> : <ChevronRight className="h-4 w-4 flex-shrink-0" />}
                     <span className="text-sm font-medium tabular-nums text-muted-foreground w-5">{criterion.id}.</span>
                     <span className="text-sm font-medium truncate">{criterion.nameEn}</span>
+                    {criterion.weight !== undefined && criterion.weight !== 1 && (
+                      <Badge variant="outline" className="text-xs flex-shrink-0" data-testid={`qa-weight-${criterion.id}`}>
+                        ×{criterion.weight}
+                      </Badge>
+                    )}
                   </div>
                   <div className="flex items-center gap-2 flex-shrink-0">
-                    <ScoreBadge score={criterion.score} />
+                    <PercentileBadge benchmark={criterionBenchmark(criterion.id)} testId={`qa-percentile-${criterion.id}`} />
+                    <ScoreBadge score={criterion.score} bands={evaluation.bands} />
                     <ScoreStars score={criterion.score} />
                   </div>
                 </CollapsibleTrigger>
@@ -671,7 +867,7 @@ function CorrectnessBar({ percent }: { percent: number }) {
   );
 }
 
-function MetricTile({ icon, label, value, sub, testId }: { icon: React.ReactNode; label: string; value: string; sub?: string; testId: string }) {
+export function MetricTile({ icon, label, value, sub, testId }: { icon: React.ReactNode; label: string; value: string; sub?: string; testId: string }) {
   return (
     <div className="space-y-1" data-testid={testId}>
       <div className="flex items-center gap-2 text-xs text-muted-foreground">
@@ -725,6 +921,15 @@ function QuestionBreakdown({ questions, prefix }: { questions: QuestionAnalysis[
                   <span className="text-xs font-medium text-muted-foreground flex-shrink-0 mt-0.5">Q{qIdx + 1}</span>
                   <span className="text-sm leading-snug" data-testid={`${prefix}-q-text-${qIdx}`}>{q.questionText}</span>
                 </div>
+                {q.itemAnalysis && q.itemAnalysis.flags.length > 0 && (
+                  <div className="flex items-center gap-1 flex-shrink-0" data-testid={`${prefix}-q-flags-${qIdx}`}>
+                    {q.itemAnalysis.flags.map((flag) => (
+                      <Badge key={flag} variant="outline" className="text-xs text-amber-700 dark:text-amber-400 border-amber-400/50">
+                        {ITEM_FLAG_LABELS[flag] ?? flag}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
               </div>
               <CorrectnessBar percent={q.percent} />
               <div className="flex items-center gap-4 text-xs text-muted-foreground flex-wrap">
@@ -732,6 +937,15 @@ function QuestionBreakdown({ questions, prefix }: { questions: QuestionAnalysis[
                 <span>Correct: {q.correct}/{q.answered}</span>
                 <span>Correctness: {q.percent}%</span>
               </div>
+              {q.itemAnalysis && (
+                <div className="flex items-center gap-4 text-xs text-muted-foreground flex-wrap tabular-nums" data-testid={`${prefix}-q-item-${qIdx}`}>
+                  <span>Difficulty: {q.itemAnalysis.difficulty ?? "\u2014"}</span>
+                  <span>Discrimination: {q.itemAnalysis.discrimination ?? "\u2014"}</span>
+                  <span>Point-biserial: {q.itemAnalysis.pointBiserial ?? "\u2014"}</span>
+                  <span>Seen by {q.itemAnalysis.seenRate}% of class</span>
+                  <span>Response rate: {q.itemAnalysis.responseRate}%</span>
+                </div>
+              )}
               {(q.teacherExplanationMin !== undefined && q.teacherExplanationMin > 0) && (
                 <div className="space-y-1.5" data-testid={`${prefix}-q-teach-${qIdx}`}>
                   <div className="flex items-center gap-2 text-xs font-medium bg-muted/40 dark:bg-muted/20 rounded px-2 py-1.5">
@@ -854,7 +1068,7 @@ function formatCategory(cat: string): string {
   return cat;
 }
 
-function formatLevel(level: string): string {
+export function formatLevel(level: string): string {
   const map: Record<string, string> = {
     L1: "Level 1",
     L2: "Level 2",
@@ -892,7 +1106,7 @@ function formatActivityType(type: string): string {
   return map[canonical] || type;
 }
 
-function SectionHeading({ icon, title, badge, testId }: { icon: React.ReactNode; title: string; badge?: string; testId: string }) {
+export function SectionHeading({ icon, title, badge, testId }: { icon: React.ReactNode; title: string; badge?: string; testId: string }) {
   return (
     <div className="flex items-center gap-3" data-testid={testId}>
       <div className="flex items-center justify-center h-8 w-8 rounded-md bg-primary/10 dark:bg-primary/20 text-primary">
@@ -1325,21 +1539,101 @@ function PedagogySection({ items, prefix, title, icon }: { items: { wentWell: Fe
   );
 }
 
+/**
+ * Public report page. Embedded views pass `overrideSessionId`; otherwise a
+ * session picker is shown and the chosen session is kept in `?session=`.
+ */
 export default function Dashboard(props: { overrideSessionId?: number } & Record<string, any> = {}) {
   const overrideSessionId = props.overrideSessionId;
-  const { data: sessionInfo } = useQuery<{ sessionId: number | null }>({
-    queryKey: ["/api/detected-session"],
-    enabled: !overrideSessionId,
+  const search = useSearch();
+  const [, setLocation] = useLocation();
+
+  if (overrideSessionId) return <SessionDashboard sessionId={overrideSessionId} />;
+
+  const selected = parseInt(new URLSearchParams(search).get("session") || "");
+  const selectedId = isNaN(selected) ? undefined : selected;
+
+  return (
+    <div className="min-h-screen bg-background" data-testid="dashboard-home">
+      <div className="max-w-5xl mx-auto px-4 pt-8 space-y-3">
+        <SectionHeading
+          icon={<ListChecks className="h-4 w-4" />}
+          title="Sessions"
+          testId="heading-session-picker"
+        />
+        <SessionPicker selectedId={selectedId} onSelect={(id) => setLocation(`/?session=${id}`)} />
+      </div>
+      {selectedId && <SessionDashboard key={selectedId} sessionId={selectedId} />}
+    </div>
+  );
+}
+
+function ReportVersionBar({ sessionId, snapshot, lexicon, onSelect }: {
+  sessionId: number;
+  snapshot: ReportSnapshotMeta;
+  lexicon?: DialectLexiconMeta;
+  onSelect: (snapshotId: number | undefined) => void;
+}) {
+  const { data: versions } = useQuery<Omit<ReportSnapshotMeta, "isLatest" | "currentEngineVersion">[]>({
+    queryKey: ["/api/sessions", sessionId, "reports"],
   });
 
-  const sessionId = overrideSessionId || sessionInfo?.sessionId;
+  return (
+    <div className="flex items-center gap-2 flex-wrap text-xs text-muted-foreground" data-testid="report-version-bar">
+      <span>
+        Report generated {new Date(snapshot.createdAt).toLocaleString()} · engine v{snapshot.engineVersion}
+        {" · "}{snapshot.rubricVersion > 0 ? `rubric v${snapshot.rubricVersion}` : "default rubric"}
+        {lexicon && (
+          <span data-testid="text-report-language">
+            {" · "}{lexicon.language === "en" ? "English" : "Arabic"} transcript, {lexicon.name} phrases
+          </span>
+        )}
+      </span>
+      {!snapshot.isLatest && (
+        <Badge variant="outline" className="text-xs" data-testid="badge-older-report">Older version</Badge>
+      )}
+      {snapshot.engineVersion !== snapshot.currentEngineVersion && (
+        <Badge variant="outline" className="text-xs" data-testid="badge-outdated-engine">
+          Current engine is v{snapshot.currentEngineVersion}
+        </Badge>
+      )}
+      {versions && versions.length > 1 && (
+        <select
+          value={snapshot.id}
+          onChange={(e) => {
+            const id = parseInt(e.target.value);
+            onSelect(id === versions[0].id ? undefined : id);
+          }}
+          className="ml-auto h-7 rounded-md border border-input bg-background px-2 text-xs"
+          data-testid="select-report-version"
+        >
+          {versions.map((v, i) => (
+            <option key={v.id} value={v.id}>
+              {new Date(v.createdAt).toLocaleString()} · v{v.engineVersion}{i === 0 ? " (latest)" : ""}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
 
+function SessionDashboard({ sessionId }: { sessionId: number }) {
+  const [snapshotId, setSnapshotId] = useState<number | undefined>();
+  const [, setLocation] = useLocation();
+  // Student drill-downs, the at-risk export and comparisons need a signed-in teacher
+  const { teacher } = useAuth();
+  const openStudent = (userId: number) => {
+    if (teacher) setLocation(`/session/${sessionId}/student/${userId}`);
+  };
   const { data, isLoading, error } = useQuery<DashboardData>({
-    queryKey: ["/api/dashboard", sessionId],
+    queryKey: snapshotId
+      ? [`/api/dashboard/${sessionId}?snapshot=${snapshotId}`]
+      : ["/api/dashboard", sessionId],
     enabled: !!sessionId,
   });
 
-  if (!sessionId || isLoading) {
+  if (isLoading) {
     return (
       <div className="min-h-screen bg-background p-6" data-testid="dashboard-loading">
         <div className="max-w-5xl mx-auto space-y-6">
@@ -1371,7 +1665,7 @@ export default function Dashboard(props: { overrideSessionId?: number } & Record
 
   if (!data) return null;
 
-  const { session, activities, pollStats, studentMetrics, feedback, activityAnalyses, qaEvaluation } = data;
+  const { session, activities, pollStats, studentMetrics, students, atRiskStudents, feedback, activityAnalyses, qaEvaluation } = data;
 
   const teachingMinutes = Math.round(session.teachingTime || 0);
   const sessionTemp = session.sessionTemperature ?? studentMetrics.sessionTemperature ?? 0;
@@ -1436,6 +1730,18 @@ export default function Dashboard(props: { overrideSessionId?: number } & Record
               <GraduationCap className="h-5 w-5" />
             </div>
             <h1 className="text-2xl font-bold tracking-tight" data-testid="text-dashboard-title">Session Report</h1>
+            {teacher && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="ml-auto"
+                onClick={() => setLocation(`/compare?sessions=${sessionId}`)}
+                data-testid="button-compare-session"
+              >
+                <Columns2 className="h-4 w-4 mr-1" />
+                Compare
+              </Button>
+            )}
           </div>
           <div className="grid grid-cols-2 md:grid-cols-4 gap-x-6 gap-y-2 text-sm">
             <div data-testid="text-session-id">
@@ -1455,6 +1761,9 @@ export default function Dashboard(props: { overrideSessionId?: number } & Record
               <span className="font-medium">{session.topic}</span>
             </div>
           </div>
+          {data.snapshot && (
+            <ReportVersionBar sessionId={sessionId} snapshot={data.snapshot} lexicon={data.dialectLexicon} onSelect={setSnapshotId} />
+          )}
         </div>
 
         <div className="space-y-3">
@@ -1558,6 +1867,111 @@ export default function Dashboard(props: { overrideSessionId?: number } & Record
           </Card>
         </div>
 
+        {atRiskStudents && (
+          <div className="space-y-3" data-testid="section-at-risk">
+            <div className="flex items-center justify-between gap-3 flex-wrap">
+              <SectionHeading
+                icon={<UserX className="h-4 w-4" />}
+                title="At-Risk Students"
+                badge={`${atRiskStudents.length} flagged`}
+                testId="heading-at-risk"
+              />
+              {teacher && atRiskStudents.length > 0 && (
+                <Button asChild variant="outline" size="sm" data-testid="button-export-at-risk">
+                  <a href={`/api/sessions/${sessionId}/at-risk?format=csv`} download>
+                    <Download className="h-4 w-4 mr-1" />
+                    Export CSV
+                  </a>
+                </Button>
+              )}
+            </div>
+            <Card data-testid="card-at-risk">
+              <CardContent className="pt-6">
+                {atRiskStudents.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No students flagged for follow-up in this session.</p>
+                ) : (
+                  <ul className="divide-y">
+                    {atRiskStudents.map((student) => (
+                      <li key={student.userId} className="py-3 space-y-1.5" data-testid={`row-at-risk-${student.userId}`}>
+                        <div className="flex items-center gap-3 flex-wrap">
+                          <button
+                            type="button"
+                            className={`font-medium ${teacher ? "hover:underline" : "cursor-default"}`}
+                            dir="auto"
+                            onClick={() => openStudent(student.userId)}
+                          >
+                            {student.userName || `#${student.userId}`}
+                          </button>
+                          <Badge variant={student.riskLevel === "High" ? "destructive" : "secondary"} className="text-xs">
+                            {student.riskLevel} risk
+                          </Badge>
+                          {student.correctness != null && (
+                            <span className="text-xs text-muted-foreground tabular-nums">{student.correctness}% correct</span>
+                          )}
+                        </div>
+                        <ul className="space-y-0.5">
+                          {student.reasons.map((reason) => (
+                            <li key={reason.code} className="text-sm text-muted-foreground flex items-start gap-2">
+                              <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0 text-amber-600 dark:text-amber-400" />
+                              <span>{reason.detail}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {students && students.length > 0 && (
+          <div className="space-y-3" data-testid="section-students-table">
+            <SectionHeading
+              icon={<UsersRound className="h-4 w-4" />}
+              title="Students"
+              badge={`${students.length} students`}
+              testId="heading-students"
+            />
+            <Card data-testid="card-students-table">
+              <CardContent className="pt-6">
+                <div className="overflow-x-auto max-h-96 overflow-y-auto">
+                  <table className="w-full text-sm" data-testid="table-students">
+                    <thead>
+                      <tr className="border-b">
+                        <th className="pb-3 pl-4 text-left font-medium text-muted-foreground">Student</th>
+                        <th className="pb-3 pl-4 text-left font-medium text-muted-foreground">Active Time</th>
+                        <th className="pb-3 pl-4 text-left font-medium text-muted-foreground">Polls Answered</th>
+                        <th className="pb-3 pl-4 text-left font-medium text-muted-foreground">Messages</th>
+                        <th className="pb-3 text-left font-medium text-muted-foreground">Hand Raises</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {students.map((student) => (
+                        <tr
+                          key={student.userId}
+                          className={`border-b last:border-0 ${teacher ? "cursor-pointer hover:bg-muted/40" : ""}`}
+                          onClick={() => openStudent(student.userId)}
+                          data-testid={`row-student-${student.userId}`}
+                        >
+                          <td className="py-3 pl-4 font-medium" dir="auto">{student.userName || `#${student.userId}`}</td>
+                          <td className="py-3 pl-4 tabular-nums">
+                            {student.activeTime != null ? `${Math.round(student.activeTime * 10) / 10} min` : "\u2014"}
+                          </td>
+                          <td className="py-3 pl-4 tabular-nums">{student.pollsResponded ?? 0}/{student.pollsSeen ?? 0}</td>
+                          <td className="py-3 pl-4 tabular-nums">{student.messages ?? 0}</td>
+                          <td className="py-3 tabular-nums">{student.handRaises ?? 0}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
         {activityAnalyses.map((analysis) => (
           <ActivitySection key={analysis.activityType} analysis={analysis} />
         ))}
@@ -1572,7 +1986,7 @@ export default function Dashboard(props: { overrideSessionId?: number } & Record
         )}
 
         {qaEvaluation && (
-          <QAEvaluationSection evaluation={qaEvaluation} />
+          <QAEvaluationSection evaluation={qaEvaluation} sessionId={sessionId} />
         )}
 
         {qaEvaluation?.teacherCommunication && (
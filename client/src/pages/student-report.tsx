@@ -0,0 +1,327 @@
+import { useQuery } from "@tanstack/react-query";
+import { useLocation, useParams } from "wouter";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  ArrowLeft, CheckCircle, Clock, Hand, HelpCircle, ListChecks, MessageSquare, SmilePlus, Target, User, XCircle,
+} from "lucide-react";
+import { MetricTile, SectionHeading, formatLevel } from "./dashboard";
+
+interface StudentQuestion {
+  questionId: number;
+  questionText: string;
+  seen: boolean;
+  answered: boolean;
+  correct: boolean | null;
+  durationSec: number | null;
+  classPercent: number | null;
+}
+
+interface StudentActivity {
+  activityId: number;
+  activityType: string;
+  label: string;
+  startTime: string | null;
+  endTime: string | null;
+  seen: number;
+  answered: number;
+  correct: number;
+  percent: number | null;
+  classPercent: number | null;
+  questions: StudentQuestion[];
+}
+
+interface StudentReportData {
+  session: {
+    courseSessionId: number;
+    courseSessionName: string | null;
+    topic: string;
+    level: string;
+    teachingTime: number | null;
+  };
+  student: {
+    userId: number;
+    userName: string | null;
+    sentiment: string | null;
+    enterTime: string | null;
+    exitTime: string | null;
+    roomTime: number | null;
+    learningTime: number | null;
+    activeTime: number | null;
+    pollsSeen: number | null;
+    pollsResponded: number | null;
+    messages: number | null;
+    handRaises: number | null;
+    unmutes: number | null;
+  };
+  performance: {
+    answered: number;
+    correct: number;
+    percent: number | null;
+    classPercent: number | null;
+  };
+  activities: StudentActivity[];
+  chat: {
+    total: number;
+    confusionSignals: number;
+    messages: { time: string | null; text: string; confusion: boolean }[];
+  };
+  reactions: {
+    total: number;
+    byEmotion: Record<string, number>;
+    events: { time: string | null; emotion: string | null; partOfActivity: boolean | null }[];
+  };
+}
+
+const minutes = (value: number | null) => value != null ? `${Math.round(value * 10) / 10} min` : "\u2014";
+const percent = (value: number | null) => value != null ? `${value}%` : "\u2014";
+
+function ComparedToClass({ value, classValue }: { value: number | null; classValue: number | null }) {
+  if (value == null || classValue == null) return null;
+  const diff = value - classValue;
+  const tone = diff >= 0 ? "text-emerald-700 dark:text-emerald-400" : "text-amber-700 dark:text-amber-400";
+  return <span className={`text-xs ${tone}`}>{diff >= 0 ? "+" : ""}{diff} vs class</span>;
+}
+
+/** Drill-down from a session report's student table into one student's session. */
+export default function StudentReport() {
+  const params = useParams<{ sessionId: string; userId: string }>();
+  const [, setLocation] = useLocation();
+  const sessionId = parseInt(params.sessionId);
+  const userId = parseInt(params.userId);
+
+  const { data, isLoading, error } = useQuery<StudentReportData>({
+    queryKey: ["/api/sessions", sessionId, "students", userId],
+    enabled: !isNaN(sessionId) && !isNaN(userId),
+  });
+
+  const goBack = () => {
+    if (window.history.length > 1) window.history.back();
+    else setLocation(`/?session=${sessionId}`);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background p-6" data-testid="student-report-loading">
+        <div className="max-w-5xl mx-auto space-y-6">
+          <Skeleton className="h-10 w-72" />
+          <Skeleton className="h-32 w-full" />
+          <Skeleton className="h-64 w-full" />
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center" data-testid="student-report-error">
+        <Card className="max-w-md w-full">
+          <CardHeader>
+            <CardTitle className="text-lg">Failed to load student report</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <p className="text-muted-foreground text-sm">{error ? (error as Error).message : "Student not found"}</p>
+            <Button variant="outline" size="sm" onClick={goBack}>Back to session report</Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const { session, student, performance, activities, chat, reactions } = data;
+
+  return (
+    <div className="min-h-screen bg-background" data-testid="student-report">
+      <div className="max-w-5xl mx-auto px-4 py-8 space-y-8">
+        <Button variant="ghost" size="sm" className="text-muted-foreground" onClick={goBack} data-testid="button-back">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to session report
+        </Button>
+
+        <div className="rounded-md bg-[hsl(43,55%,70%)]/15 dark:bg-[hsl(43,40%,30%)]/20 border border-[hsl(43,55%,70%)]/30 dark:border-[hsl(43,40%,40%)]/30 p-5 space-y-3" data-testid="student-report-header">
+          <div className="flex items-center gap-3 flex-wrap">
+            <div className="flex items-center justify-center h-9 w-9 rounded-md bg-primary/15 text-primary">
+              <User className="h-5 w-5" />
+            </div>
+            <h1 className="text-2xl font-bold tracking-tight" data-testid="text-student-name">
+              {student.userName || `Student #${student.userId}`}
+            </h1>
+            {student.sentiment && <Badge variant="outline">{student.sentiment}</Badge>}
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-x-6 gap-y-2 text-sm">
+            <div>
+              <span className="text-muted-foreground">Session ID:</span>{" "}
+              <span className="font-medium">{session.courseSessionId}</span>
+            </div>
+            <div>
+              <span className="text-muted-foreground">Topic:</span>{" "}
+              <span className="font-medium">{session.topic}</span>
+            </div>
+            <div>
+              <span className="text-muted-foreground">Level:</span>{" "}
+              <span className="font-medium">{formatLevel(session.level) || "Not specified"}</span>
+            </div>
+            <div data-testid="text-attendance">
+              <span className="text-muted-foreground">Joined / left:</span>{" "}
+              <span className="font-medium">{student.enterTime || "\u2014"} – {student.exitTime || "\u2014"}</span>
+            </div>
+          </div>
+        </div>
+
+        <Card data-testid="card-student-metrics">
+          <CardContent className="pt-6">
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-6">
+              <MetricTile
+                icon={<Target className="h-3.5 w-3.5" />}
+                label="Correctness"
+                value={percent(performance.percent)}
+                sub={`${performance.correct}/${performance.answered} correct · class ${percent(performance.classPercent)}`}
+                testId="metric-student-correctness"
+              />
+              <MetricTile
+                icon={<ListChecks className="h-3.5 w-3.5" />}
+                label="Polls Answered"
+                value={`${student.pollsResponded ?? 0} / ${student.pollsSeen ?? 0}`}
+                sub="responded / seen"
+                testId="metric-student-polls"
+              />
+              <MetricTile
+                icon={<Clock className="h-3.5 w-3.5" />}
+                label="Learning Time"
+                value={minutes(student.learningTime)}
+                sub={`of ${minutes(session.teachingTime)} teaching · active ${minutes(student.activeTime)}`}
+                testId="metric-student-learning-time"
+              />
+              <MetricTile
+                icon={<MessageSquare className="h-3.5 w-3.5" />}
+                label="Chat Messages"
+                value={String(chat.total)}
+                sub={`${chat.confusionSignals} confusion signal${chat.confusionSignals === 1 ? "" : "s"}`}
+                testId="metric-student-messages"
+              />
+              <MetricTile
+                icon={<Hand className="h-3.5 w-3.5" />}
+                label="Hand Raises"
+                value={String(student.handRaises ?? 0)}
+                sub={`${student.unmutes ?? 0} unmutes · ${reactions.total} reactions`}
+                testId="metric-student-hand-raises"
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="space-y-3" data-testid="section-student-activities">
+          <SectionHeading
+            icon={<ListChecks className="h-4 w-4" />}
+            title="Activities & Questions"
+            badge={`${activities.length} activities`}
+            testId="heading-student-activities"
+          />
+          {activities.length === 0 && (
+            <Card><CardContent className="pt-6 text-sm text-muted-foreground">No activities with questions in this session.</CardContent></Card>
+          )}
+          {activities.map((activity) => (
+            <Card key={activity.activityId} data-testid={`card-student-activity-${activity.activityId}`}>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base flex items-center gap-3 flex-wrap">
+                  {activity.label}
+                  <span className="text-xs font-normal text-muted-foreground">{activity.startTime}</span>
+                  <Badge variant="secondary" className="tabular-nums">{percent(activity.percent)}</Badge>
+                  <span className="text-xs font-normal text-muted-foreground">class {percent(activity.classPercent)}</span>
+                  <ComparedToClass value={activity.percent} classValue={activity.classPercent} />
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {activity.questions.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">The student did not receive this activity's questions.</p>
+                ) : (
+                  <ul className="divide-y">
+                    {activity.questions.map((q) => (
+                      <li key={q.questionId} className="py-2 flex items-start gap-3 text-sm" data-testid={`row-student-question-${q.questionId}`}>
+                        {q.correct === true ? (
+                          <CheckCircle className="h-4 w-4 mt-0.5 shrink-0 text-emerald-600 dark:text-emerald-400" />
+                        ) : q.correct === false ? (
+                          <XCircle className="h-4 w-4 mt-0.5 shrink-0 text-red-600 dark:text-red-400" />
+                        ) : (
+                          <HelpCircle className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                        )}
+                        <span className="flex-1" dir="auto">{q.questionText || `Question ${q.questionId}`}</span>
+                        <span className="text-xs text-muted-foreground shrink-0">
+                          {q.answered ? (q.durationSec != null ? `${q.durationSec}s` : "answered") : q.seen ? "seen, not answered" : "not seen"}
+                          {" · "}class {percent(q.classPercent)}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-6">
+          <div className="space-y-3" data-testid="section-student-chat">
+            <SectionHeading
+              icon={<MessageSquare className="h-4 w-4" />}
+              title="Chat"
+              badge={`${chat.total} messages`}
+              testId="heading-student-chat"
+            />
+            <Card>
+              <CardContent className="pt-6">
+                {chat.messages.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No chat messages.</p>
+                ) : (
+                  <ul className="space-y-2 max-h-96 overflow-y-auto">
+                    {chat.messages.map((m, i) => (
+                      <li key={i} className="text-sm flex items-start gap-2" data-testid={`row-student-chat-${i}`}>
+                        <span className="text-xs text-muted-foreground tabular-nums shrink-0 pt-0.5">{m.time}</span>
+                        <span className="flex-1" dir="auto">{m.text}</span>
+                        {m.confusion && <Badge variant="outline" className="text-xs shrink-0">Confusion</Badge>}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="space-y-3" data-testid="section-student-reactions">
+            <SectionHeading
+              icon={<SmilePlus className="h-4 w-4" />}
+              title="Reactions"
+              badge={`${reactions.total} total`}
+              testId="heading-student-reactions"
+            />
+            <Card>
+              <CardContent className="pt-6 space-y-3">
+                {reactions.total === 0 ? (
+                  <p className="text-sm text-muted-foreground">No reactions.</p>
+                ) : (
+                  <>
+                    <div className="flex flex-wrap gap-2">
+                      {Object.entries(reactions.byEmotion).map(([emotion, n]) => (
+                        <Badge key={emotion} variant="secondary">{emotion}: {n}</Badge>
+                      ))}
+                    </div>
+                    <ul className="space-y-1 max-h-72 overflow-y-auto text-sm">
+                      {reactions.events.map((r, i) => (
+                        <li key={i} className="flex items-center gap-2">
+                          <span className="text-xs text-muted-foreground tabular-nums">{r.time}</span>
+                          <span>{r.emotion}</span>
+                          {r.partOfActivity && <span className="text-xs text-muted-foreground">during activity</span>}
+                        </li>
+                      ))}
+                    </ul>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -9,8 +9,11 @@ import { Skeleton } from "@/components/ui/skeleton";
 import {
   LogOut, ChevronRight, ChevronLeft, Upload, BookOpen,
   Clock, ThermometerSun, Users, FileUp, GraduationCap,
+  CheckCircle2, AlertTriangle, XCircle,
 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
+import ImportJobsList from "@/components/ImportJobsList";
+import TeacherTrends from "@/components/TeacherTrends";
 
 interface SessionSummary {
   id: number;
@@ -23,6 +26,271 @@ interface SessionSummary {
   courseSessionStatus: string | null;
 }
 
+interface ColumnIssue {
+  column: string;
+  count: number;
+  samples: string[];
+}
+
+interface FileValidation {
+  fileType: string;
+  fileName: string;
+  rowCount: number;
+  encoding?: string;
+  mappingVersion: number;
+  missingColumns: string[];
+  unmappedFields: string[];
+  unknownColumns: string[];
+  unparseableTimestamps: ColumnIssue[];
+  nulledNumbers: ColumnIssue[];
+  error?: string;
+}
+
+interface ValidationReport {
+  sessionId: number | null;
+  valid: boolean;
+  alreadyExists: boolean;
+  files: FileValidation[];
+  missingFileTypes: string[];
+  unrecognizedFiles: string[];
+  errors: string[];
+}
+
+interface UploadValidation {
+  sessions: ValidationReport[];
+  unrecognizedFiles: string[];
+  errors: string[];
+}
+
+interface UploadResult {
+  jobId: number;
+  status: string;
+}
+
+const FILE_TYPE_LABELS: Record<string, string> = {
+  courseSession: "بيانات الحصة",
+  transcript: "النص المفرغ",
+  chats: "المحادثات",
+  classroomActivity: "الأنشطة الصفية",
+  userPoll: "إجابات الأسئلة",
+  userReaction: "تفاعلات الطلاب",
+  userSession: "حضور الطلاب",
+};
+
+type ImportMode = "create" | "replace" | "patch";
+
+async function postSessionFiles(files: File[], params: { dryRun?: boolean; mode?: ImportMode }) {
+  const formData = new FormData();
+  for (const file of files) {
+    formData.append("files", file);
+  }
+  const query = new URLSearchParams();
+  if (params.dryRun) query.set("dryRun", "true");
+  if (params.mode && params.mode !== "create") query.set("mode", params.mode);
+  const qs = query.toString();
+  const res = await fetch(`/api/sessions/upload${qs ? `?${qs}` : ""}`, {
+    method: "POST",
+    body: formData,
+    credentials: "include",
+  });
+  if (!res.ok) {
+    const data = await res.json();
+    throw new Error(data.error || "Upload failed");
+  }
+  return res.json();
+}
+
+function SessionValidation({ report }: { report: ValidationReport }) {
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        {report.valid ? (
+          <CheckCircle2 className="w-4 h-4 text-green-600" />
+        ) : (
+          <XCircle className="w-4 h-4 text-red-500" />
+        )}
+        <span className="text-sm font-semibold text-gray-700">
+          {report.sessionId ? `حصة ${report.sessionId}` : "حصة غير معروفة"}
+        </span>
+        {report.alreadyExists && (
+          <Badge variant="outline" className="text-xs text-amber-700 border-amber-300">موجودة مسبقاً</Badge>
+        )}
+      </div>
+
+      {report.errors.length > 0 && (
+        <div className="bg-red-50 rounded-lg p-3 space-y-1">
+          {report.errors.map((err, i) => (
+            <p key={i} className="text-xs text-red-600" dir="ltr">{err}</p>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {report.files.map((f) => {
+          const hasWarnings = f.unparseableTimestamps.length > 0 || f.nulledNumbers.length > 0;
+          return (
+            <div key={f.fileName} className="border rounded-lg p-3">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-medium text-gray-700">
+                  {FILE_TYPE_LABELS[f.fileType] || f.fileType}
+                </span>
+                <span className="text-xs text-gray-500">{f.rowCount} صف</span>
+              </div>
+              <p className="text-xs text-gray-400 truncate" dir="ltr">
+                {f.fileName}
+                {f.encoding && <span className="text-gray-300"> · {f.encoding}</span>}
+              </p>
+              {f.missingColumns.length > 0 && (
+                <p className="text-xs text-red-600 mt-1">
+                  أعمدة مفقودة: <span dir="ltr">{f.missingColumns.join(", ")}</span>
+                </p>
+              )}
+              {f.unknownColumns.length > 0 && (
+                <p className="text-xs text-amber-600 mt-1 flex items-center gap-1">
+                  <AlertTriangle className="w-3 h-3 shrink-0" />
+                  أعمدة غير معروفة سيتم تجاهلها: <span dir="ltr">{f.unknownColumns.join(", ")}</span>
+                </p>
+              )}
+              {f.unmappedFields.length > 0 && (
+                <p className="text-xs text-amber-600 mt-1 flex items-center gap-1">
+                  <AlertTriangle className="w-3 h-3 shrink-0" />
+                  حقول بلا أعمدة ستُترك فارغة: <span dir="ltr">{f.unmappedFields.join(", ")}</span>
+                </p>
+              )}
+              {hasWarnings && (
+                <div className="mt-1 space-y-0.5">
+                  {f.unparseableTimestamps.map((issue) => (
+                    <p key={`ts-${issue.column}`} className="text-xs text-amber-600 flex items-center gap-1">
+                      <AlertTriangle className="w-3 h-3 shrink-0" />
+                      {issue.count} وقت غير مقروء في <span dir="ltr">{issue.column}</span>
+                      <span className="text-gray-400" dir="ltr">({issue.samples.join(" | ")})</span>
+                    </p>
+                  ))}
+                  {f.nulledNumbers.map((issue) => (
+                    <p key={`num-${issue.column}`} className="text-xs text-amber-600 flex items-center gap-1">
+                      <AlertTriangle className="w-3 h-3 shrink-0" />
+                      {issue.count} قيمة رقمية سيتم تجاهلها في <span dir="ltr">{issue.column}</span>
+                      <span className="text-gray-400" dir="ltr">({issue.samples.join(" | ")})</span>
+                    </p>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {report.missingFileTypes.length > 0 && (
+        <p className="text-xs text-amber-600">
+          ملفات غير موجودة: {report.missingFileTypes.map((t) => FILE_TYPE_LABELS[t] || t).join("، ")}
+        </p>
+      )}
+      {report.unrecognizedFiles.length > 0 && (
+        <p className="text-xs text-gray-500">
+          ملفات غير معروفة سيتم تجاهلها: <span dir="ltr">{report.unrecognizedFiles.join(", ")}</span>
+        </p>
+      )}
+    </div>
+  );
+}
+
+function ValidationPreview({
+  validation,
+  onConfirm,
+  onCancel,
+  isPending,
+}: {
+  validation: UploadValidation;
+  onConfirm: (mode: ImportMode) => void;
+  onCancel: () => void;
+  isPending: boolean;
+}) {
+  const { sessions } = validation;
+  const valid = sessions.length > 0 && sessions.every((r) => r.valid) && validation.errors.length === 0;
+  const anyExists = sessions.some((r) => r.alreadyExists);
+  const allExist = sessions.length > 0 && sessions.every((r) => r.alreadyExists);
+
+  return (
+    <Card className="border-0 shadow-sm">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          مراجعة الملفات قبل الاستيراد
+          {sessions.length > 1 && (
+            <Badge variant="outline" className="mr-auto text-xs">{sessions.length} حصص</Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {sessions.length === 0 && (
+          <p className="text-xs text-red-600">لم يتم التعرف على أي حصة من أسماء الملفات</p>
+        )}
+        {validation.errors.map((error) => (
+          <p key={error} className="text-xs text-red-600">
+            تم رفض الملف المضغوط: <span dir="ltr">{error}</span>
+          </p>
+        ))}
+
+        {sessions.map((report, i) => (
+          <div key={report.sessionId ?? `unknown-${i}`} className={i > 0 ? "border-t pt-4" : ""}>
+            <SessionValidation report={report} />
+          </div>
+        ))}
+
+        {validation.unrecognizedFiles.length > 0 && (
+          <p className="text-xs text-gray-500">
+            ملفات غير معروفة سيتم تجاهلها: <span dir="ltr">{validation.unrecognizedFiles.join(", ")}</span>
+          </p>
+        )}
+
+        {anyExists && (
+          <p className="text-xs text-amber-700 bg-amber-50 rounded-lg p-2">
+            {sessions.length > 1 ? "بعض هذه الحصص موجودة مسبقاً." : "هذه الحصة موجودة مسبقاً."}
+            {" "}يمكنك استبدال جميع بياناتها{allExist ? "، أو تحديث الملفات المرفوعة فقط" : ""}.
+            تبقى المشاهدات والتقييمات مرتبطة بالحصة.
+          </p>
+        )}
+
+        <div className="flex gap-2 pt-1">
+          {anyExists ? (
+            <>
+              <Button
+                className="bg-teal-600 hover:bg-teal-700"
+                size="sm"
+                onClick={() => onConfirm("replace")}
+                disabled={!valid || isPending}
+              >
+                {isPending ? "جاري الاستيراد..." : "استبدال الحصة بالكامل"}
+              </Button>
+              {allExist && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onConfirm("patch")}
+                  disabled={!valid || isPending}
+                >
+                  تحديث الملفات المرفوعة فقط
+                </Button>
+              )}
+            </>
+          ) : (
+            <Button
+              className="bg-teal-600 hover:bg-teal-700"
+              size="sm"
+              onClick={() => onConfirm("create")}
+              disabled={!valid || isPending}
+            >
+              {isPending ? "جاري الاستيراد..." : "تأكيد الاستيراد"}
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" onClick={onCancel} disabled={isPending}>
+            إلغاء
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
 function getWeekRange(date: Date): { start: Date; end: Date; label: string } {
   const d = new Date(date);
   const day = d.getDay();
@@ -60,28 +328,28 @@ export default function TeacherDashboard() {
     queryKey: ["/api/my-sessions"],
   });
 
+  const [pendingFiles, setPendingFiles] = useState<File[] | null>(null);
+
+  const validateMutation = useMutation({
+    mutationFn: async (files: File[]): Promise<UploadValidation> => postSessionFiles(files, { dryRun: true }),
+  });
+
   const uploadMutation = useMutation({
-    mutationFn: async (files: FileList) => {
-      const formData = new FormData();
-      for (let i = 0; i < files.length; i++) {
-        formData.append("files", files[i]);
-      }
-      const res = await fetch("/api/sessions/upload", {
-        method: "POST",
-        body: formData,
-        credentials: "include",
-      });
-      if (!res.ok) {
-        const data = await res.json();
-        throw new Error(data.error || "Upload failed");
-      }
-      return res.json();
-    },
+    mutationFn: async ({ files, mode }: { files: File[]; mode: ImportMode }): Promise<UploadResult> =>
+      postSessionFiles(files, { mode }),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/my-sessions"] });
+      setPendingFiles(null);
+      validateMutation.reset();
+      queryClient.invalidateQueries({ queryKey: ["/api/my-import-jobs"] });
     },
   });
 
+  const cancelUpload = () => {
+    setPendingFiles(null);
+    validateMutation.reset();
+    uploadMutation.reset();
+  };
+
   const handleLogout = async () => {
     await logout();
     setLocation("/login");
@@ -157,11 +425,14 @@ export default function TeacherDashboard() {
                 type="file"
                 ref={fileInputRef}
                 multiple
-                accept=".csv,.xlsx"
+                accept=".csv,.xlsx,.zip,.srt,.vtt"
                 className="hidden"
                 onChange={(e) => {
                   if (e.target.files && e.target.files.length > 0) {
-                    uploadMutation.mutate(e.target.files);
+                    const files = Array.from(e.target.files);
+                    uploadMutation.reset();
+                    setPendingFiles(files);
+                    validateMutation.mutate(files);
                     e.target.value = "";
                   }
                 }}
@@ -170,19 +441,28 @@ export default function TeacherDashboard() {
                 variant="outline"
                 className="w-full border-dashed border-2 h-auto py-3"
                 onClick={() => fileInputRef.current?.click()}
-                disabled={uploadMutation.isPending}
+                disabled={uploadMutation.isPending || validateMutation.isPending}
               >
                 <div className="flex items-center gap-2">
-                  {uploadMutation.isPending ? (
+                  {uploadMutation.isPending || validateMutation.isPending ? (
                     <span className="animate-spin">&#9696;</span>
                   ) : (
                     <Upload className="w-5 h-5 text-teal-600" />
                   )}
                   <span className="text-sm">
-                    {uploadMutation.isPending ? "جاري الرفع..." : "رفع حصة جديدة"}
+                    {uploadMutation.isPending
+                      ? "جاري الرفع..."
+                      : validateMutation.isPending
+                        ? "جاري فحص الملفات..."
+                        : "رفع حصة جديدة"}
                   </span>
                 </div>
               </Button>
+              {validateMutation.isError && (
+                <p className="text-xs text-red-500 mt-2 text-center">
+                  {(validateMutation.error as Error).message}
+                </p>
+              )}
               {uploadMutation.isError && (
                 <p className="text-xs text-red-500 mt-2 text-center">
                   {(uploadMutation.error as Error).message}
@@ -190,13 +470,26 @@ export default function TeacherDashboard() {
               )}
               {uploadMutation.isSuccess && (
                 <p className="text-xs text-green-600 mt-2 text-center">
-                  تم رفع الحصة بنجاح
+                  تم استلام الملفات وجاري معالجتها
                 </p>
               )}
             </CardContent>
           </Card>
         </div>
 
+        {/* Upload Validation Preview */}
+        {pendingFiles && validateMutation.data && (
+          <ValidationPreview
+            validation={validateMutation.data}
+            onConfirm={(mode) => uploadMutation.mutate({ files: pendingFiles, mode })}
+            onCancel={cancelUpload}
+            isPending={uploadMutation.isPending}
+          />
+        )}
+
+        {/* Performance Trends */}
+        {teacher && <TeacherTrends teacherId={teacher.id} />}
+
         {/* Week Selector */}
         <div className="flex items-center justify-between bg-white rounded-xl p-3 shadow-sm">
           <Button variant="ghost" size="icon" onClick={() => setWeekOffset(weekOffset + 1)}>
@@ -216,6 +509,9 @@ export default function TeacherDashboard() {
           </Button>
         </div>
 
+        {/* Background Imports */}
+        <ImportJobsList />
+
         {/* Sessions List */}
         {isLoading ? (
           <div className="space-y-4">
@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import { ArrowRight } from "lucide-react";
 import Dashboard from "./dashboard";
 import ReportFeedback from "@/components/ReportFeedback";
+import ImportHistory from "@/components/ImportHistory";
 
 export default function TeacherSessionReport() {
   const params = useParams<{ sessionId: string }>();
@@ -66,6 +67,7 @@ export default function TeacherSessionReport() {
       {sessionId && (
         <div className="max-w-5xl mx-auto px-4 pb-8">
           <ReportFeedback sessionId={sessionId} />
+          <ImportHistory sessionId={sessionId} />
         </div>
       )}
     </div>
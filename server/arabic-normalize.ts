@@ -0,0 +1,35 @@
+/**
+ * Arabic text normalization for pattern matching. Transcript and chat text is
+ * stored twice: the original for display, and a normalized copy (written at
+ * import) that every detector matches against. Patterns are normalized the
+ * same way when compiled, so a term written as "الدائرة" also matches
+ * "الدائره", "الدّائرة" or "الدائـــرة".
+ *
+ * Normalization only rewrites Arabic letters and marks, so it is safe to apply
+ * to regex sources as well as to text.
+ */
+
+/** Harakat, tanween, shadda, sukun, superscript alef and Quranic annotation marks. */
+const DIACRITICS = /[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06DC\u06DF-\u06E8\u06EA-\u06ED]/g;
+const TATWEEL = /\u0640/g;
+
+const LETTER_FOLDS: [RegExp, string][] = [
+  [/[\u0622\u0623\u0625\u0671]/g, "\u0627"], // آ أ إ ٱ → ا
+  [/\u0649/g, "\u064A"], // ى → ي
+  [/\u0629/g, "\u0647"], // ة → ه
+  [/\u0624/g, "\u0648"], // ؤ → و
+  [/\u0626/g, "\u064A"], // ئ → ي
+];
+
+export function normalizeArabic(text: string): string {
+  let result = text.replace(DIACRITICS, "").replace(TATWEEL, "");
+  for (const [pattern, replacement] of LETTER_FOLDS) {
+    result = result.replace(pattern, replacement);
+  }
+  return result;
+}
+
+/** Compile a pattern source for matching against normalized text. */
+export function compileNormalized(source: string, flags = "i"): RegExp {
+  return new RegExp(normalizeArabic(source), flags);
+}
@@ -0,0 +1,94 @@
+import { parseTimeToSeconds } from "./storage";
+
+/**
+ * SRT / WebVTT caption parsing for transcript import. Cues are turned into
+ * the start/end/text records the transcript mapper expects, with times written
+ * as "HH:MM:SS" so `parseTimeToSeconds` reads them like the CSV export.
+ */
+
+export interface CaptionCue {
+  /** Seconds from the start of the recording (or wall-clock seconds for absolute captions). */
+  start: number;
+  end: number;
+  text: string;
+}
+
+const TIMING_LINE = /^\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+
+/** True when the content looks like SRT or WebVTT rather than a CSV. */
+export function isCaptionContent(content: string): boolean {
+  const head = content.replace(/^\uFEFF/, "").trimStart();
+  if (head.startsWith("WEBVTT")) return true;
+  return head.split(/\r?\n/, 6).some(line => TIMING_LINE.test(line));
+}
+
+function cueTimeToSeconds(value: string): number {
+  const parts = value.replace(",", ".").split(":").map(Number);
+  const [h, m, s] = parts.length === 3 ? parts : [0, parts[0], parts[1]];
+  return h * 3600 + m * 60 + s;
+}
+
+/** Drop WebVTT voice/class tags and SRT font/style tags, keeping the spoken text. */
+function stripCueMarkup(text: string): string {
+  return text
+    .replace(/<[^>]+>/g, "")
+    .replace(/\{\\[^}]*\}/g, "")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&nbsp;/g, " ")
+    .trim();
+}
+
+/**
+ * Parse SRT or WebVTT content into cues. Blocks without a timing line
+ * (the WEBVTT header, NOTE, STYLE and REGION blocks) are skipped, and
+ * multi-line cue text is joined with spaces.
+ */
+export function parseCaptions(content: string): CaptionCue[] {
+  const blocks = content.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n").split(/\n{2,}/);
+  const cues: CaptionCue[] = [];
+  for (const block of blocks) {
+    const lines = block.split("\n");
+    const timingIndex = lines.findIndex(line => TIMING_LINE.test(line));
+    if (timingIndex < 0) continue;
+    const match = lines[timingIndex].match(TIMING_LINE)!;
+    const text = stripCueMarkup(lines.slice(timingIndex + 1).join(" ").replace(/\s+/g, " "));
+    if (!text) continue;
+    cues.push({ start: cueTimeToSeconds(match[1]), end: cueTimeToSeconds(match[2]), text });
+  }
+  return cues;
+}
+
+function formatClockTime(totalSeconds: number): string {
+  const s = ((Math.floor(totalSeconds) % 86400) + 86400) % 86400;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${pad(Math.floor(s / 3600))}:${pad(Math.floor((s % 3600) / 60))}:${pad(s % 60)}`;
+}
+
+/**
+ * Convert cues into transcript records. Captions from the video pipeline are
+ * usually relative to the start of the recording; when the first cue falls
+ * outside the session's wall-clock window it is treated as relative and every
+ * cue is shifted by `teacherStartTime`. Without a start time cues are kept as-is.
+ */
+export function cuesToTranscriptRecords(
+  cues: CaptionCue[],
+  teacherStartTime?: string | null,
+  teacherEndTime?: string | null
+): { startTime: string; endTime: string; text: string }[] {
+  const sessionStart = teacherStartTime ? parseTimeToSeconds(teacherStartTime) : null;
+  let offset = 0;
+  if (sessionStart !== null && cues.length > 0) {
+    const sessionEnd = (teacherEndTime ? parseTimeToSeconds(teacherEndTime) : null) ?? sessionStart + 3 * 3600;
+    const first = cues[0].start;
+    // Allow a 30-minute margin either side for captions already in wall-clock time
+    const isAbsolute = first >= sessionStart - 1800 && first <= sessionEnd + 1800;
+    if (!isAbsolute) offset = sessionStart;
+  }
+  return cues.map(cue => ({
+    startTime: formatClockTime(cue.start + offset),
+    endTime: formatClockTime(cue.end + offset),
+    text: cue.text,
+  }));
+}
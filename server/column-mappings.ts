@@ -0,0 +1,250 @@
+import { z } from "zod";
+import { storage } from "./storage";
+import { SESSION_FILE_TYPES, type SessionFileType } from "@shared/schema";
+
+/**
+ * How the columns of one export file map onto the fields of its Insert* type.
+ * Each field lists the source headers to try, in order; the first one present wins.
+ * "#N" refers to the 0-based column position and "#N+" joins column N onward
+ * with commas (used for the headerless transcript export).
+ */
+export interface ColumnMappingDefinition {
+  columns: Record<string, string[]>;
+  /** Fields that must resolve to a source column for the file to be valid. */
+  required: string[];
+}
+
+export interface ActiveColumnMapping {
+  /** 0 for the built-in default, otherwise the stored version number. */
+  version: number;
+  definition: ColumnMappingDefinition;
+}
+
+export type ColumnMappingSet = Record<SessionFileType, ActiveColumnMapping>;
+
+export const DEFAULT_COLUMN_MAPPINGS: Record<SessionFileType, ColumnMappingDefinition> = {
+  courseSession: {
+    columns: {
+      courseSessionId: ["course_session_id"],
+      courseId: ["course_id"],
+      courseSessionName: ["course_session_name"],
+      courseSessionClassType: ["course_session_class_type"],
+      courseSessionType: ["course_session_type"],
+      teacherId: ["teacher_id"],
+      scheduledStartTime: ["course_session_scheduled_start_time", "scheduled_start_time"],
+      scheduledEndTime: ["course_session_scheduled_end_time", "scheduled_end_time"],
+      teacherStartTime: ["teacher_start_time"],
+      teacherEndTime: ["teacher_end_time"],
+      teachingTime: ["teaching_time"],
+      sessionTime: ["session_time"],
+      avgActiveTimePerStudent: ["avg_active_time_per_student"],
+      medianActiveTimePerStudent: ["median_active_time_per_student"],
+      courseSessionStatus: ["course_session_status"],
+      totalSegments: ["total_segments"],
+      engagementEvents: ["engagement_events"],
+      engagementDurations: ["engagement_durations"],
+      positiveUsers: ["positive_users"],
+      negativeUsers: ["negative_users"],
+      neutralUsers: ["neutral_users"],
+      sessionTemperature: ["session_temperature"],
+    },
+    required: ["courseSessionId", "courseSessionName", "teacherStartTime", "teacherEndTime", "teachingTime"],
+  },
+  transcript: {
+    columns: {
+      startTime: ["start_time", "#0"],
+      endTime: ["end_time", "#1"],
+      text: ["text", "#2+"],
+    },
+    required: ["startTime", "endTime", "text"],
+  },
+  chats: {
+    columns: {
+      courseSessionId: ["course_session_id"],
+      messageId: ["message_id"],
+      messageText: ["message_text"],
+      creatorId: ["creator_id"],
+      userType: ["user_type"],
+      creatorName: ["creator_name"],
+      createdAtTs: ["created_at_ts"],
+    },
+    required: ["messageText", "creatorId", "userType", "createdAtTs"],
+  },
+  classroomActivity: {
+    columns: {
+      activityId: ["activity_id"],
+      courseSessionId: ["course_session_id"],
+      activityType: ["type", "activity_type"],
+      startTime: ["start_time"],
+      endTime: ["end_time"],
+      activityHappened: ["activity_happened"],
+      plannedDuration: ["planned_duration"],
+      duration: ["duration"],
+      totalMcqs: ["total_mcqs"],
+    },
+    required: ["activityId", "startTime", "endTime", "activityHappened"],
+  },
+  userPoll: {
+    columns: {
+      attemptId: ["attempt_id"],
+      pollType: ["poll_type"],
+      pollType2: ["poll_type_2"],
+      courseSessionId: ["course_session_id"],
+      userId: ["user_id"],
+      questionId: ["question_id"],
+      questionText: ["question_text"],
+      classroomActivityId: ["classroom_activity_id"],
+      isCorrectAnswer: ["is_correct_answer"],
+      pollAnswered: ["poll_answered"],
+      pollSeen: ["poll_seen"],
+      pollDuration: ["poll_duration"],
+      pollStartTime: ["poll_start_time"],
+      pollEndTime: ["poll_end_time"],
+    },
+    required: ["userId", "questionId", "classroomActivityId", "pollAnswered", "pollSeen", "isCorrectAnswer"],
+  },
+  userReaction: {
+    columns: {
+      courseSessionId: ["course_session_id"],
+      userId: ["user_id"],
+      eventDatetime: ["event_datetime"],
+      emotion: ["emotion"],
+      partOfActivity: ["part_of_activity"],
+      totalReactions: ["total_reactions"],
+    },
+    required: ["userId", "eventDatetime", "emotion"],
+  },
+  userSession: {
+    columns: {
+      userId: ["user_id"],
+      userName: ["user_name"],
+      userType: ["user_type"],
+      userSentiment: ["user_sentiment"],
+      courseSessionId: ["course_session_id"],
+      teachingTime: ["teaching_time"],
+      sessionTime: ["session_time"],
+      userEnterTime: ["user_enter_time"],
+      userExitTime: ["user_exit_time"],
+      roomTime: ["room_time"],
+      learningTime: ["learning_time"],
+      activeTime: ["active_time"],
+      totalPollsSeen: ["total_polls_seen"],
+      totalPollsResponded: ["total_polls_responded"],
+      totalMessages: ["total_messages"],
+      totalHandRaise: ["total_hand_raise"],
+      totalUnmutes: ["total_unmutes"],
+      platforms: ["platforms"],
+    },
+    required: ["userId", "userName", "userType"],
+  },
+};
+
+export const columnMappingDefinitionSchema = z.object({
+  columns: z.record(z.array(z.string().min(1)).min(1)),
+  required: z.array(z.string()),
+});
+
+/**
+ * Check an admin-submitted definition against the file type's fields.
+ * Returns an error message, or null when the definition is usable.
+ */
+export function validateMappingDefinition(fileType: SessionFileType, definition: ColumnMappingDefinition): string | null {
+  const knownFields = Object.keys(DEFAULT_COLUMN_MAPPINGS[fileType].columns);
+  const unknownFields = Object.keys(definition.columns).filter(f => !knownFields.includes(f));
+  if (unknownFields.length > 0) return `Unknown fields for ${fileType}: ${unknownFields.join(", ")}`;
+  const unmappedRequired = definition.required.filter(f => !definition.columns[f]);
+  if (unmappedRequired.length > 0) return `Required fields have no source columns: ${unmappedRequired.join(", ")}`;
+  return null;
+}
+
+/** Active mapping per file type: the admin-activated version, or the built-in default. */
+export async function loadColumnMappings(): Promise<ColumnMappingSet> {
+  const active = await storage.getActiveColumnMappings();
+  const result = {} as ColumnMappingSet;
+  for (const fileType of SESSION_FILE_TYPES) {
+    const stored = active.find(m => m.fileType === fileType);
+    result[fileType] = stored
+      ? { version: stored.version, definition: stored.mapping as ColumnMappingDefinition }
+      : { version: 0, definition: DEFAULT_COLUMN_MAPPINGS[fileType] };
+  }
+  return result;
+}
+
+export interface MappedRows {
+  records: Record<string, string | undefined>[];
+  /** Mapped fields whose source columns are all absent. */
+  missingColumns: string[];
+  /** Required fields among missingColumns. */
+  missingRequired: string[];
+  /** Source headers no field maps from. */
+  unknownColumns: string[];
+}
+
+type ColumnRef = { index: number } | { from: number };
+
+function parsePositional(alias: string): ColumnRef | null {
+  const match = alias.match(/^#(\d+)(\+)?$/);
+  if (!match) return null;
+  const n = parseInt(match[1], 10);
+  return match[2] ? { from: n } : { index: n };
+}
+
+/**
+ * Map parsed CSV rows onto Insert* field names. For mappings with positional
+ * ("#N") sources the first row is only treated as a header when one of its
+ * cells matches a named source column (case-insensitive); purely header-based
+ * mappings always read the first row as the header.
+ */
+export function applyColumnMapping(rows: string[][], definition: ColumnMappingDefinition): MappedRows {
+  const aliases = Object.values(definition.columns).flat();
+  const namedAliases = new Set(aliases.filter(a => !a.startsWith("#")).map(a => a.toLowerCase()));
+  const firstRow = rows[0] || [];
+  const hasHeader = !aliases.some(a => a.startsWith("#"))
+    || firstRow.some(cell => namedAliases.has(cell.trim().toLowerCase()));
+  const header = hasHeader ? firstRow.map(cell => cell.trim().toLowerCase()) : [];
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+
+  const refs: Record<string, ColumnRef> = {};
+  const usedIndexes = new Set<number>();
+  const missingColumns: string[] = [];
+  for (const [field, aliases] of Object.entries(definition.columns)) {
+    let ref: ColumnRef | null = null;
+    for (const alias of aliases) {
+      const positional = parsePositional(alias);
+      if (positional) {
+        ref = positional;
+        break;
+      }
+      const index = header.indexOf(alias.toLowerCase());
+      if (index >= 0) {
+        ref = { index };
+        break;
+      }
+    }
+    if (ref) {
+      refs[field] = ref;
+      if ("index" in ref) usedIndexes.add(ref.index);
+    } else {
+      missingColumns.push(field);
+    }
+  }
+
+  const records = dataRows.map(cols => {
+    const record: Record<string, string | undefined> = {};
+    for (const [field, ref] of Object.entries(refs)) {
+      record[field] = "index" in ref ? cols[ref.index] : cols.slice(ref.from).join(",");
+    }
+    return record;
+  });
+
+  const unknownColumns = header.length > 0
+    ? firstRow.filter((cell, i) => cell.trim() && !usedIndexes.has(i)).map(cell => cell.trim())
+    : [];
+
+  return {
+    records,
+    missingColumns,
+    missingRequired: definition.required.filter(f => missingColumns.includes(f)),
+    unknownColumns,
+  };
+}
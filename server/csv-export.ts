@@ -0,0 +1,17 @@
+/**
+ * CSV downloads. Rows are CRLF-separated with RFC 4180 quoting, and the
+ * output starts with a BOM so Excel reads Arabic names as UTF-8.
+ */
+
+export type CsvCell = string | number | boolean | null | undefined;
+
+function csvCell(value: CsvCell): string {
+  if (value === null || value === undefined) return "";
+  // Imported text (e.g. student names) must not open as a spreadsheet formula
+  const text = typeof value === "string" && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(header: string[], rows: CsvCell[][]): string {
+  return "\uFEFF" + [header, ...rows].map(row => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
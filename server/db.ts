@@ -7,3 +7,8 @@ const pool = new pg.Pool({
 });
 
 export const db = drizzle(pool, { schema });
+
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/** Either the pool-backed client or an open transaction; storage writes accept both. */
+export type DbExecutor = typeof db | DbTransaction;
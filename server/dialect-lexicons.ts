@@ -0,0 +1,295 @@
+/**
+ * Discourse lexicons: the phrase patterns the analysis uses to spot confusion,
+ * questions, explanation structure and encouragement in transcripts and chat.
+ * Every Arabic pack shares the dialect-neutral core terms and adds its own.
+ * Each session's transcript language is detected first (see detectLanguage);
+ * the session then uses the pack of that language assigned to its teacher,
+ * else to its course, else the language default (Gulf or English). Every
+ * pack fills the same keys, so reports keep one shape across languages.
+ *
+ * Terms are regex sources joined into one case-insensitive alternation per
+ * key and matched against normalized text (see arabic-normalize), so a term
+ * needs no hamza or ta marbuta variants. To add a dialect, add a pack to
+ * DIALECT_PACKS.
+ */
+
+import { compileNormalized, normalizeArabic } from "./arabic-normalize";
+
+export const LEXICON_KEYS = [
+  "confusion",
+  "steps",
+  "rephrase",
+  "example",
+  "verify",
+  "transition",
+  "openQuestion",
+  "closedQuestion",
+  "prompt",
+  "rhetorical",
+  "clarification",
+  "intro",
+  "summary",
+  "encourage",
+  "effort",
+  "motivation",
+  "recovery",
+  "question",
+  "studentCall",
+  "repeat",
+  "stageCall",
+] as const;
+export type LexiconKey = typeof LEXICON_KEYS[number];
+
+export const SESSION_LANGUAGES = ["ar", "en"] as const;
+export type SessionLanguage = typeof SESSION_LANGUAGES[number];
+
+export interface DialectPack {
+  id: string;
+  name: string;
+  description: string;
+  language: SessionLanguage;
+  /** English packs list every key; Arabic packs add to CORE_TERMS. */
+  terms: Partial<Record<LexiconKey, string[]>>;
+}
+
+export interface ResolvedLexicon {
+  id: string;
+  name: string;
+  language: SessionLanguage;
+  patterns: Record<LexiconKey, RegExp>;
+}
+
+export const LEXICON_SCOPE_TYPES = ["teacher", "course"] as const;
+export type LexiconScopeType = typeof LEXICON_SCOPE_TYPES[number];
+
+/** Pack a session falls back to when nothing in its language is assigned. */
+export const DEFAULT_PACK_IDS: Record<SessionLanguage, string> = { ar: "gulf", en: "english" };
+
+/** Arabic terms understood across dialects. */
+const CORE_TERMS: Record<LexiconKey, string[]> = {
+  confusion: ["ما\\s*فهم", "ما\\s*فهمت", "ما\\s*عرف", "ما\\s*وضح", "ما\\s*قدر", "مش\\s*فاهم", "صعب", "كيف", "\\?\\?", "اعيد"],
+  steps: ["أولا", "ثانيا", "ثالثا", "الخطوة", "ثم"],
+  rephrase: ["يعني", "بمعنى", "نعيد"],
+  example: ["مثلا", "مثال", "على سبيل", "تخيل", "فرض", "لو كان"],
+  verify: ["واضح", "صح", "سؤال", "تمام"],
+  transition: ["طيب", "ننتقل", "نكمل", "خلاص", "يلا"],
+  openQuestion: ["لماذا", "كيف ممكن"],
+  closedQuestion: ["كم يساوي", "كم عدد"],
+  prompt: ["اكتبوا", "في الشات", "ردوا", "جاوبوا", "ارفعوا", "اختاروا", "شاركوا"],
+  rhetorical: ["صح ؟", "واضح ؟", "تمام ؟"],
+  clarification: ["يعني", "بمعنى", "اقصد"],
+  intro: ["الدرس اليوم", "نبدأ ب", "موضوعنا"],
+  summary: ["بمعنى", "الخلاصة", "نلخص", "الملخص"],
+  encourage: ["ممتاز", "أحسنت", "رائع", "شاطر", "تمام", "جميل", "برافو", "ممتاز جداً", "إجابة ممتازة", "لا بأس", "قريب جداً"],
+  effort: ["جرب", "حاول", "لا بأس", "قريب"],
+  motivation: ["يلا", "نبدأ", "جاهزين", "حماس"],
+  recovery: ["لا بأس", "قريب جداً"],
+  question: ["\\?", "من\\s*يعرف", "من\\s*يقدر", "كيف.*نحسب", "كيف.*نعرف"],
+  studentCall: ["يلا", "اشرح", "جاوب"],
+  repeat: ["يعني", "بمعنى", "نعيد"],
+  stageCall: ["اشرح", "اشرحي", "تعال", "تعالي", "يلا.*اشرح", "stage", "explain.*class", "come.*up"],
+};
+
+export const DIALECT_PACKS: DialectPack[] = [
+  {
+    id: "gulf",
+    name: "Gulf / Saudi",
+    description: "Saudi and Gulf colloquial (وش، ايش، الحين)",
+    language: "ar",
+    terms: {
+      confusion: ["مو\\s*فاهم", "مو\\s*واضح", "وش\\s*يعني", "يعني\\s*ايش"],
+      steps: ["أول شي", "بعدين", "بعد كذا", "نبدأ.*ب", "أول حاجة"],
+      rephrase: ["نقدر نقول", "بالعربي", "بشكل ثاني", "مرة ثانية"],
+      example: ["لو عندنا", "يعني مثل"],
+      verify: ["فاهمين", "فهمتوا", "ماشي", "صح ولا لا", "عرفتوا"],
+      transition: ["الحين", "نروح", "هسا"],
+      openQuestion: ["ليش", "ايش رأيكم", "شو تتوقعوا", "ايش الفرق", "وش السبب", "ليه"],
+      closedQuestion: ["صح ولا غلط", "صح ولا لا", "ايش الجواب", "ايش يكون"],
+      prompt: ["حطوا"],
+      rhetorical: ["مو كذا ؟", "ماشي ؟", "ولا لا ؟"],
+      clarification: ["خلني", "بشكل ثاني", "وضحت", "فهمتوا الحين"],
+      intro: ["الحين نتكلم عن", "اليوم بنتعلم", "بنشرح"],
+      summary: ["يعني باختصار", "القصد"],
+      encourage: ["كويس", "صح عليك", "فكرة حلوة", "جرب مرة ثانية"],
+      effort: ["شوي كمان", "برضو كويس"],
+      motivation: ["خلونا"],
+      recovery: ["عادي", "جرب مرة ثانية", "الفكرة صح بس"],
+      question: [
+        "يلا.*اجاوب", "اش\\s*رأيكم", "شو\\s*رأي", "وش\\s*تقول", "ها\\s*صح", "مين.*عنده", "مين.*يبي",
+        "طيب\\s*اشرح", "عطوني", "وش.*الفرق", "ليش",
+      ],
+      studentCall: ["عطني\\s*الجواب", "ها\\s*يا", "يا\\s*.*اشرح", "وش\\s*تقول.*يا", "من\\s*يبي\\s*يجاوب"],
+      repeat: ["مرة\\s*ثانية", "نرجع.*نقول", "زي\\s*ما\\s*قلنا"],
+    },
+  },
+  {
+    id: "egyptian",
+    name: "Egyptian",
+    description: "Egyptian colloquial (ايه، ازاي، دلوقتي)",
+    language: "ar",
+    terms: {
+      confusion: ["مافهمتش", "مش\\s*واضح", "يعني\\s*ايه", "ازاي", "مش\\s*عارف", "مش\\s*قادر"],
+      steps: ["أول حاجة", "بعد كده", "وبعدين", "تاني حاجة"],
+      rephrase: ["بمعنى تاني", "بشكل تاني", "مرة تانية", "نقدر نقول", "بالبلدي"],
+      example: ["لو عندنا", "زي مثلا", "خد عندك"],
+      verify: ["فاهمين", "فهمتوا", "ماشي", "كده", "حد عنده سؤال"],
+      transition: ["دلوقتي", "يلا بينا", "نروح", "نيجي ل"],
+      openQuestion: ["ليه", "ازاي", "ايه رأيكم", "ايه الفرق", "تفتكروا"],
+      closedQuestion: ["صح ولا غلط", "ايه الإجابة", "ايه الجواب", "يطلع كام", "كام"],
+      prompt: ["اكتبولي", "حطوا", "قولولي"],
+      rhetorical: ["مش كده ؟", "ماشي ؟", "ولا ايه ؟"],
+      clarification: ["قصدي", "خليني", "بشكل تاني", "وضحت كده"],
+      intro: ["النهارده هنتكلم", "النهارده هنتعلم", "هنشرح", "درس النهارده"],
+      summary: ["من الآخر", "يعني باختصار", "الزبدة"],
+      encourage: ["كويس", "جامد", "عاش", "حلو أوي", "برافو عليك", "جرب تاني"],
+      effort: ["كمان شوية", "برضه كويس", "قربت"],
+      motivation: ["يلا بينا", "مستعدين", "خلونا"],
+      recovery: ["مفيش مشكلة", "عادي", "جرب تاني", "الفكرة صح بس"],
+      question: ["مين\\s*يعرف", "ايه\\s*رأيكم", "حد\\s*عارف", "ليه", "ازاي"],
+      studentCall: ["قولي\\s*يا", "مين\\s*عايز\\s*يجاوب", "اديني\\s*الإجابة"],
+      repeat: ["مرة\\s*تانية", "زي\\s*ما\\s*قلنا"],
+      stageCall: ["اشرحلنا"],
+    },
+  },
+  {
+    id: "levantine",
+    name: "Levantine",
+    description: "Levantine colloquial (شو، هلق، منيح)",
+    language: "ar",
+    terms: {
+      confusion: ["شو\\s*يعني", "يعني\\s*شو", "مش\\s*واضح", "كيف\\s*يعني", "ما\\s*عم\\s*افهم", "مش\\s*عارف"],
+      steps: ["أول إشي", "بعدين", "بعد هيك", "منبلش"],
+      rephrase: ["بشكل تاني", "مرة تانية", "منقدر نقول"],
+      example: ["لو عنا", "متل", "مثلا هيك"],
+      verify: ["فهمتو", "منيح", "مزبوط"],
+      transition: ["هلق", "هلأ", "هسا", "منروح", "خلينا"],
+      openQuestion: ["ليش", "شو رأيكن", "شو رأيكم", "شو الفرق", "شو بتتوقعوا", "كيف بتفسروا"],
+      closedQuestion: ["صح ولا غلط", "شو الجواب", "قديش بيساوي", "قديش"],
+      prompt: ["حطوا", "كتبوا", "قولولي"],
+      rhetorical: ["مش هيك ؟", "مزبوط ؟", "ولا لأ ؟"],
+      clarification: ["قصدي", "خليني", "بشكل تاني", "هيك وضحت"],
+      intro: ["اليوم رح نحكي", "اليوم رح نتعلم", "رح نشرح", "هلق رح نحكي"],
+      summary: ["باختصار", "الزبدة", "يعني بالمختصر"],
+      encourage: ["يعطيك العافية", "منيح", "كتير حلو", "عفارم", "جرب كمان مرة"],
+      effort: ["كمان شوي", "قربت", "مش غلط"],
+      motivation: ["خلينا", "يلا نبلش"],
+      recovery: ["ولا يهمك", "عادي", "جرب كمان مرة", "الفكرة صح بس"],
+      question: ["مين\\s*بيعرف", "شو\\s*رأيكم", "مين\\s*بدو", "ليش"],
+      studentCall: ["شو\\s*بتقول\\s*يا", "مين\\s*بدو\\s*يجاوب", "اعطيني\\s*الجواب"],
+      repeat: ["مرة\\s*تانية", "متل\\s*ما\\s*قلنا"],
+      stageCall: ["تعا", "اشرحلنا"],
+    },
+  },
+  {
+    id: "msa",
+    name: "Modern Standard Arabic",
+    description: "Formal classroom Arabic (لماذا، الآن، هل فهمتم)",
+    language: "ar",
+    terms: {
+      confusion: ["لم\\s*أفهم", "لم\\s*افهم", "لا\\s*أفهم", "غير\\s*واضح", "ماذا\\s*يعني", "ما\\s*معنى", "لا\\s*أعرف"],
+      steps: ["بعد ذلك", "الخطوة التالية", "في البداية", "أخيرا"],
+      rephrase: ["أي أن", "بعبارة أخرى", "بمعنى آخر", "مرة أخرى"],
+      example: ["لنفترض", "على سبيل المثال", "إذا كان لدينا"],
+      verify: ["هل هذا واضح", "هل فهمتم", "هل لديكم سؤال", "أليس كذلك"],
+      transition: ["الآن", "ننتقل إلى", "لننتقل", "والآن"],
+      openQuestion: ["ما رأيكم", "ما الفرق", "ما السبب", "كيف يمكن", "ماذا تتوقعون"],
+      closedQuestion: ["صح أم خطأ", "ما الإجابة", "ما الجواب", "ما قيمة", "كم يبلغ"],
+      prompt: ["أجيبوا", "شاركونا", "في المحادثة"],
+      rhetorical: ["أليس كذلك ؟", "صحيح ؟"],
+      clarification: ["أقصد", "دعوني أوضح", "بعبارة أخرى"],
+      intro: ["سنتحدث اليوم", "سنتعلم اليوم", "درسنا اليوم", "سنشرح"],
+      summary: ["باختصار", "خلاصة القول", "لنلخص"],
+      encourage: ["أحسنتم", "عمل رائع", "إجابة صحيحة", "بارك الله فيك", "حاول مرة أخرى"],
+      effort: ["اقتربت", "محاولة جيدة", "تقريبا"],
+      motivation: ["هيا", "لنبدأ", "مستعدون"],
+      recovery: ["لا مشكلة", "حاول مرة أخرى", "الفكرة صحيحة لكن"],
+      question: ["من\\s*يستطيع", "ما\\s*رأيكم", "هل\\s*تعرفون", "لماذا", "ما\\s*الفرق"],
+      studentCall: ["أجب", "من\\s*يريد\\s*الإجابة", "تفضل\\s*يا"],
+      repeat: ["مرة\\s*أخرى", "كما\\s*ذكرنا", "كما\\s*قلنا"],
+      stageCall: ["تفضل\\s*واشرح"],
+    },
+  },
+  {
+    id: "english",
+    name: "English",
+    description: "English-medium classes (why, let's say, does that make sense)",
+    language: "en",
+    terms: {
+      confusion: ["don'?t\\s*understand", "didn'?t\\s*understand", "don'?t\\s*get\\s*it", "i'?m\\s*(lost|confused|stuck)", "confus", "not\\s*clear", "what\\s*do\\s*you\\s*mean", "how\\s*come", "\\bhard\\b", "\\?\\?", "again\\s*please"],
+      steps: ["\\bfirst(ly)?\\b", "\\bsecond(ly)?\\b", "\\bthird(ly)?\\b", "\\bstep\\b", "\\bthen\\b", "\\bnext\\b", "after\\s*that", "\\bfinally\\b"],
+      rephrase: ["in\\s*other\\s*words", "\\bi\\s*mean\\b", "another\\s*way", "let\\s*me\\s*rephrase", "\\bthat\\s*is\\b", "once\\s*more"],
+      example: ["for\\s*example", "for\\s*instance", "\\bexample\\b", "imagine", "suppose", "let'?s\\s*say", "if\\s*we\\s*have"],
+      verify: ["\\bclear\\b", "make\\s*sense", "understand\\?", "got\\s*it\\?", "\\bright\\?", "\\bok(ay)?\\?", "any\\s*questions"],
+      transition: ["\\bnow\\b", "moving\\s*on", "let'?s\\s*move", "\\balright\\b", "\\bokay\\s*so\\b", "let'?s\\s*continue"],
+      openQuestion: ["\\bwhy\\b", "how\\s*(can|could|would|do)\\s*(we|you)", "what\\s*do\\s*you\\s*think", "what'?s\\s*the\\s*difference", "what\\s*would\\s*happen", "what\\s*do\\s*you\\s*expect"],
+      closedQuestion: ["how\\s*many", "how\\s*much", "true\\s*or\\s*false", "yes\\s*or\\s*no", "what'?s\\s*the\\s*answer", "what\\s*is\\s*the\\s*answer", "what\\s*is\\s*the\\s*value"],
+      prompt: ["in\\s*the\\s*chat", "\\bwrite\\b", "\\btype\\b", "\\banswer\\b", "raise\\s*your\\s*hand", "\\bchoose\\b", "\\bshare\\b", "tell\\s*me"],
+      rhetorical: ["\\bright\\s*\\?", "isn'?t\\s*it\\s*\\?", "\\bclear\\s*\\?", "\\bok(ay)?\\s*\\?"],
+      clarification: ["in\\s*other\\s*words", "\\bi\\s*mean\\b", "let\\s*me\\s*(explain|clarify)", "to\\s*clarify", "what\\s*i\\s*mean"],
+      intro: ["today\\s*we", "today'?s\\s*(lesson|topic)", "our\\s*(lesson|topic)", "we'?re\\s*going\\s*to\\s*(learn|talk)", "let'?s\\s*start\\s*with"],
+      summary: ["to\\s*sum\\s*up", "in\\s*summary", "to\\s*summari[sz]e", "in\\s*short", "the\\s*main\\s*idea", "\\bremember\\b"],
+      encourage: ["excellent", "great\\s*(job|work|answer)?", "well\\s*done", "good\\s*job", "perfect", "awesome", "brilliant", "very\\s*good", "nice\\s*(work|job)", "that'?s\\s*(right|correct)", "no\\s*problem", "very\\s*close"],
+      effort: ["\\btry\\b", "nice\\s*try", "good\\s*try", "almost", "\\bclose\\b", "keep\\s*going", "getting\\s*there"],
+      motivation: ["let'?s\\s*go", "let'?s\\s*start", "\\bready\\b", "come\\s*on", "you\\s*can\\s*do"],
+      recovery: ["no\\s*problem", "that'?s\\s*ok(ay)?", "not\\s*quite", "try\\s*again", "very\\s*close", "good\\s*thinking,?\\s*but"],
+      question: ["\\?", "who\\s*knows", "who\\s*can", "does\\s*anyone", "can\\s*anyone", "how\\s*(do|can)\\s*we\\s*(find|calculate|know)", "\\bwhy\\b"],
+      studentCall: ["go\\s*ahead", "your\\s*turn", "can\\s*you\\s*(answer|explain|tell)", "who\\s*wants\\s*to\\s*answer", "\\bunmute\\b", "\\bexplain\\b"],
+      repeat: ["\\bagain\\b", "once\\s*more", "as\\s*(i|we)\\s*said", "let\\s*me\\s*repeat"],
+      stageCall: ["stage", "explain.*class", "come.*up", "to\\s*the\\s*board", "share\\s*your\\s*screen", "show\\s*us"],
+    },
+  },
+];
+
+export function getDialectPack(id: string): DialectPack | undefined {
+  return DIALECT_PACKS.find(p => p.id === id);
+}
+
+/** Core (for Arabic packs) and pack terms per key, as the pattern sources the pack will compile to. */
+export function packTerms(pack: DialectPack): Record<LexiconKey, string[]> {
+  const terms = {} as Record<LexiconKey, string[]>;
+  for (const key of LEXICON_KEYS) {
+    const core = pack.language === "ar" ? CORE_TERMS[key] : [];
+    terms[key] = Array.from(new Set([...core, ...(pack.terms[key] || [])]));
+  }
+  return terms;
+}
+
+export function compileLexicon(pack: DialectPack): ResolvedLexicon {
+  const terms = packTerms(pack);
+  const patterns = {} as Record<LexiconKey, RegExp>;
+  for (const key of LEXICON_KEYS) {
+    patterns[key] = compileNormalized(terms[key].join("|"));
+  }
+  return { id: pack.id, name: pack.name, language: pack.language, patterns };
+}
+
+export const DEFAULT_LEXICONS: Record<SessionLanguage, ResolvedLexicon> = {
+  ar: compileLexicon(getDialectPack(DEFAULT_PACK_IDS.ar)!),
+  en: compileLexicon(getDialectPack(DEFAULT_PACK_IDS.en)!),
+};
+
+const ARABIC_LETTER = /[\u0621-\u064A]/g;
+const LATIN_LETTER = /[A-Za-z]/g;
+
+/**
+ * Transcript language: English when Latin letters outnumber Arabic ones.
+ * Arabic lessons quote English terms and symbols, so anything short of a
+ * Latin majority stays Arabic, as do sessions with no transcript.
+ */
+export function detectLanguage(texts: string[]): SessionLanguage {
+  let arabic = 0;
+  let latin = 0;
+  for (const text of texts) {
+    arabic += text.match(ARABIC_LETTER)?.length ?? 0;
+    latin += text.match(LATIN_LETTER)?.length ?? 0;
+  }
+  return latin > arabic ? "en" : "ar";
+}
+
+/** Which lexicon keys each sample line triggers, for checking a pack against real transcript text. */
+export function testLexicon(lexicon: ResolvedLexicon, lines: string[]): { line: string; matches: LexiconKey[] }[] {
+  return lines.map(line => ({
+    line,
+    matches: LEXICON_KEYS.filter(key => lexicon.patterns[key].test(normalizeArabic(line))),
+  }));
+}
@@ -0,0 +1,113 @@
+import fs from "fs";
+import iconv from "iconv-lite";
+
+/**
+ * Encoding detection for imported session files. Exports reach us as UTF-8
+ * (with or without BOM), UTF-16 from Excel's "Unicode text" option,
+ * Windows-1256 or ISO-8859-6 from Arabic Windows setups, and UTF-8 that was
+ * round-tripped through MacRoman somewhere upstream. Each file is decoded
+ * with the encoding that yields the most plausible Arabic text.
+ */
+
+export const DETECTED_ENCODINGS = [
+  "utf-8", "utf-16le", "utf-16be", "windows-1256", "iso-8859-6", "utf-8+macroman-repair",
+] as const;
+export type DetectedEncoding = typeof DETECTED_ENCODINGS[number];
+
+export interface DecodedFile {
+  text: string;
+  encoding: DetectedEncoding;
+}
+
+const GARBLED_MACROMAN = /[\u00FF\u0178\u00DF\u2019\u00E6\u00A3\u00AB\u00BB\u2202\u222B\u00B5\u03C0\u2206\u221A\u2265\u2264]/;
+
+/** Undo UTF-8 text that was decoded as MacRoman; returns the input when it does not decode to Arabic. */
+export function fixMacRomanArabic(str: string): string {
+  if (!str) return str;
+  const hasGarbled = GARBLED_MACROMAN.test(str);
+  if (!hasGarbled) return str;
+  try {
+    const buf = iconv.encode(str, "macroman");
+    const decoded = buf.toString("utf8");
+    const hasArabic = /[\u0600-\u06FF]/.test(decoded);
+    if (hasArabic) return decoded;
+  } catch {}
+  return str;
+}
+
+/** Guess UTF-16 without a BOM: ASCII and Arabic code units put 0x00 or 0x06 in their high byte. */
+function detectUtf16(buf: Buffer): "utf-16le" | "utf-16be" | null {
+  const sample = buf.subarray(0, Math.min(buf.length, 4096));
+  if (sample.length < 4) return null;
+  let evenHigh = 0;
+  let oddHigh = 0;
+  for (let i = 0; i + 1 < sample.length; i += 2) {
+    if (sample[i] === 0x00 || sample[i] === 0x06) evenHigh++;
+    if (sample[i + 1] === 0x00 || sample[i + 1] === 0x06) oddHigh++;
+  }
+  const pairs = Math.floor(sample.length / 2);
+  if (oddHigh / pairs > 0.7 && evenHigh / pairs < 0.3) return "utf-16le";
+  if (evenHigh / pairs > 0.7 && oddHigh / pairs < 0.3) return "utf-16be";
+  return null;
+}
+
+function isValidUtf8(buf: Buffer): boolean {
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(buf);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const COMMON_ARABIC_LETTERS = /[\u0627\u0644\u064A\u0645\u0648\u0646\u0647\u0631\u0628\u062A\u0629\u0639]/g;
+
+/**
+ * How much a decoding looks like ordinary Arabic text: frequent letters count
+ * double, while replacement characters, Latin-1 letters and stray harakat
+ * (rare in exports, but where mis-decoded bytes land) count against it.
+ */
+function arabicScore(text: string): number {
+  const letters = (text.match(/[\u0621-\u064A]/g) || []).length;
+  const common = (text.match(COMMON_ARABIC_LETTERS) || []).length;
+  const replacement = (text.match(/\uFFFD/g) || []).length;
+  const latin = (text.match(/[\u00C0-\u00FF]/g) || []).length;
+  const harakat = (text.match(/[\u064B-\u0652]/g) || []).length;
+  return common * 2 + letters - replacement * 5 - latin * 2 - harakat * 2;
+}
+
+/** Decode a file's bytes, picking the encoding from its BOM, byte statistics and Arabic validity. */
+export function decodeBuffer(buf: Buffer): DecodedFile {
+  if (buf[0] === 0xEF && buf[1] === 0xBB && buf[2] === 0xBF) {
+    return { text: buf.subarray(3).toString("utf8"), encoding: "utf-8" };
+  }
+  if (buf[0] === 0xFF && buf[1] === 0xFE) {
+    return { text: iconv.decode(buf.subarray(2), "utf-16le"), encoding: "utf-16le" };
+  }
+  if (buf[0] === 0xFE && buf[1] === 0xFF) {
+    return { text: iconv.decode(buf.subarray(2), "utf-16be"), encoding: "utf-16be" };
+  }
+
+  const utf16 = detectUtf16(buf);
+  if (utf16) return { text: iconv.decode(buf, utf16), encoding: utf16 };
+
+  if (isValidUtf8(buf)) {
+    const text = buf.toString("utf8");
+    if (!GARBLED_MACROMAN.test(text)) return { text, encoding: "utf-8" };
+    const repaired = text.split("\n").map(fixMacRomanArabic).join("\n");
+    return repaired !== text
+      ? { text: repaired, encoding: "utf-8+macroman-repair" }
+      : { text, encoding: "utf-8" };
+  }
+
+  const candidates = (["windows-1256", "iso-8859-6"] as const).map(encoding => {
+    const text = iconv.decode(buf, encoding);
+    return { text, encoding, score: arabicScore(text) };
+  });
+  const best = candidates.reduce((a, b) => (b.score > a.score ? b : a));
+  return { text: best.text, encoding: best.encoding };
+}
+
+export function decodeFile(filePath: string): DecodedFile {
+  return decodeBuffer(fs.readFileSync(filePath));
+}
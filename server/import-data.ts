@@ -1,41 +1,116 @@
 import fs from "fs";
 import path from "path";
 import { parse } from "csv-parse/sync";
-import { storage } from "./storage";
-import iconv from "iconv-lite";
+import { storage, parseTimeToSeconds, ImportRowError } from "./storage";
+import type { DbExecutor } from "./db";
+import { normalizeArabic } from "./arabic-normalize";
+import { decodeFile, fixMacRomanArabic, type DetectedEncoding } from "./encoding";
+import { isCaptionContent, parseCaptions, cuesToTranscriptRecords, type CaptionCue } from "./captions";
+import { applyColumnMapping, loadColumnMappings, type ActiveColumnMapping, type ColumnMappingSet, type MappedRows } from "./column-mappings";
+import os from "os";
+import AdmZip from "adm-zip";
+import * as XLSX from "xlsx";
+import { SESSION_FILE_TYPES } from "@shared/schema";
 import type {
   InsertCourseSession, InsertSessionTranscript, InsertSessionChat,
   InsertClassroomActivity, InsertUserPoll, InsertUserReaction, InsertUserSession,
+  SessionFileType,
 } from "@shared/schema";
 
 const ASSETS_DIR = path.join(process.cwd(), "attached_assets");
 
-function fixMacRomanArabic(str: string): string {
-  if (!str) return str;
-  const hasGarbled = /[\u00FF\u0178\u00DF\u2019\u00E6\u00A3\u00AB\u00BB\u2202\u222B\u00B5\u03C0\u2206\u221A\u2265\u2264]/.test(str);
-  if (!hasGarbled) return str;
-  try {
-    const buf = iconv.encode(str, "macroman");
-    const decoded = buf.toString("utf8");
-    const hasArabic = /[\u0600-\u06FF]/.test(decoded);
-    if (hasArabic) return decoded;
-  } catch {}
-  return str;
-}
-
-function fixRowEncoding(row: any): any {
-  const fixed: any = {};
-  for (const [key, val] of Object.entries(row)) {
-    fixed[key] = typeof val === "string" ? fixMacRomanArabic(val) : val;
-  }
-  return fixed;
+const SESSION_ID_PATTERN = /(?:course_[Ss]ession|chats|classroom_activity|f_user_poll|f_user_reaction|user_session|transcript)_(\d+)[_.]/i;
+
+/** A file received by the upload route: the client's filename and the temp path it was saved to. */
+export interface UploadedFile {
+  originalname: string;
+  path: string;
+}
+
+/**
+ * How an upload treats a session that already exists:
+ * - create:  reject the upload (default)
+ * - replace: drop all of the session's rows and load the uploaded files
+ * - patch:   only swap the file types that were uploaded
+ */
+export type ImportMode = "create" | "replace" | "patch";
+
+export const IMPORT_MODES: ImportMode[] = ["create", "replace", "patch"];
+
+/**
+ * Fields (by Insert* name) whose values are converted with safeInt/safeFloat
+ * or parsed as timestamps, so bad values can be reported during validation
+ * before they are nulled out on import.
+ */
+const FIELD_CHECKS: Record<SessionFileType, { ints: string[]; floats: string[]; timestamps: string[] }> = {
+  courseSession: {
+    ints: ["courseSessionId", "courseId", "teacherId", "totalSegments", "positiveUsers", "negativeUsers", "neutralUsers"],
+    floats: ["teachingTime", "sessionTime", "avgActiveTimePerStudent", "medianActiveTimePerStudent", "sessionTemperature"],
+    timestamps: ["teacherStartTime", "teacherEndTime"],
+  },
+  transcript: {
+    ints: [],
+    floats: [],
+    timestamps: ["startTime", "endTime"],
+  },
+  chats: {
+    ints: ["courseSessionId", "creatorId"],
+    floats: [],
+    timestamps: ["createdAtTs"],
+  },
+  classroomActivity: {
+    ints: ["activityId", "courseSessionId", "plannedDuration", "totalMcqs"],
+    floats: ["duration"],
+    timestamps: ["startTime", "endTime"],
+  },
+  userPoll: {
+    ints: ["courseSessionId", "userId", "questionId", "classroomActivityId", "pollDuration"],
+    floats: [],
+    timestamps: ["pollStartTime", "pollEndTime"],
+  },
+  userReaction: {
+    ints: ["courseSessionId", "userId", "totalReactions"],
+    floats: [],
+    timestamps: ["eventDatetime"],
+  },
+  userSession: {
+    ints: ["userId", "courseSessionId", "totalPollsSeen", "totalPollsResponded", "totalMessages", "totalHandRaise", "totalUnmutes"],
+    floats: ["teachingTime", "sessionTime", "roomTime", "learningTime", "activeTime"],
+    timestamps: ["userEnterTime", "userExitTime"],
+  },
+};
+
+/** Parse CSV content into raw rows (header included), repairing garbled Arabic cells. */
+function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = parse(content, { columns: false, skip_empty_lines: true, relax_column_count: true });
+  return rows.map(cols => cols.map(fixMacRomanArabic));
 }
 
-function readCsv(filename: string): any[] {
-  const filePath = path.join(ASSETS_DIR, filename);
-  const content = fs.readFileSync(filePath, "utf-8");
-  const rows = parse(content, { columns: true, skip_empty_lines: true, relax_column_count: true });
-  return rows.map(fixRowEncoding);
+interface SessionFileRows extends MappedRows {
+  encoding: DetectedEncoding;
+  /** Set when a transcript was read from SRT/WebVTT captions; records hold the unaligned cue times. */
+  captionCues?: CaptionCue[];
+}
+
+/**
+ * Read a session file and map its columns onto Insert* field names.
+ * The text encoding is detected per file, and transcripts may also be SRT or
+ * WebVTT captions, detected from the content.
+ */
+function readMappedFile(filePath: string, fileType: SessionFileType, mapping: ActiveColumnMapping): SessionFileRows {
+  const { text: content, encoding } = decodeFile(filePath);
+  if (fileType === "transcript" && isCaptionContent(content)) {
+    const captionCues = parseCaptions(content).map(cue => ({ ...cue, text: fixMacRomanArabic(cue.text) }));
+    return {
+      records: cuesToTranscriptRecords(captionCues),
+      missingColumns: [],
+      missingRequired: [],
+      unknownColumns: [],
+      captionCues,
+      encoding,
+    };
+  }
+  return { ...applyColumnMapping(parseCsvRows(content), mapping.definition), encoding };
 }
 
 function safeInt(val: any): number | null {
@@ -57,24 +132,35 @@ function safeBool(val: any): boolean | null {
   return null;
 }
 
+export function detectSessionIdFromName(filename: string): number | null {
+  const match = filename.match(SESSION_ID_PATTERN);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/** Map an uploaded filename to the session file it holds, or null if unrecognised. */
+export function classifySessionFile(filename: string): SessionFileType | null {
+  const name = filename.toLowerCase();
+  if (name.endsWith(".srt") || name.endsWith(".vtt")) return "transcript";
+  if (name.startsWith("course_session") || name.startsWith("course_s")) return "courseSession";
+  if (name.startsWith("namra_transcript") || name.startsWith("transcript")) return "transcript";
+  if (name.startsWith("chat")) return "chats";
+  if (name.startsWith("classroom_activity")) return "classroomActivity";
+  if (name.startsWith("f_user_poll") || name.startsWith("user_poll")) return "userPoll";
+  if (name.startsWith("f_user_reaction") || name.startsWith("user_reaction")) return "userReaction";
+  if (name.startsWith("user_session")) return "userSession";
+  return null;
+}
+
 function detectSessionId(): number | null {
   const files = fs.readdirSync(ASSETS_DIR);
   for (const file of files) {
-    const match = file.match(/(?:course_[Ss]ession|chats|classroom_activity|f_user_poll|f_user_reaction|user_session|namra_transcript)_(\d+)_/i);
-    if (match) return parseInt(match[1], 10);
+    const id = detectSessionIdFromName(file);
+    if (id) return id;
   }
   return null;
 }
 
-interface CsvFileMap {
-  courseSession: string | null;
-  transcript: string | null;
-  chats: string | null;
-  classroomActivity: string | null;
-  userPoll: string | null;
-  userReaction: string | null;
-  userSession: string | null;
-}
+type CsvFileMap = Record<SessionFileType, string | null>;
 
 function findCsvFiles(sessionId: number): CsvFileMap {
   const files = fs.readdirSync(ASSETS_DIR);
@@ -83,14 +169,14 @@ function findCsvFiles(sessionId: number): CsvFileMap {
   const find = (patterns: RegExp[]): string | null => {
     for (const pattern of patterns) {
       const found = files.find(f => pattern.test(f) && f.includes(sid));
-      if (found) return found;
+      if (found) return path.join(ASSETS_DIR, found);
     }
     return null;
   };
 
   return {
     courseSession: find([/^course_session/i]),
-    transcript: find([/^namra_transcript/i, /^transcript/i]),
+    transcript: find([/^namra_transcript/i, /^transcript/i, /\.(srt|vtt)$/i]),
     chats: find([/^chats/i, /^chat/i]),
     classroomActivity: find([/^classroom_activity/i]),
     userPoll: find([/^f_user_poll/i, /^user_poll/i]),
@@ -99,44 +185,345 @@ function findCsvFiles(sessionId: number): CsvFileMap {
   };
 }
 
+/**
+ * Write each recognised sheet of a compiled workbook to `outDir` as a CSV
+ * named like the standalone export. Existing files are left alone, and sheets
+ * for file types listed in `skipTypes` are not extracted. Returns the written paths.
+ */
+function extractWorkbookSheets(
+  xlsxPath: string,
+  sessionId: number,
+  outDir: string,
+  skipTypes: Set<SessionFileType> = new Set()
+): string[] {
+  // readFile() is not among the named exports xlsx exposes when loaded as ESM
+  const wb = XLSX.read(fs.readFileSync(xlsxPath));
+
+  const sheetMapping: Record<string, string> = {
+    'course_session': `course_Session_${sessionId}_extracted.csv`,
+    'transcript': `namra_transcript_${sessionId}_extracted.csv`,
+    'chats': `chats_${sessionId}_extracted.csv`,
+    'classroom_activity': `classroom_activity_${sessionId}_extracted.csv`,
+    'user_poll': `f_user_poll_${sessionId}_extracted.csv`,
+    'user_reaction': `f_user_reaction_${sessionId}_extracted.csv`,
+    'user_session': `user_session_${sessionId}_extracted.csv`,
+  };
+
+  const written: string[] = [];
+  for (const sheetName of wb.SheetNames) {
+    const normalizedName = sheetName.toLowerCase().replace(/[\s-]+/g, '_');
+    for (const [key, outputFilename] of Object.entries(sheetMapping)) {
+      if (normalizedName.includes(key)) {
+        const outputPath = path.join(outDir, outputFilename);
+        const type = classifySessionFile(outputFilename);
+        if (!fs.existsSync(outputPath) && !(type && skipTypes.has(type))) {
+          const csv = XLSX.utils.sheet_to_csv(wb.Sheets[sheetName]);
+          fs.writeFileSync(outputPath, csv, 'utf-8');
+          written.push(outputPath);
+          console.log(`Extracted sheet "${sheetName}" → ${outputFilename}`);
+        }
+        break;
+      }
+    }
+  }
+  return written;
+}
+
 function tryExtractExcel(sessionId: number): boolean {
   const files = fs.readdirSync(ASSETS_DIR);
   const xlsxFile = files.find(f => f.endsWith('.xlsx') && f.includes(String(sessionId)));
   if (!xlsxFile) return false;
 
   try {
-    const XLSX = require('xlsx');
-    const wb = XLSX.readFile(path.join(ASSETS_DIR, xlsxFile));
-
-    const sheetMapping: Record<string, string> = {
-      'course_session': `course_Session_${sessionId}_extracted.csv`,
-      'transcript': `namra_transcript_${sessionId}_extracted.csv`,
-      'chats': `chats_${sessionId}_extracted.csv`,
-      'classroom_activity': `classroom_activity_${sessionId}_extracted.csv`,
-      'user_poll': `f_user_poll_${sessionId}_extracted.csv`,
-      'user_reaction': `f_user_reaction_${sessionId}_extracted.csv`,
-      'user_session': `user_session_${sessionId}_extracted.csv`,
+    extractWorkbookSheets(path.join(ASSETS_DIR, xlsxFile), sessionId, ASSETS_DIR);
+    return true;
+  } catch (err) {
+    console.warn("Excel extraction failed:", err);
+    return false;
+  }
+}
+
+// --- Row mappers (CSV row → Insert* type) ---
+
+type MappedRecord = Record<string, string | undefined>;
+
+function toCourseSession(r: MappedRecord, sessionId: number, teacherDbId?: number): InsertCourseSession {
+  return {
+    courseSessionId: safeInt(r.courseSessionId) || sessionId,
+    courseId: safeInt(r.courseId),
+    courseSessionName: r.courseSessionName || null,
+    courseSessionClassType: r.courseSessionClassType || null,
+    courseSessionType: r.courseSessionType || null,
+    teacherId: safeInt(r.teacherId),
+    scheduledStartTime: r.scheduledStartTime || null,
+    scheduledEndTime: r.scheduledEndTime || null,
+    teacherStartTime: r.teacherStartTime || null,
+    teacherEndTime: r.teacherEndTime || null,
+    teachingTime: safeFloat(r.teachingTime),
+    sessionTime: safeFloat(r.sessionTime),
+    avgActiveTimePerStudent: safeFloat(r.avgActiveTimePerStudent),
+    medianActiveTimePerStudent: safeFloat(r.medianActiveTimePerStudent),
+    courseSessionStatus: r.courseSessionStatus || null,
+    totalSegments: safeInt(r.totalSegments),
+    engagementEvents: r.engagementEvents ? JSON.parse(r.engagementEvents.replace(/'/g, '"')) : null,
+    engagementDurations: r.engagementDurations ? JSON.parse(r.engagementDurations.replace(/'/g, '"')) : null,
+    positiveUsers: safeInt(r.positiveUsers),
+    negativeUsers: safeInt(r.negativeUsers),
+    neutralUsers: safeInt(r.neutralUsers),
+    sessionTemperature: safeFloat(r.sessionTemperature),
+    teacherDbId: teacherDbId || null,
+  };
+}
+
+function toTranscripts(records: MappedRecord[], sessionId: number): InsertSessionTranscript[] {
+  return records.map((r, i) => {
+    const text = (r.text || '').trim();
+    return {
+      courseSessionId: sessionId,
+      startTime: (r.startTime || '').trim(),
+      endTime: (r.endTime || '').trim(),
+      text,
+      normalizedText: normalizeArabic(text),
+      lineOrder: i + 1,
     };
+  });
+}
+
+function toChat(r: MappedRecord, sessionId: number): InsertSessionChat {
+  return {
+    courseSessionId: safeInt(r.courseSessionId) || sessionId,
+    messageId: r.messageId || null,
+    messageText: r.messageText || null,
+    normalizedMessageText: r.messageText ? normalizeArabic(r.messageText) : null,
+    creatorId: safeInt(r.creatorId),
+    userType: r.userType || null,
+    creatorName: r.creatorName || null,
+    createdAtTs: r.createdAtTs || null,
+  };
+}
+
+function toActivity(r: MappedRecord, sessionId: number): InsertClassroomActivity {
+  return {
+    activityId: safeInt(r.activityId) || 0,
+    courseSessionId: safeInt(r.courseSessionId) || sessionId,
+    activityType: r.activityType || null,
+    startTime: r.startTime || null,
+    endTime: r.endTime || null,
+    activityHappened: safeBool(r.activityHappened),
+    plannedDuration: safeInt(r.plannedDuration),
+    duration: safeFloat(r.duration),
+    totalMcqs: safeInt(r.totalMcqs),
+  };
+}
+
+function toPoll(r: MappedRecord, sessionId: number): InsertUserPoll {
+  return {
+    attemptId: r.attemptId || null,
+    pollType: r.pollType || null,
+    pollType2: r.pollType2 || null,
+    courseSessionId: safeInt(r.courseSessionId) || sessionId,
+    userId: safeInt(r.userId),
+    questionId: safeInt(r.questionId),
+    questionText: r.questionText || null,
+    classroomActivityId: safeInt(r.classroomActivityId),
+    isCorrectAnswer: safeBool(r.isCorrectAnswer),
+    pollAnswered: safeBool(r.pollAnswered),
+    pollSeen: safeBool(r.pollSeen),
+    pollDuration: safeInt(r.pollDuration),
+    pollStartTime: r.pollStartTime || null,
+    pollEndTime: r.pollEndTime || null,
+  };
+}
 
-    for (const sheetName of wb.SheetNames) {
-      const normalizedName = sheetName.toLowerCase().replace(/[\s-]+/g, '_');
-      for (const [key, outputFilename] of Object.entries(sheetMapping)) {
-        if (normalizedName.includes(key)) {
-          const outputPath = path.join(ASSETS_DIR, outputFilename);
-          if (!fs.existsSync(outputPath)) {
-            const csv = XLSX.utils.sheet_to_csv(wb.Sheets[sheetName]);
-            fs.writeFileSync(outputPath, csv, 'utf-8');
-            console.log(`Extracted sheet "${sheetName}" → ${outputFilename}`);
-          }
-          break;
+function toReaction(r: MappedRecord, sessionId: number): InsertUserReaction {
+  return {
+    courseSessionId: safeInt(r.courseSessionId) || sessionId,
+    userId: safeInt(r.userId),
+    eventDatetime: r.eventDatetime || null,
+    emotion: r.emotion || null,
+    partOfActivity: safeBool(r.partOfActivity),
+    totalReactions: safeInt(r.totalReactions),
+  };
+}
+
+function toUserSession(r: MappedRecord, sessionId: number): InsertUserSession {
+  return {
+    userId: safeInt(r.userId) || 0,
+    userName: r.userName || null,
+    userType: r.userType || null,
+    userSentiment: r.userSentiment || null,
+    courseSessionId: safeInt(r.courseSessionId) || sessionId,
+    teachingTime: safeFloat(r.teachingTime),
+    sessionTime: safeFloat(r.sessionTime),
+    userEnterTime: r.userEnterTime || null,
+    userExitTime: r.userExitTime || null,
+    roomTime: safeFloat(r.roomTime),
+    learningTime: safeFloat(r.learningTime),
+    activeTime: safeFloat(r.activeTime),
+    totalPollsSeen: safeInt(r.totalPollsSeen),
+    totalPollsResponded: safeInt(r.totalPollsResponded),
+    totalMessages: safeInt(r.totalMessages),
+    totalHandRaise: safeInt(r.totalHandRaise),
+    totalUnmutes: safeInt(r.totalUnmutes),
+    platforms: r.platforms || null,
+  };
+}
+
+/** Called before each file type is parsed and inserted, e.g. to report job progress. */
+export type ImportStageListener = (fileType: SessionFileType) => Promise<void>;
+
+/** Names the file (and row, when known) that made a session import fail. */
+export class SessionImportError extends Error {
+  constructor(public fileType: SessionFileType, public fileName: string, public row: number | undefined, message: string) {
+    super(`${fileName}: ${message}`);
+  }
+}
+
+/** Map CSV rows, tagging a failure (e.g. malformed engagement JSON) with its 1-based row number. */
+function mapRows<T>(rows: MappedRecord[], mapper: (row: MappedRecord) => T): T[] {
+  return rows.map((row, i) => {
+    try {
+      return mapper(row);
+    } catch (err: any) {
+      throw new ImportRowError(i + 1, err.message);
+    }
+  });
+}
+
+/** Columns a file's active mapping could not resolve, or source headers it ignored. */
+export interface MappingWarning {
+  fileType: SessionFileType;
+  fileName: string;
+  mappingVersion: number;
+  missingColumns: string[];
+  unknownColumns: string[];
+}
+
+interface FileMapImport {
+  rowCounts: Partial<Record<SessionFileType, number>>;
+  encodings: Partial<Record<SessionFileType, DetectedEncoding>>;
+  warnings: MappingWarning[];
+}
+
+/**
+ * Parse every file in the map and insert its rows for the given session.
+ * Shared by the startup import and the upload route; all writes go through
+ * `tx` so the caller decides the transaction boundary. Returns the number
+ * of rows loaded and the detected text encoding per file type, along with
+ * any column mapping warnings, or throws a SessionImportError.
+ */
+async function importFileMap(
+  fileMap: Partial<CsvFileMap>,
+  fileNames: Partial<Record<SessionFileType, string>>,
+  sessionId: number,
+  tx: DbExecutor,
+  mappings: ColumnMappingSet,
+  teacherDbId?: number,
+  onStage?: ImportStageListener
+): Promise<FileMapImport> {
+  const rowCounts: Partial<Record<SessionFileType, number>> = {};
+  const encodings: Partial<Record<SessionFileType, DetectedEncoding>> = {};
+  const warnings: MappingWarning[] = [];
+
+  const loaders: Record<SessionFileType, (records: MappedRecord[]) => Promise<number>> = {
+    courseSession: async (records) => {
+      for (let i = 0; i < records.length; i++) {
+        try {
+          await storage.insertCourseSession(toCourseSession(records[i], sessionId, teacherDbId), tx);
+        } catch (err: any) {
+          throw new ImportRowError(i + 1, err.message);
         }
       }
+      return records.length;
+    },
+    transcript: async (records) => {
+      const transcripts = toTranscripts(records, sessionId);
+      await storage.insertTranscripts(transcripts, tx);
+      return transcripts.length;
+    },
+    chats: async (records) => {
+      const chats = mapRows(records, row => toChat(row, sessionId));
+      await storage.insertChats(chats, tx);
+      return chats.length;
+    },
+    classroomActivity: async (records) => {
+      const activities = mapRows(records, row => toActivity(row, sessionId));
+      await storage.insertActivities(activities, tx);
+      return activities.length;
+    },
+    userPoll: async (records) => {
+      const polls = mapRows(records, row => toPoll(row, sessionId));
+      await storage.insertPolls(polls, tx);
+      return polls.length;
+    },
+    userReaction: async (records) => {
+      const reactions = mapRows(records, row => toReaction(row, sessionId));
+      await storage.insertReactions(reactions, tx);
+      return reactions.length;
+    },
+    userSession: async (records) => {
+      const userSessionData = mapRows(records, row => toUserSession(row, sessionId));
+      await storage.insertUserSessions(userSessionData, tx);
+      return userSessionData.length;
+    },
+  };
+
+  for (const fileType of SESSION_FILE_TYPES) {
+    const filePath = fileMap[fileType];
+    if (!filePath) continue;
+    const fileName = fileNames[fileType] || path.basename(filePath);
+    await onStage?.(fileType);
+    try {
+      const mapped = readMappedFile(filePath, fileType, mappings[fileType]);
+      encodings[fileType] = mapped.encoding;
+      if (mapped.captionCues) {
+        // Relative cue times are shifted to the session's start; courseSession rows are inserted first
+        const session = await storage.getCourseSession(sessionId, tx);
+        mapped.records = cuesToTranscriptRecords(mapped.captionCues, session?.teacherStartTime, session?.teacherEndTime);
+      }
+      if (mapped.missingColumns.length > 0 || mapped.unknownColumns.length > 0) {
+        warnings.push({
+          fileType,
+          fileName,
+          mappingVersion: mappings[fileType].version,
+          missingColumns: mapped.missingColumns,
+          unknownColumns: mapped.unknownColumns,
+        });
+      }
+      rowCounts[fileType] = await loaders[fileType](mapped.records);
+    } catch (err: any) {
+      const row = err instanceof ImportRowError ? err.row : undefined;
+      throw new SessionImportError(fileType, fileName, row, err.message);
     }
-    return true;
-  } catch (err) {
-    console.warn("Excel extraction failed:", err);
-    return false;
+    console.log(`Imported ${rowCounts[fileType]} ${fileType} rows from ${fileName} (${encodings[fileType]})`);
   }
+
+  return { rowCounts, encodings, warnings };
+}
+
+/** Record which files a session's data was loaded from. */
+async function recordImportHistory(
+  sessionId: number,
+  fileNames: Partial<Record<SessionFileType, string>>,
+  { rowCounts, encodings }: FileMapImport,
+  mode: ImportMode,
+  mappings: ColumnMappingSet,
+  tx: DbExecutor,
+  teacherDbId?: number
+): Promise<void> {
+  const entries = SESSION_FILE_TYPES
+    .filter(type => rowCounts[type] !== undefined)
+    .map(type => ({
+      courseSessionId: sessionId,
+      fileType: type,
+      fileName: fileNames[type] || type,
+      rowCount: rowCounts[type]!,
+      mode,
+      teacherId: teacherDbId || null,
+      mappingVersion: mappings[type].version,
+      encoding: encodings[type] || null,
+    }));
+  await storage.insertImportHistory(entries, tx);
 }
 
 export async function importAllData() {
@@ -158,356 +545,443 @@ export async function importAllData() {
   const csvFiles = findCsvFiles(sessionId);
   console.log("CSV files found:", csvFiles);
 
-  if (csvFiles.courseSession) {
-    const sessionRows = readCsv(csvFiles.courseSession);
-    for (const row of sessionRows) {
-      const data: InsertCourseSession = {
-        courseSessionId: safeInt(row.course_session_id) || sessionId,
-        courseId: safeInt(row.course_id),
-        courseSessionName: row.course_session_name || null,
-        courseSessionClassType: row.course_session_class_type || null,
-        courseSessionType: row.course_session_type || null,
-        teacherId: safeInt(row.teacher_id),
-        scheduledStartTime: row.course_session_scheduled_start_time || row.scheduled_start_time || null,
-        scheduledEndTime: row.course_session_scheduled_end_time || row.scheduled_end_time || null,
-        teacherStartTime: row.teacher_start_time || null,
-        teacherEndTime: row.teacher_end_time || null,
-        teachingTime: safeFloat(row.teaching_time),
-        sessionTime: safeFloat(row.session_time),
-        avgActiveTimePerStudent: safeFloat(row.avg_active_time_per_student),
-        medianActiveTimePerStudent: safeFloat(row.median_active_time_per_student),
-        courseSessionStatus: row.course_session_status || null,
-        totalSegments: safeInt(row.total_segments),
-        engagementEvents: row.engagement_events ? JSON.parse(row.engagement_events.replace(/'/g, '"')) : null,
-        engagementDurations: row.engagement_durations ? JSON.parse(row.engagement_durations.replace(/'/g, '"')) : null,
-        positiveUsers: safeInt(row.positive_users),
-        negativeUsers: safeInt(row.negative_users),
-        neutralUsers: safeInt(row.neutral_users),
-        sessionTemperature: safeFloat(row.session_temperature),
-      };
-      await storage.insertCourseSession(data);
-    }
-    console.log("Imported course sessions");
+  const fileNames: Partial<Record<SessionFileType, string>> = {};
+  for (const type of SESSION_FILE_TYPES) {
+    const filePath = csvFiles[type];
+    if (filePath) fileNames[type] = path.basename(filePath);
   }
 
-  if (csvFiles.transcript) {
-    const transcriptPath = path.join(ASSETS_DIR, csvFiles.transcript);
-    let transcriptContent = fs.readFileSync(transcriptPath, "utf-8");
-    if (transcriptContent.charCodeAt(0) === 0xFEFF) transcriptContent = transcriptContent.slice(1);
-    const transcriptParsed = parse(transcriptContent, { columns: false, skip_empty_lines: true, relax_column_count: true });
-    const transcripts: InsertSessionTranscript[] = transcriptParsed.map((cols: string[], i: number) => ({
-      courseSessionId: sessionId,
-      startTime: (cols[0] || '').trim(),
-      endTime: (cols[1] || '').trim(),
-      text: (cols.slice(2).join(',') || '').trim(),
-      lineOrder: i + 1,
-    }));
-    await storage.insertTranscripts(transcripts);
-    console.log(`Imported ${transcripts.length} transcripts`);
+  try {
+    const mappings = await loadColumnMappings();
+    await storage.runInTransaction(async (tx) => {
+      const imported = await importFileMap(csvFiles, fileNames, sessionId, tx, mappings);
+      for (const w of imported.warnings) {
+        console.warn(`${w.fileName}: missing ${w.missingColumns.join(", ") || "none"}; unknown ${w.unknownColumns.join(", ") || "none"}`);
+      }
+      await recordImportHistory(sessionId, fileNames, imported, "create", mappings, tx);
+    });
+  } catch (err: any) {
+    console.error(`Startup import of session ${sessionId} failed, nothing was saved:`, err.message);
+    return;
   }
 
-  if (csvFiles.chats) {
-    const chatRows = readCsv(csvFiles.chats);
-    const chats: InsertSessionChat[] = chatRows.map((row: any) => ({
-      courseSessionId: safeInt(row.course_session_id) || sessionId,
-      messageId: row.message_id || null,
-      messageText: row.message_text || null,
-      creatorId: safeInt(row.creator_id),
-      userType: row.user_type || null,
-      creatorName: row.creator_name || null,
-      createdAtTs: row.created_at_ts || null,
-    }));
-    await storage.insertChats(chats);
-    console.log("Imported chats");
-  }
+  console.log("All data imported successfully!");
+}
 
-  if (csvFiles.classroomActivity) {
-    const activityRows = readCsv(csvFiles.classroomActivity);
-    const activities: InsertClassroomActivity[] = activityRows.map((row: any) => ({
-      activityId: safeInt(row.activity_id) || 0,
-      courseSessionId: safeInt(row.course_session_id) || sessionId,
-      activityType: row.type || row.activity_type || null,
-      startTime: row.start_time || null,
-      endTime: row.end_time || null,
-      activityHappened: safeBool(row.activity_happened),
-      plannedDuration: safeInt(row.planned_duration),
-      duration: safeFloat(row.duration),
-      totalMcqs: safeInt(row.total_mcqs),
-    }));
-    await storage.insertActivities(activities);
-    console.log("Imported activities");
+export function getDetectedSessionId(): number | null {
+  return detectSessionId();
+}
+
+function detectSessionIdFromFiles(files: { originalname: string }[]): number | null {
+  for (const f of files) {
+    const id = detectSessionIdFromName(f.originalname);
+    if (id) return id;
   }
+  return null;
+}
 
-  if (csvFiles.userPoll) {
-    const pollRows = readCsv(csvFiles.userPoll);
-    const polls: InsertUserPoll[] = pollRows.map((row: any) => ({
-      attemptId: row.attempt_id || null,
-      pollType: row.poll_type || null,
-      pollType2: row.poll_type_2 || null,
-      courseSessionId: safeInt(row.course_session_id) || sessionId,
-      userId: safeInt(row.user_id),
-      questionId: safeInt(row.question_id),
-      questionText: row.question_text || null,
-      classroomActivityId: safeInt(row.classroom_activity_id),
-      isCorrectAnswer: safeBool(row.is_correct_answer),
-      pollAnswered: safeBool(row.poll_answered),
-      pollSeen: safeBool(row.poll_seen),
-      pollDuration: safeInt(row.poll_duration),
-      pollStartTime: row.poll_start_time || null,
-      pollEndTime: row.poll_end_time || null,
-    }));
-    await storage.insertPolls(polls);
-    console.log("Imported polls");
+function buildFileMap(files: UploadedFile[]): {
+  fileMap: Partial<CsvFileMap>;
+  fileNames: Partial<Record<SessionFileType, string>>;
+} {
+  const fileMap: Partial<CsvFileMap> = {};
+  const fileNames: Partial<Record<SessionFileType, string>> = {};
+  for (const f of files) {
+    const type = classifySessionFile(f.originalname);
+    if (type) {
+      fileMap[type] = f.path;
+      fileNames[type] = f.originalname;
+    }
   }
+  return { fileMap, fileNames };
+}
 
-  if (csvFiles.userReaction) {
-    const reactionRows = readCsv(csvFiles.userReaction);
-    const reactions: InsertUserReaction[] = reactionRows.map((row: any) => ({
-      courseSessionId: safeInt(row.course_session_id) || sessionId,
-      userId: safeInt(row.user_id),
-      eventDatetime: row.event_datetime || null,
-      emotion: row.emotion || null,
-      partOfActivity: safeBool(row.part_of_activity),
-      totalReactions: safeInt(row.total_reactions),
-    }));
-    await storage.insertReactions(reactions);
-    console.log("Imported reactions");
+// --- Dry-run validation ---
+
+export interface ColumnIssue {
+  column: string;
+  count: number;
+  samples: string[];
+}
+
+export interface FileValidation {
+  fileType: SessionFileType;
+  fileName: string;
+  rowCount: number;
+  /** Text encoding the file was decoded with; unset when it could not be read. */
+  encoding?: DetectedEncoding;
+  /** Column mapping version the file was checked against (0 = built-in default). */
+  mappingVersion: number;
+  /** Required fields with no matching source column. */
+  missingColumns: string[];
+  /** Optional fields with no matching source column; imported as null. */
+  unmappedFields: string[];
+  /** Source headers the mapping does not use. */
+  unknownColumns: string[];
+  unparseableTimestamps: ColumnIssue[];
+  nulledNumbers: ColumnIssue[];
+  error?: string;
+}
+
+export interface ValidationReport {
+  sessionId: number | null;
+  valid: boolean;
+  alreadyExists: boolean;
+  files: FileValidation[];
+  missingFileTypes: SessionFileType[];
+  unrecognizedFiles: string[];
+  errors: string[];
+}
+
+function addIssue(issues: Map<string, ColumnIssue>, column: string, value: string): void {
+  let issue = issues.get(column);
+  if (!issue) {
+    issue = { column, count: 0, samples: [] };
+    issues.set(column, issue);
   }
+  issue.count++;
+  if (issue.samples.length < 3) issue.samples.push(value.substring(0, 60));
+}
 
-  if (csvFiles.userSession) {
-    const userSessionRows = readCsv(csvFiles.userSession);
-    const userSessionData: InsertUserSession[] = userSessionRows.map((row: any) => ({
-      userId: safeInt(row.user_id) || 0,
-      userName: row.user_name || null,
-      userType: row.user_type || null,
-      userSentiment: row.user_sentiment || null,
-      courseSessionId: safeInt(row.course_session_id) || sessionId,
-      teachingTime: safeFloat(row.teaching_time),
-      sessionTime: safeFloat(row.session_time),
-      userEnterTime: row.user_enter_time || null,
-      userExitTime: row.user_exit_time || null,
-      roomTime: safeFloat(row.room_time),
-      learningTime: safeFloat(row.learning_time),
-      activeTime: safeFloat(row.active_time),
-      totalPollsSeen: safeInt(row.total_polls_seen),
-      totalPollsResponded: safeInt(row.total_polls_responded),
-      totalMessages: safeInt(row.total_messages),
-      totalHandRaise: safeInt(row.total_hand_raise),
-      totalUnmutes: safeInt(row.total_unmutes),
-      platforms: row.platforms || null,
-    }));
-    await storage.insertUserSessions(userSessionData);
-    console.log("Imported user sessions");
+function validateFile(fileType: SessionFileType, fileName: string, filePath: string, mapping: ActiveColumnMapping): FileValidation {
+  const result: FileValidation = {
+    fileType,
+    fileName,
+    rowCount: 0,
+    mappingVersion: mapping.version,
+    missingColumns: [],
+    unmappedFields: [],
+    unknownColumns: [],
+    unparseableTimestamps: [],
+    nulledNumbers: [],
+  };
+
+  try {
+    const timestampIssues = new Map<string, ColumnIssue>();
+    const numberIssues = new Map<string, ColumnIssue>();
+    const checks = FIELD_CHECKS[fileType];
+    const mapped = readMappedFile(filePath, fileType, mapping);
+    result.rowCount = mapped.records.length;
+    result.encoding = mapped.encoding;
+    result.missingColumns = mapped.missingRequired;
+    result.unmappedFields = mapped.missingColumns.filter(f => !mapped.missingRequired.includes(f));
+    result.unknownColumns = mapped.unknownColumns;
+
+    for (const row of mapped.records) {
+      for (const field of checks.ints) {
+        const val = row[field];
+        if (val !== undefined && val !== '' && safeInt(val) === null) addIssue(numberIssues, field, val);
+      }
+      for (const field of checks.floats) {
+        const val = row[field];
+        if (val !== undefined && val !== '' && safeFloat(val) === null) addIssue(numberIssues, field, val);
+      }
+      for (const field of checks.timestamps) {
+        const val = row[field]?.trim();
+        if (val && parseTimeToSeconds(val) === null) addIssue(timestampIssues, field, val);
+      }
+    }
+
+    result.unparseableTimestamps = Array.from(timestampIssues.values());
+    result.nulledNumbers = Array.from(numberIssues.values());
+  } catch (err: any) {
+    result.error = err.message;
   }
 
-  console.log("All data imported successfully!");
+  return result;
 }
 
-export function getDetectedSessionId(): number | null {
-  return detectSessionId();
+/**
+ * Parse uploaded session files without writing anything to the database.
+ * Reports per-file row counts, missing required columns, columns the
+ * active mapping ignores, unparseable timestamps and numeric values that
+ * would be nulled on import.
+ */
+export async function validateSessionFiles(
+  files: UploadedFile[]
+): Promise<ValidationReport> {
+  const sessionId = detectSessionIdFromFiles(files);
+  const errors: string[] = [];
+  if (!sessionId) errors.push("Could not detect session ID from filenames");
+
+  const mappings = await loadColumnMappings();
+  const validations: FileValidation[] = [];
+  const unrecognizedFiles: string[] = [];
+  for (const f of files) {
+    const type = classifySessionFile(f.originalname);
+    if (!type) {
+      unrecognizedFiles.push(f.originalname);
+      continue;
+    }
+    validations.push(validateFile(type, f.originalname, f.path, mappings[type]));
+  }
+
+  const present = new Set(validations.map(v => v.fileType));
+  const missingFileTypes = SESSION_FILE_TYPES.filter(t => !present.has(t));
+  // An existing session is not an error here: the caller can still import it in replace or patch mode
+  const alreadyExists = sessionId ? !!(await storage.getCourseSession(sessionId)) : false;
+
+  for (const v of validations) {
+    if (v.error) errors.push(`${v.fileName}: ${v.error}`);
+    else if (v.missingColumns.length > 0) errors.push(`${v.fileName}: missing columns ${v.missingColumns.join(', ')}`);
+  }
+
+  return {
+    sessionId,
+    valid: errors.length === 0,
+    alreadyExists,
+    files: validations,
+    missingFileTypes,
+    unrecognizedFiles,
+    errors,
+  };
 }
 
 /**
  * Import a session from uploaded files. Detects session ID from filenames,
  * parses all CSVs, and inserts into the database.
  * Optionally links the session to an authenticated teacher via teacherDbId.
+ * In replace/patch mode an existing session's rows are removed first; its
+ * teacherDbId is kept, and report views/feedback are untouched.
  */
 export async function importSessionFromFiles(
-  files: { originalname: string; path: string }[],
-  teacherDbId?: number
-): Promise<{ sessionId: number; success: boolean; error?: string }> {
-  // Detect session ID from uploaded filenames
-  let sessionId: number | null = null;
-  for (const f of files) {
-    const match = f.originalname.match(/(?:course_[Ss]ession|chats|classroom_activity|f_user_poll|f_user_reaction|user_session|namra_transcript)_(\d+)_/i);
-    if (match) {
-      sessionId = parseInt(match[1], 10);
-      break;
+  files: UploadedFile[],
+  teacherDbId?: number,
+  mode: ImportMode = "create",
+  onStage?: ImportStageListener
+): Promise<{
+  sessionId: number;
+  success: boolean;
+  error?: string;
+  failedFile?: string;
+  failedRow?: number;
+  warnings?: MappingWarning[];
+  encodings?: Partial<Record<SessionFileType, DetectedEncoding>>;
+}> {
+  const cleanup = () => {
+    for (const f of files) {
+      try { fs.unlinkSync(f.path); } catch {}
     }
-  }
+  };
+
+  const sessionId = detectSessionIdFromFiles(files);
   if (!sessionId) {
+    cleanup();
     return { sessionId: 0, success: false, error: "Could not detect session ID from filenames" };
   }
 
-  // Check if session already imported
-  const { db } = await import("./db");
-  const { courseSessions } = await import("@shared/schema");
-  const { eq } = await import("drizzle-orm");
-  const existing = await db.select().from(courseSessions)
-    .where(eq(courseSessions.courseSessionId, sessionId)).limit(1);
-  if (existing.length > 0) {
+  const existing = await storage.getCourseSession(sessionId);
+  if (existing && mode === "create") {
+    cleanup();
     return { sessionId, success: false, error: `Session ${sessionId} already exists` };
   }
-
-  // Build a map of file type -> temp path
-  const fileMap: Record<string, string> = {};
-  for (const f of files) {
-    const name = f.originalname.toLowerCase();
-    if (name.startsWith("course_session") || name.startsWith("course_s")) fileMap.courseSession = f.path;
-    else if (name.startsWith("namra_transcript") || name.startsWith("transcript")) fileMap.transcript = f.path;
-    else if (name.startsWith("chat")) fileMap.chats = f.path;
-    else if (name.startsWith("classroom_activity")) fileMap.classroomActivity = f.path;
-    else if (name.startsWith("f_user_poll") || name.startsWith("user_poll")) fileMap.userPoll = f.path;
-    else if (name.startsWith("f_user_reaction") || name.startsWith("user_reaction")) fileMap.userReaction = f.path;
-    else if (name.startsWith("user_session")) fileMap.userSession = f.path;
+  if (!existing && mode === "patch") {
+    cleanup();
+    return { sessionId, success: false, error: `Session ${sessionId} does not exist` };
   }
-
-  // Helper to read CSV from absolute path
-  function readCsvFromPath(filePath: string): any[] {
-    const content = fs.readFileSync(filePath, "utf-8");
-    const rows = parse(content, { columns: true, skip_empty_lines: true, relax_column_count: true });
-    return rows.map(fixRowEncoding);
+  if (existing?.teacherDbId && teacherDbId && existing.teacherDbId !== teacherDbId) {
+    cleanup();
+    return { sessionId, success: false, error: `Session ${sessionId} belongs to another teacher` };
   }
 
+  const { fileMap, fileNames } = buildFileMap(files);
+  const uploadedTypes = SESSION_FILE_TYPES.filter(type => fileMap[type]);
+
   try {
-    if (fileMap.courseSession) {
-      const rows = readCsvFromPath(fileMap.courseSession);
-      for (const row of rows) {
-        const data: InsertCourseSession = {
-          courseSessionId: safeInt(row.course_session_id) || sessionId,
-          courseId: safeInt(row.course_id),
-          courseSessionName: row.course_session_name || null,
-          courseSessionClassType: row.course_session_class_type || null,
-          courseSessionType: row.course_session_type || null,
-          teacherId: safeInt(row.teacher_id),
-          scheduledStartTime: row.course_session_scheduled_start_time || row.scheduled_start_time || null,
-          scheduledEndTime: row.course_session_scheduled_end_time || row.scheduled_end_time || null,
-          teacherStartTime: row.teacher_start_time || null,
-          teacherEndTime: row.teacher_end_time || null,
-          teachingTime: safeFloat(row.teaching_time),
-          sessionTime: safeFloat(row.session_time),
-          avgActiveTimePerStudent: safeFloat(row.avg_active_time_per_student),
-          medianActiveTimePerStudent: safeFloat(row.median_active_time_per_student),
-          courseSessionStatus: row.course_session_status || null,
-          totalSegments: safeInt(row.total_segments),
-          engagementEvents: row.engagement_events ? JSON.parse(row.engagement_events.replace(/'/g, '"')) : null,
-          engagementDurations: row.engagement_durations ? JSON.parse(row.engagement_durations.replace(/'/g, '"')) : null,
-          positiveUsers: safeInt(row.positive_users),
-          negativeUsers: safeInt(row.negative_users),
-          neutralUsers: safeInt(row.neutral_users),
-          sessionTemperature: safeFloat(row.session_temperature),
-          teacherDbId: teacherDbId || null,
-        };
-        await storage.insertCourseSession(data);
+    const mappings = await loadColumnMappings();
+    let warnings: MappingWarning[] = [];
+    let encodings: Partial<Record<SessionFileType, DetectedEncoding>> = {};
+    // Deletes, inserts and history share one transaction: a failure anywhere leaves the session as it was
+    await storage.runInTransaction(async (tx) => {
+      if (existing) {
+        // The course_sessions row is only dropped when a replacement for it was uploaded
+        const typesToDelete = mode === "replace"
+          ? SESSION_FILE_TYPES.filter(type => type !== "courseSession" || fileMap.courseSession)
+          : uploadedTypes;
+        await storage.deleteSessionData(sessionId, typesToDelete, tx);
+        console.log(`Removed ${typesToDelete.join(", ")} rows for session ${sessionId} (${mode})`);
       }
-    }
 
-    if (fileMap.transcript) {
-      let content = fs.readFileSync(fileMap.transcript, "utf-8");
-      if (content.charCodeAt(0) === 0xFEFF) content = content.slice(1);
-      const parsed = parse(content, { columns: false, skip_empty_lines: true, relax_column_count: true });
-      const transcripts: InsertSessionTranscript[] = parsed.map((cols: string[], i: number) => ({
-        courseSessionId: sessionId!,
-        startTime: (cols[0] || '').trim(),
-        endTime: (cols[1] || '').trim(),
-        text: (cols.slice(2).join(',') || '').trim(),
-        lineOrder: i + 1,
-      }));
-      await storage.insertTranscripts(transcripts);
-    }
+      const ownerId = existing?.teacherDbId ?? teacherDbId;
+      const imported = await importFileMap(fileMap, fileNames, sessionId, tx, mappings, ownerId ?? undefined, onStage);
+      warnings = imported.warnings;
+      encodings = imported.encodings;
+      await recordImportHistory(sessionId, fileNames, imported, mode, mappings, tx, teacherDbId);
+    });
 
-    if (fileMap.chats) {
-      const rows = readCsvFromPath(fileMap.chats);
-      const chats: InsertSessionChat[] = rows.map((row: any) => ({
-        courseSessionId: safeInt(row.course_session_id) || sessionId!,
-        messageId: row.message_id || null,
-        messageText: row.message_text || null,
-        creatorId: safeInt(row.creator_id),
-        userType: row.user_type || null,
-        creatorName: row.creator_name || null,
-        createdAtTs: row.created_at_ts || null,
-      }));
-      await storage.insertChats(chats);
+    cleanup();
+    console.log(`Successfully imported session ${sessionId} (${uploadedTypes.length} file types, ${mode})`);
+    return { sessionId, success: true, warnings, encodings };
+  } catch (err: any) {
+    cleanup();
+    console.error(`Failed to import session ${sessionId}:`, err);
+    if (err instanceof SessionImportError) {
+      return { sessionId, success: false, error: err.message, failedFile: err.fileName, failedRow: err.row };
     }
+    return { sessionId, success: false, error: err.message };
+  }
+}
 
-    if (fileMap.classroomActivity) {
-      const rows = readCsvFromPath(fileMap.classroomActivity);
-      const activities: InsertClassroomActivity[] = rows.map((row: any) => ({
-        activityId: safeInt(row.activity_id) || 0,
-        courseSessionId: safeInt(row.course_session_id) || sessionId!,
-        activityType: row.type || row.activity_type || null,
-        startTime: row.start_time || null,
-        endTime: row.end_time || null,
-        activityHappened: safeBool(row.activity_happened),
-        plannedDuration: safeInt(row.planned_duration),
-        duration: safeFloat(row.duration),
-        totalMcqs: safeInt(row.total_mcqs),
-      }));
-      await storage.insertActivities(activities);
-    }
+// --- Multi-session uploads (ZIP bundles, workbooks) ---
 
-    if (fileMap.userPoll) {
-      const rows = readCsvFromPath(fileMap.userPoll);
-      const polls: InsertUserPoll[] = rows.map((row: any) => ({
-        attemptId: row.attempt_id || null,
-        pollType: row.poll_type || null,
-        pollType2: row.poll_type_2 || null,
-        courseSessionId: safeInt(row.course_session_id) || sessionId!,
-        userId: safeInt(row.user_id),
-        questionId: safeInt(row.question_id),
-        questionText: row.question_text || null,
-        classroomActivityId: safeInt(row.classroom_activity_id),
-        isCorrectAnswer: safeBool(row.is_correct_answer),
-        pollAnswered: safeBool(row.poll_answered),
-        pollSeen: safeBool(row.poll_seen),
-        pollDuration: safeInt(row.poll_duration),
-        pollStartTime: row.poll_start_time || null,
-        pollEndTime: row.poll_end_time || null,
-      }));
-      await storage.insertPolls(polls);
-    }
+export type SessionImportResult = Awaited<ReturnType<typeof importSessionFromFiles>>;
+
+export interface ExpandedUpload {
+  groups: Map<number, UploadedFile[]>;
+  unassigned: UploadedFile[];
+  /** Archives rejected before extraction, with the reason. */
+  errors: string[];
+  tempDir: string;
+}
+
+/** Limits checked against a ZIP's central directory before anything is inflated. */
+const MAX_ARCHIVE_ENTRIES = 200;
+const MAX_ARCHIVE_UNCOMPRESSED_BYTES = 500 * 1024 * 1024;
 
-    if (fileMap.userReaction) {
-      const rows = readCsvFromPath(fileMap.userReaction);
-      const reactions: InsertUserReaction[] = rows.map((row: any) => ({
-        courseSessionId: safeInt(row.course_session_id) || sessionId!,
-        userId: safeInt(row.user_id),
-        eventDatetime: row.event_datetime || null,
-        emotion: row.emotion || null,
-        partOfActivity: safeBool(row.part_of_activity),
-        totalReactions: safeInt(row.total_reactions),
-      }));
-      await storage.insertReactions(reactions);
+function isIgnoredArchiveEntry(entryName: string): boolean {
+  const name = path.basename(entryName);
+  return entryName.includes("__MACOSX/") || name.startsWith(".") || name.length === 0;
+}
+
+/** Session ID for a workbook: a standard export name, or the first `_<digits>_` segment (e.g. compiled_70690_…). */
+export function workbookSessionId(filename: string): number | null {
+  const id = detectSessionIdFromName(filename);
+  if (id) return id;
+  const match = filename.match(/_(\d+)_/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Unpack .zip uploads and turn .xlsx workbooks into per-sheet CSVs, then group
+ * every resulting file by the session ID in its name. Files with no ID join
+ * the only session found, if there is exactly one. Extracted files live in
+ * `tempDir`, which the caller removes once done. An archive over the entry or
+ * size limits, or holding two files with the same name in different folders,
+ * is rejected whole and reported in `errors`.
+ */
+export function expandUploads(files: UploadedFile[]): ExpandedUpload {
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "session-upload-"));
+  const plain: UploadedFile[] = [];
+  const workbooks: UploadedFile[] = [];
+  const unreadable: UploadedFile[] = [];
+  const errors: string[] = [];
+
+  const addFile = (f: UploadedFile) => {
+    if (f.originalname.toLowerCase().endsWith(".xlsx")) workbooks.push(f);
+    else plain.push(f);
+  };
+
+  for (const f of files) {
+    if (!f.originalname.toLowerCase().endsWith(".zip")) {
+      addFile(f);
+      continue;
+    }
+    const archiveDir = fs.mkdtempSync(path.join(tempDir, "zip-"));
+    try {
+      const zip = new AdmZip(f.path);
+      const entries = zip.getEntries().filter(entry => !entry.isDirectory && !isIgnoredArchiveEntry(entry.entryName));
+      const problem = archiveProblem(entries);
+      if (problem) {
+        errors.push(`${f.originalname}: ${problem}`);
+        unreadable.push(f);
+        continue;
+      }
+      for (const entry of entries) {
+        // Only the basename is used, so entries cannot escape the extraction dir
+        const name = path.basename(entry.entryName);
+        const outputPath = path.join(archiveDir, name);
+        fs.writeFileSync(outputPath, entry.getData());
+        addFile({ originalname: name, path: outputPath });
+      }
+    } catch (err: any) {
+      console.warn(`Could not unpack ${f.originalname}:`, err.message);
+      unreadable.push(f);
     }
+  }
 
-    if (fileMap.userSession) {
-      const rows = readCsvFromPath(fileMap.userSession);
-      const userSessionData: InsertUserSession[] = rows.map((row: any) => ({
-        userId: safeInt(row.user_id) || 0,
-        userName: row.user_name || null,
-        userType: row.user_type || null,
-        userSentiment: row.user_sentiment || null,
-        courseSessionId: safeInt(row.course_session_id) || sessionId!,
-        teachingTime: safeFloat(row.teaching_time),
-        sessionTime: safeFloat(row.session_time),
-        userEnterTime: row.user_enter_time || null,
-        userExitTime: row.user_exit_time || null,
-        roomTime: safeFloat(row.room_time),
-        learningTime: safeFloat(row.learning_time),
-        activeTime: safeFloat(row.active_time),
-        totalPollsSeen: safeInt(row.total_polls_seen),
-        totalPollsResponded: safeInt(row.total_polls_responded),
-        totalMessages: safeInt(row.total_messages),
-        totalHandRaise: safeInt(row.total_hand_raise),
-        totalUnmutes: safeInt(row.total_unmutes),
-        platforms: row.platforms || null,
-      }));
-      await storage.insertUserSessions(userSessionData);
+  const groups = new Map<number, UploadedFile[]>();
+  const noId: UploadedFile[] = [];
+  for (const f of plain) {
+    const id = detectSessionIdFromName(f.originalname);
+    if (id) {
+      if (!groups.has(id)) groups.set(id, []);
+      groups.get(id)!.push(f);
+    } else {
+      noId.push(f);
     }
+  }
 
-    // Clean up temp files
-    for (const f of files) {
-      try { fs.unlinkSync(f.path); } catch {}
+  for (const wb of workbooks) {
+    const id = workbookSessionId(wb.originalname) ?? (groups.size === 1 ? Array.from(groups.keys())[0] : null);
+    if (!id) {
+      noId.push(wb);
+      continue;
     }
+    if (!groups.has(id)) groups.set(id, []);
+    const group = groups.get(id)!;
+    // CSVs uploaded alongside the workbook take precedence over its sheets
+    const present = new Set(group.map(f => classifySessionFile(f.originalname)).filter((t): t is SessionFileType => !!t));
+    const sheetDir = fs.mkdtempSync(path.join(tempDir, "xlsx-"));
+    try {
+      for (const csvPath of extractWorkbookSheets(wb.path, id, sheetDir, present)) {
+        group.push({ originalname: path.basename(csvPath), path: csvPath });
+      }
+    } catch (err: any) {
+      console.warn(`Excel extraction failed for ${wb.originalname}:`, err.message);
+      noId.push(wb);
+    }
+  }
 
-    console.log(`Successfully imported session ${sessionId} (${Object.keys(fileMap).length} file types)`);
-    return { sessionId, success: true };
-  } catch (err: any) {
-    // Clean up temp files on error
-    for (const f of files) {
-      try { fs.unlinkSync(f.path); } catch {}
+  let unassigned = noId;
+  if (groups.size === 1) {
+    groups.get(Array.from(groups.keys())[0])!.push(...noId.filter(f => classifySessionFile(f.originalname)));
+    unassigned = noId.filter(f => !classifySessionFile(f.originalname));
+  }
+
+  return { groups, unassigned: [...unassigned, ...unreadable], errors, tempDir };
+}
+
+/** Why an archive must not be extracted, judged from its directory entries alone; null when it is fine. */
+function archiveProblem(entries: AdmZip.IZipEntry[]): string | null {
+  if (entries.length > MAX_ARCHIVE_ENTRIES) {
+    return `too many files (${entries.length}, at most ${MAX_ARCHIVE_ENTRIES})`;
+  }
+  const totalBytes = entries.reduce((sum, entry) => sum + entry.header.size, 0);
+  if (totalBytes > MAX_ARCHIVE_UNCOMPRESSED_BYTES) {
+    return `unpacks to ${Math.round(totalBytes / 1024 / 1024)} MB, more than the ${MAX_ARCHIVE_UNCOMPRESSED_BYTES / 1024 / 1024} MB limit`;
+  }
+  const byName = new Map<string, string[]>();
+  for (const entry of entries) {
+    const name = path.basename(entry.entryName);
+    if (!byName.has(name)) byName.set(name, []);
+    byName.get(name)!.push(entry.entryName);
+  }
+  const duplicates = Array.from(byName.values()).filter(paths => paths.length > 1);
+  if (duplicates.length > 0) {
+    return `files with the same name in different folders: ${duplicates.map(paths => paths.join(", ")).join("; ")}`;
+  }
+  return null;
+}
+
+export function removeUploads(files: UploadedFile[], tempDir: string): void {
+  for (const f of files) {
+    try { fs.unlinkSync(f.path); } catch {}
+  }
+  try { fs.rmSync(tempDir, { recursive: true, force: true }); } catch {}
+}
+
+/** Dry-run validation for an upload that may hold several sessions (e.g. a ZIP bundle). */
+export async function validateUploadedSessions(
+  files: UploadedFile[]
+): Promise<{ sessions: ValidationReport[]; unrecognizedFiles: string[]; errors: string[] }> {
+  const { groups, unassigned, errors, tempDir } = expandUploads(files);
+  try {
+    const sessions: ValidationReport[] = [];
+    for (const groupFiles of Array.from(groups.values())) {
+      sessions.push(await validateSessionFiles(groupFiles));
     }
-    console.error(`Failed to import session ${sessionId}:`, err);
-    return { sessionId, success: false, error: err.message };
+    return { sessions, unrecognizedFiles: unassigned.map(f => f.originalname), errors };
+  } finally {
+    removeUploads(files, tempDir);
   }
 }
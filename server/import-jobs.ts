@@ -0,0 +1,226 @@
+import fs from "fs";
+import path from "path";
+import { storage } from "./storage";
+import { generateReportSnapshot } from "./report-snapshots";
+import {
+  expandUploads, removeUploads, importSessionFromFiles, classifySessionFile,
+  type UploadedFile, type ImportMode, type SessionImportResult,
+} from "./import-data";
+import type { ImportJob, SessionFileType } from "@shared/schema";
+
+/**
+ * Background session imports. Uploads are recorded as `import_jobs` rows and
+ * processed one at a time in this process; each job moves through
+ * pending → processing → completed | failed and logs every stage it reaches.
+ * Inbox batches run through the same queue, so no session is ever imported
+ * by two tasks at once.
+ */
+
+interface StageEntry {
+  stage: string;
+  sessionId?: number;
+  at: string;
+}
+
+const STAGE_LABELS: Record<SessionFileType, string> = {
+  courseSession: "Importing session metadata",
+  transcript: "Parsing transcript",
+  chats: "Inserting chats",
+  classroomActivity: "Inserting activities",
+  userPoll: "Inserting polls",
+  userReaction: "Inserting reactions",
+  userSession: "Inserting student sessions",
+};
+
+const queue: (() => Promise<void>)[] = [];
+let draining = false;
+
+export async function enqueueImportJob(
+  files: UploadedFile[],
+  teacherDbId: number,
+  mode: ImportMode
+): Promise<ImportJob> {
+  const job = await storage.createImportJob({
+    teacherId: teacherDbId,
+    status: "pending",
+    mode,
+    stage: "Queued",
+    progress: 0,
+    stages: [{ stage: "Queued", at: new Date().toISOString() }],
+    files,
+  });
+  queue.push(() => runQueuedJob(job.id));
+  void drainQueue();
+  return job;
+}
+
+/** Run an import that is not an `import_jobs` row (an inbox batch) in turn with the queued jobs. */
+export function runInImportQueue<T>(task: () => Promise<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    queue.push(() => task().then(resolve, reject));
+    void drainQueue();
+  });
+}
+
+/** Re-queue jobs left pending or processing by a previous run (their transactions were rolled back). */
+export async function resumeImportJobs(): Promise<void> {
+  const unfinished = await storage.getUnfinishedImportJobs();
+  for (const job of unfinished) {
+    queue.push(() => runQueuedJob(job.id));
+  }
+  if (unfinished.length > 0) {
+    console.log(`Resuming ${unfinished.length} import job(s)`);
+    void drainQueue();
+  }
+}
+
+/**
+ * Delete upload temp files that no unfinished job refers to, e.g. left behind
+ * by a crash mid-request. Files younger than an hour are kept so uploads in
+ * flight are never touched.
+ */
+export async function sweepPendingUploads(uploadDir: string): Promise<void> {
+  const unfinished = await storage.getUnfinishedImportJobs();
+  const inUse = new Set(unfinished.flatMap(job => (job.files as UploadedFile[]).map(f => path.resolve(f.path))));
+  const cutoff = Date.now() - 60 * 60 * 1000;
+  let removed = 0;
+  for (const name of fs.readdirSync(uploadDir)) {
+    const filePath = path.resolve(uploadDir, name);
+    try {
+      const stat = fs.statSync(filePath);
+      if (!stat.isFile() || inUse.has(filePath) || stat.mtimeMs > cutoff) continue;
+      fs.unlinkSync(filePath);
+      removed++;
+    } catch {}
+  }
+  if (removed > 0) console.log(`Removed ${removed} stale upload file(s) from ${uploadDir}`);
+}
+
+/** Shape returned to clients: temp file paths stay on the server. */
+export function serializeImportJob(job: ImportJob) {
+  const { files, ...rest } = job;
+  return {
+    ...rest,
+    fileNames: (files as UploadedFile[]).map(f => f.originalname),
+  };
+}
+
+async function drainQueue(): Promise<void> {
+  if (draining) return;
+  draining = true;
+  try {
+    while (queue.length > 0) {
+      await queue.shift()!();
+    }
+  } finally {
+    draining = false;
+  }
+}
+
+async function runQueuedJob(id: number): Promise<void> {
+  try {
+    await runImportJob(id);
+  } catch (err: any) {
+    console.error(`Import job ${id} crashed:`, err);
+    try {
+      await storage.updateImportJob(id, { status: "failed", error: err.message, finishedAt: new Date() });
+    } catch (updateErr: any) {
+      console.error(`Marking import job ${id} failed did not succeed:`, updateErr.message);
+    }
+  }
+}
+
+async function runImportJob(id: number): Promise<void> {
+  const job = await storage.getImportJob(id);
+  if (!job || job.status === "completed" || job.status === "failed") return;
+
+  const files = job.files as UploadedFile[];
+  const stages: StageEntry[] = (job.stages as StageEntry[]) || [];
+  let completedSteps = 0;
+  let totalSteps = 1;
+
+  const enterStage = async (stage: string, sessionId?: number) => {
+    stages.push({ stage, sessionId, at: new Date().toISOString() });
+    await storage.updateImportJob(id, {
+      status: "processing",
+      stage,
+      stages,
+      progress: Math.min(99, Math.round((completedSteps / totalSteps) * 100)),
+    });
+    completedSteps++;
+  };
+
+  const missing = files.filter(f => !fs.existsSync(f.path));
+  if (missing.length > 0) {
+    await storage.updateImportJob(id, {
+      status: "failed",
+      error: `Uploaded files are no longer available: ${missing.map(f => f.originalname).join(", ")}`,
+      finishedAt: new Date(),
+    });
+    return;
+  }
+
+  await enterStage("Unpacking files");
+  const { groups, unassigned, errors: archiveErrors, tempDir } = expandUploads(files);
+
+  try {
+    const sessionIds = Array.from(groups.keys());
+    // One step per file type per session, plus one for computing each report
+    totalSteps = 1 + Array.from(groups.values()).reduce((sum, groupFiles) => {
+      const types = new Set(groupFiles.map(f => classifySessionFile(f.originalname)).filter(Boolean));
+      return sum + types.size + 1;
+    }, 0);
+    await storage.updateImportJob(id, { sessionIds });
+
+    if (sessionIds.length === 0) {
+      throw new Error(archiveErrors.length > 0 ? archiveErrors.join("; ") : "Could not detect session ID from filenames");
+    }
+
+    const results: (SessionImportResult & { reportError?: string })[] = [];
+    for (const [sessionId, groupFiles] of Array.from(groups.entries())) {
+      const result = await importSessionFromFiles(
+        groupFiles,
+        job.teacherId ?? undefined,
+        job.mode as ImportMode,
+        (fileType) => enterStage(STAGE_LABELS[fileType], sessionId),
+      );
+
+      if (result.success) {
+        await enterStage("Computing report", sessionId);
+        try {
+          await generateReportSnapshot(sessionId, "import", job.teacherId ?? undefined);
+        } catch (err: any) {
+          results.push({ ...result, reportError: err.message });
+          continue;
+        }
+      }
+      results.push(result);
+    }
+
+    // A rejected archive fails the job even when other files imported
+    const errors = [...archiveErrors, ...results.filter(r => !r.success || r.reportError).map(r => r.error || r.reportError)];
+    const failed = errors.length > 0;
+    stages.push({ stage: failed ? "Failed" : "Completed", at: new Date().toISOString() });
+    await storage.updateImportJob(id, {
+      status: failed ? "failed" : "completed",
+      stage: failed ? "Failed" : "Completed",
+      stages,
+      progress: 100,
+      results: { sessions: results, unrecognizedFiles: unassigned.map(f => f.originalname), archiveErrors },
+      error: failed ? errors.join("; ") : null,
+      finishedAt: new Date(),
+    });
+    console.log(`Import job ${id} ${failed ? "failed" : "completed"} (${sessionIds.join(", ")})`);
+  } catch (err: any) {
+    stages.push({ stage: "Failed", at: new Date().toISOString() });
+    await storage.updateImportJob(id, {
+      status: "failed",
+      stage: "Failed",
+      stages,
+      error: err.message,
+      finishedAt: new Date(),
+    });
+  } finally {
+    removeUploads(files, tempDir);
+  }
+}
@@ -0,0 +1,266 @@
+import fs from "fs";
+import path from "path";
+import os from "os";
+import { storage } from "./storage";
+import { generateReportSnapshot } from "./report-snapshots";
+import { runInImportQueue } from "./import-jobs";
+import {
+  expandUploads, removeUploads, importSessionFromFiles, classifySessionFile,
+  detectSessionIdFromName, workbookSessionId,
+  type UploadedFile, type SessionImportResult,
+} from "./import-data";
+import { SESSION_FILE_TYPES } from "@shared/schema";
+
+/**
+ * Watch-folder ingestion. Session exports dropped into the inbox directory are
+ * grouped by the session ID in their filenames; a group is imported once all
+ * seven file types are present (or it holds a workbook / ZIP bundle), or after
+ * it has been quiet for the configured period. The files are then moved to
+ * `processed/` or `failed/` under the inbox, together with an `import-log.json`
+ * sidecar describing the outcome.
+ *
+ * Configuration:
+ * - INGEST_INBOX_DIR              inbox directory (default attached_assets/inbox)
+ * - INGEST_QUIET_PERIOD_SECONDS   seconds without changes before a partial set is imported (default 120)
+ * - INGEST_DISABLED=true          do not start the watcher
+ */
+
+const POLL_INTERVAL_MS = 10_000;
+
+interface SeenFile {
+  size: number;
+  mtimeMs: number;
+  /** When the size or mtime last changed, as observed by the watcher. */
+  changedAt: number;
+}
+
+interface IngestBatch {
+  key: string;
+  sessionId: number | null;
+  fileNames: string[];
+}
+
+const seen = new Map<string, SeenFile>();
+/** Files whose batch could not be moved out of the inbox; skipped until they change or disappear. */
+const abandoned = new Set<string>();
+let busy = false;
+
+export function getInboxDir(): string {
+  return path.resolve(process.env.INGEST_INBOX_DIR || path.join(process.cwd(), "attached_assets", "inbox"));
+}
+
+function quietPeriodMs(): number {
+  const seconds = parseInt(process.env.INGEST_QUIET_PERIOD_SECONDS || "", 10);
+  return (isNaN(seconds) ? 120 : seconds) * 1000;
+}
+
+export function startIngestWatcher(): void {
+  if (process.env.INGEST_DISABLED === "true") return;
+  const inbox = getInboxDir();
+  for (const dir of [inbox, path.join(inbox, "processed"), path.join(inbox, "failed")]) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  console.log(`Watching ${inbox} for session exports`);
+
+  // fs.watch only speeds up pickup; the interval also drives the quiet-period check
+  try {
+    fs.watch(inbox, () => void scanInbox());
+  } catch (err: any) {
+    console.warn(`fs.watch unavailable for ${inbox}, polling only:`, err.message);
+  }
+  setInterval(() => void scanInbox(), POLL_INTERVAL_MS).unref();
+  void scanInbox();
+}
+
+/** Record size/mtime per file; returns the names whose stats did not change since the last scan. */
+function refreshSeen(inbox: string, names: string[], now: number): Set<string> {
+  const stable = new Set<string>();
+  for (const name of names) {
+    let stat: fs.Stats;
+    try {
+      stat = fs.statSync(path.join(inbox, name));
+    } catch {
+      continue;
+    }
+    const prev = seen.get(name);
+    if (prev && prev.size === stat.size && prev.mtimeMs === stat.mtimeMs) {
+      stable.add(name);
+    } else {
+      seen.set(name, { size: stat.size, mtimeMs: stat.mtimeMs, changedAt: now });
+      abandoned.delete(name);
+    }
+  }
+  for (const name of Array.from(seen.keys())) {
+    if (!names.includes(name)) seen.delete(name);
+  }
+  for (const name of Array.from(abandoned)) {
+    if (!names.includes(name)) abandoned.delete(name);
+  }
+  return stable;
+}
+
+/** Group inbox files into batches: one per session ID, one per ZIP bundle, and the unidentified leftovers. */
+function groupInbox(names: string[]): IngestBatch[] {
+  const bySession = new Map<number, string[]>();
+  const batches: IngestBatch[] = [];
+  const unidentified: string[] = [];
+  for (const name of names) {
+    if (name.toLowerCase().endsWith(".zip")) {
+      batches.push({ key: `zip:${name}`, sessionId: null, fileNames: [name] });
+      continue;
+    }
+    const id = name.toLowerCase().endsWith(".xlsx") ? workbookSessionId(name) : detectSessionIdFromName(name);
+    if (!id) {
+      unidentified.push(name);
+      continue;
+    }
+    if (!bySession.has(id)) bySession.set(id, []);
+    bySession.get(id)!.push(name);
+  }
+  for (const [sessionId, fileNames] of Array.from(bySession.entries())) {
+    batches.push({ key: `session:${sessionId}`, sessionId, fileNames });
+  }
+  for (const name of unidentified) {
+    batches.push({ key: `unknown:${name}`, sessionId: null, fileNames: [name] });
+  }
+  return batches;
+}
+
+/** A full export set needs no quiet period: every file type, a workbook, or a ZIP bundle. */
+function isComplete(batch: IngestBatch): boolean {
+  if (batch.key.startsWith("zip:")) return true;
+  if (batch.fileNames.some(n => n.toLowerCase().endsWith(".xlsx"))) return true;
+  const types = new Set(batch.fileNames.map(classifySessionFile));
+  return SESSION_FILE_TYPES.every(t => types.has(t));
+}
+
+async function scanInbox(): Promise<void> {
+  if (busy) return;
+  busy = true;
+  try {
+    const inbox = getInboxDir();
+    const names = fs.readdirSync(inbox, { withFileTypes: true })
+      .filter(entry => entry.isFile() && !entry.name.startsWith("."))
+      .map(entry => entry.name);
+    const now = Date.now();
+    const stable = refreshSeen(inbox, names, now);
+
+    for (const batch of groupInbox(names)) {
+      // Files still being written (size or mtime moving) hold the whole batch back
+      if (!batch.fileNames.every(n => stable.has(n))) continue;
+      if (batch.fileNames.some(n => abandoned.has(n))) continue;
+      const lastChange = Math.max(...batch.fileNames.map(n => seen.get(n)?.changedAt ?? now));
+      const quiet = now - lastChange >= quietPeriodMs();
+      if (!quiet && (!isComplete(batch) || batch.key.startsWith("unknown:"))) continue;
+      await ingestBatch(inbox, batch);
+    }
+  } catch (err: any) {
+    console.error("Inbox scan failed:", err);
+  } finally {
+    busy = false;
+  }
+}
+
+/**
+ * Import a batch from working copies (the importer deletes the files it is
+ * given), then move the originals out of the inbox with a sidecar log. Any
+ * failure along the way files the batch under `failed/`.
+ */
+async function ingestBatch(inbox: string, batch: IngestBatch): Promise<void> {
+  const startedAt = new Date();
+  const results: SessionImportResult[] = [];
+  let unrecognizedFiles: string[] = [];
+  let error: string | null = null;
+  let workDir: string | null = null;
+
+  try {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), "session-inbox-"));
+    const copies: UploadedFile[] = batch.fileNames.map((name, i) => {
+      const copyPath = path.join(workDir!, `${i}-${name}`);
+      fs.copyFileSync(path.join(inbox, name), copyPath);
+      return { originalname: name, path: copyPath };
+    });
+
+    // Queued behind upload jobs, so the create-or-patch choice sees every earlier import
+    await runInImportQueue(async () => {
+      const { groups, unassigned, errors, tempDir } = expandUploads(copies);
+      try {
+        unrecognizedFiles = unassigned.map(f => f.originalname);
+        if (errors.length > 0) {
+          error = errors.join("; ");
+        } else if (groups.size === 0) {
+          error = "Could not detect session ID from filenames";
+        }
+        for (const [sessionId, groupFiles] of Array.from(groups.entries())) {
+          // A new export for a known session only swaps the file types it contains
+          const mode = (await storage.getCourseSession(sessionId)) ? "patch" : "create";
+          const result = await importSessionFromFiles(groupFiles, undefined, mode);
+          if (result.success) {
+            try {
+              await generateReportSnapshot(sessionId, "import");
+            } catch (err: any) {
+              console.error(`Report snapshot for session ${sessionId} failed:`, err.message);
+            }
+          }
+          results.push(result);
+        }
+      } finally {
+        removeUploads(copies, tempDir);
+      }
+    });
+  } catch (err: any) {
+    error = err.message;
+  } finally {
+    if (workDir) {
+      try { fs.rmSync(workDir, { recursive: true, force: true }); } catch {}
+    }
+  }
+
+  const failed = !!error || results.some(r => !r.success);
+  const log = {
+    status: failed ? "failed" : "processed",
+    files: batch.fileNames,
+    unrecognizedFiles,
+    sessions: results,
+    error,
+    startedAt: startedAt.toISOString(),
+  };
+
+  let destDir: string;
+  try {
+    destDir = fileBatch(inbox, batch, startedAt, log);
+  } catch (err: any) {
+    console.error(`Filing inbox batch ${batch.key} failed:`, err.message);
+    try {
+      const moveError = `Moving files out of the inbox failed: ${err.message}`;
+      destDir = fileBatch(inbox, batch, startedAt, { ...log, status: "failed", error: error ? `${error}; ${moveError}` : moveError });
+    } catch (retryErr: any) {
+      // Leave the files where they are, but stop rescanning them every poll until they change
+      for (const name of batch.fileNames) abandoned.add(name);
+      console.error(`Inbox batch ${batch.key} left in the inbox and will not be retried until its files change:`, retryErr.message);
+      return;
+    }
+  }
+
+  console.log(`Inbox batch ${batch.key} ${failed ? "failed" : "imported"} → ${destDir}`);
+}
+
+/** Move a batch's originals to `processed/` or `failed/` (by `log.status`) and write its `import-log.json`. */
+function fileBatch(inbox: string, batch: IngestBatch, startedAt: Date, log: { status: string } & Record<string, unknown>): string {
+  const stamp = startedAt.toISOString().replace(/[:.]/g, "-");
+  const label = batch.sessionId ?? path.parse(batch.fileNames[0]).name;
+  const destDir = path.join(inbox, log.status, `${label}_${stamp}`);
+  fs.mkdirSync(destDir, { recursive: true });
+  for (const name of batch.fileNames) {
+    // A retry after a partial move only picks up the files still in the inbox
+    const source = path.join(inbox, name);
+    if (!fs.existsSync(source)) continue;
+    fs.renameSync(source, path.join(destDir, name));
+    seen.delete(name);
+  }
+  fs.writeFileSync(path.join(destDir, "import-log.json"), JSON.stringify({
+    ...log,
+    finishedAt: new Date().toISOString(),
+  }, null, 2));
+  return destDir;
+}
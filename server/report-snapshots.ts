@@ -0,0 +1,163 @@
+import { storage, ANALYSIS_ENGINE_VERSION } from "./storage";
+import type { ReportData, ReportSnapshot } from "@shared/schema";
+import type { ResolvedScoringProfile } from "./scoring-profiles";
+import type { ResolvedTaxonomy } from "./topic-taxonomies";
+import type { ResolvedLexicon } from "./dialect-lexicons";
+
+/**
+ * Stored, immutable session reports. A snapshot is written after each import
+ * and whenever an admin regenerates; the dashboard serves the newest snapshot
+ * (computing one only if the session exists and has none yet), so a report
+ * stays reproducible until its data, the analysis engine, the active scoring
+ * rubric, or the session's scoring profile, topic taxonomy or dialect lexicon
+ * changes.
+ */
+
+export type SnapshotTrigger = "view" | "import" | "regenerate";
+
+/** Snapshot fields sent alongside report data (the data itself is the response body). */
+export function snapshotMeta(snapshot: ReportSnapshot, latestId?: number) {
+  return {
+    id: snapshot.id,
+    engineVersion: snapshot.engineVersion,
+    inputHash: snapshot.inputHash,
+    rubricVersion: snapshot.rubricVersion,
+    trigger: snapshot.trigger,
+    createdAt: snapshot.createdAt,
+    isLatest: latestId === undefined || latestId === snapshot.id,
+    currentEngineVersion: ANALYSIS_ENGINE_VERSION,
+  };
+}
+
+/**
+ * Compute and store a snapshot for the session. When the newest snapshot was
+ * made by the current engine, rubric, scoring profile, topic taxonomy and
+ * dialect lexicon from identical input data it is returned as-is instead of
+ * writing a duplicate.
+ */
+export async function generateReportSnapshot(
+  courseSessionId: number,
+  trigger: SnapshotTrigger,
+  createdBy?: number
+): Promise<{ snapshot: ReportSnapshot; created: boolean }> {
+  const [inputHash, latest, rubric, session, language] = await Promise.all([
+    storage.computeReportInputHash(courseSessionId),
+    storage.getLatestReportSnapshot(courseSessionId),
+    storage.getActiveRubric(),
+    storage.getCourseSession(courseSessionId),
+    storage.getSessionLanguage(courseSessionId),
+  ]);
+  const [profile, taxonomy, lexicon] = await Promise.all([
+    storage.getScoringProfileFor(session?.courseId ?? null, session?.courseSessionClassType ?? null),
+    storage.getTaxonomyFor(session?.courseSessionName ?? null),
+    storage.getLexiconFor(session?.teacherDbId ?? null, session?.courseId ?? null, language),
+  ]);
+  if (
+    latest && latest.engineVersion === ANALYSIS_ENGINE_VERSION
+    && latest.inputHash === inputHash && latest.rubricVersion === rubric.version
+    && sameProfile(latest, profile) && sameTaxonomy(latest, taxonomy) && sameLexicon(latest, lexicon)
+  ) {
+    return { snapshot: latest, created: false };
+  }
+
+  const data = await storage.getDashboardData(courseSessionId, rubric, profile, taxonomy, lexicon);
+  const snapshot = await storage.insertReportSnapshot({
+    courseSessionId,
+    engineVersion: ANALYSIS_ENGINE_VERSION,
+    inputHash,
+    rubricVersion: rubric.version,
+    data,
+    trigger,
+    createdBy: createdBy ?? null,
+  });
+  return { snapshot, created: true };
+}
+
+/** Whether the snapshot was scored with this profile, as last edited. */
+function sameProfile(snapshot: ReportSnapshot, profile: ResolvedScoringProfile): boolean {
+  const used = (snapshot.data as ReportData).qaEvaluation?.profile;
+  if (!used) return profile.id === null;
+  return used.id === profile.id && used.updatedAt === profile.updatedAt;
+}
+
+/** Whether the snapshot's topics were labelled with this taxonomy, as last edited. */
+function sameTaxonomy(snapshot: ReportSnapshot, taxonomy: ResolvedTaxonomy): boolean {
+  const used = (snapshot.data as ReportData).topicTaxonomy;
+  return !!used && used.subject === taxonomy.subject && used.updatedAt === taxonomy.updatedAt;
+}
+
+/** Packs are built in, so the pack ID identifies the lexicon for a given engine version. */
+function sameLexicon(snapshot: ReportSnapshot, lexicon: ResolvedLexicon): boolean {
+  return (snapshot.data as ReportData).dialectLexicon?.id === lexicon.id;
+}
+
+/**
+ * The newest stored report for a session, generating the first one on demand
+ * for sessions imported before snapshots existed. Undefined when the session
+ * does not exist, so unknown IDs never write a snapshot.
+ */
+export async function getLatestReport(courseSessionId: number): Promise<ReportSnapshot | undefined> {
+  const latest = await storage.getLatestReportSnapshot(courseSessionId);
+  if (latest) return latest;
+  if (!(await storage.getCourseSession(courseSessionId))) return undefined;
+  const { snapshot } = await generateReportSnapshot(courseSessionId, "view");
+  return snapshot;
+}
+
+interface RegenerationRun {
+  running: boolean;
+  total: number;
+  done: number;
+  created: number;
+  failed: { sessionId: number; error: string }[];
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+const regeneration: RegenerationRun = {
+  running: false,
+  total: 0,
+  done: 0,
+  created: 0,
+  failed: [],
+  startedAt: null,
+  finishedAt: null,
+};
+
+export function getRegenerationStatus(): RegenerationRun & { engineVersion: string } {
+  return { ...regeneration, engineVersion: ANALYSIS_ENGINE_VERSION };
+}
+
+/**
+ * Regenerate every session's report in the background, one at a time.
+ * Returns false when a run is already in progress.
+ */
+export async function startRegenerateAll(createdBy: number): Promise<boolean> {
+  if (regeneration.running) return false;
+  const sessionIds = await storage.getAllCourseSessionIds();
+  Object.assign(regeneration, {
+    running: true,
+    total: sessionIds.length,
+    done: 0,
+    created: 0,
+    failed: [],
+    startedAt: new Date().toISOString(),
+    finishedAt: null,
+  });
+
+  void (async () => {
+    for (const sessionId of sessionIds) {
+      try {
+        const { created } = await generateReportSnapshot(sessionId, "regenerate", createdBy);
+        if (created) regeneration.created++;
+      } catch (err: any) {
+        regeneration.failed.push({ sessionId, error: err.message });
+      }
+      regeneration.done++;
+    }
+    regeneration.running = false;
+    regeneration.finishedAt = new Date().toISOString();
+    console.log(`Report regeneration finished: ${regeneration.created} new, ${regeneration.failed.length} failed`);
+  })();
+  return true;
+}
@@ -1,7 +1,28 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { importAllData, getDetectedSessionId, importSessionFromFiles } from "./import-data";
+import { storage, BENCHMARK_COHORTS, type BenchmarkCohort } from "./storage";
+import {
+  importAllData, getDetectedSessionId, validateUploadedSessions, IMPORT_MODES, type ImportMode,
+} from "./import-data";
+import { enqueueImportJob, resumeImportJobs, serializeImportJob, sweepPendingUploads } from "./import-jobs";
+import { startIngestWatcher } from "./ingest-watcher";
+import {
+  getLatestReport, snapshotMeta, generateReportSnapshot, startRegenerateAll, getRegenerationStatus,
+} from "./report-snapshots";
+import {
+  DEFAULT_COLUMN_MAPPINGS, columnMappingDefinitionSchema, validateMappingDefinition,
+} from "./column-mappings";
+import { DEFAULT_RUBRIC, scoringRubricSchema, validateRubric } from "./rubric";
+import {
+  DEFAULT_SCORING_PROFILE, PROFILE_SCOPE_TYPES, scoringProfileConfigSchema, validateScoringProfile,
+} from "./scoring-profiles";
+import { BUILTIN_TAXONOMIES, topicTaxonomyConfigSchema, validateTaxonomy } from "./topic-taxonomies";
+import {
+  DIALECT_PACKS, DEFAULT_PACK_IDS, LEXICON_KEYS, LEXICON_SCOPE_TYPES,
+  compileLexicon, getDialectPack, packTerms, testLexicon,
+} from "./dialect-lexicons";
+import { toCsv } from "./csv-export";
+import { compareSessions, MIN_COMPARE_SESSIONS, MAX_COMPARE_SESSIONS } from "./session-compare";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
@@ -10,7 +31,7 @@ import { eq, sql, count, and, desc, avg } from "drizzle-orm";
 import {
   courseSessions, sessionTranscripts, sessionChats,
   classroomActivities, userPolls, userReactions, userSessions,
-  teachers, reportViews, reportFeedback,
+  teachers, reportViews, reportFeedback, SESSION_FILE_TYPES, type SessionFileType, type AtRiskStudent,
 } from "@shared/schema";
 import { verifyFirebaseToken, generateToken, requireAuth, requireAdmin } from "./auth";
 
@@ -67,6 +88,15 @@ async function pushSchema() {
     )
   `);
 
+  // Normalized copies of transcript and chat text used for pattern matching
+  await db.execute(sql`
+    ALTER TABLE session_transcripts ADD COLUMN IF NOT EXISTS normalized_text TEXT
+  `);
+
+  await db.execute(sql`
+    ALTER TABLE session_chats ADD COLUMN IF NOT EXISTS normalized_message_text TEXT
+  `);
+
   await db.execute(sql`
     CREATE TABLE IF NOT EXISTS classroom_activities (
       id SERIAL PRIMARY KEY,
@@ -187,6 +217,152 @@ async function pushSchema() {
   await db.execute(sql`
     ALTER TABLE course_sessions ADD COLUMN IF NOT EXISTS teacher_db_id INTEGER REFERENCES teachers(id)
   `);
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS session_imports (
+      id SERIAL PRIMARY KEY,
+      course_session_id INTEGER NOT NULL,
+      file_type VARCHAR(50) NOT NULL,
+      file_name TEXT NOT NULL,
+      row_count INTEGER NOT NULL,
+      mode VARCHAR(20) NOT NULL,
+      teacher_id INTEGER REFERENCES teachers(id),
+      imported_at TIMESTAMP DEFAULT NOW() NOT NULL
+    )
+  `);
+
+  await db.execute(sql`
+    ALTER TABLE session_imports ADD COLUMN IF NOT EXISTS mapping_version INTEGER
+  `);
+
+  await db.execute(sql`
+    ALTER TABLE session_imports ADD COLUMN IF NOT EXISTS encoding VARCHAR(30)
+  `);
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS column_mappings (
+      id SERIAL PRIMARY KEY,
+      file_type VARCHAR(50) NOT NULL,
+      version INTEGER NOT NULL,
+      mapping JSONB NOT NULL,
+      is_active BOOLEAN NOT NULL DEFAULT false,
+      notes TEXT,
+      created_by INTEGER REFERENCES teachers(id),
+      created_at TIMESTAMP DEFAULT NOW() NOT NULL
+    )
+  `);
+
+  await db.execute(sql`
+    CREATE UNIQUE INDEX IF NOT EXISTS column_mappings_type_version_idx
+    ON column_mappings(file_type, version)
+  `);
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS scoring_rubrics (
+      id SERIAL PRIMARY KEY,
+      version INTEGER NOT NULL UNIQUE,
+      config JSONB NOT NULL,
+      is_active BOOLEAN NOT NULL DEFAULT false,
+      notes TEXT,
+      created_by INTEGER REFERENCES teachers(id),
+      created_at TIMESTAMP DEFAULT NOW() NOT NULL
+    )
+  `);
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS scoring_profiles (
+      id SERIAL PRIMARY KEY,
+      name VARCHAR(100) NOT NULL UNIQUE,
+      description TEXT,
+      config JSONB NOT NULL,
+      created_by INTEGER REFERENCES teachers(id),
+      created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+      updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+    )
+  `);
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS scoring_profile_assignments (
+      id SERIAL PRIMARY KEY,
+      profile_id INTEGER NOT NULL REFERENCES scoring_profiles(id) ON DELETE CASCADE,
+      scope_type VARCHAR(20) NOT NULL,
+      scope_value VARCHAR(100) NOT NULL,
+      created_at TIMESTAMP DEFAULT NOW() NOT NULL
+    )
+  `);
+
+  await db.execute(sql`
+    CREATE UNIQUE INDEX IF NOT EXISTS scoring_profile_assignments_scope_idx
+    ON scoring_profile_assignments(scope_type, scope_value)
+  `);
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS lexicon_assignments (
+      id SERIAL PRIMARY KEY,
+      pack_id VARCHAR(50) NOT NULL,
+      scope_type VARCHAR(20) NOT NULL,
+      scope_value VARCHAR(100) NOT NULL,
+      created_at TIMESTAMP DEFAULT NOW() NOT NULL
+    )
+  `);
+
+  await db.execute(sql`
+    CREATE UNIQUE INDEX IF NOT EXISTS lexicon_assignments_scope_idx
+    ON lexicon_assignments(scope_type, scope_value)
+  `);
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS topic_taxonomies (
+      id SERIAL PRIMARY KEY,
+      subject VARCHAR(50) NOT NULL UNIQUE,
+      name VARCHAR(100) NOT NULL,
+      keywords JSONB NOT NULL,
+      terms JSONB NOT NULL,
+      created_by INTEGER REFERENCES teachers(id),
+      created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+      updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+    )
+  `);
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS import_jobs (
+      id SERIAL PRIMARY KEY,
+      teacher_id INTEGER REFERENCES teachers(id),
+      status VARCHAR(20) NOT NULL DEFAULT 'pending',
+      mode VARCHAR(20) NOT NULL DEFAULT 'create',
+      stage TEXT,
+      progress INTEGER NOT NULL DEFAULT 0,
+      stages JSONB NOT NULL DEFAULT '[]'::jsonb,
+      files JSONB NOT NULL,
+      session_ids JSONB,
+      results JSONB,
+      error TEXT,
+      created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+      updated_at TIMESTAMP DEFAULT NOW() NOT NULL,
+      finished_at TIMESTAMP
+    )
+  `);
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS report_snapshots (
+      id SERIAL PRIMARY KEY,
+      course_session_id INTEGER NOT NULL,
+      engine_version VARCHAR(20) NOT NULL,
+      input_hash VARCHAR(64) NOT NULL,
+      data JSONB NOT NULL,
+      trigger VARCHAR(20) NOT NULL,
+      created_by INTEGER REFERENCES teachers(id),
+      created_at TIMESTAMP DEFAULT NOW() NOT NULL
+    )
+  `);
+
+  await db.execute(sql`
+    ALTER TABLE report_snapshots ADD COLUMN IF NOT EXISTS rubric_version INTEGER NOT NULL DEFAULT 0
+  `);
+
+  await db.execute(sql`
+    CREATE INDEX IF NOT EXISTS report_snapshots_session_idx ON report_snapshots (course_session_id, created_at DESC)
+  `);
 }
 
 export async function registerRoutes(
@@ -195,36 +371,232 @@ export async function registerRoutes(
 ): Promise<Server> {
   await pushSchema();
   await importAllData();
+  await resumeImportJobs();
+  startIngestWatcher();
 
+  // GET /api/dashboard/:sessionId - Latest stored report, or an older one with ?snapshot=<id>
   app.get("/api/dashboard/:sessionId", async (req, res) => {
     try {
       const sessionId = parseInt(req.params.sessionId);
-      const data = await storage.getDashboardData(sessionId);
-      res.json(data);
+      if (isNaN(sessionId)) {
+        res.status(400).json({ message: "Invalid session ID" });
+        return;
+      }
+      const latest = await getLatestReport(sessionId);
+      if (!latest) {
+        res.status(404).json({ message: "Session not found" });
+        return;
+      }
+      let snapshot = latest;
+      if (req.query.snapshot) {
+        const requested = await storage.getReportSnapshot(parseInt(req.query.snapshot as string));
+        if (!requested || requested.courseSessionId !== sessionId) {
+          res.status(404).json({ message: "Report snapshot not found" });
+          return;
+        }
+        snapshot = requested;
+      }
+      res.json({ ...(snapshot.data as object), snapshot: snapshotMeta(snapshot, latest.id) });
     } catch (err: any) {
       console.error("Dashboard error:", err);
       res.status(500).json({ message: err.message });
     }
   });
 
-  app.get("/api/sessions", async (_req, res) => {
+  // GET /api/sessions - Paginated session list, filterable by course, teacher, date range and status
+  app.get("/api/sessions", async (req, res) => {
     try {
-      const session = await storage.getSessionOverview();
-      res.json(session ? [session] : []);
+      const intParam = (name: string) => {
+        const value = parseInt(req.query[name] as string);
+        return isNaN(value) ? undefined : value;
+      };
+      const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+      const from = req.query.from as string | undefined;
+      const to = req.query.to as string | undefined;
+      if ((from && !datePattern.test(from)) || (to && !datePattern.test(to))) {
+        res.status(400).json({ error: "from and to must be YYYY-MM-DD dates" });
+        return;
+      }
+
+      const result = await storage.listSessions({
+        courseId: intParam("courseId"),
+        teacherId: intParam("teacherId"),
+        from,
+        to,
+        status: (req.query.status as string | undefined) || undefined,
+        page: Math.max(1, intParam("page") ?? 1),
+        pageSize: Math.min(100, Math.max(1, intParam("pageSize") ?? 20)),
+      });
+      res.json(result);
     } catch (err: any) {
       res.status(500).json({ message: err.message });
     }
   });
 
-  app.get("/api/detected-session", async (_req, res) => {
+  // GET /api/sessions/:sessionId - Overview (course_sessions row) for one session
+  app.get("/api/sessions/:sessionId", async (req, res) => {
     try {
-      const session = await storage.getSessionOverview();
-      if (session) {
-        res.json({ sessionId: session.courseSessionId });
-      } else {
-        const detected = getDetectedSessionId();
-        res.json({ sessionId: detected });
+      const sessionId = parseInt(req.params.sessionId);
+      if (isNaN(sessionId)) {
+        res.status(400).json({ error: "Invalid session ID" });
+        return;
+      }
+      const session = await storage.getSessionOverview(sessionId);
+      if (!session) {
+        res.status(404).json({ error: "Session not found" });
+        return;
+      }
+      res.json(session);
+    } catch (err: any) {
+      res.status(500).json({ message: err.message });
+    }
+  });
+
+  // GET /api/sessions/:sessionId/reports - Stored report snapshots for a session, newest first
+  app.get("/api/sessions/:sessionId/reports", async (req, res) => {
+    try {
+      const sessionId = parseInt(req.params.sessionId);
+      if (isNaN(sessionId)) {
+        res.status(400).json({ error: "Invalid session ID" });
+        return;
+      }
+      res.json(await storage.listReportSnapshots(sessionId));
+    } catch (err: any) {
+      res.status(500).json({ message: err.message });
+    }
+  });
+
+  // GET /api/sessions/:sessionId/students/:userId - One student's answers, chat, reactions and attendance
+  app.get("/api/sessions/:sessionId/students/:userId", requireAuth, async (req, res) => {
+    try {
+      const sessionId = parseInt(req.params.sessionId as string);
+      const userId = parseInt(req.params.userId as string);
+      if (isNaN(sessionId) || isNaN(userId)) {
+        res.status(400).json({ error: "Invalid session or user ID" });
+        return;
+      }
+      if (!(await canViewSession(req.teacher!.teacherId, sessionId))) {
+        res.status(403).json({ error: "Forbidden" });
+        return;
+      }
+      const report = await storage.getStudentReport(sessionId, userId);
+      if (!report) {
+        res.status(404).json({ error: "Student not found in this session" });
+        return;
+      }
+      res.json(report);
+    } catch (err: any) {
+      console.error("Student report error:", err);
+      res.status(500).json({ message: err.message });
+    }
+  });
+
+  // GET /api/sessions/:sessionId/at-risk - At-risk students from the latest report (?format=csv to download)
+  app.get("/api/sessions/:sessionId/at-risk", requireAuth, async (req, res) => {
+    try {
+      const sessionId = parseInt(req.params.sessionId as string);
+      if (isNaN(sessionId)) {
+        res.status(400).json({ error: "Invalid session ID" });
+        return;
+      }
+      if (!(await canViewSession(req.teacher!.teacherId, sessionId))) {
+        res.status(403).json({ error: "Forbidden" });
+        return;
+      }
+      const report = await getLatestReport(sessionId);
+      if (!report) {
+        res.status(404).json({ error: "Session not found" });
+        return;
+      }
+      // Reports from engines before at-risk analysis have no list until they are regenerated
+      const students = (report.data as { atRiskStudents?: AtRiskStudent[] }).atRiskStudents;
+      if (!students) {
+        if (req.query.format === "csv") {
+          res.status(409).json({ error: "This report predates at-risk analysis; regenerate it first" });
+          return;
+        }
+        res.json({ snapshotId: report.id, students: [], regenerateRequired: true });
+        return;
+      }
+
+      if (req.query.format === "csv") {
+        const csv = toCsv(
+          ["User ID", "Student", "Risk level", "Correctness %", "Reasons"],
+          students.map(s => [s.userId, s.userName, s.riskLevel, s.correctness, s.reasons.map(r => r.detail).join("; ")]),
+        );
+        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        res.setHeader("Content-Disposition", `attachment; filename="at-risk-students-${sessionId}.csv"`);
+        res.send(csv);
+        return;
+      }
+      res.json({ snapshotId: report.id, students, regenerateRequired: false });
+    } catch (err: any) {
+      console.error("At-risk export error:", err);
+      res.status(500).json({ message: err.message });
+    }
+  });
+
+  // GET /api/sessions/:sessionId/benchmarks?cohort=course|subject|level - Percentile ranks against the session's peer cohort
+  app.get("/api/sessions/:sessionId/benchmarks", requireAuth, async (req, res) => {
+    try {
+      const sessionId = parseInt(req.params.sessionId as string);
+      if (isNaN(sessionId)) {
+        res.status(400).json({ error: "Invalid session ID" });
+        return;
+      }
+      if (!(await canViewSession(req.teacher!.teacherId, sessionId))) {
+        res.status(403).json({ error: "Forbidden" });
+        return;
+      }
+      const cohort = (req.query.cohort as string | undefined) || "course";
+      if (!(BENCHMARK_COHORTS as readonly string[]).includes(cohort)) {
+        res.status(400).json({ error: `cohort must be one of: ${BENCHMARK_COHORTS.join(", ")}` });
+        return;
+      }
+      const benchmarks = await storage.getSessionBenchmarks(sessionId, cohort as BenchmarkCohort);
+      if (!benchmarks) {
+        res.status(404).json({ error: "No stored report for this session" });
+        return;
+      }
+      res.json(benchmarks);
+    } catch (err: any) {
+      console.error("Session benchmarks error:", err);
+      res.status(500).json({ message: err.message });
+    }
+  });
+
+  // GET /api/compare?sessions=1,2 - Latest reports of several sessions aligned side by side, with the significant differences
+  app.get("/api/compare", requireAuth, async (req, res) => {
+    try {
+      const ids = Array.from(new Set(String(req.query.sessions || "")
+        .split(",").map(s => s.trim()).filter(Boolean).map(s => parseInt(s))));
+      if (ids.some(id => isNaN(id)) || ids.length < MIN_COMPARE_SESSIONS || ids.length > MAX_COMPARE_SESSIONS) {
+        res.status(400).json({ error: `sessions must list ${MIN_COMPARE_SESSIONS} to ${MAX_COMPARE_SESSIONS} distinct session IDs` });
+        return;
+      }
+      const found = await Promise.all(ids.map(id => storage.getCourseSession(id)));
+      const missing = ids.filter((_, i) => !found[i]);
+      if (missing.length > 0) {
+        res.status(404).json({ error: `Session not found: ${missing.join(", ")}` });
+        return;
+      }
+      const allowed = await Promise.all(ids.map(id => canViewSession(req.teacher!.teacherId, id)));
+      if (allowed.some(ok => !ok)) {
+        res.status(403).json({ error: "Forbidden" });
+        return;
       }
+      res.json(await compareSessions(ids));
+    } catch (err: any) {
+      console.error("Session compare error:", err);
+      res.status(500).json({ message: err.message });
+    }
+  });
+
+  // GET /api/detected-session - Most recently scheduled session, or one detected from attached_assets/
+  app.get("/api/detected-session", async (_req, res) => {
+    try {
+      const latest = await storage.getLatestSessionId();
+      res.json({ sessionId: latest ?? getDetectedSessionId() });
     } catch (err: any) {
       res.status(500).json({ message: err.message });
     }
@@ -346,6 +718,8 @@ export async function registerRoutes(
     fs.mkdirSync(uploadDir, { recursive: true });
   }
   const upload = multer({ dest: uploadDir });
+  await sweepPendingUploads(uploadDir);
+  setInterval(() => void sweepPendingUploads(uploadDir).catch(err => console.error("Upload sweep failed:", err)), 60 * 60 * 1000).unref();
 
   app.post("/api/sessions/upload", requireAuth, upload.array("files", 10), async (req, res) => {
     try {
@@ -355,24 +729,97 @@ export async function registerRoutes(
         return;
       }
 
-      const teacherId = req.teacher!.teacherId;
-      const result = await importSessionFromFiles(
-        files.map(f => ({ originalname: f.originalname, path: f.path })),
-        teacherId,
-      );
+      const uploaded = files.map(f => ({ originalname: f.originalname, path: f.path }));
+
+      // ?dryRun=true - parse and validate only, nothing is written
+      if (req.query.dryRun === "true") {
+        const report = await validateUploadedSessions(uploaded);
+        res.json(report);
+        return;
+      }
 
-      if (!result.success) {
-        res.status(400).json({ error: result.error, sessionId: result.sessionId });
+      // ?mode=replace|patch - re-import over an existing session
+      const mode = (req.query.mode as string | undefined) || "create";
+      if (!IMPORT_MODES.includes(mode as ImportMode)) {
+        for (const f of files) {
+          try { fs.unlinkSync(f.path); } catch {}
+        }
+        res.status(400).json({ error: `Invalid mode: ${mode}` });
         return;
       }
 
-      res.status(201).json({ sessionId: result.sessionId, success: true });
+      // Parsing and inserting happen in a background job; poll /api/import-jobs/:id for progress
+      const job = await enqueueImportJob(uploaded, req.teacher!.teacherId, mode as ImportMode);
+      res.status(202).json({ jobId: job.id, status: job.status });
     } catch (err: any) {
       console.error("Upload error:", err);
+      for (const f of (req.files as Express.Multer.File[] | undefined) || []) {
+        try { fs.unlinkSync(f.path); } catch {}
+      }
       res.status(500).json({ error: "Failed to process upload" });
     }
   });
 
+  // GET /api/import-jobs/:id - Stage-by-stage progress of a background import
+  app.get("/api/import-jobs/:id", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id as string);
+      if (isNaN(id)) {
+        res.status(400).json({ error: "Invalid job ID" });
+        return;
+      }
+      const job = await storage.getImportJob(id);
+      if (!job) {
+        res.status(404).json({ error: "Import job not found" });
+        return;
+      }
+      if (job.teacherId !== req.teacher!.teacherId && req.teacher!.role !== "admin") {
+        res.status(403).json({ error: "Forbidden" });
+        return;
+      }
+      res.json(serializeImportJob(job));
+    } catch (err: any) {
+      console.error("Import job error:", err);
+      res.status(500).json({ error: "Failed to fetch import job" });
+    }
+  });
+
+  // GET /api/my-import-jobs - The current teacher's imports from the last 7 days
+  app.get("/api/my-import-jobs", requireAuth, async (req, res) => {
+    try {
+      const since = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+      const jobs = await storage.getImportJobsForTeacher(req.teacher!.teacherId, since);
+      res.json(jobs.map(serializeImportJob));
+    } catch (err: any) {
+      console.error("Import jobs error:", err);
+      res.status(500).json({ error: "Failed to fetch import jobs" });
+    }
+  });
+
+  // GET /api/sessions/:sessionId/imports - Which files the session's data was loaded from
+  app.get("/api/sessions/:sessionId/imports", requireAuth, async (req, res) => {
+    try {
+      const sessionId = parseInt(req.params.sessionId as string);
+      if (isNaN(sessionId)) {
+        res.status(400).json({ error: "Invalid session ID" });
+        return;
+      }
+      if (!(await storage.getCourseSession(sessionId))) {
+        res.status(404).json({ error: "Session not found" });
+        return;
+      }
+      if (!(await canViewSession(req.teacher!.teacherId, sessionId))) {
+        res.status(403).json({ error: "Forbidden" });
+        return;
+      }
+      const history = await storage.getImportHistory(sessionId);
+      res.json(history);
+    } catch (err: any) {
+      console.error("Import history error:", err);
+      res.status(500).json({ error: "Failed to fetch import history" });
+    }
+  });
+
   app.get("/api/teachers/:teacherId/sessions", requireAuth, async (req, res) => {
     try {
       const teacherId = parseInt(req.params.teacherId as string);
@@ -399,6 +846,26 @@ export async function registerRoutes(
     }
   });
 
+  // GET /api/teachers/:teacherId/trends - Score series, rolling averages and direction of change across a teacher's sessions
+  app.get("/api/teachers/:teacherId/trends", requireAuth, async (req, res) => {
+    try {
+      const teacherId = parseInt(req.params.teacherId as string);
+      if (isNaN(teacherId)) {
+        res.status(400).json({ error: "Invalid teacher ID" });
+        return;
+      }
+      if (req.teacher!.teacherId !== teacherId && !(await assertAdmin(req.teacher!.teacherId))) {
+        res.status(403).json({ error: "Forbidden" });
+        return;
+      }
+
+      res.json(await storage.getTeacherTrends(teacherId));
+    } catch (err: any) {
+      console.error("Teacher trends error:", err);
+      res.status(500).json({ error: "Failed to fetch teacher trends" });
+    }
+  });
+
   // Get all sessions (for teacher dashboard - returns sessions linked to current teacher)
   app.get("/api/my-sessions", requireAuth, async (req, res) => {
     try {
@@ -504,6 +971,13 @@ export async function registerRoutes(
     return !!t;
   }
 
+  // Helper: teachers may read student-level data only for their own sessions; admins for any
+  async function canViewSession(teacherId: number, courseSessionId: number): Promise<boolean> {
+    const session = await storage.getCourseSession(courseSessionId);
+    if (session && session.teacherDbId === teacherId) return true;
+    return assertAdmin(teacherId);
+  }
+
   // GET /api/admin/teachers - List all teachers
   app.get("/api/admin/teachers", requireAuth, async (req, res) => {
     try {
@@ -730,5 +1204,691 @@ export async function registerRoutes(
     }
   });
 
+  // GET /api/admin/column-mappings - Built-in defaults and every stored mapping version
+  app.get("/api/admin/column-mappings", requireAuth, async (req, res) => {
+    try {
+      if (!(await assertAdmin(req.teacher!.teacherId))) {
+        res.status(403).json({ error: "Admin access required" });
+        return;
+      }
+
+      const versions = await storage.getColumnMappings();
+      res.json({ defaults: DEFAULT_COLUMN_MAPPINGS, versions });
+    } catch (err: any) {
+      console.error("Column mappings fetch error:", err);
+      res.status(500).json({ error: "Failed to fetch column mappings" });
+    }
+  });
+
+  // POST /api/admin/column-mappings - Save a new mapping version for a file type and activate it
+  app.post("/api/admin/column-mappings", requireAuth, async (req, res) => {
+    try {
+      if (!(await assertAdmin(req.teacher!.teacherId))) {
+        res.status(403).json({ error: "Admin access required" });
+        return;
+      }
+
+      const { fileType, mapping, notes } = req.body;
+      if (!SESSION_FILE_TYPES.includes(fileType)) {
+        res.status(400).json({ error: `fileType must be one of: ${SESSION_FILE_TYPES.join(", ")}` });
+        return;
+      }
+      const parsed = columnMappingDefinitionSchema.safeParse(mapping);
+      if (!parsed.success) {
+        res.status(400).json({ error: "Invalid mapping definition", details: parsed.error.errors });
+        return;
+      }
+      const problem = validateMappingDefinition(fileType as SessionFileType, parsed.data);
+      if (problem) {
+        res.status(400).json({ error: problem });
+        return;
+      }
+
+      const created = await storage.createColumnMapping({
+        fileType,
+        mapping: parsed.data,
+        notes: notes || null,
+        createdBy: req.teacher!.teacherId,
+      });
+      res.status(201).json(created);
+    } catch (err: any) {
+      console.error("Column mapping create error:", err);
+      res.status(500).json({ error: "Failed to save column mapping" });
+    }
+  });
+
+  // POST /api/admin/column-mappings/:id/activate - Make a stored version the active one for its file type
+  app.post("/api/admin/column-mappings/:id/activate", requireAuth, async (req, res) => {
+    try {
+      if (!(await assertAdmin(req.teacher!.teacherId))) {
+        res.status(403).json({ error: "Admin access required" });
+        return;
+      }
+
+      const id = parseInt(req.params.id as string);
+      if (isNaN(id)) {
+        res.status(400).json({ error: "Invalid mapping ID" });
+        return;
+      }
+
+      const activated = await storage.activateColumnMapping(id);
+      if (!activated) {
+        res.status(404).json({ error: "Column mapping not found" });
+        return;
+      }
+      res.json(activated);
+    } catch (err: any) {
+      console.error("Column mapping activate error:", err);
+      res.status(500).json({ error: "Failed to activate column mapping" });
+    }
+  });
+
+  // POST /api/admin/column-mappings/:fileType/reset - Go back to the built-in mapping for a file type
+  app.post("/api/admin/column-mappings/:fileType/reset", requireAuth, async (req, res) => {
+    try {
+      if (!(await assertAdmin(req.teacher!.teacherId))) {
+        res.status(403).json({ error: "Admin access required" });
+        return;
+      }
+
+      const fileType = req.params.fileType as string;
+      if (!SESSION_FILE_TYPES.includes(fileType as SessionFileType)) {
+        res.status(400).json({ error: "Unknown file type" });
+        return;
+      }
+
+      await storage.resetColumnMapping(fileType);
+      res.json({ success: true });
+    } catch (err: any) {
+      console.error("Column mapping reset error:", err);
+      res.status(500).json({ error: "Failed to reset column mapping" });
+    }
+  });
+
+  // GET /api/admin/rubric - Built-in rubric, the active one, and every stored version
+  app.get("/api/admin/rubric", requireAuth, async (req, res) => {
+    try {
+      if (!(await assertAdmin(req.teacher!.teacherId))) {
+        res.status(403).json({ error: "Admin access required" });
+        return;
+      }
+
+      const [active, versions] = await Promise.all([storage.getActiveRubric(), storage.getRubricVersions()]);
+      res.json({ defaults: DEFAULT_RUBRIC, active, versions });
+    } catch (err: any) {
+      console.error("Rubric fetch error:", err);
+      res.status(500).json({ error: "Failed to fetch scoring rubric" });
+    }
+  });
+
+  // POST /api/admin/rubric - Save a new rubric version and activate it
+  app.post("/api/admin/rubric", requireAuth, async (req, res) => {
+    try {
+      if (!(await assertAdmin(req.teacher!.teacherId))) {
+        res.status(403).json({ error: "Admin access required" });
+        return;
+      }
+
+      const { config, notes } = req.body;
+      const parsed = scoringRubricSchema.safeParse(config);
+      if (!parsed.success) {
+        res.status(400).json({ error: "Invalid rubric", details: parsed.error.errors });
+        return;
+      }
+      const problem = validateRubric(parsed.data);
+      if (problem) {
+        res.status(400).json({ error: problem });
+        return;
+      }
+
+      const created = await storage.createRubricVersion({
+        config: parsed.data,
+        notes: notes || null,
+        createdBy: req.teacher!.teacherId,
+      });
+      res.status(201).json(created);
+    } catch (err: any) {
+      console.error("Rubric create error:", err);
+      res.status(500).json({ error: "Failed to save scoring rubric" });
+    }
+  });
+
+  // POST /api/admin/rubric/:id/activate - Make a stored rubric version the active one
+  app.post("/api/admin/rubric/:id/activate", requireAuth, async (req, res) => {
+    try {
+      if (!(await assertAdmin(req.teacher!.teacherId))) {
+        res.status(403).json({ error: "Admin access required" });
+        return;
+      }
+
+      const id = parseInt(req.params.id as string);
+      if (isNaN(id)) {
+        res.status(400).json({ error: "Invalid rubric ID" });
+        return;
+      }
+
+      const activated = await storage.activateRubricVersion(id);
+      if (!activated) {
+        res.status(404).json({ error: "Rubric version not found" });
+        return;
+      }
+      res.json(activated);
+    } catch (err: any) {
+      console.error("Rubric activate error:", err);
+      res.status(500).json({ error: "Failed to activate scoring rubric" });
+    }
+  });
+
+  // POST /api/admin/rubric/reset - Go back to the built-in rubric
+  app.post("/api/admin/rubric/reset", requireAuth, async (req, res) => {
+    try {
+      if (!(await assertAdmin(req.teacher!.teacherId))) {
+        res.status(403).json({ error: "Admin access required" });
+        return;
+      }
+
+      await storage.resetRubric();
+      res.json({ success: true });
+    } catch (err: any) {
+      console.error("Rubric reset error:", err);
+      res.status(500).json({ error: "Failed to reset scoring rubric" });
+    }
+  });
+
+  // GET /api/admin/scoring-profiles - Profiles, their course / class type assignments, and assignable scopes
+  app.get("/api/admin/scoring-profiles", requireAuth, async (req, res) => {
+    try {
+      if (!(await assertAdmin(req.teacher!.teacherId))) {
+        res.status(403).json({ error: "Admin access required" });
+        return;
+      }
+
+      const [profiles, assignments, scopes] = await Promise.all([
+        storage.getScoringProfiles(),
+        storage.getScoringProfileAssignments(),
+        storage.getProfileScopes(),
+      ]);
+      res.json({ defaults: DEFAULT_SCORING_PROFILE, profiles, assignments, scopes });
+    } catch (err: any) {
+      console.error("Scoring profiles fetch error:", err);
+      res.status(500).json({ error: "Failed to fetch scoring profiles" });
+    }
+  });
+
+  // POST /api/admin/scoring-profiles - Create a named scoring profile
+  app.post("/api/admin/scoring-profiles", requireAuth, async (req, res) => {
+    try {
+      if (!(await assertAdmin(req.teacher!.teacherId))) {
+        res.status(403).json({ error: "Admin access required" });
+        return;
+      }
+
+      const { name, description, config } = req.body;
+      if (!name || typeof name !== "string" || !name.trim()) {
+        res.status(400).json({ error: "Profile name is required" });
+        return;
+      }
+      const parsed = scoringProfileConfigSchema.safeParse(config);
+      if (!parsed.success) {
+        res.status(400).json({ error: "Invalid scoring profile", details: parsed.error.errors });
+        return;
+      }
+      const problem = validateScoringProfile(parsed.data);
+      if (problem) {
+        res.status(400).json({ error: problem });
+        return;
+      }
+
+      const created = await storage.createScoringProfile({
+        name: name.trim(),
+        description: description || null,
+        config: parsed.data,
+        createdBy: req.teacher!.teacherId,
+      });
+      res.status(201).json(created);
+    } catch (err: any) {
+      if (err.code === "23505") {
+        res.status(409).json({ error: "A profile with this name already exists" });
+        return;
+      }
+      console.error("Scoring profile create error:", err);
+      res.status(500).json({ error: "Failed to create scoring profile" });
+    }
+  });
+
+  // PUT /api/admin/scoring-profiles/:id - Update a profile's name, description or weights
+  app.put("/api/admin/scoring-profiles/:id", requireAuth, async (req, res) => {
+    try {
+      if (!(await assertAdmin(req.teacher!.teacherId))) {
+        res.status(403).json({ error: "Admin access required" });
+        return;
+      }
+
+      const id = parseInt(req.params.id as string);
+      if (isNaN(id)) {
+        res.status(400).json({ error: "Invalid profile ID" });
+        return;
+      }
+
+      const { name, description, config } = req.body;
+      const updates: Record<string, any> = {};
+      if (name !== undefined) {
+        if (typeof name !== "string" || !name.trim()) {
+          res.status(400).json({ error: "Profile name is required" });
+          return;
+        }
+        updates.name = name.trim();
+      }
+      if (description !== undefined) updates.description = description || null;
+      if (config !== undefined) {
+        const parsed = scoringProfileConfigSchema.safeParse(config);
+        if (!parsed.success) {
+          res.status(400).json({ error: "Invalid scoring profile", details: parsed.error.errors });
+          return;
+        }
+        const problem = validateScoringProfile(parsed.data);
+        if (problem) {
+          res.status(400).json({ error: problem });
+          return;
+        }
+        updates.config = parsed.data;
+      }
+
+      const updated = await storage.updateScoringProfile(id, updates);
+      if (!updated) {
+        res.status(404).json({ error: "Scoring profile not found" });
+        return;
+      }
+      res.json(updated);
+    } catch (err: any) {
+      if (err.code === "23505") {
+        res.status(409).json({ error: "A profile with this name already exists" });
+        return;
+      }
+      console.error("Scoring profile update error:", err);
+      res.status(500).json({ error: "Failed to update scoring profile" });
+    }
+  });
+
+  // DELETE /api/admin/scoring-profiles/:id - Delete a profile and its assignments
+  app.delete("/api/admin/scoring-profiles/:id", requireAuth, async (req, res) => {
+    try {
+      if (!(await assertAdmin(req.teacher!.teacherId))) {
+        res.status(403).json({ error: "Admin access required" });
+        return;
+      }
+
+      const id = parseInt(req.params.id as string);
+      if (isNaN(id) || !(await storage.deleteScoringProfile(id))) {
+        res.status(404).json({ error: "Scoring profile not found" });
+        return;
+      }
+      res.json({ success: true });
+    } catch (err: any) {
+      console.error("Scoring profile delete error:", err);
+      res.status(500).json({ error: "Failed to delete scoring profile" });
+    }
+  });
+
+  // POST /api/admin/scoring-profile-assignments - Assign a profile to a course or class type
+  app.post("/api/admin/scoring-profile-assignments", requireAuth, async (req, res) => {
+    try {
+      if (!(await assertAdmin(req.teacher!.teacherId))) {
+        res.status(403).json({ error: "Admin access required" });
+        return;
+      }
+
+      const { profileId, scopeType, scopeValue } = req.body;
+      if (!PROFILE_SCOPE_TYPES.includes(scopeType)) {
+        res.status(400).json({ error: `scopeType must be one of: ${PROFILE_SCOPE_TYPES.join(", ")}` });
+        return;
+      }
+      const value = String(scopeValue ?? "").trim();
+      if (!value || (scopeType === "course" && !/^\d+$/.test(value))) {
+        res.status(400).json({ error: scopeType === "course" ? "A numeric course ID is required" : "A class type is required" });
+        return;
+      }
+      const profiles = await storage.getScoringProfiles();
+      if (!profiles.some(p => p.id === profileId)) {
+        res.status(404).json({ error: "Scoring profile not found" });
+        return;
+      }
+
+      const assignment = await storage.setScoringProfileAssignment({ profileId, scopeType, scopeValue: value });
+      res.status(201).json(assignment);
+    } catch (err: any) {
+      console.error("Scoring profile assignment error:", err);
+      res.status(500).json({ error: "Failed to assign scoring profile" });
+    }
+  });
+
+  // DELETE /api/admin/scoring-profile-assignments/:id - Remove an assignment (the scope falls back to the default profile)
+  app.delete("/api/admin/scoring-profile-assignments/:id", requireAuth, async (req, res) => {
+    try {
+      if (!(await assertAdmin(req.teacher!.teacherId))) {
+        res.status(403).json({ error: "Admin access required" });
+        return;
+      }
+
+      const id = parseInt(req.params.id as string);
+      if (isNaN(id) || !(await storage.deleteScoringProfileAssignment(id))) {
+        res.status(404).json({ error: "Assignment not found" });
+        return;
+      }
+      res.json({ success: true });
+    } catch (err: any) {
+      console.error("Scoring profile unassign error:", err);
+      res.status(500).json({ error: "Failed to remove assignment" });
+    }
+  });
+
+  // GET /api/admin/topic-taxonomies - Built-in and admin-saved topic taxonomies
+  app.get("/api/admin/topic-taxonomies", requireAuth, async (req, res) => {
+    try {
+      if (!(await assertAdmin(req.teacher!.teacherId))) {
+        res.status(403).json({ error: "Admin access required" });
+        return;
+      }
+
+      res.json({ builtIn: BUILTIN_TAXONOMIES, custom: await storage.getTopicTaxonomies() });
+    } catch (err: any) {
+      console.error("Topic taxonomies fetch error:", err);
+      res.status(500).json({ error: "Failed to fetch topic taxonomies" });
+    }
+  });
+
+  // GET /api/admin/topic-taxonomies/match?sessionName= - Which taxonomy a session name selects
+  app.get("/api/admin/topic-taxonomies/match", requireAuth, async (req, res) => {
+    try {
+      if (!(await assertAdmin(req.teacher!.teacherId))) {
+        res.status(403).json({ error: "Admin access required" });
+        return;
+      }
+
+      const taxonomy = await storage.getTaxonomyFor(String(req.query.sessionName || ""));
+      res.json({ id: taxonomy.id, subject: taxonomy.subject, name: taxonomy.name });
+    } catch (err: any) {
+      console.error("Topic taxonomy match error:", err);
+      res.status(500).json({ error: "Failed to match topic taxonomy" });
+    }
+  });
+
+  // POST /api/admin/topic-taxonomies - Save a taxonomy; replaces the stored one (or overrides the built-in) with the same subject
+  app.post("/api/admin/topic-taxonomies", requireAuth, async (req, res) => {
+    try {
+      if (!(await assertAdmin(req.teacher!.teacherId))) {
+        res.status(403).json({ error: "Admin access required" });
+        return;
+      }
+
+      const parsed = topicTaxonomyConfigSchema.safeParse(req.body);
+      if (!parsed.success) {
+        res.status(400).json({ error: "Invalid topic taxonomy", details: parsed.error.errors });
+        return;
+      }
+      const problem = validateTaxonomy(parsed.data);
+      if (problem) {
+        res.status(400).json({ error: problem });
+        return;
+      }
+
+      const saved = await storage.saveTopicTaxonomy({ ...parsed.data, createdBy: req.teacher!.teacherId });
+      res.status(201).json(saved);
+    } catch (err: any) {
+      console.error("Topic taxonomy save error:", err);
+      res.status(500).json({ error: "Failed to save topic taxonomy" });
+    }
+  });
+
+  // DELETE /api/admin/topic-taxonomies/:id - Delete a saved taxonomy (a built-in it overrode applies again)
+  app.delete("/api/admin/topic-taxonomies/:id", requireAuth, async (req, res) => {
+    try {
+      if (!(await assertAdmin(req.teacher!.teacherId))) {
+        res.status(403).json({ error: "Admin access required" });
+        return;
+      }
+
+      const id = parseInt(req.params.id as string);
+      if (isNaN(id) || !(await storage.deleteTopicTaxonomy(id))) {
+        res.status(404).json({ error: "Topic taxonomy not found" });
+        return;
+      }
+      res.json({ success: true });
+    } catch (err: any) {
+      console.error("Topic taxonomy delete error:", err);
+      res.status(500).json({ error: "Failed to delete topic taxonomy" });
+    }
+  });
+
+  // GET /api/admin/lexicons - Dialect packs with their terms, pack assignments, and assignable teachers
+  app.get("/api/admin/lexicons", requireAuth, async (req, res) => {
+    try {
+      if (!(await assertAdmin(req.teacher!.teacherId))) {
+        res.status(403).json({ error: "Admin access required" });
+        return;
+      }
+
+      const [assignments, teacherList, scopes] = await Promise.all([
+        storage.getLexiconAssignments(),
+        db.select({ id: teachers.id, name: teachers.name }).from(teachers).orderBy(teachers.name),
+        storage.getProfileScopes(),
+      ]);
+      res.json({
+        defaultPackIds: DEFAULT_PACK_IDS,
+        keys: LEXICON_KEYS,
+        packs: DIALECT_PACKS.map(p => ({
+          id: p.id, name: p.name, description: p.description, language: p.language, terms: packTerms(p),
+        })),
+        assignments,
+        teachers: teacherList,
+        courseIds: scopes.courseIds,
+      });
+    } catch (err: any) {
+      console.error("Lexicons fetch error:", err);
+      res.status(500).json({ error: "Failed to fetch dialect lexicons" });
+    }
+  });
+
+  // POST /api/admin/lexicons/test - Run a pack against sample transcript lines ({ packId, lines })
+  app.post("/api/admin/lexicons/test", requireAuth, async (req, res) => {
+    try {
+      if (!(await assertAdmin(req.teacher!.teacherId))) {
+        res.status(403).json({ error: "Admin access required" });
+        return;
+      }
+
+      const { packId, lines } = req.body;
+      const pack = getDialectPack(packId);
+      if (!pack) {
+        res.status(404).json({ error: "Dialect pack not found" });
+        return;
+      }
+      if (!Array.isArray(lines) || lines.some(l => typeof l !== "string") || lines.length > 200) {
+        res.status(400).json({ error: "lines must be an array of at most 200 strings" });
+        return;
+      }
+
+      res.json({ packId: pack.id, results: testLexicon(compileLexicon(pack), lines) });
+    } catch (err: any) {
+      console.error("Lexicon test error:", err);
+      res.status(500).json({ error: "Failed to test dialect lexicon" });
+    }
+  });
+
+  // POST /api/admin/lexicon-assignments - Assign a dialect pack to a teacher or course
+  app.post("/api/admin/lexicon-assignments", requireAuth, async (req, res) => {
+    try {
+      if (!(await assertAdmin(req.teacher!.teacherId))) {
+        res.status(403).json({ error: "Admin access required" });
+        return;
+      }
+
+      const { packId, scopeType, scopeValue } = req.body;
+      if (!getDialectPack(packId)) {
+        res.status(404).json({ error: "Dialect pack not found" });
+        return;
+      }
+      if (!LEXICON_SCOPE_TYPES.includes(scopeType)) {
+        res.status(400).json({ error: `scopeType must be one of: ${LEXICON_SCOPE_TYPES.join(", ")}` });
+        return;
+      }
+      const value = String(scopeValue ?? "").trim();
+      if (!/^\d+$/.test(value)) {
+        res.status(400).json({ error: scopeType === "teacher" ? "A teacher ID is required" : "A numeric course ID is required" });
+        return;
+      }
+
+      const assignment = await storage.setLexiconAssignment({ packId, scopeType, scopeValue: value });
+      res.status(201).json(assignment);
+    } catch (err: any) {
+      console.error("Lexicon assignment error:", err);
+      res.status(500).json({ error: "Failed to assign dialect pack" });
+    }
+  });
+
+  // DELETE /api/admin/lexicon-assignments/:id - Remove an assignment (the scope falls back to the default pack)
+  app.delete("/api/admin/lexicon-assignments/:id", requireAuth, async (req, res) => {
+    try {
+      if (!(await assertAdmin(req.teacher!.teacherId))) {
+        res.status(403).json({ error: "Admin access required" });
+        return;
+      }
+
+      const id = parseInt(req.params.id as string);
+      if (isNaN(id) || !(await storage.deleteLexiconAssignment(id))) {
+        res.status(404).json({ error: "Assignment not found" });
+        return;
+      }
+      res.json({ success: true });
+    } catch (err: any) {
+      console.error("Lexicon unassign error:", err);
+      res.status(500).json({ error: "Failed to remove assignment" });
+    }
+  });
+
+  // POST /api/admin/reports/regenerate - Regenerate one session's report ({ sessionId }) or all reports
+  app.post("/api/admin/reports/regenerate", requireAuth, async (req, res) => {
+    try {
+      if (!(await assertAdmin(req.teacher!.teacherId))) {
+        res.status(403).json({ error: "Admin access required" });
+        return;
+      }
+
+      if (req.body?.sessionId !== undefined) {
+        const sessionId = parseInt(req.body.sessionId);
+        if (isNaN(sessionId) || !(await storage.getCourseSession(sessionId))) {
+          res.status(404).json({ error: "Session not found" });
+          return;
+        }
+        const { snapshot, created } = await generateReportSnapshot(sessionId, "regenerate", req.teacher!.teacherId);
+        res.json({ created, snapshot: snapshotMeta(snapshot) });
+        return;
+      }
+
+      const started = await startRegenerateAll(req.teacher!.teacherId);
+      if (!started) {
+        res.status(409).json({ error: "Regeneration already running", status: getRegenerationStatus() });
+        return;
+      }
+      res.status(202).json(getRegenerationStatus());
+    } catch (err: any) {
+      console.error("Report regenerate error:", err);
+      res.status(500).json({ error: "Failed to regenerate reports" });
+    }
+  });
+
+  // GET /api/admin/reports/regenerate - Progress of the last regenerate-all run
+  app.get("/api/admin/reports/regenerate", requireAuth, async (req, res) => {
+    try {
+      if (!(await assertAdmin(req.teacher!.teacherId))) {
+        res.status(403).json({ error: "Admin access required" });
+        return;
+      }
+      res.json(getRegenerationStatus());
+    } catch (err: any) {
+      res.status(500).json({ error: "Failed to fetch regeneration status" });
+    }
+  });
+
+  // GET /api/admin/courses - Courses with imported sessions, with session and teacher counts
+  app.get("/api/admin/courses", requireAuth, async (req, res) => {
+    try {
+      if (!(await assertAdmin(req.teacher!.teacherId))) {
+        res.status(403).json({ error: "Admin access required" });
+        return;
+      }
+
+      res.json(await storage.listCourses());
+    } catch (err: any) {
+      console.error("Courses fetch error:", err);
+      res.status(500).json({ error: "Failed to fetch courses" });
+    }
+  });
+
+  // GET /api/admin/courses/:courseId/report - Roll-up of every session in a course
+  app.get("/api/admin/courses/:courseId/report", requireAuth, async (req, res) => {
+    try {
+      if (!(await assertAdmin(req.teacher!.teacherId))) {
+        res.status(403).json({ error: "Admin access required" });
+        return;
+      }
+
+      const courseId = parseInt(req.params.courseId as string);
+      if (isNaN(courseId)) {
+        res.status(400).json({ error: "Invalid course ID" });
+        return;
+      }
+      const report = await storage.getCourseReport(courseId);
+      if (!report) {
+        res.status(404).json({ error: "Course not found" });
+        return;
+      }
+      res.json(report);
+    } catch (err: any) {
+      console.error("Course report error:", err);
+      res.status(500).json({ error: "Failed to build course report" });
+    }
+  });
+
+  // GET /api/admin/question-bank?search= - Every question across sessions with its overall correctness
+  app.get("/api/admin/question-bank", requireAuth, async (req, res) => {
+    try {
+      if (!(await assertAdmin(req.teacher!.teacherId))) {
+        res.status(403).json({ error: "Admin access required" });
+        return;
+      }
+
+      res.json({ questions: await storage.getQuestionBank(String(req.query.search || "")) });
+    } catch (err: any) {
+      console.error("Question bank fetch error:", err);
+      res.status(500).json({ error: "Failed to fetch question bank" });
+    }
+  });
+
+  // GET /api/admin/question-bank/:questionId - One question's results per session and per teacher, with explanation verdicts
+  app.get("/api/admin/question-bank/:questionId", requireAuth, async (req, res) => {
+    try {
+      if (!(await assertAdmin(req.teacher!.teacherId))) {
+        res.status(403).json({ error: "Admin access required" });
+        return;
+      }
+
+      const questionId = parseInt(req.params.questionId as string);
+      if (isNaN(questionId)) {
+        res.status(400).json({ error: "Invalid question ID" });
+        return;
+      }
+      const history = await storage.getQuestionHistory(questionId);
+      if (!history) {
+        res.status(404).json({ error: "Question not found" });
+        return;
+      }
+      res.json(history);
+    } catch (err: any) {
+      console.error("Question history fetch error:", err);
+      res.status(500).json({ error: "Failed to fetch question history" });
+    }
+  });
+
   return httpServer;
 }
@@ -0,0 +1,271 @@
+import { z } from "zod";
+
+/**
+ * Thresholds the report analysis scores against. Percentages are 0–100,
+ * durations are in the unit their name ends with. The built-in defaults
+ * are version 0; admins store further versions in scoring_rubrics.
+ */
+export interface ScoringRubric {
+  correctness: {
+    /** At or above: students understood the material. */
+    strong: number;
+    /** At or above (and below strong): partial understanding. Below: re-teaching needed. */
+    moderate: number;
+    /** Below: very low — the concept was not understood. */
+    low: number;
+    /** At or above: a standout result. */
+    excellent: number;
+    /** At or above after a long explanation: the explanation was longer than needed. */
+    overExplained: number;
+  };
+  timing: {
+    /** Continuous teacher talk longer than this is flagged. */
+    longSegmentSec: number;
+    /** Target ceiling for total teacher talk in a session. */
+    maxTeacherTalkMin: number;
+    /** Expected session length the actual teaching time is compared to. */
+    scheduledSessionMin: number;
+    /** Confusion messages closer together than this form one cluster. */
+    confusionWindowSec: number;
+    /** A student message with no teacher reply within this window counts as unanswered. */
+    chatReplyWindowSec: number;
+    /** Pre-activity explanation at least this long counts as a heavy time investment. */
+    preTeachLongSec: number;
+    /** Pre-activity explanation shorter than this counts as too little. */
+    preTeachShortSec: number;
+    /** Pre-activity explanation shorter than this, before a weak activity, counts as under-invested time. */
+    underInvestedPreTeachSec: number;
+    /** Teacher talk up to this far above maxTeacherTalkMin is only slightly over. */
+    teacherTalkToleranceMin: number;
+    /** Gaps between activities longer than this are reported as transition delays. */
+    transitionGapMin: number;
+  };
+  postActivityExplanation: {
+    /** Upper bound of follow-up explanation after a strong result. */
+    strongMaxSec: number;
+    /** Upper bound after a moderate result (lower bound is strongMaxSec). */
+    moderateMaxSec: number;
+    /** Upper bound after a weak result (lower bound is moderateMaxSec). */
+    weakMaxSec: number;
+  };
+  engagement: {
+    highResponseRate: number;
+    minResponseRate: number;
+    highTemperature: number;
+    minTemperature: number;
+    highChatParticipation: number;
+    minChatParticipation: number;
+    highPositiveSentiment: number;
+    minPositiveSentiment: number;
+    /** Share of teaching time students should be active for. */
+    targetStudentActivePercent: number;
+    /** Student activity share at or above which the balance is excellent, and below which the session is teacher-dominated. */
+    highStudentActivePercent: number;
+    minStudentActivePercent: number;
+    /** Session completion at or above which students kept up, and below which the pacing is too fast. */
+    highSessionCompletion: number;
+    minSessionCompletion: number;
+    /** Below these, criteria that fall short recommend slower pacing, more poll time, chat prompts or more interaction. */
+    recommendSessionCompletion: number;
+    recommendResponseRate: number;
+    recommendChatParticipation: number;
+    recommendTemperature: number;
+    /** Share of students expected to complete each activity. */
+    minActivityCompletion: number;
+  };
+  atRisk: {
+    /** Student correctness below this (exit tickets, else all polls) flags them. */
+    lowCorrectness: number;
+    /** Exit ticket at least this many points below the student's section checks flags them. */
+    exitTicketDropPoints: number;
+    /** Share of seen polls left unanswered at or above this flags the student. */
+    unansweredPollPercent: number;
+    /** Leaving at least this long before the teacher ended the session flags the student. */
+    earlyExitMin: number;
+    /** Students with at least this many reasons are high risk; fewer is medium. */
+    highRiskReasons: number;
+  };
+  itemAnalysis: {
+    /** Items at least this share of students got right are flagged too easy. */
+    tooEasyPercent: number;
+    /** Items fewer than this share of students got right are flagged too hard. */
+    tooHardPercent: number;
+    /** Upper-group minus lower-group correctness below this many points flags the item as non-discriminating. */
+    minDiscriminationPoints: number;
+    /** Discrimination statistics are only computed for items seen by at least this many students. */
+    minExaminees: number;
+  };
+}
+
+export interface ActiveRubric {
+  /** 0 for the built-in default, otherwise the stored version number. */
+  version: number;
+  config: ScoringRubric;
+}
+
+export const DEFAULT_RUBRIC: ScoringRubric = {
+  correctness: {
+    strong: 70,
+    moderate: 50,
+    low: 40,
+    excellent: 80,
+    overExplained: 75,
+  },
+  timing: {
+    longSegmentSec: 120,
+    maxTeacherTalkMin: 15,
+    scheduledSessionMin: 45,
+    confusionWindowSec: 45,
+    chatReplyWindowSec: 120,
+    preTeachLongSec: 120,
+    preTeachShortSec: 30,
+    underInvestedPreTeachSec: 60,
+    teacherTalkToleranceMin: 5,
+    transitionGapMin: 5,
+  },
+  postActivityExplanation: {
+    strongMaxSec: 30,
+    moderateMaxSec: 60,
+    weakMaxSec: 120,
+  },
+  engagement: {
+    highResponseRate: 85,
+    minResponseRate: 70,
+    highTemperature: 80,
+    minTemperature: 60,
+    highChatParticipation: 20,
+    minChatParticipation: 10,
+    highPositiveSentiment: 80,
+    minPositiveSentiment: 60,
+    targetStudentActivePercent: 50,
+    highStudentActivePercent: 60,
+    minStudentActivePercent: 45,
+    highSessionCompletion: 80,
+    minSessionCompletion: 60,
+    recommendSessionCompletion: 70,
+    recommendResponseRate: 80,
+    recommendChatParticipation: 15,
+    recommendTemperature: 70,
+    minActivityCompletion: 80,
+  },
+  atRisk: {
+    lowCorrectness: 50,
+    exitTicketDropPoints: 20,
+    unansweredPollPercent: 50,
+    earlyExitMin: 10,
+    highRiskReasons: 3,
+  },
+  itemAnalysis: {
+    tooEasyPercent: 90,
+    tooHardPercent: 30,
+    minDiscriminationPoints: 20,
+    minExaminees: 10,
+  },
+};
+
+const percent = z.number().min(0).max(100);
+const seconds = z.number().positive().max(3600);
+const minutes = z.number().positive().max(240);
+
+export const scoringRubricSchema = z.object({
+  correctness: z.object({
+    strong: percent,
+    moderate: percent,
+    low: percent,
+    excellent: percent,
+    overExplained: percent,
+  }),
+  timing: z.object({
+    longSegmentSec: seconds,
+    maxTeacherTalkMin: minutes,
+    scheduledSessionMin: minutes,
+    confusionWindowSec: seconds,
+    chatReplyWindowSec: seconds,
+    preTeachLongSec: seconds,
+    preTeachShortSec: seconds,
+    underInvestedPreTeachSec: seconds,
+    teacherTalkToleranceMin: minutes,
+    transitionGapMin: minutes,
+  }),
+  postActivityExplanation: z.object({
+    strongMaxSec: seconds,
+    moderateMaxSec: seconds,
+    weakMaxSec: seconds,
+  }),
+  engagement: z.object({
+    highResponseRate: percent,
+    minResponseRate: percent,
+    highTemperature: percent,
+    minTemperature: percent,
+    highChatParticipation: percent,
+    minChatParticipation: percent,
+    highPositiveSentiment: percent,
+    minPositiveSentiment: percent,
+    targetStudentActivePercent: percent,
+    highStudentActivePercent: percent,
+    minStudentActivePercent: percent,
+    highSessionCompletion: percent,
+    minSessionCompletion: percent,
+    recommendSessionCompletion: percent,
+    recommendResponseRate: percent,
+    recommendChatParticipation: percent,
+    recommendTemperature: percent,
+    minActivityCompletion: percent,
+  }),
+  atRisk: z.object({
+    lowCorrectness: percent,
+    exitTicketDropPoints: percent,
+    unansweredPollPercent: percent,
+    earlyExitMin: minutes,
+    highRiskReasons: z.number().int().min(1).max(6),
+  }),
+  itemAnalysis: z.object({
+    tooEasyPercent: percent,
+    tooHardPercent: percent,
+    minDiscriminationPoints: percent,
+    minExaminees: z.number().int().min(2).max(1000),
+  }),
+});
+
+/**
+ * Cross-field checks the schema cannot express: bands must be ordered so
+ * every score falls into exactly one of them. Returns a message, or null.
+ */
+export function validateRubric(rubric: ScoringRubric): string | null {
+  const { correctness: c, timing: t, postActivityExplanation: p, engagement: e } = rubric;
+  if (!(c.low <= c.moderate && c.moderate <= c.strong && c.strong <= c.excellent)) {
+    return "Correctness bands must satisfy low ≤ moderate ≤ strong ≤ excellent";
+  }
+  if (t.preTeachShortSec >= t.preTeachLongSec) {
+    return "preTeachShortSec must be below preTeachLongSec";
+  }
+  if (!(p.strongMaxSec < p.moderateMaxSec && p.moderateMaxSec < p.weakMaxSec)) {
+    return "Post-activity explanation bounds must increase: strong < moderate < weak";
+  }
+  const pairs: [string, number, number][] = [
+    ["ResponseRate", e.minResponseRate, e.highResponseRate],
+    ["Temperature", e.minTemperature, e.highTemperature],
+    ["ChatParticipation", e.minChatParticipation, e.highChatParticipation],
+    ["PositiveSentiment", e.minPositiveSentiment, e.highPositiveSentiment],
+    ["StudentActivePercent", e.minStudentActivePercent, e.highStudentActivePercent],
+    ["SessionCompletion", e.minSessionCompletion, e.highSessionCompletion],
+  ];
+  const unordered = pairs.find(([, min, high]) => min > high);
+  if (unordered) return `min${unordered[0]} must not exceed high${unordered[0]}`;
+  if (rubric.itemAnalysis.tooHardPercent >= rubric.itemAnalysis.tooEasyPercent) {
+    return "tooHardPercent must be below tooEasyPercent";
+  }
+  return null;
+}
+
+/**
+ * Fill a stored rubric's gaps from the defaults, section by section, so
+ * versions saved before a threshold existed keep working.
+ */
+export function resolveRubric(stored: Partial<Record<keyof ScoringRubric, object>>): ScoringRubric {
+  const result = {} as ScoringRubric;
+  for (const section of Object.keys(DEFAULT_RUBRIC) as (keyof ScoringRubric)[]) {
+    (result as any)[section] = { ...DEFAULT_RUBRIC[section], ...(stored[section] || {}) };
+  }
+  return result;
+}
@@ -0,0 +1,98 @@
+import { z } from "zod";
+
+/**
+ * Scoring profiles decide how the seven QA criteria from computeQAEvaluation
+ * add up: which criteria count, how much each weighs, and the score bands for
+ * strengths and areas for improvement. A profile is assigned to a course or a
+ * session class type; sessions without an assignment use the default profile.
+ */
+
+export const QA_CRITERION_IDS = ["1", "2", "3", "4", "5", "6", "7"] as const;
+export type QACriterionId = typeof QA_CRITERION_IDS[number];
+
+/** Criterion 7 is derived from the others; its own score is their weighted average. */
+export const GENERAL_EVALUATION_CRITERION = "7";
+
+export const PROFILE_SCOPE_TYPES = ["course", "classType"] as const;
+export type ProfileScopeType = typeof PROFILE_SCOPE_TYPES[number];
+
+export interface ScoringProfileConfig {
+  criteria: Record<QACriterionId, { enabled: boolean; weight: number }>;
+  /** Criterion scores at or above this count as strengths. */
+  passScore: number;
+  /** Criterion scores below this count as areas for improvement. */
+  failScore: number;
+}
+
+export interface ResolvedScoringProfile {
+  /** null for the built-in default. */
+  id: number | null;
+  name: string;
+  updatedAt: string | null;
+  config: ScoringProfileConfig;
+}
+
+export const DEFAULT_SCORING_PROFILE: ScoringProfileConfig = {
+  criteria: {
+    "1": { enabled: true, weight: 1 },
+    "2": { enabled: true, weight: 1 },
+    "3": { enabled: true, weight: 1 },
+    "4": { enabled: true, weight: 1 },
+    "5": { enabled: true, weight: 1 },
+    "6": { enabled: true, weight: 1 },
+    "7": { enabled: true, weight: 1 },
+  },
+  passScore: 4,
+  failScore: 3,
+};
+
+export const DEFAULT_PROFILE: ResolvedScoringProfile = {
+  id: null,
+  name: "Default",
+  updatedAt: null,
+  config: DEFAULT_SCORING_PROFILE,
+};
+
+const criterionSetting = z.object({
+  enabled: z.boolean(),
+  weight: z.number().positive().max(10),
+});
+
+export const scoringProfileConfigSchema = z.object({
+  criteria: z.object({
+    "1": criterionSetting,
+    "2": criterionSetting,
+    "3": criterionSetting,
+    "4": criterionSetting,
+    "5": criterionSetting,
+    "6": criterionSetting,
+    "7": criterionSetting,
+  }),
+  passScore: z.number().min(1).max(5),
+  failScore: z.number().min(1).max(5),
+});
+
+/** Checks the schema cannot express. Returns a message, or null when the profile is usable. */
+export function validateScoringProfile(config: ScoringProfileConfig): string | null {
+  if (config.failScore > config.passScore) return "failScore must not exceed passScore";
+  const scored = QA_CRITERION_IDS.filter(id => id !== GENERAL_EVALUATION_CRITERION && config.criteria[id].enabled);
+  if (scored.length === 0) return "At least one of criteria 1–6 must be enabled";
+  return null;
+}
+
+/**
+ * Weighted mean of the enabled criteria's scores; criteria missing from
+ * `scores` are skipped. Returns 0 when nothing is left to average.
+ */
+export function weightedScore(scores: Partial<Record<QACriterionId, number>>, config: ScoringProfileConfig): number {
+  let total = 0;
+  let weights = 0;
+  for (const id of QA_CRITERION_IDS) {
+    const score = scores[id];
+    const setting = config.criteria[id];
+    if (score === undefined || !setting.enabled) continue;
+    total += score * setting.weight;
+    weights += setting.weight;
+  }
+  return weights > 0 ? total / weights : 0;
+}
@@ -0,0 +1,164 @@
+import { getLatestReport } from "./report-snapshots";
+import { parseTimeToSeconds } from "./storage";
+
+/**
+ * Side-by-side comparison of stored session reports. Every section is
+ * aligned into rows holding one value per session (null where a session
+ * lacks it); a row is significant when its values spread by at least the
+ * threshold for its unit.
+ */
+
+export const MIN_COMPARE_SESSIONS = 2;
+export const MAX_COMPARE_SESSIONS = 6;
+
+/** Smallest spread between sessions that counts as a real difference, per unit. */
+const SIGNIFICANT_SPREAD = {
+  score: 1,
+  percent: 15,
+  minutes: 5,
+  communication: 15,
+  breakdown: 5,
+} as const;
+
+type Unit = keyof typeof SIGNIFICANT_SPREAD;
+
+export interface CompareRow {
+  key: string;
+  label: string;
+  unit: Unit;
+  values: (number | null)[];
+  spread: number | null;
+  significant: boolean;
+}
+
+function compareRow(key: string, label: string, unit: Unit, values: (number | null | undefined)[]): CompareRow {
+  const normalized = values.map(v => (typeof v === "number" ? v : null));
+  const present = normalized.filter((v): v is number => v !== null);
+  const spread = present.length >= 2 ? Math.round((Math.max(...present) - Math.min(...present)) * 10) / 10 : null;
+  return { key, label, unit, values: normalized, spread, significant: spread !== null && spread >= SIGNIFICANT_SPREAD[unit] };
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? Math.round(values.reduce((s, v) => s + v, 0) / values.length * 10) / 10 : null;
+}
+
+/**
+ * Chat and reaction counts per minute, keyed by minutes since the teacher
+ * started the session, or since the first event when that is earlier or the
+ * start time is missing.
+ */
+function engagementByMinute(report: any): Map<number, number> {
+  const timeline: { time: string; chats: number; reactions: number }[] = report.engagementTimeline || [];
+  const seconds = timeline.map(t => parseTimeToSeconds(`${t.time}:00`));
+  const firstEventSec = seconds.find((s): s is number => s !== null);
+  if (firstEventSec === undefined) return new Map();
+  const startSec = parseTimeToSeconds(report.session?.teacherStartTime || "");
+  const origin = startSec !== null && startSec <= firstEventSec ? startSec : firstEventSec;
+
+  const byMinute = new Map<number, number>();
+  timeline.forEach((t, i) => {
+    const sec = seconds[i];
+    if (sec === null) return;
+    const minute = Math.floor((sec - origin) / 60);
+    byMinute.set(minute, (byMinute.get(minute) || 0) + t.chats + t.reactions);
+  });
+  return byMinute;
+}
+
+export async function compareSessions(sessionIds: number[]) {
+  const snapshots = await Promise.all(sessionIds.map(async id => {
+    const snapshot = await getLatestReport(id);
+    if (!snapshot) throw new Error(`Session not found: ${id}`);
+    return snapshot;
+  }));
+  const reports = snapshots.map(s => s.data as any);
+
+  const sessions = snapshots.map((snapshot, i) => ({
+    courseSessionId: sessionIds[i],
+    snapshotId: snapshot.id,
+    courseSessionName: reports[i].session?.courseSessionName ?? null,
+    teacherName: reports[i].session?.teacherName ?? null,
+    scheduledStartTime: reports[i].session?.scheduledStartTime ?? null,
+    topic: reports[i].session?.topic ?? null,
+    level: reports[i].session?.level ?? null,
+  }));
+
+  const criteriaNames = new Map<number, string>();
+  for (const report of reports) {
+    for (const c of report.qaEvaluation?.criteria || []) {
+      if (!criteriaNames.has(c.id)) criteriaNames.set(c.id, c.nameEn);
+    }
+  }
+  const criteria = [
+    compareRow("overall", "Overall Evaluation", "score", reports.map(r => r.qaEvaluation?.overallScore)),
+    ...Array.from(criteriaNames.entries())
+      .sort((a, b) => a[0] - b[0])
+      .map(([id, name]) => compareRow(`criterion-${id}`, name, "score",
+        reports.map(r => (r.qaEvaluation?.criteria || []).find((c: any) => c.id === id)?.score))),
+  ];
+
+  const activityLabels = new Map<string, { label: string; sortOrder: number }>();
+  for (const report of reports) {
+    for (const a of report.activityAnalyses || []) {
+      if (!activityLabels.has(a.activityType)) activityLabels.set(a.activityType, { label: a.label, sortOrder: a.sortOrder ?? 99 });
+    }
+  }
+  const activities = Array.from(activityLabels.entries())
+    .sort((a, b) => a[1].sortOrder - b[1].sortOrder)
+    .map(([activityType, { label }]) => {
+      const instancesOf = (r: any) => (r.activityAnalyses || []).find((a: any) => a.activityType === activityType)?.instances || [];
+      return {
+        activityType,
+        label,
+        instances: reports.map(r => instancesOf(r).length),
+        correctness: compareRow(`${activityType}-correctness`, `${label} correctness`, "percent",
+          reports.map(r => average(instancesOf(r)
+            .map((inst: any) => inst.overallCorrectness?.percent)
+            .filter((p: any): p is number => typeof p === "number")))),
+        duration: compareRow(`${activityType}-duration`, `${label} time (min)`, "minutes",
+          reports.map(r => {
+            const list = instancesOf(r);
+            return list.length > 0 ? Math.round(list.reduce((s: number, inst: any) => s + (inst.durationMin || 0), 0) * 10) / 10 : null;
+          })),
+      };
+    });
+
+  const summaries = reports.map(r => r.qaEvaluation?.summary || {});
+  const time = [
+    compareRow("teachingTimeMin", "Teaching time (min)", "minutes", summaries.map(s => s.teachingTimeMin)),
+    compareRow("teacherTalkMin", "Teacher talk (min)", "minutes", summaries.map(s => s.teacherTalkMin)),
+    compareRow("studentActivePercent", "Student activity (%)", "percent", summaries.map(s => s.studentActivePercent)),
+    compareRow("responseRate", "Response rate (%)", "percent", summaries.map(s => s.responseRate)),
+    compareRow("overallCorrectness", "Correctness (%)", "percent", summaries.map(s => s.overallCorrectness)),
+  ];
+
+  const scores = reports.map(r => r.qaEvaluation?.teacherCommunication?.communicationScore);
+  const communication = [
+    compareRow("score", "Communication score", "communication", scores.map(s => s?.score)),
+    compareRow("explanationClarity", "Explanation clarity", "breakdown", scores.map(s => s?.breakdown?.explanationClarity)),
+    compareRow("encouragementFrequency", "Encouragement", "breakdown", scores.map(s => s?.breakdown?.encouragementFrequency)),
+    compareRow("reinforcementBalance", "Reinforcement balance", "breakdown", scores.map(s => s?.breakdown?.reinforcementBalance)),
+    compareRow("engagementCorrelation", "Engagement correlation", "breakdown", scores.map(s => s?.breakdown?.engagementCorrelation)),
+  ];
+
+  const byMinute = reports.map(engagementByMinute);
+  const lastMinute = Math.max(0, ...byMinute.flatMap(m => Array.from(m.keys())));
+  const engagement = Array.from({ length: lastMinute + 1 }, (_, minute) => ({
+    minute,
+    counts: byMinute.map(m => m.get(minute) ?? 0),
+  }));
+
+  const label = (i: number) => sessions[i].courseSessionName
+    ? `${sessions[i].courseSessionName} (#${sessions[i].courseSessionId})`
+    : `#${sessions[i].courseSessionId}`;
+  const highlights = [...criteria, ...activities.flatMap(a => [a.correctness, a.duration]), ...time, ...communication]
+    .filter(row => row.significant)
+    .map(row => {
+      const present = row.values.map((v, i) => ({ v, i })).filter((x): x is { v: number; i: number } => x.v !== null);
+      const high = present.reduce((a, b) => (b.v > a.v ? b : a));
+      const low = present.reduce((a, b) => (b.v < a.v ? b : a));
+      return { key: row.key, text: `${row.label}: ${high.v} in ${label(high.i)} vs ${low.v} in ${label(low.i)}` };
+    });
+
+  return { sessions, criteria, activities, time, communication, engagement, highlights };
+}
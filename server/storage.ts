@@ -1,17 +1,105 @@
-import { db } from "./db";
+import { createHash } from "crypto";
+import { db, type DbExecutor, type DbTransaction } from "./db";
 import {
   courseSessions, sessionTranscripts, sessionChats,
-  classroomActivities, userPolls, userReactions, userSessions,
+  classroomActivities, userPolls, userReactions, userSessions, sessionImports, importJobs, columnMappings, teachers,
+  reportSnapshots, scoringRubrics, scoringProfiles, scoringProfileAssignments, topicTaxonomies, lexiconAssignments,
   type InsertCourseSession, type InsertSessionTranscript,
   type InsertSessionChat, type InsertClassroomActivity,
   type InsertUserPoll, type InsertUserReaction, type InsertUserSession,
   type CourseSession, type SessionTranscript, type SessionChat,
   type ClassroomActivity, type UserPoll, type UserReaction, type UserSession,
+  type SessionImport, type InsertSessionImport, type SessionFileType,
+  type ImportJob, type InsertImportJob, type ColumnMapping, type InsertColumnMapping,
+  type ReportSnapshot, type InsertReportSnapshot, type AtRiskStudent,
+  type ScoringRubricVersion, type InsertScoringRubricVersion,
+  type ScoringProfile, type InsertScoringProfile,
+  type ScoringProfileAssignment, type InsertScoringProfileAssignment,
+  type TopicTaxonomy, type InsertTopicTaxonomy,
+  type LexiconAssignment, type InsertLexiconAssignment,
+  type ReportData,
 } from "@shared/schema";
-import { eq, sql, desc, asc, count } from "drizzle-orm";
+import { eq, sql, desc, asc, count, and, or, gte, lte, inArray, type SQL } from "drizzle-orm";
+import { DEFAULT_RUBRIC, resolveRubric, type ActiveRubric, type ScoringRubric } from "./rubric";
+import {
+  DEFAULT_PROFILE, weightedScore,
+  type ResolvedScoringProfile, type ScoringProfileConfig, type QACriterionId,
+} from "./scoring-profiles";
+import {
+  BUILTIN_TAXONOMIES, GENERAL_TAXONOMY, compileTerms, matchTaxonomy,
+  type ResolvedTaxonomy, type TaxonomyTerm,
+} from "./topic-taxonomies";
+import { normalizeArabic } from "./arabic-normalize";
+import {
+  DEFAULT_LEXICONS, compileLexicon, detectLanguage, getDialectPack, type ResolvedLexicon, type SessionLanguage,
+} from "./dialect-lexicons";
+
+/**
+ * Version of the analysis in this file. Bump it with any change that alters
+ * getDashboardData output, so stored report snapshots show which engine made them.
+ */
+export const ANALYSIS_ENGINE_VERSION = "1.8.0";
+
+/** Sessions in the rolling average of a teacher trend line. */
+const TREND_WINDOW = 3;
+
+/**
+ * Parse a transcript/chat/activity timestamp into seconds since midnight.
+ * Accepts "HH:MM:SS" (optionally date-prefixed), "H:MM:SS AM/PM" and "M/D/YY H:MM".
+ * Returns null when the string matches none of these formats.
+ */
+export function parseTimeToSeconds(timeStr: string): number | null {
+  if (!timeStr) return null;
+  const match24 = timeStr.match(/(\d{4}-\d{2}-\d{2}\s+)?(\d{1,2}):(\d{2}):(\d{2})/);
+  if (match24) {
+    return parseInt(match24[2]) * 3600 + parseInt(match24[3]) * 60 + parseInt(match24[4]);
+  }
+  const match12 = timeStr.match(/(\d{1,2}):(\d{2}):(\d{2})\s*(AM|PM)/i);
+  if (match12) {
+    let h = parseInt(match12[1]);
+    const m = parseInt(match12[2]);
+    const s = parseInt(match12[3]);
+    const ampm = match12[4].toUpperCase();
+    if (ampm === 'PM' && h !== 12) h += 12;
+    if (ampm === 'AM' && h === 12) h = 0;
+    return h * 3600 + m * 60 + s;
+  }
+  const matchDateHM = timeStr.match(/\d{1,2}\/\d{1,2}\/\d{2,4}\s+(\d{1,2}):(\d{2})$/);
+  if (matchDateHM) {
+    return parseInt(matchDateHM[1]) * 3600 + parseInt(matchDateHM[2]) * 60;
+  }
+  return null;
+}
+
+/** Thrown when a single imported row cannot be mapped or inserted; `row` is 1-based. */
+export class ImportRowError extends Error {
+  constructor(public row: number, message: string) {
+    super(`Row ${row}: ${message}`);
+  }
+}
+
+/** Filters for the session listing; dates are "YYYY-MM-DD" and compared against scheduledStartTime. */
+export interface SessionListFilters {
+  courseId?: number;
+  teacherId?: number;
+  from?: string;
+  to?: string;
+  status?: string;
+  page: number;
+  pageSize: number;
+}
+
+/** Peer groups a session can be benchmarked against. */
+export const BENCHMARK_COHORTS = ["course", "subject", "level"] as const;
+export type BenchmarkCohort = typeof BENCHMARK_COHORTS[number];
+
+/** Below this many reports in a cohort, percentile ranks are withheld. */
+const MIN_COHORT_SIZE = 5;
 
 export interface IStorage {
-  getSessionOverview(): Promise<any>;
+  getSessionOverview(courseSessionId: number): Promise<any>;
+  listSessions(filters: SessionListFilters): Promise<any>;
+  getLatestSessionId(): Promise<number | null>;
   getTranscripts(courseSessionId: number): Promise<SessionTranscript[]>;
   getChats(courseSessionId: number): Promise<SessionChat[]>;
   getActivities(courseSessionId: number): Promise<ClassroomActivity[]>;
@@ -19,42 +107,85 @@ export interface IStorage {
   getReactionBreakdown(courseSessionId: number): Promise<any>;
   getStudentSessions(courseSessionId: number): Promise<UserSession[]>;
   getEngagementTimeline(courseSessionId: number): Promise<any>;
-  getDashboardData(courseSessionId: number): Promise<any>;
-
-  insertCourseSession(data: InsertCourseSession): Promise<CourseSession>;
-  insertTranscripts(data: InsertSessionTranscript[]): Promise<void>;
-  insertChats(data: InsertSessionChat[]): Promise<void>;
-  insertActivities(data: InsertClassroomActivity[]): Promise<void>;
-  insertPolls(data: InsertUserPoll[]): Promise<void>;
-  insertReactions(data: InsertUserReaction[]): Promise<void>;
-  insertUserSessions(data: InsertUserSession[]): Promise<void>;
+  getDashboardData(
+    courseSessionId: number,
+    rubric?: ActiveRubric,
+    profile?: ResolvedScoringProfile,
+    taxonomy?: ResolvedTaxonomy,
+    lexicon?: ResolvedLexicon
+  ): Promise<any>;
+
+  insertCourseSession(data: InsertCourseSession, tx?: DbExecutor): Promise<CourseSession>;
+  insertTranscripts(data: InsertSessionTranscript[], tx?: DbExecutor): Promise<void>;
+  insertChats(data: InsertSessionChat[], tx?: DbExecutor): Promise<void>;
+  insertActivities(data: InsertClassroomActivity[], tx?: DbExecutor): Promise<void>;
+  insertPolls(data: InsertUserPoll[], tx?: DbExecutor): Promise<void>;
+  insertReactions(data: InsertUserReaction[], tx?: DbExecutor): Promise<void>;
+  insertUserSessions(data: InsertUserSession[], tx?: DbExecutor): Promise<void>;
   isDataImported(): Promise<boolean>;
+  runInTransaction<T>(fn: (tx: DbTransaction) => Promise<T>): Promise<T>;
+
+  getCourseSession(courseSessionId: number, tx?: DbExecutor): Promise<CourseSession | undefined>;
+  deleteSessionData(courseSessionId: number, fileTypes: readonly SessionFileType[], tx?: DbExecutor): Promise<void>;
+  insertImportHistory(data: InsertSessionImport[], tx?: DbExecutor): Promise<void>;
+  getImportHistory(courseSessionId: number): Promise<SessionImport[]>;
+
+  createImportJob(data: InsertImportJob): Promise<ImportJob>;
+  updateImportJob(id: number, data: Partial<InsertImportJob>): Promise<ImportJob | undefined>;
+  getImportJob(id: number): Promise<ImportJob | undefined>;
+  getImportJobsForTeacher(teacherId: number, since: Date): Promise<ImportJob[]>;
+  getUnfinishedImportJobs(): Promise<ImportJob[]>;
+
+  getColumnMappings(): Promise<ColumnMapping[]>;
+  getActiveColumnMappings(): Promise<ColumnMapping[]>;
+  createColumnMapping(data: Omit<InsertColumnMapping, "version" | "isActive">): Promise<ColumnMapping>;
+  activateColumnMapping(id: number): Promise<ColumnMapping | undefined>;
+  resetColumnMapping(fileType: string): Promise<void>;
+
+  computeReportInputHash(courseSessionId: number): Promise<string>;
+  insertReportSnapshot(data: InsertReportSnapshot): Promise<ReportSnapshot>;
+  getReportSnapshot(id: number): Promise<ReportSnapshot | undefined>;
+  getLatestReportSnapshot(courseSessionId: number): Promise<ReportSnapshot | undefined>;
+  listReportSnapshots(courseSessionId: number): Promise<Omit<ReportSnapshot, "data">[]>;
+  getAllCourseSessionIds(): Promise<number[]>;
+
+  getRubricVersions(): Promise<ScoringRubricVersion[]>;
+  getActiveRubric(): Promise<ActiveRubric>;
+  createRubricVersion(data: Omit<InsertScoringRubricVersion, "version" | "isActive">): Promise<ScoringRubricVersion>;
+  activateRubricVersion(id: number): Promise<ScoringRubricVersion | undefined>;
+  resetRubric(): Promise<void>;
+
+  getScoringProfiles(): Promise<ScoringProfile[]>;
+  createScoringProfile(data: InsertScoringProfile): Promise<ScoringProfile>;
+  updateScoringProfile(id: number, data: Partial<InsertScoringProfile>): Promise<ScoringProfile | undefined>;
+  deleteScoringProfile(id: number): Promise<boolean>;
+  getScoringProfileAssignments(): Promise<ScoringProfileAssignment[]>;
+  setScoringProfileAssignment(data: InsertScoringProfileAssignment): Promise<ScoringProfileAssignment>;
+  deleteScoringProfileAssignment(id: number): Promise<boolean>;
+  getScoringProfileFor(courseId: number | null, classType: string | null): Promise<ResolvedScoringProfile>;
+  getProfileScopes(): Promise<{ courseIds: number[]; classTypes: string[] }>;
+  getTopicTaxonomies(): Promise<TopicTaxonomy[]>;
+  saveTopicTaxonomy(data: InsertTopicTaxonomy): Promise<TopicTaxonomy>;
+  deleteTopicTaxonomy(id: number): Promise<boolean>;
+  getTaxonomyFor(sessionName: string | null): Promise<ResolvedTaxonomy>;
+  getLexiconAssignments(): Promise<LexiconAssignment[]>;
+  setLexiconAssignment(data: InsertLexiconAssignment): Promise<LexiconAssignment>;
+  deleteLexiconAssignment(id: number): Promise<boolean>;
+  getSessionLanguage(courseSessionId: number): Promise<SessionLanguage>;
+  getLexiconFor(teacherDbId: number | null, courseId: number | null, language: SessionLanguage): Promise<ResolvedLexicon>;
+  getStudentReport(courseSessionId: number, userId: number): Promise<any | undefined>;
+  getQuestionBank(search?: string): Promise<any[]>;
+  getQuestionHistory(questionId: number): Promise<any | undefined>;
+  getTeacherTrends(teacherDbId: number): Promise<any>;
+  getSessionBenchmarks(courseSessionId: number, cohort: BenchmarkCohort): Promise<any | undefined>;
+  listCourses(): Promise<any[]>;
+  getCourseReport(courseId: number): Promise<any | undefined>;
 }
 
 export class DatabaseStorage implements IStorage {
 
   // --- Shared constants ---
 
-  private static readonly CONFUSION_PATTERN = /ما\s*فهم|مو\s*فاهم|مو\s*واضح|ما\s*عرف|صعب|ما\s*فهمت|مش\s*فاهم|كيف|وش\s*يعني|يعني\s*ايش|ما\s*وضح|\?\?|اعيد|ما\s*قدر/i;
-
-  private static readonly TOPIC_MAP: [RegExp, string][] = [
-    [/الدائر[ةه]/i, "Circles"],
-    [/المستقيم|مستقيمات/i, "Lines in circles"],
-    [/نصف القطر|أنصاف.*القطر/i, "Radius"],
-    [/القطر/i, "Diameter"],
-    [/الوتر|وتر/i, "Chord"],
-    [/مماس|التماس/i, "Tangent"],
-    [/الزاوي[ةه]\s*المركزي[ةه]/i, "Central angles"],
-    [/الزاوي[ةه]\s*المحيطي[ةه]/i, "Inscribed angles"],
-    [/الزوايا|زاوي[ةه]/i, "Angles"],
-    [/المحيط/i, "Perimeter"],
-    [/المساح[ةه]/i, "Area"],
-    [/المضلع|مضلعات|رباعي/i, "Polygons"],
-    [/القوس/i, "Arc"],
-    [/طاء.*نق|نق\s*تربيع/i, "Circle formulas"],
-    [/مربع|مثلث|سداسي/i, "Shapes in circles"],
-  ];
-
   private static readonly TYPE_NAME_EN: Record<string, string> = {
     SECTION_CHECK: "Section Check",
     EXIT_TICKET: "Exit Ticket",
@@ -70,31 +201,46 @@ export class DatabaseStorage implements IStorage {
     return `${h}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}`;
   }
 
+  /**
+   * Normalized text the detectors match against. Rows imported before the
+   * normalized columns existed are normalized on read.
+   */
+  private transcriptNorm(t: { text: string | null; normalizedText?: string | null }): string {
+    return t.normalizedText ?? normalizeArabic(t.text || '');
+  }
+
+  private chatNorm(c: { messageText: string | null; normalizedMessageText?: string | null }): string {
+    return c.normalizedMessageText ?? normalizeArabic(c.messageText || '');
+  }
+
   private buildContinuousBlocks(
-    sorted: { startSec: number; endSec: number; text: string }[],
+    sorted: { startSec: number; endSec: number; text: string; norm: string }[],
     gapThresholdSec: number,
     minDurationSec: number = 0
-  ): { startSec: number; endSec: number; texts: string[] }[] {
+  ): { startSec: number; endSec: number; texts: string[]; norms: string[] }[] {
     if (sorted.length === 0) return [];
-    const blocks: { startSec: number; endSec: number; texts: string[] }[] = [];
+    const blocks: { startSec: number; endSec: number; texts: string[]; norms: string[] }[] = [];
     let blockStart = sorted[0].startSec;
     let blockEnd = sorted[0].endSec;
     let blockTexts = [sorted[0].text];
+    let blockNorms = [sorted[0].norm];
     for (let i = 1; i < sorted.length; i++) {
       if (sorted[i].startSec - blockEnd <= gapThresholdSec) {
         blockEnd = Math.max(blockEnd, sorted[i].endSec);
         blockTexts.push(sorted[i].text);
+        blockNorms.push(sorted[i].norm);
       } else {
         if (blockEnd - blockStart >= minDurationSec) {
-          blocks.push({ startSec: blockStart, endSec: blockEnd, texts: blockTexts });
+          blocks.push({ startSec: blockStart, endSec: blockEnd, texts: blockTexts, norms: blockNorms });
         }
         blockStart = sorted[i].startSec;
         blockEnd = sorted[i].endSec;
         blockTexts = [sorted[i].text];
+        blockNorms = [sorted[i].norm];
       }
     }
     if (blockEnd - blockStart >= minDurationSec) {
-      blocks.push({ startSec: blockStart, endSec: blockEnd, texts: blockTexts });
+      blocks.push({ startSec: blockStart, endSec: blockEnd, texts: blockTexts, norms: blockNorms });
     }
     return blocks;
   }
@@ -213,11 +359,63 @@ export class DatabaseStorage implements IStorage {
     return (result[0]?.count ?? 0) > 0;
   }
 
-  async getSessionOverview(): Promise<any> {
-    const sessions = await db.select().from(courseSessions).limit(1);
+  async getSessionOverview(courseSessionId: number): Promise<any> {
+    this.validateCourseSessionId(courseSessionId);
+    const sessions = await db.select().from(courseSessions)
+      .where(eq(courseSessions.courseSessionId, courseSessionId)).limit(1);
     return sessions[0] || null;
   }
 
+  /** One page of sessions, newest scheduled first, with the distinct statuses for filter pickers. */
+  async listSessions(filters: SessionListFilters): Promise<any> {
+    const conditions: SQL[] = [];
+    if (filters.courseId) conditions.push(eq(courseSessions.courseId, filters.courseId));
+    if (filters.teacherId) conditions.push(eq(courseSessions.teacherDbId, filters.teacherId));
+    if (filters.status) conditions.push(eq(courseSessions.courseSessionStatus, filters.status));
+    // scheduledStartTime is stored as the export's ISO string, so plain text comparison orders by date
+    if (filters.from) conditions.push(gte(courseSessions.scheduledStartTime, filters.from));
+    if (filters.to) conditions.push(lte(courseSessions.scheduledStartTime, `${filters.to}T23:59:59`));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [sessions, [{ total }], statuses] = await Promise.all([
+      db.select({
+        courseSessionId: courseSessions.courseSessionId,
+        courseSessionName: courseSessions.courseSessionName,
+        courseId: courseSessions.courseId,
+        courseSessionClassType: courseSessions.courseSessionClassType,
+        scheduledStartTime: courseSessions.scheduledStartTime,
+        teachingTime: courseSessions.teachingTime,
+        sessionTemperature: courseSessions.sessionTemperature,
+        courseSessionStatus: courseSessions.courseSessionStatus,
+        teacherDbId: courseSessions.teacherDbId,
+        teacherName: sql<string | null>`coalesce(${teachers.nameArabic}, ${teachers.name})`,
+      })
+        .from(courseSessions)
+        .leftJoin(teachers, eq(courseSessions.teacherDbId, teachers.id))
+        .where(where)
+        .orderBy(sql`${courseSessions.scheduledStartTime} desc nulls last`, desc(courseSessions.courseSessionId))
+        .limit(filters.pageSize)
+        .offset((filters.page - 1) * filters.pageSize),
+      db.select({ total: count() }).from(courseSessions).where(where),
+      db.selectDistinct({ status: courseSessions.courseSessionStatus }).from(courseSessions),
+    ]);
+
+    return {
+      sessions,
+      total,
+      page: filters.page,
+      pageSize: filters.pageSize,
+      statuses: statuses.map(s => s.status).filter(Boolean),
+    };
+  }
+
+  /** Most recently scheduled session, used where a default session is needed. */
+  async getLatestSessionId(): Promise<number | null> {
+    const [latest] = await db.select({ courseSessionId: courseSessions.courseSessionId }).from(courseSessions)
+      .orderBy(sql`${courseSessions.scheduledStartTime} desc nulls last`).limit(1);
+    return latest?.courseSessionId ?? null;
+  }
+
   async getTranscripts(courseSessionId: number): Promise<SessionTranscript[]> {
     this.validateCourseSessionId(courseSessionId);
     return db.select().from(sessionTranscripts)
@@ -275,24 +473,37 @@ export class DatabaseStorage implements IStorage {
     return { topic: name || '', level: '' };
   }
 
-  async getDashboardData(courseSessionId: number): Promise<any> {
+  async getDashboardData(
+    courseSessionId: number,
+    rubric?: ActiveRubric,
+    profile?: ResolvedScoringProfile,
+    taxonomy?: ResolvedTaxonomy,
+    lexicon?: ResolvedLexicon
+  ): Promise<any> {
     this.validateCourseSessionId(courseSessionId);
 
     try {
     // Fetch all data in parallel — each table queried exactly once
-    const [session, transcripts, chats, activities, allPolls, allReactions, students] = await Promise.all([
-      this.getSessionOverview(),
+    const [session, transcripts, chats, activities, allPolls, allReactions, students, activeRubric] = await Promise.all([
+      this.getSessionOverview(courseSessionId),
       this.getTranscripts(courseSessionId),
       this.getChats(courseSessionId),
       this.getActivities(courseSessionId),
       db.select().from(userPolls).where(eq(userPolls.courseSessionId, courseSessionId)),
       db.select().from(userReactions).where(eq(userReactions.courseSessionId, courseSessionId)),
       this.getStudentSessions(courseSessionId),
+      rubric ? Promise.resolve(rubric) : this.getActiveRubric(),
     ]);
+    const thresholds = activeRubric.config;
 
     if (!session) {
       throw new Error(`No session found for courseSessionId: ${courseSessionId}`);
     }
+    const [scoringProfile, topicTaxonomy, dialectLexicon] = await Promise.all([
+      profile ?? this.getScoringProfileFor(session.courseId ?? null, session.courseSessionClassType ?? null),
+      taxonomy ?? this.getTaxonomyFor(session.courseSessionName ?? null),
+      lexicon ?? this.getLexiconFor(session.teacherDbId ?? null, session.courseId ?? null, detectLanguage(transcripts.map(t => t.text))),
+    ]);
 
     // Derive all stats from pre-fetched data — no duplicate queries
     const pollStats = this.computePollStats(allPolls);
@@ -334,13 +545,24 @@ export class DatabaseStorage implements IStorage {
       };
     });
 
-    const feedback = this.generateFeedback(activitiesWithCorrectness, transcripts, chats, session, pollStats);
+    const feedback = this.generateFeedback(
+      activitiesWithCorrectness, transcripts, chats, session, pollStats, thresholds, topicTaxonomy, dialectLexicon
+    );
 
     const activityAnalyses = await this.generateAllActivityAnalyses(
-      activitiesWithCorrectness, transcripts, chats, totalStudents, feedback, allPolls
+      activitiesWithCorrectness, transcripts, chats, totalStudents, feedback, allPolls, thresholds,
+      topicTaxonomy, dialectLexicon
     );
 
     return {
+      rubricVersion: activeRubric.version,
+      topicTaxonomy: {
+        id: topicTaxonomy.id,
+        subject: topicTaxonomy.subject,
+        name: topicTaxonomy.name,
+        updatedAt: topicTaxonomy.updatedAt,
+      },
+      dialectLexicon: { id: dialectLexicon.id, name: dialectLexicon.name, language: dialectLexicon.language },
       session: {
         ...session,
         teacherName,
@@ -373,10 +595,14 @@ export class DatabaseStorage implements IStorage {
         messages: s.totalMessages,
         handRaises: s.totalHandRaise,
       })).sort((a, b) => (b.activeTime || 0) - (a.activeTime || 0)),
+      atRiskStudents: this.buildAtRiskStudents(
+        studentOnly, activitiesWithCorrectness, allPolls, chats, session, thresholds, dialectLexicon
+      ),
       qaEvaluation: this.computeQAEvaluation(
         session, activitiesWithCorrectness, transcripts, chats, studentOnly,
         pollStats, totalStudents, sessionTemperature, sessionCompletedPercent,
-        avgLearningTime, feedback, activityAnalyses
+        avgLearningTime, feedback, activityAnalyses, thresholds, scoringProfile, topicTaxonomy,
+        dialectLexicon
       ),
     };
 
@@ -389,10 +615,87 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  /**
+   * Students who need follow-up, each with the reasons found: low or falling
+   * correctness, polls seen but skipped, leaving early, negative sentiment,
+   * and confusion in chat. Highest-risk students first.
+   */
+  private buildAtRiskStudents(
+    students: UserSession[],
+    activities: any[],
+    polls: UserPoll[],
+    chats: SessionChat[],
+    session: any,
+    rubric: ScoringRubric,
+    lexicon: ResolvedLexicon
+  ): AtRiskStudent[] {
+    const { lowCorrectness, exitTicketDropPoints, unansweredPollPercent, earlyExitMin, highRiskReasons } = rubric.atRisk;
+    const typeByActivity = new Map<number, string>(activities.map(a => [a.activityId, a.activityType]));
+    const teacherEndSec = this.parseTimeToSeconds(session?.teacherEndTime || '');
+    const percentOf = (list: UserPoll[]) => {
+      const answered = list.filter(p => p.pollAnswered);
+      return answered.length > 0 ? Math.round(answered.filter(p => p.isCorrectAnswer).length / answered.length * 100) : null;
+    };
+
+    const flagged: AtRiskStudent[] = [];
+    for (const student of students) {
+      const reasons: AtRiskStudent["reasons"] = [];
+      const studentPolls = polls.filter(p => p.userId === student.userId);
+      const ofType = (type: string) => studentPolls.filter(p => p.classroomActivityId !== null && typeByActivity.get(p.classroomActivityId) === type);
+
+      const exitTicket = percentOf(ofType('EXIT_TICKET'));
+      const sectionCheck = percentOf(ofType('SECTION_CHECK'));
+      const overall = percentOf(studentPolls);
+      if (exitTicket !== null && exitTicket < lowCorrectness) {
+        reasons.push({ code: 'low_correctness', detail: `Exit ticket correctness ${exitTicket}% (below ${lowCorrectness}%)` });
+      } else if (exitTicket === null && overall !== null && overall < lowCorrectness) {
+        reasons.push({ code: 'low_correctness', detail: `Overall correctness ${overall}% (below ${lowCorrectness}%)` });
+      }
+      if (exitTicket !== null && sectionCheck !== null && sectionCheck - exitTicket >= exitTicketDropPoints) {
+        reasons.push({ code: 'exit_ticket_drop', detail: `Exit ticket ${exitTicket}% vs section checks ${sectionCheck}% — understanding did not hold` });
+      }
+
+      const seen = studentPolls.filter(p => p.pollSeen);
+      const skipped = seen.filter(p => !p.pollAnswered).length;
+      if (seen.length > 0 && skipped / seen.length * 100 >= unansweredPollPercent) {
+        reasons.push({ code: 'unanswered_polls', detail: `Saw ${seen.length} questions but left ${skipped} unanswered` });
+      }
+
+      const exitSec = this.parseTimeToSeconds(student.userExitTime || '');
+      if (teacherEndSec !== null && exitSec !== null && teacherEndSec - exitSec >= earlyExitMin * 60) {
+        reasons.push({ code: 'early_exit', detail: `Left ${Math.round((teacherEndSec - exitSec) / 60)} min before the session ended` });
+      }
+
+      if ((student.userSentiment || '').toLowerCase() === 'negative') {
+        reasons.push({ code: 'negative_sentiment', detail: 'Reported negative sentiment for the session' });
+      }
+
+      const confused = chats.filter(c => c.creatorId === student.userId && lexicon.patterns.confusion.test(this.chatNorm(c)));
+      if (confused.length > 0) {
+        reasons.push({
+          code: 'chat_confusion',
+          detail: `${confused.length} confusion message(s) in chat, e.g. "${(confused[0].messageText || '').substring(0, 60)}"`,
+        });
+      }
+
+      if (reasons.length === 0) continue;
+      flagged.push({
+        userId: student.userId,
+        userName: student.userName,
+        riskLevel: reasons.length >= highRiskReasons ? 'High' : 'Medium',
+        correctness: overall,
+        reasons,
+      });
+    }
+
+    return flagged.sort((a, b) => b.reasons.length - a.reasons.length);
+  }
+
   private getTranscriptForTimeRange(
-    sorted: { startSec: number; endSec: number; text: string }[],
+    sorted: { startSec: number; endSec: number; text: string; norm: string }[],
     rangeStartSec: number,
-    rangeEndSec: number
+    rangeEndSec: number,
+    taxonomy: ResolvedTaxonomy
   ): { texts: string[]; totalSec: number; topics: string } {
     const overlapping = sorted.filter(t => t.startSec < rangeEndSec && t.endSec > rangeStartSec);
     let totalSec = 0;
@@ -402,19 +705,21 @@ export class DatabaseStorage implements IStorage {
       if (e > s) totalSec += (e - s);
     }
     const texts = overlapping.map(t => t.text);
-    const topics = this.extractTopics(texts);
+    const topics = this.extractTopics(overlapping.map(t => t.norm), taxonomy);
     return { texts, totalSec, topics };
   }
 
   private buildConceptMasteryMap(
-    sorted: { startSec: number; endSec: number; text: string }[],
+    sorted: { startSec: number; endSec: number; text: string; norm: string }[],
     activityTimeline: any[],
-    chats: any[]
+    chats: any[],
+    taxonomy: ResolvedTaxonomy,
+    lexicon: ResolvedLexicon
   ): any[] {
     const concepts: any[] = [];
 
-    for (const [pattern, conceptName] of DatabaseStorage.TOPIC_MAP) {
-      const matchingSegments = sorted.filter(t => pattern.test(t.text));
+    for (const [pattern, conceptName] of taxonomy.terms) {
+      const matchingSegments = sorted.filter(t => pattern.test(t.norm));
       if (matchingSegments.length === 0) continue;
 
       let totalExplanationSec = 0;
@@ -453,7 +758,7 @@ export class DatabaseStorage implements IStorage {
         const ts = this.parseTimeToSeconds(c.createdAtTs || '');
         if (ts === null) return false;
         const duringExplanation = matchingSegments.some(seg => ts >= seg.startSec - 30 && ts <= seg.endSec + 60);
-        return duringExplanation && DatabaseStorage.CONFUSION_PATTERN.test(c.messageText || '');
+        return duringExplanation && lexicon.patterns.confusion.test(this.chatNorm(c));
       }).length;
 
       let effectiveness: string;
@@ -506,27 +811,30 @@ export class DatabaseStorage implements IStorage {
   }
 
   private buildTeachingClarityEvaluation(
-    sorted: { startSec: number; endSec: number; text: string }[]
+    sorted: { startSec: number; endSec: number; text: string; norm: string }[],
+    taxonomy: ResolvedTaxonomy,
+    lexicon: ResolvedLexicon
   ): any[] {
     if (sorted.length === 0) return [];
     const continuousBlocks = this.buildContinuousBlocks(sorted, 5, 30);
 
-    const stepByStepPattern = /أولا|ثانيا|ثالثا|الخطوة|أول شي|بعدين|ثم|بعد كذا|نبدأ.*ب|أول حاجة|1\.|2\.|3\./i;
-    const repetitionPattern = /يعني|بمعنى|نقدر نقول|بالعربي|بشكل ثاني|مرة ثانية|نعيد/i;
-    const examplePattern = /مثلا|مثال|على سبيل|لو عندنا|تخيل|فرض|يعني مثل|لو كان/i;
-    const verificationPattern = /واضح|صح|فاهمين|تمام|سؤال|فهمتوا|ماشي|صح ولا لا|عرفتوا/i;
-    const transitionPattern = /طيب|الحين|ننتقل|نروح|نكمل|خلاص|يلا|هسا/i;
+    const {
+      steps: stepPattern, rephrase: repetitionPattern, example: examplePattern,
+      verify: verificationPattern, transition: transitionPattern,
+    } = lexicon.patterns;
+    const numberedStepPattern = /1\.|2\.|3\./;
 
     return continuousBlocks.map(block => {
       const combined = block.texts.join(' ');
+      const normalized = block.norms.join(' ');
       const durationSec = block.endSec - block.startSec;
-      const topics = this.extractTopics(block.texts);
+      const topics = this.extractTopics(block.norms, taxonomy);
 
-      const hasStepByStep = stepByStepPattern.test(combined);
-      const hasRepetition = repetitionPattern.test(combined);
-      const hasExample = examplePattern.test(combined);
-      const hasVerification = verificationPattern.test(combined);
-      const hasTransition = transitionPattern.test(combined);
+      const hasStepByStep = stepPattern.test(normalized) || numberedStepPattern.test(normalized);
+      const hasRepetition = repetitionPattern.test(normalized);
+      const hasExample = examplePattern.test(normalized);
+      const hasVerification = verificationPattern.test(normalized);
+      const hasTransition = transitionPattern.test(normalized);
 
       const clarityScore = [hasStepByStep, hasRepetition, hasExample, hasVerification, hasTransition]
         .filter(Boolean).length;
@@ -570,33 +878,34 @@ export class DatabaseStorage implements IStorage {
   }
 
   private buildQuestioningAnalysis(
-    sorted: { startSec: number; endSec: number; text: string }[],
+    sorted: { startSec: number; endSec: number; text: string; norm: string }[],
     chats: any[],
-    activityTimeline: any[]
+    activityTimeline: any[],
+    lexicon: ResolvedLexicon
   ): any {
-    const openEndedPattern = /ليش|لماذا|كيف ممكن|ايش رأيكم|شو تتوقعوا|ايش الفرق|وش السبب|ليه/i;
-    const closedPattern = /صح ولا غلط|صح ولا لا|ايش الجواب|كم يساوي|ايش يكون|كم عدد/i;
-    const promptPattern = /اكتبوا|في الشات|ردوا|جاوبوا|ارفعوا|حطوا|اختاروا|شاركوا/i;
-    const rhetoricalPattern = /صح ؟|مو كذا ؟|واضح ؟|تمام ؟|ماشي ؟|ولا لا ؟/i;
+    const {
+      openQuestion: openEndedPattern, closedQuestion: closedPattern,
+      prompt: promptPattern, rhetorical: rhetoricalPattern,
+    } = lexicon.patterns;
 
     let openEnded = 0, closed = 0, prompts = 0, rhetorical = 0;
     const timestamps: any[] = [];
 
     for (const seg of sorted) {
       const text = seg.text;
-      if (openEndedPattern.test(text)) {
+      if (openEndedPattern.test(seg.norm)) {
         openEnded++;
         if (timestamps.length < 3) timestamps.push({ type: 'Open-ended', text: text.substring(0, 80) });
       }
-      if (closedPattern.test(text)) {
+      if (closedPattern.test(seg.norm)) {
         closed++;
         if (timestamps.length < 3) timestamps.push({ type: 'Closed', text: text.substring(0, 80) });
       }
-      if (promptPattern.test(text)) {
+      if (promptPattern.test(seg.norm)) {
         prompts++;
         if (timestamps.length < 3) timestamps.push({ type: 'Engagement prompt', text: text.substring(0, 80) });
       }
-      if (rhetoricalPattern.test(text)) {
+      if (rhetoricalPattern.test(seg.norm)) {
         rhetorical++;
       }
     }
@@ -625,8 +934,11 @@ export class DatabaseStorage implements IStorage {
   }
 
   private buildConfusionMoments(
-    sorted: { startSec: number; endSec: number; text: string }[],
-    chats: any[]
+    sorted: { startSec: number; endSec: number; text: string; norm: string }[],
+    chats: any[],
+    rubric: ScoringRubric,
+    taxonomy: ResolvedTaxonomy,
+    lexicon: ResolvedLexicon
   ): any[] {
 
     const studentChats = chats
@@ -634,9 +946,10 @@ export class DatabaseStorage implements IStorage {
       .map((c: any) => ({
         ts: this.parseTimeToSeconds(c.createdAtTs || ''),
         text: c.messageText || '',
+        norm: this.chatNorm(c),
         name: c.creatorName || 'student',
       }))
-      .filter(c => c.ts !== null && DatabaseStorage.CONFUSION_PATTERN.test(c.text))
+      .filter(c => c.ts !== null && lexicon.patterns.confusion.test(c.norm))
       .sort((a, b) => a.ts! - b.ts!);
 
     if (studentChats.length === 0) return [];
@@ -647,7 +960,7 @@ export class DatabaseStorage implements IStorage {
     let clusterMsgs = [studentChats[0]];
 
     for (let i = 1; i < studentChats.length; i++) {
-      if (studentChats[i].ts! - clusterEnd <= 45) {
+      if (studentChats[i].ts! - clusterEnd <= rubric.timing.confusionWindowSec) {
         clusterEnd = studentChats[i].ts!;
         clusterMsgs.push(studentChats[i]);
       } else {
@@ -663,17 +976,18 @@ export class DatabaseStorage implements IStorage {
       clusters.push({ startSec: clusterStart, endSec: clusterEnd, messages: clusterMsgs });
     }
 
-    const clarificationPattern = /يعني|بمعنى|اقصد|خلني|بشكل ثاني|وضحت|فهمتوا الحين/i;
+    const clarificationPattern = lexicon.patterns.clarification;
 
     return clusters.map(cluster => {
       const topic = this.extractTopics(
-        sorted.filter(t => t.startSec >= cluster.startSec - 60 && t.endSec <= cluster.endSec + 30).map(t => t.text)
+        sorted.filter(t => t.startSec >= cluster.startSec - 60 && t.endSec <= cluster.endSec + 30).map(t => t.norm),
+        taxonomy
       );
 
       const teacherResponseAfter = sorted.filter(t =>
         t.startSec >= cluster.endSec && t.startSec <= cluster.endSec + 60
       );
-      const hasClarification = teacherResponseAfter.some(t => clarificationPattern.test(t.text));
+      const hasClarification = teacherResponseAfter.some(t => clarificationPattern.test(t.norm));
 
       const teacherResponse = hasClarification
         ? "Teacher provided immediate clarification after confusion signals"
@@ -696,10 +1010,12 @@ export class DatabaseStorage implements IStorage {
   }
 
   private buildTeachingPatterns(
-    sorted: { startSec: number; endSec: number; text: string }[],
+    sorted: { startSec: number; endSec: number; text: string; norm: string }[],
     activityTimeline: any[],
     chats: any[],
-    confusionMoments: any[]
+    confusionMoments: any[],
+    rubric: ScoringRubric,
+    lexicon: ResolvedLexicon
   ): any[] {
     const patterns: any[] = [];
 
@@ -726,8 +1042,8 @@ export class DatabaseStorage implements IStorage {
     }
 
     const studentChats = chats.filter((c: any) => c.userType === 'STUDENT');
-    const promptPattern = /اكتبوا|في الشات|ردوا|جاوبوا|ارفعوا|حطوا|اختاروا|شاركوا/i;
-    const engagementPrompts = sorted.filter(t => promptPattern.test(t.text));
+    const promptPattern = lexicon.patterns.prompt;
+    const engagementPrompts = sorted.filter(t => promptPattern.test(t.norm));
     if (engagementPrompts.length >= 3 && studentChats.length >= 10) {
       patterns.push({
         pattern: "Strong engagement prompting behavior",
@@ -738,7 +1054,7 @@ export class DatabaseStorage implements IStorage {
       });
     }
 
-    const reExplained = activityTimeline.filter(a => a.correctPercent < 50 && a.afterTeaching && a.afterTeaching.durationMin >= 1);
+    const reExplained = activityTimeline.filter(a => a.correctPercent < rubric.correctness.moderate && a.afterTeaching && a.afterTeaching.durationMin >= 1);
     if (reExplained.length >= 1) {
       patterns.push({
         pattern: "Effective re-explanation after low scores",
@@ -756,7 +1072,7 @@ export class DatabaseStorage implements IStorage {
     activityTimeline: any[],
     confusionMoments: any[],
     teachingClarity: any[],
-    sorted: { startSec: number; endSec: number; text: string }[]
+    sorted: { startSec: number; endSec: number; text: string; norm: string }[]
   ): { strong: any[]; risk: any[] } {
     const strong: any[] = [];
     const risk: any[] = [];
@@ -820,36 +1136,37 @@ export class DatabaseStorage implements IStorage {
   }
 
   private buildTeacherCommunicationInsights(
-    sorted: { startSec: number; endSec: number; text: string }[],
+    sorted: { startSec: number; endSec: number; text: string; norm: string }[],
     chats: any[],
     activityTimeline: any[],
     session: any,
-    totalStudents: number
+    totalStudents: number,
+    rubric: ScoringRubric,
+    taxonomy: ResolvedTaxonomy,
+    lexicon: ResolvedLexicon
   ): any {
     const continuousBlocks = this.buildContinuousBlocks(sorted, 5, 20);
 
-    const introPattern = /الحين نتكلم عن|اليوم بنتعلم|الدرس اليوم|نبدأ ب|موضوعنا|بنشرح/i;
-    const stepPattern = /أولا|ثانيا|ثالثا|الخطوة|أول شي|بعدين|ثم|بعد كذا|نبدأ.*ب|أول حاجة/i;
-    const examplePattern = /مثلا|مثال|على سبيل|لو عندنا|تخيل|فرض|يعني مثل|لو كان/i;
-    const summaryPattern = /يعني باختصار|بمعنى|الخلاصة|القصد|نلخص|الملخص/i;
-    const verifyPattern = /واضح|صح|فاهمين|تمام|سؤال|فهمتوا|ماشي|صح ولا لا|عرفتوا/i;
-    const rephrasePattern = /يعني|بمعنى|نقدر نقول|بالعربي|بشكل ثاني|مرة ثانية|نعيد/i;
-    const interactPattern = /اكتبوا|في الشات|ردوا|جاوبوا|ارفعوا|حطوا|اختاروا|شاركوا/i;
+    const {
+      intro: introPattern, steps: stepPattern, example: examplePattern, summary: summaryPattern,
+      verify: verifyPattern, rephrase: rephrasePattern, prompt: interactPattern,
+    } = lexicon.patterns;
 
     const explanationReviews: any[] = [];
     for (const block of continuousBlocks) {
       const combined = block.texts.join(' ');
+      const normalized = block.norms.join(' ');
       const durationSec = block.endSec - block.startSec;
       if (durationSec < 30) continue;
-      const topics = this.extractTopics(block.texts);
+      const topics = this.extractTopics(block.norms, taxonomy);
 
-      const hasIntro = introPattern.test(combined);
-      const hasSteps = stepPattern.test(combined);
-      const hasExample = examplePattern.test(combined);
-      const hasSummary = summaryPattern.test(combined);
-      const hasVerify = verifyPattern.test(combined);
-      const hasRephrase = rephrasePattern.test(combined);
-      const hasInteract = interactPattern.test(combined);
+      const hasIntro = introPattern.test(normalized);
+      const hasSteps = stepPattern.test(normalized);
+      const hasExample = examplePattern.test(normalized);
+      const hasSummary = summaryPattern.test(normalized);
+      const hasVerify = verifyPattern.test(normalized);
+      const hasRephrase = rephrasePattern.test(normalized);
+      const hasInteract = interactPattern.test(normalized);
 
       const strengths: string[] = [];
       const improvements: string[] = [];
@@ -877,9 +1194,9 @@ export class DatabaseStorage implements IStorage {
       let impactPrediction: string;
       if (nearbyActivities.length > 0) {
         const avgCorr = Math.round(nearbyActivities.reduce((s: number, a: any) => s + a.correctPercent, 0) / nearbyActivities.length);
-        if (avgCorr >= 70) {
+        if (avgCorr >= rubric.correctness.strong) {
           impactPrediction = `The activity following this explanation scored ${avgCorr}% — the explanation effectively prepared students for the task.`;
-        } else if (avgCorr >= 40) {
+        } else if (avgCorr >= rubric.correctness.low) {
           impactPrediction = `The activity following this explanation scored ${avgCorr}% — the explanation partially prepared students but gaps remain. ${improvements.length > 0 ? 'Implementing the suggested improvements would increase comprehension.' : ''}`;
         } else {
           impactPrediction = `The activity following this explanation scored only ${avgCorr}% — the explanation did not prepare students adequately. A fundamentally different approach is needed.`;
@@ -899,13 +1216,13 @@ export class DatabaseStorage implements IStorage {
       });
     }
 
-    const encouragePattern = /ممتاز|أحسنت|رائع|شاطر|تمام|كويس|جميل|صح عليك|برافو|ممتاز جداً|فكرة حلوة|إجابة ممتازة|جرب مرة ثانية|لا بأس|قريب جداً/i;
+    const encouragePattern = lexicon.patterns.encourage;
     let encourageCount = 0;
     let encourageDurationSec = 0;
     const encourageExamples: { timestamp: string; text: string }[] = [];
 
     for (const seg of sorted) {
-      if (encouragePattern.test(seg.text)) {
+      if (encouragePattern.test(seg.norm)) {
         encourageCount++;
         encourageDurationSec += (seg.endSec - seg.startSec);
         if (encourageExamples.length < 5) {
@@ -935,10 +1252,10 @@ export class DatabaseStorage implements IStorage {
     if (encourageCount < 3) toneImprovements.push("Increase frequency of praise — aim for at least 5 encouraging statements per session");
     if (encourageCount > 0) {
       const afterMistake = sorted.filter(seg => {
-        if (!encouragePattern.test(seg.text)) return false;
+        if (!encouragePattern.test(seg.norm)) return false;
         const nearbyLow = activityTimeline.some(a => {
           const actEnd = this.parseTimeToSeconds(a.endTime) || 0;
-          return actEnd > 0 && seg.startSec > actEnd && seg.startSec < actEnd + 60 && a.correctPercent < 50;
+          return actEnd > 0 && seg.startSec > actEnd && seg.startSec < actEnd + 60 && a.correctPercent < rubric.correctness.moderate;
         });
         return nearbyLow;
       });
@@ -971,7 +1288,7 @@ export class DatabaseStorage implements IStorage {
     };
 
     const praiseForCorrect = sorted.filter(seg => {
-      if (!encouragePattern.test(seg.text)) return false;
+      if (!encouragePattern.test(seg.norm)) return false;
       return activityTimeline.some(a => {
         const actEnd = this.parseTimeToSeconds(a.endTime) || 0;
         return actEnd > 0 && seg.startSec > actEnd && seg.startSec < actEnd + 120 && a.correctPercent >= 60;
@@ -979,11 +1296,11 @@ export class DatabaseStorage implements IStorage {
     }).length;
 
     const effortEncouragement = sorted.filter(seg => {
-      return /جرب|حاول|لا بأس|قريب|شوي كمان|برضو كويس/i.test(seg.text);
+      return lexicon.patterns.effort.test(seg.norm);
     }).length;
 
     const motivationBefore = sorted.filter(seg => {
-      if (!/يلا|خلونا|نبدأ|جاهزين|حماس/i.test(seg.text)) return false;
+      if (!lexicon.patterns.motivation.test(seg.norm)) return false;
       return activityTimeline.some(a => {
         const actStart = this.parseTimeToSeconds(a.startTime) || 0;
         return actStart > 0 && seg.startSec > actStart - 60 && seg.startSec < actStart;
@@ -991,10 +1308,10 @@ export class DatabaseStorage implements IStorage {
     }).length;
 
     const recoveryAfterMistake = sorted.filter(seg => {
-      if (!/لا بأس|عادي|جرب مرة ثانية|قريب جداً|الفكرة صح بس/i.test(seg.text)) return false;
+      if (!lexicon.patterns.recovery.test(seg.norm)) return false;
       return activityTimeline.some(a => {
         const actEnd = this.parseTimeToSeconds(a.endTime) || 0;
-        return actEnd > 0 && seg.startSec > actEnd && seg.startSec < actEnd + 120 && a.correctPercent < 50;
+        return actEnd > 0 && seg.startSec > actEnd && seg.startSec < actEnd + 120 && a.correctPercent < rubric.correctness.moderate;
       });
     }).length;
 
@@ -1101,8 +1418,11 @@ export class DatabaseStorage implements IStorage {
 
   private buildActivityTimeline(
     activities: any[],
-    sorted: { startSec: number; endSec: number; text: string }[],
-    chats: any[]
+    sorted: { startSec: number; endSec: number; text: string; norm: string }[],
+    chats: any[],
+    rubric: ScoringRubric,
+    taxonomy: ResolvedTaxonomy,
+    lexicon: ResolvedLexicon
   ): any[] {
     const happened = activities
       .filter(a => a.activityHappened && a.startTime && a.endTime)
@@ -1120,17 +1440,17 @@ export class DatabaseStorage implements IStorage {
     for (let i = 0; i < happened.length; i++) {
       const act = happened[i];
       const prevEndSec = i > 0 ? happened[i - 1].endSec : (sorted.length > 0 ? sorted[0].startSec : act.startSec);
-      const preActivity = this.getTranscriptForTimeRange(sorted, prevEndSec, act.startSec);
-      const duringActivity = this.getTranscriptForTimeRange(sorted, act.startSec, act.endSec);
+      const preActivity = this.getTranscriptForTimeRange(sorted, prevEndSec, act.startSec, taxonomy);
+      const duringActivity = this.getTranscriptForTimeRange(sorted, act.startSec, act.endSec, taxonomy);
       const postEndSec = i + 1 < happened.length ? happened[i + 1].startSec : act.endSec + 180;
-      const postActivity = this.getTranscriptForTimeRange(sorted, act.endSec, postEndSec);
+      const postActivity = this.getTranscriptForTimeRange(sorted, act.endSec, postEndSec, taxonomy);
 
       const chatsDuring = chats.filter((c: any) => {
         if (c.userType !== 'STUDENT') return false;
         const ts = this.parseTimeToSeconds(c.createdAtTs || '');
         return ts !== null && ts >= act.startSec && ts <= act.endSec;
       });
-      const confusionDuring = this.detectChatConfusion(chats, act.startSec, act.endSec);
+      const confusionDuring = this.detectChatConfusion(chats, act.startSec, act.endSec, lexicon);
 
       const correctPercent = act.correctness?.percent ?? 0;
       const label = DatabaseStorage.TYPE_NAME_EN[act.activityType] || act.activityType;
@@ -1163,9 +1483,9 @@ export class DatabaseStorage implements IStorage {
 
       const insights: string[] = [];
 
-      if (correctPercent >= 70) {
+      if (correctPercent >= rubric.correctness.strong) {
         insights.push(`Students scored ${correctPercent}% — effective delivery.`);
-      } else if (correctPercent >= 50) {
+      } else if (correctPercent >= rubric.correctness.moderate) {
         insights.push(`Students scored ${correctPercent}% — ${100 - correctPercent}% did not answer correctly.`);
       } else if (correctPercent > 0) {
         insights.push(`Students scored only ${correctPercent}% — the concept was not understood by the majority.`);
@@ -1173,7 +1493,7 @@ export class DatabaseStorage implements IStorage {
 
       if (duringActivity.totalSec > 0 && act.activityType === 'EXIT_TICKET') {
         insights.push(`The teacher was talking for ${entry.duringTeaching.durationMin} min during the exit ticket — this compromises assessment validity.`);
-      } else if (duringActivity.totalSec > 0 && (confusionDuring.confused || correctPercent < 50)) {
+      } else if (duringActivity.totalSec > 0 && (confusionDuring.confused || correctPercent < rubric.correctness.moderate)) {
         insights.push(`The teacher talked for ${entry.duringTeaching.durationMin} min during this activity, which may have interfered — students scored ${correctPercent}%${confusionDuring.confused ? ' with confusion signals in chat' : ''}.`);
       }
 
@@ -1199,8 +1519,14 @@ export class DatabaseStorage implements IStorage {
     sessionCompletedPercent: number,
     avgLearningTime: number,
     feedback: { wentWell: any[]; needsImprovement: any[] },
-    activityAnalyses: any[]
+    activityAnalyses: any[],
+    rubric: ScoringRubric,
+    profile: ResolvedScoringProfile,
+    taxonomy: ResolvedTaxonomy,
+    lexicon: ResolvedLexicon
   ): any {
+    const { correctness, timing, engagement } = rubric;
+    const { passScore, failScore } = profile.config;
     const criteria: any[] = [];
     const teachingTime = session?.teachingTime || 0;
 
@@ -1227,9 +1553,10 @@ export class DatabaseStorage implements IStorage {
         startSec: this.parseTimeToSeconds(t.startTime),
         endSec: this.parseTimeToSeconds(t.endTime),
         text: t.text || '',
+        norm: this.transcriptNorm(t),
       }))
       .filter((t: any) => t.startSec !== null && t.endSec !== null)
-      .sort((a: any, b: any) => a.startSec - b.startSec) as { startSec: number; endSec: number; text: string }[];
+      .sort((a: any, b: any) => a.startSec - b.startSec) as { startSec: number; endSec: number; text: string; norm: string }[];
 
     let totalTeacherTalkSec = 0;
     for (const t of sorted) {
@@ -1240,7 +1567,8 @@ export class DatabaseStorage implements IStorage {
     const continuousSegments = this.buildContinuousBlocks(sorted, 5).map(b => ({
       startSec: b.startSec, endSec: b.endSec, durationSec: b.endSec - b.startSec,
     }));
-    const longSegments = continuousSegments.filter(s => s.durationSec > 120);
+    const longSegments = continuousSegments.filter(s => s.durationSec > timing.longSegmentSec);
+    const longSegmentMin = this.toMin(timing.longSegmentSec);
     const longestSegMin = continuousSegments.length > 0
       ? Math.round(Math.max(...continuousSegments.map(s => s.durationSec)) / 60 * 10) / 10
       : 0;
@@ -1249,13 +1577,13 @@ export class DatabaseStorage implements IStorage {
       ? Math.round(((teachingTime - totalTeacherTalkMin) / teachingTime) * 100)
       : 0;
 
-    const activityTimeline = this.buildActivityTimeline(activities, sorted, chats);
+    const activityTimeline = this.buildActivityTimeline(activities, sorted, chats, rubric, taxonomy, lexicon);
 
-    const teachingClarity = this.buildTeachingClarityEvaluation(sorted);
-    const questioningAnalysis = this.buildQuestioningAnalysis(sorted, chats, activityTimeline);
-    const confusionMoments = this.buildConfusionMoments(sorted, chats);
-    const teachingPatterns = this.buildTeachingPatterns(sorted, activityTimeline, chats, confusionMoments);
-    const teacherCommunication = this.buildTeacherCommunicationInsights(sorted, chats, activityTimeline, session, totalStudents);
+    const teachingClarity = this.buildTeachingClarityEvaluation(sorted, taxonomy, lexicon);
+    const questioningAnalysis = this.buildQuestioningAnalysis(sorted, chats, activityTimeline, lexicon);
+    const confusionMoments = this.buildConfusionMoments(sorted, chats, rubric, taxonomy, lexicon);
+    const teachingPatterns = this.buildTeachingPatterns(sorted, activityTimeline, chats, confusionMoments, rubric, lexicon);
+    const teacherCommunication = this.buildTeacherCommunicationInsights(sorted, chats, activityTimeline, session, totalStudents, rubric, taxonomy, lexicon);
 
     // === 1. Content Mastery and Explanation ===
     let contentScore = 3;
@@ -1266,21 +1594,21 @@ export class DatabaseStorage implements IStorage {
     else if (totalQuestions >= 6) { evidence1.push(`Session included ${totalQuestions} questions`); }
     else { contentScore -= 0.5; evidence1.push(`Only ${totalQuestions} questions — limited content coverage`); }
 
-    if (overallCorrectness >= 70) { contentScore += 0.5; evidence1.push(`Overall correctness ${overallCorrectness}% — strong comprehension`); }
-    else if (overallCorrectness >= 50) { evidence1.push(`Overall correctness ${overallCorrectness}% — moderate comprehension`); }
+    if (overallCorrectness >= correctness.strong) { contentScore += 0.5; evidence1.push(`Overall correctness ${overallCorrectness}% — strong comprehension`); }
+    else if (overallCorrectness >= correctness.moderate) { evidence1.push(`Overall correctness ${overallCorrectness}% — moderate comprehension`); }
     else { contentScore -= 0.5; evidence1.push(`Overall correctness ${overallCorrectness}% — content comprehension issues`); }
 
-    const highQs = (pollStats.byQuestion || []).filter((q: any) => q.percent >= 70).length;
-    const lowQs = (pollStats.byQuestion || []).filter((q: any) => q.percent < 40).length;
-    if (highQs >= totalQuestions * 0.5) { contentScore += 0.5; evidence1.push(`${highQs}/${totalQuestions} questions above 70% — content delivered well`); }
-    if (lowQs >= totalQuestions * 0.3) { contentScore -= 0.5; evidence1.push(`${lowQs}/${totalQuestions} questions below 40% — several concepts not well understood`); }
+    const highQs = (pollStats.byQuestion || []).filter((q: any) => q.percent >= correctness.strong).length;
+    const lowQs = (pollStats.byQuestion || []).filter((q: any) => q.percent < correctness.low).length;
+    if (highQs >= totalQuestions * 0.5) { contentScore += 0.5; evidence1.push(`${highQs}/${totalQuestions} questions above ${correctness.strong}% — content delivered well`); }
+    if (lowQs >= totalQuestions * 0.3) { contentScore -= 0.5; evidence1.push(`${lowQs}/${totalQuestions} questions below ${correctness.low}% — several concepts not well understood`); }
 
     for (const atl of activityTimeline) {
       if (atl.preTeaching.durationMin > 0) {
-        const effectiveness = atl.correctPercent >= 70 ? "effective" : atl.correctPercent >= 50 ? "partially effective" : "not effective";
+        const effectiveness = atl.correctPercent >= correctness.strong ? "effective" : atl.correctPercent >= correctness.moderate ? "partially effective" : "not effective";
         comments1.push(`Before ${atl.label} (${atl.startTime}): ${atl.preTeaching.durationMin} min of explanation. Result: ${atl.correctPercent}% correct — delivery was ${effectiveness}.`);
       }
-      if (atl.correctPercent > 0 && atl.correctPercent < 40) {
+      if (atl.correctPercent > 0 && atl.correctPercent < correctness.low) {
         comments1.push(`${atl.label} scored only ${atl.correctPercent}%. The explanation before this activity did not achieve comprehension. A different teaching approach (examples, analogies, visual aids) is needed.`);
       }
     }
@@ -1293,8 +1621,8 @@ export class DatabaseStorage implements IStorage {
       score: contentScore,
       evidence: evidence1,
       comments: comments1,
-      recommendations: contentScore < 4 ? [
-        lowQs > 0 ? "Re-explain concepts that scored below 40% using different approaches (examples, analogies)" : "",
+      recommendations: contentScore < passScore ? [
+        lowQs > 0 ? `Re-explain concepts that scored below ${correctness.low}% using different approaches (examples, analogies)` : "",
         overallCorrectness < 60 ? "Slow down explanations and add more worked examples before checking understanding" : "",
         totalQuestions < 8 ? "Add more comprehension check questions during the session" : "",
       ].filter(Boolean) : ["Explanations are consistently accurate and clear. Maintain current teaching quality level."],
@@ -1306,21 +1634,21 @@ export class DatabaseStorage implements IStorage {
     const evidence2: string[] = [];
     const comments2: string[] = [];
 
-    if (responseRate >= 85) { engScore += 0.5; evidence2.push(`Response rate ${responseRate}% — high participation`); }
-    else if (responseRate >= 70) { evidence2.push(`Response rate ${responseRate}%`); }
+    if (responseRate >= engagement.highResponseRate) { engScore += 0.5; evidence2.push(`Response rate ${responseRate}% — high participation`); }
+    else if (responseRate >= engagement.minResponseRate) { evidence2.push(`Response rate ${responseRate}%`); }
     else { engScore -= 0.5; evidence2.push(`Response rate ${responseRate}% — many students did not respond`); }
 
-    if (sessionTemperature >= 80) { engScore += 0.5; evidence2.push(`Session temperature ${sessionTemperature}% — high engagement`); }
-    else if (sessionTemperature >= 60) { evidence2.push(`Session temperature ${sessionTemperature}%`); }
+    if (sessionTemperature >= engagement.highTemperature) { engScore += 0.5; evidence2.push(`Session temperature ${sessionTemperature}% — high engagement`); }
+    else if (sessionTemperature >= engagement.minTemperature) { evidence2.push(`Session temperature ${sessionTemperature}%`); }
     else { engScore -= 0.5; evidence2.push(`Session temperature ${sessionTemperature}% — low engagement`); }
 
     const chatParticipationRate = totalStudents > 0 ? Math.round((uniqueChatStudents / totalStudents) * 100) : 0;
-    if (chatParticipationRate >= 20) { engScore += 0.5; evidence2.push(`${uniqueChatStudents} students (${chatParticipationRate}%) participated in chat`); }
-    else if (chatParticipationRate >= 10) { evidence2.push(`${uniqueChatStudents} students (${chatParticipationRate}%) participated in chat`); }
+    if (chatParticipationRate >= engagement.highChatParticipation) { engScore += 0.5; evidence2.push(`${uniqueChatStudents} students (${chatParticipationRate}%) participated in chat`); }
+    else if (chatParticipationRate >= engagement.minChatParticipation) { evidence2.push(`${uniqueChatStudents} students (${chatParticipationRate}%) participated in chat`); }
     else { engScore -= 0.5; evidence2.push(`Only ${uniqueChatStudents} students (${chatParticipationRate}%) used chat — low engagement`); }
 
-    if (positivePercent >= 80) { engScore += 0.5; evidence2.push(`Positive sentiment ${positivePercent}% (${positiveUsers}/${totalSentiment})`); }
-    else if (positivePercent >= 60) { evidence2.push(`Positive sentiment ${positivePercent}%`); }
+    if (positivePercent >= engagement.highPositiveSentiment) { engScore += 0.5; evidence2.push(`Positive sentiment ${positivePercent}% (${positiveUsers}/${totalSentiment})`); }
+    else if (positivePercent >= engagement.minPositiveSentiment) { evidence2.push(`Positive sentiment ${positivePercent}%`); }
     else { engScore -= 0.5; evidence2.push(`Only ${positivePercent}% positive sentiment — students are not engaged or enjoying the session`); }
 
     const confusedActivities = activityTimeline.filter(a => a.confusionDetected);
@@ -1335,7 +1663,7 @@ export class DatabaseStorage implements IStorage {
       if (chatTs === null) return false;
       const hasReply = teacherChats.some(r => {
         const rTs = this.parseTimeToSeconds(r.createdAtTs || '');
-        return rTs !== null && rTs > chatTs && rTs < chatTs + 120;
+        return rTs !== null && rTs > chatTs && rTs < chatTs + timing.chatReplyWindowSec;
       });
       return !hasReply;
     });
@@ -1358,10 +1686,10 @@ export class DatabaseStorage implements IStorage {
       score: engScore,
       evidence: evidence2,
       comments: comments2,
-      recommendations: engScore < 4 ? [
-        responseRate < 80 ? "Encourage all students to respond to polls — give them enough time" : "",
-        chatParticipationRate < 15 ? "Ask students to reply in chat for comprehension check questions" : "",
-        sessionTemperature < 70 ? "Increase engagement using more interactive elements and positive reinforcement" : "",
+      recommendations: engScore < passScore ? [
+        responseRate < engagement.recommendResponseRate ? "Encourage all students to respond to polls — give them enough time" : "",
+        chatParticipationRate < engagement.recommendChatParticipation ? "Ask students to reply in chat for comprehension check questions" : "",
+        sessionTemperature < engagement.recommendTemperature ? "Increase engagement using more interactive elements and positive reinforcement" : "",
         confusedActivities.length > 0 ? "When students express confusion in chat, pause and address their questions before continuing" : "",
       ].filter(Boolean) : ["Continue reinforcing student engagement and motivation"],
       notes: `${totalStudents} students, response rate ${responseRate}%, temperature ${sessionTemperature}%, ${confusedActivities.length} confusion events`,
@@ -1378,14 +1706,15 @@ export class DatabaseStorage implements IStorage {
 
     if (longSegments.length === 0) {
       commScore += 0.5;
-      evidence3.push(`All talk segments under 2 minutes — good pacing and interaction`);
+      evidence3.push(`All talk segments under ${longSegmentMin} minutes — good pacing and interaction`);
       comments3.push(`The teacher maintains good variation in delivery, breaking explanations with interaction points. This keeps students attentive.`);
     } else {
       commScore -= 0.5;
-      evidence3.push(`${longSegments.length} talk segments exceeded 2 minutes — should break with interaction`);
+      evidence3.push(`${longSegments.length} talk segments exceeded ${longSegmentMin} minutes — should break with interaction`);
       for (const seg of longSegments.slice(0, 3)) {
         const segTopics = this.extractTopics(
-          sorted.filter(t => t.startSec >= seg.startSec && t.endSec <= seg.endSec).map(t => t.text)
+          sorted.filter(t => t.startSec >= seg.startSec && t.endSec <= seg.endSec).map(t => t.norm),
+          taxonomy
         );
         const dMin = Math.round(seg.durationSec / 60 * 10) / 10;
         comments3.push(`Long uninterrupted talk: ${this.formatTime(seg.startSec)}–${this.formatTime(seg.endSec)} (${dMin} min). Break this with a student check-in or chat prompt.`);
@@ -1410,9 +1739,9 @@ export class DatabaseStorage implements IStorage {
       score: commScore,
       evidence: evidence3,
       comments: comments3,
-      recommendations: commScore < 4 ? [
+      recommendations: commScore < passScore ? [
         teacherChats.length < 3 ? "Engage more with student questions in chat" : "",
-        longSegments.length > 0 ? "Break long talk segments with student interaction every 2 minutes" : "",
+        longSegments.length > 0 ? `Break long talk segments with student interaction every ${longSegmentMin} minutes` : "",
         "Vary tone and energy levels throughout the session to maintain student attention",
       ].filter(Boolean) : ["Communication is clear and energetic with strong virtual presence"],
       notes: `${teacherChats.length} teacher messages, longest segment ${longestSegMin} min, ${toneVariation} talk segments`,
@@ -1422,7 +1751,7 @@ export class DatabaseStorage implements IStorage {
     let timeScore = 3;
     const evidence4: string[] = [];
     const comments4: string[] = [];
-    const scheduledDuration = 45;
+    const scheduledDuration = timing.scheduledSessionMin;
     const actualDuration = Math.round(teachingTime);
     const totalActivities = activities.length;
     const completedActivities = happenedActivities.length;
@@ -1443,37 +1772,37 @@ export class DatabaseStorage implements IStorage {
       else { timeScore -= 0.5; evidence4.push(`Only ${completedActivities}/${totalActivities} activities completed (${actCompRate}%) — lesson plan not fully executed`); }
     }
 
-    if (totalTeacherTalkMin <= 15) {
-      timeScore += 0.5; evidence4.push(`Teacher talk ${totalTeacherTalkMin} min — within 15 min limit`);
-    } else if (totalTeacherTalkMin <= 20) {
-      evidence4.push(`Teacher talk ${totalTeacherTalkMin} min — slightly above 15 min target`);
+    if (totalTeacherTalkMin <= timing.maxTeacherTalkMin) {
+      timeScore += 0.5; evidence4.push(`Teacher talk ${totalTeacherTalkMin} min — within ${timing.maxTeacherTalkMin} min limit`);
+    } else if (totalTeacherTalkMin <= timing.maxTeacherTalkMin + timing.teacherTalkToleranceMin) {
+      evidence4.push(`Teacher talk ${totalTeacherTalkMin} min — slightly above ${timing.maxTeacherTalkMin} min target`);
     } else {
-      timeScore -= 0.5; evidence4.push(`Teacher talk ${totalTeacherTalkMin} min — significantly exceeds 15 min limit`);
+      timeScore -= 0.5; evidence4.push(`Teacher talk ${totalTeacherTalkMin} min — significantly exceeds ${timing.maxTeacherTalkMin} min limit`);
     }
 
-    if (studentActivePercent >= 60) {
+    if (studentActivePercent >= engagement.highStudentActivePercent) {
       evidence4.push(`${studentActivePercent}% of time was student activity — excellent balance`);
-    } else if (studentActivePercent >= 45) {
+    } else if (studentActivePercent >= engagement.minStudentActivePercent) {
       evidence4.push(`${studentActivePercent}% student activity time`);
     } else {
       timeScore -= 0.5; evidence4.push(`Only ${studentActivePercent}% student activity time — teacher-dominated session`);
     }
 
     const avgLearningTimeMin = Math.round(avgLearningTime * 10) / 10;
-    if (sessionCompletedPercent >= 80) {
+    if (sessionCompletedPercent >= engagement.highSessionCompletion) {
       evidence4.push(`Session completion rate ${sessionCompletedPercent}% — students kept up with the pace`);
-    } else if (sessionCompletedPercent < 60) {
+    } else if (sessionCompletedPercent < engagement.minSessionCompletion) {
       timeScore -= 0.5; evidence4.push(`Only ${sessionCompletedPercent}% session completion — the pacing is too fast for students to keep up`);
     }
 
     for (const atl of activityTimeline) {
-      if (atl.preTeaching.durationMin > 3 && atl.correctPercent >= 75) {
+      if (atl.preTeaching.durationMin > 3 && atl.correctPercent >= correctness.overExplained) {
         comments4.push(`${atl.preTeaching.durationMin} min of explanation before ${atl.label} (${atl.startTime}), but students scored ${atl.correctPercent}% — explanation was longer than needed. Consider reducing to allow more activity time.`);
       }
-      if (atl.postTeaching.durationMin > 2 && atl.correctPercent >= 75) {
+      if (atl.postTeaching.durationMin > 2 && atl.correctPercent >= correctness.overExplained) {
         comments4.push(`${atl.postTeaching.durationMin} min of explanation after ${atl.label} (${atl.correctPercent}% correct) — since students scored well, this post-activity time is excessive. Move on quickly when comprehension is high.`);
       }
-      if (atl.preTeaching.durationMin < 0.5 && atl.correctPercent < 50) {
+      if (atl.preTeaching.durationMin < 0.5 && atl.correctPercent < correctness.moderate) {
         comments4.push(`Only ${atl.preTeaching.durationMin} min of explanation before ${atl.label} (${atl.startTime}), which scored ${atl.correctPercent}%. Insufficient preparation time directly contributed to the low score.`);
       }
     }
@@ -1485,7 +1814,7 @@ export class DatabaseStorage implements IStorage {
       const currentEndSec = this.parseTimeToSeconds(current.endTime) || 0;
       const nextStartSec = this.parseTimeToSeconds(next.startTime) || 0;
       const gapMin = Math.round((nextStartSec - currentEndSec) / 60 * 10) / 10;
-      if (gapMin > 5) {
+      if (gapMin > timing.transitionGapMin) {
         transitionGaps.push(`${gapMin} min gap between ${current.label} and ${next.label}`);
       }
     }
@@ -1501,11 +1830,11 @@ export class DatabaseStorage implements IStorage {
       score: timeScore,
       evidence: evidence4,
       comments: comments4,
-      recommendations: timeScore < 4 ? [
-        totalTeacherTalkMin > 15 ? "Reduce teacher talk to under 15 min to allow more student practice time" : "",
-        studentActivePercent < 50 ? "Increase student activity time — aim for at least 50% of the session" : "",
+      recommendations: timeScore < passScore ? [
+        totalTeacherTalkMin > timing.maxTeacherTalkMin ? `Reduce teacher talk to under ${timing.maxTeacherTalkMin} min to allow more student practice time` : "",
+        studentActivePercent < engagement.targetStudentActivePercent ? `Increase student activity time — aim for at least ${engagement.targetStudentActivePercent}% of the session` : "",
         completedActivities < totalActivities ? "Ensure all planned activities are completed within session time" : "",
-        sessionCompletedPercent < 70 ? "Slow down pacing so more students can keep up" : "",
+        sessionCompletedPercent < engagement.recommendSessionCompletion ? "Slow down pacing so more students can keep up" : "",
       ].filter(Boolean) : ["Time management is effective with smooth transitions between activities"],
       notes: `Session ${actualDuration} min, talk ${totalTeacherTalkMin} min, ${completedActivities}/${totalActivities} activities, ${studentActivePercent}% student time, avg learning ${avgLearningTimeMin} min`,
     });
@@ -1535,7 +1864,7 @@ export class DatabaseStorage implements IStorage {
       }
     }
 
-    const lowCorrAfterLongExplain = activityTimeline.filter(a => a.preTeaching.durationMin > 2 && a.correctPercent < 40);
+    const lowCorrAfterLongExplain = activityTimeline.filter(a => a.preTeaching.durationMin > 2 && a.correctPercent < correctness.low);
     for (const lc of lowCorrAfterLongExplain) {
       errorCount++;
       comments5.push(`Despite ${lc.preTeaching.durationMin} min of explanation before ${lc.label}, students scored only ${lc.correctPercent}%. The explanation was unclear or ineffective. The teacher needs to try a different approach (examples, visual aids, step-by-step) to reteach it.`);
@@ -1569,7 +1898,7 @@ export class DatabaseStorage implements IStorage {
       score: errorScore,
       evidence: evidence5,
       comments: comments5,
-      recommendations: errorScore < 4 ? [
+      recommendations: errorScore < passScore ? [
         exitTicketInstance?.teacherTalkDuring ? "Do not talk during the exit ticket — let students answer independently" : "",
         errorCount > 0 ? "Review concepts with low correctness and verify your own understanding before re-teaching" : "",
         tmImprovements.length > 0 ? "Review time allocation after each activity based on student correctness rate" : "",
@@ -1593,11 +1922,11 @@ export class DatabaseStorage implements IStorage {
       evidence6.push(`Strongest question achieved ${bestQuestion.percent}% correctness — effective teaching for this concept`);
     }
 
-    if (sessionTemperature >= 80 && positivePercent >= 80) {
+    if (sessionTemperature >= engagement.highTemperature && positivePercent >= engagement.highPositiveSentiment) {
       evidence6.push(`High temperature (${sessionTemperature}%) with ${positivePercent}% positive sentiment — students were enthusiastic`);
     }
 
-    const highCorrActivities = activityTimeline.filter(a => a.correctPercent >= 80);
+    const highCorrActivities = activityTimeline.filter(a => a.correctPercent >= correctness.excellent);
     for (const hca of highCorrActivities) {
       comments6.push(`${hca.label} (${hca.startTime}) achieved ${hca.correctPercent}% correctness — effective delivery. The explanation was clear and well-paced.`);
     }
@@ -1607,8 +1936,8 @@ export class DatabaseStorage implements IStorage {
       comments6.push(`Good decision: ${gf.detail}`);
     }
 
-    if (longSegments.length === 0 && totalTeacherTalkMin <= 15) {
-      comments6.push(`The teacher maintained excellent pacing throughout — all talk segments under 2 minutes and total talk time within the 15-minute limit. This is a significant strength.`);
+    if (longSegments.length === 0 && totalTeacherTalkMin <= timing.maxTeacherTalkMin) {
+      comments6.push(`The teacher maintained excellent pacing throughout — all talk segments under ${longSegmentMin} minutes and total talk time within the ${timing.maxTeacherTalkMin}-minute limit. This is a significant strength.`);
     }
 
     if (comments6.length === 0) {
@@ -1623,7 +1952,7 @@ export class DatabaseStorage implements IStorage {
       score: distinctScore,
       evidence: evidence6,
       comments: comments6,
-      recommendations: distinctScore < 4 ? [
+      recommendations: distinctScore < passScore ? [
         "Create memorable learning moments through stories or real-world connections",
         "Celebrate student successes publicly to boost motivation",
       ] : ["Continue creating impactful teaching moments"],
@@ -1631,19 +1960,22 @@ export class DatabaseStorage implements IStorage {
     });
 
     // === 7. General Evaluation and Quality ===
-    const avgOfAll = Math.round((contentScore + engScore + commScore + timeScore + errorScore + distinctScore) / 6 * 2) / 2;
+    const scoredCriteria = criteria.filter((c: any) => profile.config.criteria[String(c.id) as QACriterionId].enabled);
+    const criterionScores = Object.fromEntries(scoredCriteria.map((c: any) => [String(c.id), c.score]));
+    const avgOfAll = Math.round(weightedScore(criterionScores, profile.config) * 2) / 2;
     const overallScore = Math.max(1, Math.min(5, avgOfAll));
     const evidence7: string[] = [];
     const comments7: string[] = [];
 
-    if (overallScore >= 4) { evidence7.push("The session was strong overall — most criteria met or exceeded expectations"); }
-    else if (overallScore >= 3) { evidence7.push("The session met basic expectations with room for improvement in specific areas"); }
+    if (overallScore >= passScore) { evidence7.push("The session was strong overall — most criteria met or exceeded expectations"); }
+    else if (overallScore >= failScore) { evidence7.push("The session met basic expectations with room for improvement in specific areas"); }
     else { evidence7.push("The session needs significant improvement across multiple criteria"); }
 
-    evidence7.push(`Average across 6 criteria: ${overallScore}/5`);
+    const isWeighted = scoredCriteria.some((c: any) => profile.config.criteria[String(c.id) as QACriterionId].weight !== 1);
+    evidence7.push(`${isWeighted ? "Weighted average" : "Average"} across ${scoredCriteria.length} criteria: ${overallScore}/5`);
 
-    const strongAreas = criteria.filter((c: any) => c.score >= 4).map((c: any) => c.nameEn);
-    const weakAreas = criteria.filter((c: any) => c.score < 3).map((c: any) => c.nameEn);
+    const strongAreas = scoredCriteria.filter((c: any) => c.score >= passScore).map((c: any) => c.nameEn);
+    const weakAreas = scoredCriteria.filter((c: any) => c.score < failScore).map((c: any) => c.nameEn);
     if (strongAreas.length > 0) evidence7.push(`Strengths: ${strongAreas.join(', ')}`);
     if (weakAreas.length > 0) evidence7.push(`Areas for improvement: ${weakAreas.join(', ')}`);
 
@@ -1668,11 +2000,20 @@ export class DatabaseStorage implements IStorage {
       notes: `Average: ${overallScore}/5 | Strong: ${strongAreas.length} | Weak: ${weakAreas.length}`,
     });
 
-    const overallAvg = Math.round(criteria.reduce((s: number, c: any) => s + c.score, 0) / criteria.length * 10) / 10;
+    const enabledCriteria = criteria
+      .filter((c: any) => profile.config.criteria[String(c.id) as QACriterionId].enabled)
+      .map((c: any) => ({ ...c, weight: profile.config.criteria[String(c.id) as QACriterionId].weight }));
+    const overallAvg = Math.round(
+      weightedScore(Object.fromEntries(enabledCriteria.map((c: any) => [String(c.id), c.score])), profile.config) * 10
+    ) / 10;
 
     return {
-      criteria,
+      criteria: enabledCriteria,
       overallScore: overallAvg,
+      profile: { id: profile.id, name: profile.name, updatedAt: profile.updatedAt },
+      bands: { passScore, failScore },
+      strongAreas,
+      weakAreas,
       activityTimeline,
       transcriptAnalysis: {
         teachingClarity,
@@ -1702,11 +2043,15 @@ export class DatabaseStorage implements IStorage {
     chats: SessionChat[],
     totalStudents: number,
     feedback: { wentWell: any[]; needsImprovement: any[] },
-    allPolls: UserPoll[]
+    allPolls: UserPoll[],
+    rubric: ScoringRubric,
+    taxonomy: ResolvedTaxonomy,
+    lexicon: ResolvedLexicon
   ): Promise<any[]> {
     const canonicalOrder = ['SECTION_CHECK', 'TEAM_EXERCISE', 'EXIT_TICKET'];
     const typeOrder: Record<string, number> = { SECTION_CHECK: 0, TEAM_EXERCISE: 1, EXIT_TICKET: 2 };
     const analyses: any[] = [];
+    const studentTotals = this.computeStudentTotals(allPolls);
 
     const grouped: Record<string, any[]> = {};
     for (const act of activities) {
@@ -1722,7 +2067,7 @@ export class DatabaseStorage implements IStorage {
       const instances: any[] = [];
       for (const act of typeActivities) {
         const instance = this.generateSingleActivityAnalysis(
-          act, transcripts, chats, totalStudents, allPolls
+          act, transcripts, chats, totalStudents, allPolls, studentTotals, rubric, taxonomy, lexicon
         );
 
         const relatedWell = feedback.wentWell.filter(f => f.activityId === act.activityId);
@@ -1739,7 +2084,7 @@ export class DatabaseStorage implements IStorage {
       const typeLabel = pluralLabels[actType] || actType;
 
       if (actType === 'SECTION_CHECK' && instances.length > 0) {
-        const combined = this.combineSectionChecks(instances, totalStudents);
+        const combined = this.combineSectionChecks(instances, totalStudents, rubric);
         analyses.push({
           activityType: actType,
           label: typeLabel,
@@ -1762,7 +2107,7 @@ export class DatabaseStorage implements IStorage {
     return analyses;
   }
 
-  private combineSectionChecks(instances: any[], totalStudents: number): any {
+  private combineSectionChecks(instances: any[], totalStudents: number, rubric: ScoringRubric): any {
     const count = instances.length;
     const totalDurationMin = instances.reduce((s, i) => s + (i.durationMin || 0), 0);
     const totalPlannedMin = instances.reduce((s, i) => s + (i.plannedDurationMin || 0), 0);
@@ -1786,16 +2131,16 @@ export class DatabaseStorage implements IStorage {
 
     const insights: string[] = [];
 
-    const lowQs = allQuestions.filter(q => q.percent < 40);
-    const highQs = allQuestions.filter(q => q.percent >= 80);
+    const lowQs = allQuestions.filter(q => q.percent < rubric.correctness.low);
+    const highQs = allQuestions.filter(q => q.percent >= rubric.correctness.excellent);
     if (lowQs.length > 0) {
-      insights.push(`${lowQs.length} out of ${allQuestions.length} questions had very low correctness (below 40%) — these topics need re-explanation.`);
+      insights.push(`${lowQs.length} out of ${allQuestions.length} questions had very low correctness (below ${rubric.correctness.low}%) — these topics need re-explanation.`);
     }
 
     const avgCompletionRate = count > 0
       ? Math.round(instances.reduce((s, i) => s + (i.studentsWhoAnswered / totalStudents * 100), 0) / count)
       : 0;
-    if (avgCompletionRate < 80) {
+    if (avgCompletionRate < rubric.engagement.minActivityCompletion) {
       insights.push(`Average section check completion rate was ${avgCompletionRate}% — indicating some students ran out of time.`);
     }
 
@@ -1805,7 +2150,7 @@ export class DatabaseStorage implements IStorage {
       insights.push(`The teacher was talking during ${teacherTalkInstances.length} out of ${count} section checks (${totalOverlap} min total).`);
     }
 
-    if (avgCorrectness < 50) {
+    if (avgCorrectness < rubric.correctness.moderate) {
       insights.push(`Overall correctness across all section checks is low at ${avgCorrectness}% — the teaching approach failed to convey the material effectively and needs a complete rework.`);
     }
 
@@ -1846,21 +2191,114 @@ export class DatabaseStorage implements IStorage {
     return Math.round(seconds / 60 * 10) / 10;
   }
 
+  /** Question text as exported is HTML; strip it down to plain text. */
+  private cleanQuestionText(text: string): string {
+    return text.replace(/<[^>]*>/g, ' ').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim();
+  }
+
+  /** Each student's number of correct poll answers across the whole session. */
+  private computeStudentTotals(allPolls: UserPoll[]): Map<number, number> {
+    const totals = new Map<number, number>();
+    for (const p of allPolls) {
+      if (p.userId === null) continue;
+      totals.set(p.userId, (totals.get(p.userId) || 0) + (p.pollAnswered && p.isCorrectAnswer ? 1 : 0));
+    }
+    return totals;
+  }
+
+  /**
+   * Classical item analysis for one question. Examinees are the students who
+   * saw it; a seen but unanswered item scores 0. Difficulty is the share who
+   * got it right, discrimination compares the top and bottom 27% of students,
+   * and the point-biserial correlates the item with the score. Both rank by
+   * each student's session total with the item itself excluded, so the item
+   * does not inflate its own statistics.
+   */
+  private analyzeItem(
+    questionPolls: UserPoll[],
+    studentTotals: Map<number, number>,
+    totalStudents: number,
+    rubric: ScoringRubric
+  ): any {
+    const { tooEasyPercent, tooHardPercent, minDiscriminationPoints, minExaminees } = rubric.itemAnalysis;
+    const byStudent = new Map<number, { answered: boolean; score: number }>();
+    for (const p of questionPolls) {
+      if (p.userId === null || !p.pollSeen) continue;
+      const entry = byStudent.get(p.userId) || { answered: false, score: 0 };
+      if (p.pollAnswered) entry.answered = true;
+      if (p.pollAnswered && p.isCorrectAnswer) entry.score = 1;
+      byStudent.set(p.userId, entry);
+    }
+
+    const examinees = Array.from(byStudent.entries()).map(([userId, e]) => ({
+      score: e.score,
+      answered: e.answered,
+      rest: (studentTotals.get(userId) || 0) - e.score,
+    }));
+    const n = examinees.length;
+    const round2 = (v: number) => Math.round(v * 100) / 100;
+    const mean = (list: number[]) => list.reduce((s, v) => s + v, 0) / list.length;
+
+    const difficulty = n > 0 ? mean(examinees.map(e => e.score)) : null;
+
+    let discrimination: number | null = null;
+    let pointBiserial: number | null = null;
+    if (n >= minExaminees) {
+      const ranked = [...examinees].sort((a, b) => b.rest - a.rest);
+      const groupSize = Math.max(1, Math.round(n * 0.27));
+      const upper = mean(ranked.slice(0, groupSize).map(e => e.score));
+      const lower = mean(ranked.slice(n - groupSize).map(e => e.score));
+      discrimination = round2(upper - lower);
+
+      const rest = examinees.map(e => e.rest);
+      const restMean = mean(rest);
+      const sd = Math.sqrt(mean(rest.map(r => (r - restMean) ** 2)));
+      const right = examinees.filter(e => e.score === 1).map(e => e.rest);
+      const wrong = examinees.filter(e => e.score === 0).map(e => e.rest);
+      if (sd > 0 && right.length > 0 && wrong.length > 0) {
+        const p = right.length / n;
+        pointBiserial = round2((mean(right) - mean(wrong)) / sd * Math.sqrt(p * (1 - p)));
+      }
+    }
+
+    const flags: string[] = [];
+    if (difficulty !== null) {
+      if (difficulty * 100 >= tooEasyPercent) flags.push('too_easy');
+      else if (difficulty * 100 < tooHardPercent) flags.push('too_hard');
+    }
+    if (discrimination !== null && discrimination * 100 < minDiscriminationPoints) flags.push('non_discriminating');
+
+    return {
+      examinees: n,
+      difficulty: difficulty !== null ? round2(difficulty) : null,
+      discrimination,
+      pointBiserial,
+      seenRate: totalStudents > 0 ? Math.round(n / totalStudents * 100) : 0,
+      responseRate: n > 0 ? Math.round(examinees.filter(e => e.answered).length / n * 100) : 0,
+      flags,
+    };
+  }
+
   private generateSingleActivityAnalysis(
     act: any,
     transcripts: SessionTranscript[],
     chats: SessionChat[],
     totalStudents: number,
-    allPolls: UserPoll[]
+    allPolls: UserPoll[],
+    studentTotals: Map<number, number>,
+    rubric: ScoringRubric,
+    taxonomy: ResolvedTaxonomy,
+    lexicon: ResolvedLexicon
   ): any {
     const actPolls = allPolls.filter(p => p.classroomActivityId === act.activityId);
 
-    const byQuestion: Record<string, { text: string; seen: number; answered: number; correct: number }> = {};
+    const byQuestion: Record<string, { text: string; seen: number; answered: number; correct: number; polls: UserPoll[] }> = {};
     for (const p of actPolls) {
       const qId = String(p.questionId || 'unknown');
       if (!byQuestion[qId]) {
-        byQuestion[qId] = { text: p.questionText || '', seen: 0, answered: 0, correct: 0 };
+        byQuestion[qId] = { text: p.questionText || '', seen: 0, answered: 0, correct: 0, polls: [] };
       }
+      byQuestion[qId].polls.push(p);
       if (p.pollSeen) byQuestion[qId].seen++;
       if (p.pollAnswered) {
         byQuestion[qId].answered++;
@@ -1873,11 +2311,12 @@ export class DatabaseStorage implements IStorage {
       startSec: this.parseTimeToSeconds(t.startTime || ''),
       endSec: this.parseTimeToSeconds(t.endTime || ''),
       text: t.text || '',
-    })).filter(t => t.startSec !== null && t.endSec !== null) as { startSec: number; endSec: number; text: string }[];
+      norm: this.transcriptNorm(t),
+    })).filter(t => t.startSec !== null && t.endSec !== null) as { startSec: number; endSec: number; text: string; norm: string }[];
 
     let preTeachDurationMin = 0;
     let preTeachTopics = '';
-    let preTeachSegments: { startSec: number; endSec: number; text: string }[] = [];
+    let preTeachSegments: { startSec: number; endSec: number; text: string; norm: string }[] = [];
     if (actStartSec !== null) {
       preTeachSegments = transcriptTimed.filter(t =>
         t.endSec <= actStartSec && t.startSec >= actStartSec - 300
@@ -1885,16 +2324,16 @@ export class DatabaseStorage implements IStorage {
       if (preTeachSegments.length > 0) {
         const totalSec = preTeachSegments.reduce((s, t) => s + (t.endSec - t.startSec), 0);
         preTeachDurationMin = Math.round(totalSec / 60 * 10) / 10;
-        preTeachTopics = this.extractTopics(preTeachSegments.map(t => t.text));
+        preTeachTopics = this.extractTopics(preTeachSegments.map(t => t.norm), taxonomy);
       }
     }
 
     const preTeachVerdict = this.buildExplanationVerdict(
-      preTeachSegments, chats, actStartSec, preTeachDurationMin, preTeachTopics
+      preTeachSegments, chats, actStartSec, preTeachDurationMin, preTeachTopics, lexicon
     );
 
     const questions = Object.entries(byQuestion).map(([id, q]) => {
-      const cleanText = q.text.replace(/<[^>]*>/g, ' ').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim();
+      const cleanText = this.cleanQuestionText(q.text);
       const percent = q.answered > 0 ? Math.round((q.correct / q.answered) * 100) : 0;
       const notAnswered = q.seen - q.answered;
 
@@ -1907,17 +2346,17 @@ export class DatabaseStorage implements IStorage {
         }
       }
 
-      if (percent >= 80) {
+      if (percent >= rubric.correctness.excellent) {
         insights.push(`Strong result — most students understood this concept well.`);
       } else if (percent >= 60) {
         insights.push(`Acceptable, but some students struggled — schedule a quick review next session.`);
-      } else if (percent >= 40) {
+      } else if (percent >= rubric.correctness.low) {
         insights.push(`Low correctness — this topic needs additional explanation or re-teaching next session.`);
       } else if (q.answered > 0) {
         insights.push(`Very low correctness — the concept was not understood by the majority.`);
       }
 
-      const verdictForQuestion = this.buildQuestionSpecificVerdict(percent, preTeachDurationMin, preTeachVerdict);
+      const verdictForQuestion = this.buildQuestionSpecificVerdict(percent, preTeachDurationMin, preTeachVerdict, rubric);
 
       return {
         questionId: id,
@@ -1930,6 +2369,7 @@ export class DatabaseStorage implements IStorage {
         teacherExplanationMin: preTeachDurationMin,
         teacherExplanationTopic: preTeachTopics,
         teacherExplanationVerdict: verdictForQuestion,
+        itemAnalysis: this.analyzeItem(q.polls, studentTotals, totalStudents, rubric),
       };
     });
 
@@ -1946,6 +2386,7 @@ export class DatabaseStorage implements IStorage {
       startSec: this.parseTimeToSeconds(t.startTime || ''),
       endSec: this.parseTimeToSeconds(t.endTime || ''),
       text: t.text || '',
+      norm: this.transcriptNorm(t),
     }));
 
     if (etStartSec !== null && etEndSec !== null) {
@@ -1962,7 +2403,7 @@ export class DatabaseStorage implements IStorage {
           const overlapEnd = Math.min(t.endSec!, etEndSec);
           if (overlapEnd > overlapStart) totalOverlapSec += (overlapEnd - overlapStart);
         }
-        teacherTalkTopics = this.extractTopics(overlapping.map(t => t.text));
+        teacherTalkTopics = this.extractTopics(overlapping.map(t => t.norm), taxonomy);
         teacherTalkOverlapMin = Math.round(totalOverlapSec / 60 * 10) / 10;
       }
     }
@@ -1974,7 +2415,7 @@ export class DatabaseStorage implements IStorage {
     }
 
     const overallPercent = act.correctness?.percent ?? 0;
-    if (overallPercent < 50 && overallPercent > 0) {
+    if (overallPercent < rubric.correctness.moderate && overallPercent > 0) {
       overallInsights.push(`Overall correctness is low at ${overallPercent}% — the content delivery failed and requires a different explanation approach.`);
     }
 
@@ -1988,7 +2429,7 @@ export class DatabaseStorage implements IStorage {
     }
 
     const completionRate = totalStudents > 0 ? Math.round((totalAnswered / totalStudents) * 100) : 0;
-    if (completionRate < 80) {
+    if (completionRate < rubric.engagement.minActivityCompletion) {
       overallInsights.push(`Only ${completionRate}% of students completed this activity — ${100 - completionRate}% ran out of time or lost engagement.`);
     }
 
@@ -2004,7 +2445,7 @@ export class DatabaseStorage implements IStorage {
         const hasTeacherReply = chats.some(r => {
           if (r.userType === 'STUDENT') return false;
           const rTs = this.parseTimeToSeconds(r.createdAtTs || '');
-          return rTs !== null && rTs > chatTs && rTs < chatTs + 120;
+          return rTs !== null && rTs > chatTs && rTs < chatTs + rubric.timing.chatReplyWindowSec;
         });
         return !hasTeacherReply;
       });
@@ -2013,9 +2454,9 @@ export class DatabaseStorage implements IStorage {
       }
     }
 
-    const highCorrectQs = questions.filter(q => q.percent >= 80);
+    const highCorrectQs = questions.filter(q => q.percent >= rubric.correctness.excellent);
     if (highCorrectQs.length > 0 && teacherTalkDuring && act.activityType === 'EXIT_TICKET') {
-      overallInsights.push(`${highCorrectQs.length} questions achieved high correctness (80%+), yet the teacher was still talking during the exit ticket.`);
+      overallInsights.push(`${highCorrectQs.length} questions achieved high correctness (${rubric.correctness.excellent}%+), yet the teacher was still talking during the exit ticket.`);
     }
 
     return {
@@ -2039,26 +2480,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   private parseTimeToSeconds(timeStr: string): number | null {
-    if (!timeStr) return null;
-    const match24 = timeStr.match(/(\d{4}-\d{2}-\d{2}\s+)?(\d{1,2}):(\d{2}):(\d{2})/);
-    if (match24) {
-      return parseInt(match24[2]) * 3600 + parseInt(match24[3]) * 60 + parseInt(match24[4]);
-    }
-    const match12 = timeStr.match(/(\d{1,2}):(\d{2}):(\d{2})\s*(AM|PM)/i);
-    if (match12) {
-      let h = parseInt(match12[1]);
-      const m = parseInt(match12[2]);
-      const s = parseInt(match12[3]);
-      const ampm = match12[4].toUpperCase();
-      if (ampm === 'PM' && h !== 12) h += 12;
-      if (ampm === 'AM' && h === 12) h = 0;
-      return h * 3600 + m * 60 + s;
-    }
-    const matchDateHM = timeStr.match(/\d{1,2}\/\d{1,2}\/\d{2,4}\s+(\d{1,2}):(\d{2})$/);
-    if (matchDateHM) {
-      return parseInt(matchDateHM[1]) * 3600 + parseInt(matchDateHM[2]) * 60;
-    }
-    return null;
+    return parseTimeToSeconds(timeStr);
   }
 
   private generateFeedback(
@@ -2066,8 +2488,16 @@ export class DatabaseStorage implements IStorage {
     transcripts: SessionTranscript[],
     chats: SessionChat[],
     session: any,
-    pollStats: any
+    pollStats: any,
+    rubric: ScoringRubric,
+    taxonomy: ResolvedTaxonomy,
+    lexicon: ResolvedLexicon
   ): { wentWell: any[]; needsImprovement: any[] } {
+    const { strong, moderate } = rubric.correctness;
+    const { strongMaxSec, moderateMaxSec, weakMaxSec } = rubric.postActivityExplanation;
+    const strongRange = `0–${this.toMin(strongMaxSec)} min`;
+    const moderateRange = `${this.toMin(strongMaxSec)}–${this.toMin(moderateMaxSec)} min`;
+    const weakRange = `${this.toMin(moderateMaxSec)}–${this.toMin(weakMaxSec)} min`;
     const wentWell: any[] = [];
     const needsImprovement: any[] = [];
 
@@ -2079,9 +2509,10 @@ export class DatabaseStorage implements IStorage {
       startSec: this.parseTimeToSeconds(t.startTime || ''),
       endSec: this.parseTimeToSeconds(t.endTime || ''),
       text: t.text || '',
+      norm: this.transcriptNorm(t),
     })).filter(t => t.startSec !== null);
 
-    const stagePatterns = /اشرح|اشرحي|تعال|تعالي|يلا.*اشرح|stage|explain.*class|come.*up/i;
+    const stagePatterns = lexicon.patterns.stageCall;
 
     for (let i = 0; i < happenedActivities.length; i++) {
       const act = happenedActivities[i];
@@ -2108,13 +2539,13 @@ export class DatabaseStorage implements IStorage {
         }
       }
 
-      const calledStudentOnStage = postActivityTranscripts.some(t => stagePatterns.test(t.text));
+      const calledStudentOnStage = postActivityTranscripts.some(t => stagePatterns.test(t.norm));
 
       const actLabel = `${DatabaseStorage.TYPE_NAME_EN[act.activityType] || act.activityType} (${correctPercent}% correctness)`;
       const explanationMin = this.toMin(explanationTimeSec);
 
-      if (correctPercent >= 70) {
-        if (explanationTimeSec <= 30) {
+      if (correctPercent >= strong) {
+        if (explanationTimeSec <= strongMaxSec) {
           wentWell.push({
             category: "time_management",
             activityId: act.activityId,
@@ -2126,8 +2557,8 @@ export class DatabaseStorage implements IStorage {
             category: "time_management",
             activityId: act.activityId,
             activity: actLabel,
-            detail: `The teacher spent ${explanationMin} min explaining after this activity, but ${correctPercent}% of students already answered correctly. A brief 0–30s acknowledgment is sufficient.`,
-            recommended: "0–0.5 min",
+            detail: `The teacher spent ${explanationMin} min explaining after this activity, but ${correctPercent}% of students already answered correctly. A brief 0–${strongMaxSec}s acknowledgment is sufficient.`,
+            recommended: strongRange,
             actual: `${explanationMin} min`,
           });
         }
@@ -2137,7 +2568,7 @@ export class DatabaseStorage implements IStorage {
             category: "student_stage",
             activityId: act.activityId,
             activity: actLabel,
-            detail: `A student was called to explain, but ${correctPercent}% already answered correctly — unnecessary when average is above 70%.`,
+            detail: `A student was called to explain, but ${correctPercent}% already answered correctly — unnecessary when average is above ${strong}%.`,
           });
         } else {
           wentWell.push({
@@ -2147,21 +2578,21 @@ export class DatabaseStorage implements IStorage {
             detail: `The teacher did not call a student to explain — correct decision since ${correctPercent}% answered correctly.`,
           });
         }
-      } else if (correctPercent >= 50) {
-        if (explanationTimeSec >= 30 && explanationTimeSec <= 60) {
+      } else if (correctPercent >= moderate) {
+        if (explanationTimeSec >= strongMaxSec && explanationTimeSec <= moderateMaxSec) {
           wentWell.push({
             category: "time_management",
             activityId: act.activityId,
             activity: actLabel,
             detail: `The teacher spent ${explanationMin} min explaining after this activity — appropriate for ${correctPercent}% correctness.`,
           });
-        } else if (explanationTimeSec < 30) {
+        } else if (explanationTimeSec < strongMaxSec) {
           needsImprovement.push({
             category: "time_management",
             activityId: act.activityId,
             activity: actLabel,
-            detail: `The teacher spent only ${explanationMin} min explaining after this activity, but ${correctPercent}% correctness warrants 0.5–1 min of targeted explanation.`,
-            recommended: "0.5–1 min",
+            detail: `The teacher spent only ${explanationMin} min explaining after this activity, but ${correctPercent}% correctness warrants ${moderateRange} of targeted explanation.`,
+            recommended: moderateRange,
             actual: `${explanationMin} min`,
           });
         } else {
@@ -2169,26 +2600,26 @@ export class DatabaseStorage implements IStorage {
             category: "time_management",
             activityId: act.activityId,
             activity: actLabel,
-            detail: `The teacher spent ${explanationMin} min explaining after this activity. With ${correctPercent}% correctness, 0.5–1 min would be sufficient.`,
-            recommended: "0.5–1 min",
+            detail: `The teacher spent ${explanationMin} min explaining after this activity. With ${correctPercent}% correctness, ${moderateRange} would be sufficient.`,
+            recommended: moderateRange,
             actual: `${explanationMin} min`,
           });
         }
       } else {
-        if (explanationTimeSec >= 60 && explanationTimeSec <= 120) {
+        if (explanationTimeSec >= moderateMaxSec && explanationTimeSec <= weakMaxSec) {
           wentWell.push({
             category: "time_management",
             activityId: act.activityId,
             activity: actLabel,
             detail: `The teacher spent ${explanationMin} min explaining after this activity — appropriate for low correctness of ${correctPercent}%.`,
           });
-        } else if (explanationTimeSec < 60) {
+        } else if (explanationTimeSec < moderateMaxSec) {
           needsImprovement.push({
             category: "time_management",
             activityId: act.activityId,
             activity: actLabel,
-            detail: `The teacher spent only ${explanationMin} min explaining after this activity, but only ${correctPercent}% answered correctly. Should spend 1–2 minutes to ensure comprehension.`,
-            recommended: "1–2 min",
+            detail: `The teacher spent only ${explanationMin} min explaining after this activity, but only ${correctPercent}% answered correctly. Should spend ${weakRange} to ensure comprehension.`,
+            recommended: weakRange,
             actual: `${explanationMin} min`,
           });
         } else {
@@ -2202,20 +2633,23 @@ export class DatabaseStorage implements IStorage {
       }
     }
 
-    this.generateCrossActivityTimeAnalysis(happenedActivities, transcriptTimes, wentWell, needsImprovement);
+    this.generateCrossActivityTimeAnalysis(happenedActivities, transcriptTimes, wentWell, needsImprovement, rubric);
 
-    this.generatePedagogyFeedback(transcriptTimes, chats, session, activities, wentWell, needsImprovement);
+    this.generatePedagogyFeedback(transcriptTimes, chats, session, activities, wentWell, needsImprovement, rubric, taxonomy, lexicon);
 
     return { wentWell, needsImprovement };
   }
 
   private generateCrossActivityTimeAnalysis(
     activities: any[],
-    transcriptTimes: { startSec: number | null; endSec: number | null; text: string }[],
+    transcriptTimes: { startSec: number | null; endSec: number | null; text: string; norm: string }[],
     wentWell: any[],
-    needsImprovement: any[]
+    needsImprovement: any[],
+    rubric: ScoringRubric
   ): void {
     if (activities.length < 2) return;
+    const { strong, moderate } = rubric.correctness;
+    const { preTeachLongSec, preTeachShortSec, underInvestedPreTeachSec } = rubric.timing;
 
     const activityTimeData: { activityId: number; label: string; correctPercent: number; preTeachSec: number }[] = [];
 
@@ -2246,8 +2680,8 @@ export class DatabaseStorage implements IStorage {
 
     if (activityTimeData.length < 2) return;
 
-    const highCorrectActivities = activityTimeData.filter(a => a.correctPercent >= 70 && a.preTeachSec >= 120);
-    const lowCorrectActivities = activityTimeData.filter(a => a.correctPercent < 50 && a.preTeachSec < 30);
+    const highCorrectActivities = activityTimeData.filter(a => a.correctPercent >= strong && a.preTeachSec >= preTeachLongSec);
+    const lowCorrectActivities = activityTimeData.filter(a => a.correctPercent < moderate && a.preTeachSec < preTeachShortSec);
 
     for (const high of highCorrectActivities) {
       for (const low of lowCorrectActivities) {
@@ -2265,8 +2699,8 @@ export class DatabaseStorage implements IStorage {
     }
 
     const avgPreTeachSec = activityTimeData.reduce((s, a) => s + a.preTeachSec, 0) / activityTimeData.length;
-    const overInvested = activityTimeData.filter(a => a.correctPercent >= 70 && a.preTeachSec > avgPreTeachSec * 2 && a.preTeachSec >= 120);
-    const underInvested = activityTimeData.filter(a => a.correctPercent < 50 && a.preTeachSec < avgPreTeachSec * 0.5 && a.preTeachSec < 60);
+    const overInvested = activityTimeData.filter(a => a.correctPercent >= strong && a.preTeachSec > avgPreTeachSec * 2 && a.preTeachSec >= preTeachLongSec);
+    const underInvested = activityTimeData.filter(a => a.correctPercent < moderate && a.preTeachSec < avgPreTeachSec * 0.5 && a.preTeachSec < underInvestedPreTeachSec);
 
     if (overInvested.length > 0 && underInvested.length > 0) {
       const overLabels = overInvested.map(a => `${a.label}: ${this.toMin(a.preTeachSec)} min, ${a.correctPercent}%`).join('; ');
@@ -2279,15 +2713,10 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  private extractTopics(texts: string[]): string {
-    const topicMap: [RegExp, string][] = [
-      ...DatabaseStorage.TOPIC_MAP,
-      [/اشرح|اشرحي|يلا.*اشرح/i, "Student called to explain"],
-    ];
-
+  private extractTopics(texts: string[], taxonomy: ResolvedTaxonomy): string {
     const combined = texts.join(' ');
     const found: string[] = [];
-    for (const [pattern, label] of topicMap) {
+    for (const [pattern, label] of taxonomy.terms) {
       if (pattern.test(combined) && !found.includes(label)) {
         found.push(label);
       }
@@ -2295,7 +2724,12 @@ export class DatabaseStorage implements IStorage {
     return found.length > 0 ? found.join(', ') : "General teaching";
   }
 
-  private detectChatConfusion(chats: SessionChat[], startSec: number, endSec: number): { confused: boolean; examples: string[] } {
+  private detectChatConfusion(
+    chats: SessionChat[],
+    startSec: number,
+    endSec: number,
+    lexicon: ResolvedLexicon
+  ): { confused: boolean; examples: string[] } {
     const frustrationPatterns = /😭|😢|😞|💔/;
 
     const nearbyChats = chats.filter(c => {
@@ -2309,7 +2743,8 @@ export class DatabaseStorage implements IStorage {
     let confused = false;
     for (const chat of nearbyChats) {
       const text = chat.messageText || '';
-      if (DatabaseStorage.CONFUSION_PATTERN.test(text) || frustrationPatterns.test(text)) {
+      const norm = this.chatNorm(chat);
+      if (lexicon.patterns.confusion.test(norm) || frustrationPatterns.test(norm)) {
         confused = true;
         if (examples.length < 3) {
           examples.push(`"${text.substring(0, 50)}" — ${chat.creatorName || 'student'}`);
@@ -2320,11 +2755,12 @@ export class DatabaseStorage implements IStorage {
   }
 
   private buildExplanationVerdict(
-    preTeachSegments: { startSec: number; endSec: number; text: string }[],
+    preTeachSegments: { startSec: number; endSec: number; text: string; norm: string }[],
     chats: SessionChat[],
     actStartSec: number | null,
     durationMin: number,
-    topics: string
+    topics: string,
+    lexicon: ResolvedLexicon
   ): {
     depth: string;
     interaction: string;
@@ -2358,7 +2794,7 @@ export class DatabaseStorage implements IStorage {
       };
     }
 
-    const combined = preTeachSegments.map(s => s.text).join(' ');
+    const combined = preTeachSegments.map(s => s.norm).join(' ');
     const totalSec = preTeachSegments.reduce((s, t) => s + (t.endSec - t.startSec), 0);
     const segmentCount = preTeachSegments.length;
     const avgSegmentSec = segmentCount > 0 ? Math.round(totalSec / segmentCount) : 0;
@@ -2366,9 +2802,9 @@ export class DatabaseStorage implements IStorage {
     const topicList = topics.split(', ').filter(t => t.length > 0);
     const topicCount = topicList.length;
 
-    const questionPatterns = /\?|يلا.*اجاوب|من\s*يعرف|من\s*يقدر|اش\s*رأيكم|شو\s*رأي|وش\s*تقول|ها\s*صح|مين.*عنده|مين.*يبي|طيب\s*اشرح|عطوني|وش.*الفرق|ليش|كيف.*نحسب|كيف.*نعرف/i;
-    const studentCallPatterns = /يلا|اشرح|جاوب|عطني\s*الجواب|ها\s*يا|يا\s*.*اشرح|وش\s*تقول.*يا|من\s*يبي\s*يجاوب/i;
-    const repeatPatterns = /يعني|بمعنى|نعيد|مرة\s*ثانية|نرجع.*نقول|زي\s*ما\s*قلنا/i;
+    const {
+      question: questionPatterns, studentCall: studentCallPatterns, repeat: repeatPatterns,
+    } = lexicon.patterns;
 
     const hasQuestions = questionPatterns.test(combined);
     const hasStudentCalls = studentCallPatterns.test(combined);
@@ -2415,7 +2851,7 @@ export class DatabaseStorage implements IStorage {
     const studentChatCount = studentChatsDuring.length;
     const chatCountDuring = allChatsDuring.length;
 
-    const confusionChats = studentChatsDuring.filter(c => DatabaseStorage.CONFUSION_PATTERN.test(c.messageText || ''));
+    const confusionChats = studentChatsDuring.filter(c => lexicon.patterns.confusion.test(this.chatNorm(c)));
     const hadConfusion = confusionChats.length > 0;
     const confusionExamples = confusionChats.slice(0, 3).map(c =>
       `"${(c.messageText || '').substring(0, 60)}" — ${c.creatorName || 'student'}`
@@ -2459,19 +2895,21 @@ export class DatabaseStorage implements IStorage {
   private buildQuestionSpecificVerdict(
     correctPercent: number,
     explanationMin: number,
-    verdict: ReturnType<typeof DatabaseStorage.prototype.buildExplanationVerdict>
+    verdict: ReturnType<typeof DatabaseStorage.prototype.buildExplanationVerdict>,
+    rubric: ScoringRubric
   ): string {
+    const { strong, moderate } = rubric.correctness;
     const parts: string[] = [];
 
     if (explanationMin > 0) {
       parts.push(`${explanationMin} min of explanation before this activity.`);
 
-      if (correctPercent >= 70) {
+      if (correctPercent >= strong) {
         parts.push(`Students scored ${correctPercent}% — effective delivery.`);
         if (verdict.hadStudentInteraction) {
           parts.push('Interactive explanation with student engagement.');
         }
-      } else if (correctPercent >= 50) {
+      } else if (correctPercent >= moderate) {
         parts.push(`Students scored ${correctPercent}% — ${100 - correctPercent}% still got it wrong.`);
         if (!verdict.hadStudentInteraction) {
           parts.push('No student interaction was used to verify understanding.');
@@ -2492,9 +2930,9 @@ export class DatabaseStorage implements IStorage {
         }
       }
     } else {
-      if (correctPercent >= 70) {
+      if (correctPercent >= strong) {
         parts.push(`No recorded explanation. Students scored ${correctPercent}% — prior knowledge was sufficient.`);
-      } else if (correctPercent >= 50) {
+      } else if (correctPercent >= moderate) {
         parts.push(`No recorded explanation. Students scored ${correctPercent}% — some students lacked prior knowledge.`);
       } else {
         parts.push(`No recorded explanation. Students scored only ${correctPercent}% — they needed teaching before being assessed.`);
@@ -2505,19 +2943,24 @@ export class DatabaseStorage implements IStorage {
   }
 
   private generatePedagogyFeedback(
-    transcriptTimes: { startSec: number | null; endSec: number | null; text: string }[],
+    transcriptTimes: { startSec: number | null; endSec: number | null; text: string; norm: string }[],
     chats: SessionChat[],
     session: any,
     activities: any[],
     wentWell: any[],
-    needsImprovement: any[]
+    needsImprovement: any[],
+    rubric: ScoringRubric,
+    taxonomy: ResolvedTaxonomy,
+    lexicon: ResolvedLexicon
   ): void {
     const GAP_THRESHOLD = 5;
-    const MAX_CONTINUOUS_SEC = 120;
-    const MAX_TOTAL_TALK_MIN = 15;
+    const MAX_CONTINUOUS_SEC = rubric.timing.longSegmentSec;
+    const MAX_TOTAL_TALK_MIN = rubric.timing.maxTeacherTalkMin;
+    const maxContinuousMin = this.toMin(MAX_CONTINUOUS_SEC);
+    const targetStudentPercent = rubric.engagement.targetStudentActivePercent;
 
     const sortedTyped = transcriptTimes
-      .filter((t): t is { startSec: number; endSec: number; text: string } => t.startSec !== null && t.endSec !== null)
+      .filter((t): t is { startSec: number; endSec: number; text: string; norm: string } => t.startSec !== null && t.endSec !== null)
       .sort((a, b) => a.startSec - b.startSec);
 
     if (sortedTyped.length === 0) return;
@@ -2538,8 +2981,8 @@ export class DatabaseStorage implements IStorage {
     for (const seg of longSegments) {
       const segTexts = sortedTyped
         .filter(t => t.startSec >= seg.startSec && t.endSec <= seg.endSec)
-        .map(t => t.text);
-      const topics = this.extractTopics(segTexts);
+        .map(t => t.norm);
+      const topics = this.extractTopics(segTexts, taxonomy);
       const durationMin = Math.round(seg.durationSec / 60 * 10) / 10;
 
       const nearbyActivities = activities.filter(a => {
@@ -2549,7 +2992,7 @@ export class DatabaseStorage implements IStorage {
         return actEndSec >= seg.startSec - 60 && actEndSec <= seg.endSec + 60;
       });
 
-      const chatContext = this.detectChatConfusion(chats, seg.startSec, seg.endSec);
+      const chatContext = this.detectChatConfusion(chats, seg.startSec, seg.endSec, lexicon);
 
       let context = `${this.formatTime(seg.startSec)}–${this.formatTime(seg.endSec)} (${durationMin} min): The teacher was discussing ${topics}.`;
 
@@ -2558,7 +3001,7 @@ export class DatabaseStorage implements IStorage {
           const pct = a.correctness?.percent ?? 0;
           return `${a.activityType} scored ${pct}% correctness`;
         });
-        if (nearbyActivities.some(a => (a.correctness?.percent ?? 100) < 50)) {
+        if (nearbyActivities.some(a => (a.correctness?.percent ?? 100) < rubric.correctness.moderate)) {
           context += ` This came after an activity with low correctness (${actDetails.join('; ')}) — the teacher was re-explaining the concept.`;
         } else {
           context += ` Near activity: ${actDetails.join('; ')}.`;
@@ -2576,7 +3019,7 @@ export class DatabaseStorage implements IStorage {
       wentWell.push({
         category: "pedagogy",
         activity: "Continuous talk",
-        detail: `The teacher kept all talk segments under 2 minutes — good pacing that allows students to stay engaged. The longest continuous segment was ${Math.round(Math.max(...continuousSegments.map(s => s.durationSec)))} seconds.`,
+        detail: `The teacher kept all talk segments under ${maxContinuousMin} minutes — good pacing that allows students to stay engaged. The longest continuous segment was ${Math.round(Math.max(...continuousSegments.map(s => s.durationSec)))} seconds.`,
       });
     } else {
       const longestSeg = longSegments.reduce((a, b) => a.durationSec > b.durationSec ? a : b);
@@ -2584,8 +3027,8 @@ export class DatabaseStorage implements IStorage {
       needsImprovement.push({
         category: "pedagogy",
         activity: "Continuous talk",
-        detail: `The teacher had ${longSegments.length} continuous talk periods exceeding 2 minutes. The longest was ${longestMin} min (${this.formatTime(longestSeg.startSec)}–${this.formatTime(longestSeg.endSec)}). Break long periods with questions or student interaction.`,
-        recommended: "Under 2 minutes per segment",
+        detail: `The teacher had ${longSegments.length} continuous talk periods exceeding ${maxContinuousMin} minutes. The longest was ${longestMin} min (${this.formatTime(longestSeg.startSec)}–${this.formatTime(longestSeg.endSec)}). Break long periods with questions or student interaction.`,
+        recommended: `Under ${maxContinuousMin} minutes per segment`,
         actual: `${longestMin} min longest segment`,
         segments: segmentDetails,
       });
@@ -2597,14 +3040,14 @@ export class DatabaseStorage implements IStorage {
       wentWell.push({
         category: "pedagogy",
         activity: "Total teacher talk",
-        detail: `Total teacher talk time was ${totalTeacherTalkMin} min out of ${sessionDurationMin} min session — within the recommended 15 minute limit. This leaves sufficient time for student activities.`,
+        detail: `Total teacher talk time was ${totalTeacherTalkMin} min out of ${sessionDurationMin} min session — within the recommended ${MAX_TOTAL_TALK_MIN} minute limit. This leaves sufficient time for student activities.`,
       });
     } else {
       needsImprovement.push({
         category: "pedagogy",
         activity: "Total teacher talk",
-        detail: `Total teacher talk time was ${totalTeacherTalkMin} min out of ${sessionDurationMin} min session. Teacher talk should ideally be under 15 minutes to allow the majority of the session for active student learning.`,
-        recommended: "Under 15 min",
+        detail: `Total teacher talk time was ${totalTeacherTalkMin} min out of ${sessionDurationMin} min session. Teacher talk should ideally be under ${MAX_TOTAL_TALK_MIN} minutes to allow the majority of the session for active student learning.`,
+        recommended: `Under ${MAX_TOTAL_TALK_MIN} min`,
         actual: `${totalTeacherTalkMin} min`,
       });
     }
@@ -2612,7 +3055,7 @@ export class DatabaseStorage implements IStorage {
     const studentActiveMin = Math.round((sessionDurationMin - totalTeacherTalkMin) * 10) / 10;
     const studentActivePercent = Math.round((studentActiveMin / sessionDurationMin) * 100);
 
-    if (studentActivePercent > 50) {
+    if (studentActivePercent > targetStudentPercent) {
       wentWell.push({
         category: "pedagogy",
         activity: "Student active time",
@@ -2622,8 +3065,8 @@ export class DatabaseStorage implements IStorage {
       needsImprovement.push({
         category: "pedagogy",
         activity: "Student active time",
-        detail: `Students had only ${studentActiveMin} min (${studentActivePercent}%) of active time. Teacher talk (${totalTeacherTalkMin} min) took up most of the session. The majority of session time should be active student time.`,
-        recommended: "Over 50% student time",
+        detail: `Students had only ${studentActiveMin} min (${studentActivePercent}%) of active time. Teacher talk (${totalTeacherTalkMin} min) took up most of the session. At least ${targetStudentPercent}% of session time should be active student time.`,
+        recommended: `Over ${targetStudentPercent}% student time`,
         actual: `${studentActivePercent}% student time`,
       });
     }
@@ -2700,49 +3143,1108 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async insertCourseSession(data: InsertCourseSession): Promise<CourseSession> {
-    const [result] = await db.insert(courseSessions).values(data).returning();
+  async runInTransaction<T>(fn: (tx: DbTransaction) => Promise<T>): Promise<T> {
+    return db.transaction(fn);
+  }
+
+  /**
+   * Insert rows in batches, each inside a savepoint. When a batch fails the
+   * rows are retried one at a time (and rolled back) to find the row that
+   * broke it, which is reported as an ImportRowError.
+   */
+  private async insertInBatches(executor: DbExecutor, table: any, data: any[], batchSize: number): Promise<void> {
+    for (let i = 0; i < data.length; i += batchSize) {
+      const batch = data.slice(i, i + batchSize);
+      try {
+        await executor.transaction(async (sp) => {
+          await sp.insert(table).values(batch);
+        });
+      } catch (err: any) {
+        for (let j = 0; j < batch.length; j++) {
+          const rowError = await this.tryInsertRow(executor, table, batch[j]);
+          if (rowError) throw new ImportRowError(i + j + 1, rowError);
+        }
+        throw err;
+      }
+    }
+  }
+
+  /** Insert a single row in a savepoint that is always rolled back; returns the error message, if any. */
+  private async tryInsertRow(executor: DbExecutor, table: any, row: any): Promise<string | null> {
+    let error: string | null = null;
+    try {
+      await executor.transaction(async (sp) => {
+        try {
+          await sp.insert(table).values(row);
+        } catch (err: any) {
+          error = err.message;
+        }
+        sp.rollback();
+      });
+    } catch {}
+    return error;
+  }
+
+  async insertCourseSession(data: InsertCourseSession, tx: DbExecutor = db): Promise<CourseSession> {
+    const [result] = await tx.insert(courseSessions).values(data).returning();
     return result;
   }
 
-  async insertTranscripts(data: InsertSessionTranscript[]): Promise<void> {
+  async insertTranscripts(data: InsertSessionTranscript[], tx: DbExecutor = db): Promise<void> {
     if (data.length === 0) return;
-    for (let i = 0; i < data.length; i += 100) {
-      await db.insert(sessionTranscripts).values(data.slice(i, i + 100));
-    }
+    await this.insertInBatches(tx, sessionTranscripts, data, 100);
   }
 
-  async insertChats(data: InsertSessionChat[]): Promise<void> {
+  async insertChats(data: InsertSessionChat[], tx: DbExecutor = db): Promise<void> {
     if (data.length === 0) return;
-    for (let i = 0; i < data.length; i += 100) {
-      await db.insert(sessionChats).values(data.slice(i, i + 100));
-    }
+    await this.insertInBatches(tx, sessionChats, data, 100);
   }
 
-  async insertActivities(data: InsertClassroomActivity[]): Promise<void> {
+  async insertActivities(data: InsertClassroomActivity[], tx: DbExecutor = db): Promise<void> {
     if (data.length === 0) return;
-    await db.insert(classroomActivities).values(data);
+    await this.insertInBatches(tx, classroomActivities, data, data.length);
   }
 
-  async insertPolls(data: InsertUserPoll[]): Promise<void> {
+  async insertPolls(data: InsertUserPoll[], tx: DbExecutor = db): Promise<void> {
     if (data.length === 0) return;
-    for (let i = 0; i < data.length; i += 100) {
-      await db.insert(userPolls).values(data.slice(i, i + 100));
-    }
+    await this.insertInBatches(tx, userPolls, data, 100);
+  }
+
+  async insertReactions(data: InsertUserReaction[], tx: DbExecutor = db): Promise<void> {
+    if (data.length === 0) return;
+    await this.insertInBatches(tx, userReactions, data, 100);
   }
 
-  async insertReactions(data: InsertUserReaction[]): Promise<void> {
+  async insertUserSessions(data: InsertUserSession[], tx: DbExecutor = db): Promise<void> {
     if (data.length === 0) return;
-    for (let i = 0; i < data.length; i += 100) {
-      await db.insert(userReactions).values(data.slice(i, i + 100));
+    await this.insertInBatches(tx, userSessions, data, 50);
+  }
+
+  async getCourseSession(courseSessionId: number, tx: DbExecutor = db): Promise<CourseSession | undefined> {
+    const [session] = await tx.select().from(courseSessions)
+      .where(eq(courseSessions.courseSessionId, courseSessionId)).limit(1);
+    return session;
+  }
+
+  /** Remove a session's rows for the given file types so they can be re-imported. */
+  async deleteSessionData(courseSessionId: number, fileTypes: readonly SessionFileType[], tx: DbExecutor = db): Promise<void> {
+    for (const fileType of fileTypes) {
+      switch (fileType) {
+        case "courseSession":
+          await tx.delete(courseSessions).where(eq(courseSessions.courseSessionId, courseSessionId));
+          break;
+        case "transcript":
+          await tx.delete(sessionTranscripts).where(eq(sessionTranscripts.courseSessionId, courseSessionId));
+          break;
+        case "chats":
+          await tx.delete(sessionChats).where(eq(sessionChats.courseSessionId, courseSessionId));
+          break;
+        case "classroomActivity":
+          await tx.delete(classroomActivities).where(eq(classroomActivities.courseSessionId, courseSessionId));
+          break;
+        case "userPoll":
+          await tx.delete(userPolls).where(eq(userPolls.courseSessionId, courseSessionId));
+          break;
+        case "userReaction":
+          await tx.delete(userReactions).where(eq(userReactions.courseSessionId, courseSessionId));
+          break;
+        case "userSession":
+          await tx.delete(userSessions).where(eq(userSessions.courseSessionId, courseSessionId));
+          break;
+      }
     }
   }
 
-  async insertUserSessions(data: InsertUserSession[]): Promise<void> {
+  async insertImportHistory(data: InsertSessionImport[], tx: DbExecutor = db): Promise<void> {
     if (data.length === 0) return;
-    for (let i = 0; i < data.length; i += 50) {
-      await db.insert(userSessions).values(data.slice(i, i + 50));
+    await tx.insert(sessionImports).values(data);
+  }
+
+  async getImportHistory(courseSessionId: number): Promise<SessionImport[]> {
+    return db.select().from(sessionImports)
+      .where(eq(sessionImports.courseSessionId, courseSessionId))
+      .orderBy(desc(sessionImports.importedAt), asc(sessionImports.id));
+  }
+
+  async createImportJob(data: InsertImportJob): Promise<ImportJob> {
+    const [job] = await db.insert(importJobs).values(data).returning();
+    return job;
+  }
+
+  async updateImportJob(id: number, data: Partial<InsertImportJob>): Promise<ImportJob | undefined> {
+    const [job] = await db.update(importJobs)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(importJobs.id, id))
+      .returning();
+    return job;
+  }
+
+  async getImportJob(id: number): Promise<ImportJob | undefined> {
+    const [job] = await db.select().from(importJobs).where(eq(importJobs.id, id)).limit(1);
+    return job;
+  }
+
+  async getImportJobsForTeacher(teacherId: number, since: Date): Promise<ImportJob[]> {
+    return db.select().from(importJobs)
+      .where(and(eq(importJobs.teacherId, teacherId), gte(importJobs.createdAt, since)))
+      .orderBy(desc(importJobs.createdAt));
+  }
+
+  async getUnfinishedImportJobs(): Promise<ImportJob[]> {
+    return db.select().from(importJobs)
+      .where(inArray(importJobs.status, ["pending", "processing"]))
+      .orderBy(asc(importJobs.id));
+  }
+
+  async getColumnMappings(): Promise<ColumnMapping[]> {
+    return db.select().from(columnMappings)
+      .orderBy(asc(columnMappings.fileType), desc(columnMappings.version));
+  }
+
+  async getActiveColumnMappings(): Promise<ColumnMapping[]> {
+    return db.select().from(columnMappings).where(eq(columnMappings.isActive, true));
+  }
+
+  /** Store a new version for the file type and make it the active one. */
+  async createColumnMapping(data: Omit<InsertColumnMapping, "version" | "isActive">): Promise<ColumnMapping> {
+    return db.transaction(async (tx) => {
+      const [latest] = await tx.select({ version: columnMappings.version }).from(columnMappings)
+        .where(eq(columnMappings.fileType, data.fileType))
+        .orderBy(desc(columnMappings.version)).limit(1);
+      await tx.update(columnMappings).set({ isActive: false })
+        .where(eq(columnMappings.fileType, data.fileType));
+      const [created] = await tx.insert(columnMappings)
+        .values({ ...data, version: (latest?.version ?? 0) + 1, isActive: true })
+        .returning();
+      return created;
+    });
+  }
+
+  async activateColumnMapping(id: number): Promise<ColumnMapping | undefined> {
+    return db.transaction(async (tx) => {
+      const [target] = await tx.select().from(columnMappings).where(eq(columnMappings.id, id)).limit(1);
+      if (!target) return undefined;
+      await tx.update(columnMappings).set({ isActive: false })
+        .where(eq(columnMappings.fileType, target.fileType));
+      const [activated] = await tx.update(columnMappings).set({ isActive: true })
+        .where(eq(columnMappings.id, id)).returning();
+      return activated;
+    });
+  }
+
+  /** Deactivate every stored version so imports fall back to the built-in mapping. */
+  async resetColumnMapping(fileType: string): Promise<void> {
+    await db.update(columnMappings).set({ isActive: false })
+      .where(eq(columnMappings.fileType, fileType));
+  }
+
+  /**
+   * SHA-256 over every row the report is computed from, with serial ids left
+   * out so re-importing identical files yields the same hash.
+   */
+  async computeReportInputHash(courseSessionId: number): Promise<string> {
+    this.validateCourseSessionId(courseSessionId);
+    const tables = [
+      courseSessions, sessionTranscripts, sessionChats, classroomActivities,
+      userPolls, userReactions, userSessions,
+    ] as const;
+    const hash = createHash("sha256");
+    for (const table of tables) {
+      const rows = await db.select().from(table)
+        .where(eq(table.courseSessionId, courseSessionId))
+        .orderBy(asc(table.id));
+      for (const { id, ...row } of rows as { id: number }[]) {
+        hash.update(JSON.stringify(row));
+      }
+      hash.update("|");
     }
+    return hash.digest("hex");
+  }
+
+  async insertReportSnapshot(data: InsertReportSnapshot): Promise<ReportSnapshot> {
+    const [snapshot] = await db.insert(reportSnapshots).values(data).returning();
+    return snapshot;
+  }
+
+  async getReportSnapshot(id: number): Promise<ReportSnapshot | undefined> {
+    const [snapshot] = await db.select().from(reportSnapshots).where(eq(reportSnapshots.id, id)).limit(1);
+    return snapshot;
+  }
+
+  async getLatestReportSnapshot(courseSessionId: number): Promise<ReportSnapshot | undefined> {
+    const [snapshot] = await db.select().from(reportSnapshots)
+      .where(eq(reportSnapshots.courseSessionId, courseSessionId))
+      .orderBy(desc(reportSnapshots.createdAt), desc(reportSnapshots.id)).limit(1);
+    return snapshot;
+  }
+
+  async listReportSnapshots(courseSessionId: number): Promise<Omit<ReportSnapshot, "data">[]> {
+    return db.select({
+      id: reportSnapshots.id,
+      courseSessionId: reportSnapshots.courseSessionId,
+      engineVersion: reportSnapshots.engineVersion,
+      inputHash: reportSnapshots.inputHash,
+      rubricVersion: reportSnapshots.rubricVersion,
+      trigger: reportSnapshots.trigger,
+      createdBy: reportSnapshots.createdBy,
+      createdAt: reportSnapshots.createdAt,
+    }).from(reportSnapshots)
+      .where(eq(reportSnapshots.courseSessionId, courseSessionId))
+      .orderBy(desc(reportSnapshots.createdAt), desc(reportSnapshots.id));
+  }
+
+  async getAllCourseSessionIds(): Promise<number[]> {
+    const rows = await db.select({ courseSessionId: courseSessions.courseSessionId }).from(courseSessions)
+      .orderBy(asc(courseSessions.courseSessionId));
+    return rows.map(r => r.courseSessionId);
+  }
+
+  async getRubricVersions(): Promise<ScoringRubricVersion[]> {
+    return db.select().from(scoringRubrics).orderBy(desc(scoringRubrics.version));
+  }
+
+  /** The admin-activated rubric, or the built-in default (version 0). */
+  async getActiveRubric(): Promise<ActiveRubric> {
+    const [active] = await db.select().from(scoringRubrics)
+      .where(eq(scoringRubrics.isActive, true)).limit(1);
+    return active
+      ? { version: active.version, config: resolveRubric(active.config as Partial<ScoringRubric>) }
+      : { version: 0, config: DEFAULT_RUBRIC };
+  }
+
+  /** Store a new rubric version and make it the active one. */
+  async createRubricVersion(data: Omit<InsertScoringRubricVersion, "version" | "isActive">): Promise<ScoringRubricVersion> {
+    return db.transaction(async (tx) => {
+      const [latest] = await tx.select({ version: scoringRubrics.version }).from(scoringRubrics)
+        .orderBy(desc(scoringRubrics.version)).limit(1);
+      await tx.update(scoringRubrics).set({ isActive: false });
+      const [created] = await tx.insert(scoringRubrics)
+        .values({ ...data, version: (latest?.version ?? 0) + 1, isActive: true })
+        .returning();
+      return created;
+    });
+  }
+
+  async activateRubricVersion(id: number): Promise<ScoringRubricVersion | undefined> {
+    return db.transaction(async (tx) => {
+      const [target] = await tx.select().from(scoringRubrics).where(eq(scoringRubrics.id, id)).limit(1);
+      if (!target) return undefined;
+      await tx.update(scoringRubrics).set({ isActive: false });
+      const [activated] = await tx.update(scoringRubrics).set({ isActive: true })
+        .where(eq(scoringRubrics.id, id)).returning();
+      return activated;
+    });
+  }
+
+  /** Deactivate every stored version so reports fall back to the built-in rubric. */
+  async resetRubric(): Promise<void> {
+    await db.update(scoringRubrics).set({ isActive: false });
+  }
+
+  async getScoringProfiles(): Promise<ScoringProfile[]> {
+    return db.select().from(scoringProfiles).orderBy(asc(scoringProfiles.name));
+  }
+
+  async createScoringProfile(data: InsertScoringProfile): Promise<ScoringProfile> {
+    const [created] = await db.insert(scoringProfiles).values(data).returning();
+    return created;
+  }
+
+  async updateScoringProfile(id: number, data: Partial<InsertScoringProfile>): Promise<ScoringProfile | undefined> {
+    const [updated] = await db.update(scoringProfiles)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(scoringProfiles.id, id))
+      .returning();
+    return updated;
+  }
+
+  /** Deletes the profile and, through the foreign key, its assignments. */
+  async deleteScoringProfile(id: number): Promise<boolean> {
+    const deleted = await db.delete(scoringProfiles).where(eq(scoringProfiles.id, id)).returning({ id: scoringProfiles.id });
+    return deleted.length > 0;
+  }
+
+  async getScoringProfileAssignments(): Promise<ScoringProfileAssignment[]> {
+    return db.select().from(scoringProfileAssignments)
+      .orderBy(asc(scoringProfileAssignments.scopeType), asc(scoringProfileAssignments.scopeValue));
+  }
+
+  /** Assign a profile to a course or class type, replacing any existing assignment for that scope. */
+  async setScoringProfileAssignment(data: InsertScoringProfileAssignment): Promise<ScoringProfileAssignment> {
+    const [assignment] = await db.insert(scoringProfileAssignments).values(data)
+      .onConflictDoUpdate({
+        target: [scoringProfileAssignments.scopeType, scoringProfileAssignments.scopeValue],
+        set: { profileId: data.profileId },
+      })
+      .returning();
+    return assignment;
+  }
+
+  async deleteScoringProfileAssignment(id: number): Promise<boolean> {
+    const deleted = await db.delete(scoringProfileAssignments)
+      .where(eq(scoringProfileAssignments.id, id))
+      .returning({ id: scoringProfileAssignments.id });
+    return deleted.length > 0;
+  }
+
+  /** Profile for a session: a course assignment wins over a class type one; otherwise the default. */
+  async getScoringProfileFor(courseId: number | null, classType: string | null): Promise<ResolvedScoringProfile> {
+    const scopes: SQL[] = [];
+    if (courseId !== null) {
+      scopes.push(and(eq(scoringProfileAssignments.scopeType, "course"), eq(scoringProfileAssignments.scopeValue, String(courseId)))!);
+    }
+    if (classType) {
+      scopes.push(and(eq(scoringProfileAssignments.scopeType, "classType"), eq(scoringProfileAssignments.scopeValue, classType))!);
+    }
+    if (scopes.length === 0) return DEFAULT_PROFILE;
+
+    const matches = await db.select({ scopeType: scoringProfileAssignments.scopeType, profile: scoringProfiles })
+      .from(scoringProfileAssignments)
+      .innerJoin(scoringProfiles, eq(scoringProfileAssignments.profileId, scoringProfiles.id))
+      .where(or(...scopes));
+    const match = matches.find(m => m.scopeType === "course") || matches[0];
+    if (!match) return DEFAULT_PROFILE;
+    return {
+      id: match.profile.id,
+      name: match.profile.name,
+      updatedAt: match.profile.updatedAt.toISOString(),
+      config: match.profile.config as ScoringProfileConfig,
+    };
+  }
+
+  /** Course IDs and class types present in the data, offered when assigning profiles. */
+  async getProfileScopes(): Promise<{ courseIds: number[]; classTypes: string[] }> {
+    const [courses, classTypes] = await Promise.all([
+      db.selectDistinct({ courseId: courseSessions.courseId }).from(courseSessions)
+        .orderBy(asc(courseSessions.courseId)),
+      db.selectDistinct({ classType: courseSessions.courseSessionClassType }).from(courseSessions)
+        .orderBy(asc(courseSessions.courseSessionClassType)),
+    ]);
+    return {
+      courseIds: courses.map(c => c.courseId).filter((id): id is number => id !== null),
+      classTypes: classTypes.map(c => c.classType).filter((t): t is string => !!t),
+    };
+  }
+
+  async getTopicTaxonomies(): Promise<TopicTaxonomy[]> {
+    return db.select().from(topicTaxonomies).orderBy(asc(topicTaxonomies.subject));
+  }
+
+  /** Create a taxonomy, or replace the one stored under the same subject key. */
+  async saveTopicTaxonomy(data: InsertTopicTaxonomy): Promise<TopicTaxonomy> {
+    const [saved] = await db.insert(topicTaxonomies).values(data)
+      .onConflictDoUpdate({
+        target: topicTaxonomies.subject,
+        set: { name: data.name, keywords: data.keywords, terms: data.terms, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteTopicTaxonomy(id: number): Promise<boolean> {
+    const deleted = await db.delete(topicTaxonomies).where(eq(topicTaxonomies.id, id)).returning({ id: topicTaxonomies.id });
+    return deleted.length > 0;
+  }
+
+  /**
+   * Taxonomy for a session, picked by the topic part of its name. Stored
+   * taxonomies are tried first, so they can override a built-in subject;
+   * sessions matching nothing get the general taxonomy.
+   */
+  async getTaxonomyFor(sessionName: string | null): Promise<ResolvedTaxonomy> {
+    const { topic } = this.parseSessionNameParts(sessionName || '');
+    const stored = await this.getTopicTaxonomies();
+    const storedMatch = matchTaxonomy(
+      stored.map(t => ({ ...t, keywords: t.keywords as string[] })),
+      topic
+    );
+    if (storedMatch) {
+      return {
+        id: storedMatch.id,
+        subject: storedMatch.subject,
+        name: storedMatch.name,
+        updatedAt: storedMatch.updatedAt.toISOString(),
+        terms: compileTerms(storedMatch.terms as TaxonomyTerm[]),
+      };
+    }
+    const overridden = new Set(stored.map(t => t.subject));
+    const builtIn = matchTaxonomy(BUILTIN_TAXONOMIES.filter(t => !overridden.has(t.subject)), topic);
+    if (!builtIn) return GENERAL_TAXONOMY;
+    return { id: null, subject: builtIn.subject, name: builtIn.name, updatedAt: null, terms: compileTerms(builtIn.terms) };
+  }
+
+  async getLexiconAssignments(): Promise<LexiconAssignment[]> {
+    return db.select().from(lexiconAssignments)
+      .orderBy(asc(lexiconAssignments.scopeType), asc(lexiconAssignments.scopeValue));
+  }
+
+  /** Assign a dialect pack to a teacher or course, replacing any existing assignment for that scope. */
+  async setLexiconAssignment(data: InsertLexiconAssignment): Promise<LexiconAssignment> {
+    const [assignment] = await db.insert(lexiconAssignments).values(data)
+      .onConflictDoUpdate({
+        target: [lexiconAssignments.scopeType, lexiconAssignments.scopeValue],
+        set: { packId: data.packId },
+      })
+      .returning();
+    return assignment;
+  }
+
+  async deleteLexiconAssignment(id: number): Promise<boolean> {
+    const deleted = await db.delete(lexiconAssignments)
+      .where(eq(lexiconAssignments.id, id))
+      .returning({ id: lexiconAssignments.id });
+    return deleted.length > 0;
+  }
+
+  async getSessionLanguage(courseSessionId: number): Promise<SessionLanguage> {
+    const rows = await db.select({ text: sessionTranscripts.text }).from(sessionTranscripts)
+      .where(eq(sessionTranscripts.courseSessionId, courseSessionId));
+    return detectLanguage(rows.map(r => r.text));
+  }
+
+  /**
+   * Dialect lexicon for a session in the given language: among packs of that
+   * language, a teacher assignment wins over a course one; otherwise the
+   * language default.
+   */
+  async getLexiconFor(teacherDbId: number | null, courseId: number | null, language: SessionLanguage): Promise<ResolvedLexicon> {
+    const scopes: SQL[] = [];
+    if (teacherDbId !== null) {
+      scopes.push(and(eq(lexiconAssignments.scopeType, "teacher"), eq(lexiconAssignments.scopeValue, String(teacherDbId)))!);
+    }
+    if (courseId !== null) {
+      scopes.push(and(eq(lexiconAssignments.scopeType, "course"), eq(lexiconAssignments.scopeValue, String(courseId)))!);
+    }
+    if (scopes.length === 0) return DEFAULT_LEXICONS[language];
+
+    const matches = (await db.select().from(lexiconAssignments).where(or(...scopes)))
+      .filter(m => getDialectPack(m.packId)?.language === language);
+    const match = matches.find(m => m.scopeType === "teacher") || matches[0];
+    return match ? compileLexicon(getDialectPack(match.packId)!) : DEFAULT_LEXICONS[language];
+  }
+
+  /**
+   * One student's view of a session: their answers by activity and question
+   * against the class, chat messages with confusion signals, reactions, and
+   * attendance. Undefined when the user is not a student in the session.
+   */
+  async getStudentReport(courseSessionId: number, userId: number): Promise<any | undefined> {
+    this.validateCourseSessionId(courseSessionId);
+
+    const [session, users, activities, allPolls, chats, reactions, language] = await Promise.all([
+      this.getSessionOverview(courseSessionId),
+      this.getStudentSessions(courseSessionId),
+      this.getActivities(courseSessionId),
+      db.select().from(userPolls).where(eq(userPolls.courseSessionId, courseSessionId)),
+      this.getChats(courseSessionId),
+      db.select().from(userReactions)
+        .where(and(eq(userReactions.courseSessionId, courseSessionId), eq(userReactions.userId, userId)))
+        .orderBy(asc(userReactions.eventDatetime)),
+      this.getSessionLanguage(courseSessionId),
+    ]);
+    const student = users.find(u => u.userId === userId && u.userType === 'STUDENT');
+    if (!session || !student) return undefined;
+
+    const lexicon = await this.getLexiconFor(session.teacherDbId ?? null, session.courseId ?? null, language);
+    const percentOf = (correct: number, answered: number) => answered > 0 ? Math.round((correct / answered) * 100) : null;
+
+    const classByActivity = this.computeActivityCorrectnessMap(allPolls);
+    const classByQuestion: Record<number, { answered: number; correct: number }> = {};
+    for (const p of allPolls) {
+      if (p.questionId === null || !p.pollAnswered) continue;
+      classByQuestion[p.questionId] ??= { answered: 0, correct: 0 };
+      classByQuestion[p.questionId].answered++;
+      if (p.isCorrectAnswer) classByQuestion[p.questionId].correct++;
+    }
+
+    const studentPolls = allPolls.filter(p => p.userId === userId);
+    const activityReports = activities
+      .filter(a => classByActivity[a.activityId] || studentPolls.some(p => p.classroomActivityId === a.activityId))
+      .sort((a, b) => (a.startTime || '').localeCompare(b.startTime || ''))
+      .map(a => {
+        const polls = studentPolls.filter(p => p.classroomActivityId === a.activityId);
+        const answered = polls.filter(p => p.pollAnswered);
+        const correct = answered.filter(p => p.isCorrectAnswer).length;
+        const activityType = this.classifyActivityType(a.activityType || '', a.totalMcqs);
+        const classStats = classByActivity[a.activityId];
+
+        const questions = new Map<number, typeof polls>();
+        for (const p of polls) {
+          if (p.questionId === null) continue;
+          questions.set(p.questionId, [...(questions.get(p.questionId) || []), p]);
+        }
+
+        return {
+          activityId: a.activityId,
+          activityType,
+          label: DatabaseStorage.TYPE_NAME_EN[activityType] || activityType,
+          startTime: a.startTime,
+          endTime: a.endTime,
+          seen: polls.filter(p => p.pollSeen).length,
+          answered: answered.length,
+          correct,
+          percent: percentOf(correct, answered.length),
+          classPercent: classStats ? percentOf(classStats.correct, classStats.answered) : null,
+          questions: Array.from(questions.entries()).map(([questionId, attempts]) => {
+            const answer = attempts.find(p => p.pollAnswered);
+            const questionStats = classByQuestion[questionId];
+            return {
+              questionId,
+              questionText: attempts[0].questionText || '',
+              seen: attempts.some(p => p.pollSeen),
+              answered: !!answer,
+              correct: answer ? !!answer.isCorrectAnswer : null,
+              durationSec: answer?.pollDuration ?? null,
+              classPercent: questionStats ? percentOf(questionStats.correct, questionStats.answered) : null,
+            };
+          }),
+        };
+      });
+
+    const totalAnswered = activityReports.reduce((sum, a) => sum + a.answered, 0);
+    const totalCorrect = activityReports.reduce((sum, a) => sum + a.correct, 0);
+    const classAnswered = allPolls.filter(p => p.pollAnswered);
+    const classCorrect = classAnswered.filter(p => p.isCorrectAnswer).length;
+
+    const messages = chats
+      .filter(c => c.creatorId === userId)
+      .map(c => {
+        const sec = this.parseTimeToSeconds(c.createdAtTs || '');
+        return {
+          time: sec !== null ? this.formatTime(sec) : c.createdAtTs,
+          text: c.messageText || '',
+          confusion: lexicon.patterns.confusion.test(this.chatNorm(c)),
+        };
+      });
+
+    const byEmotion: Record<string, number> = {};
+    for (const r of reactions) {
+      const emotion = r.emotion || 'unknown';
+      byEmotion[emotion] = (byEmotion[emotion] || 0) + 1;
+    }
+
+    const { topic, level } = this.parseSessionNameParts(session.courseSessionName || '');
+    return {
+      session: {
+        courseSessionId,
+        courseSessionName: session.courseSessionName,
+        topic,
+        level,
+        teachingTime: session.teachingTime,
+      },
+      student: {
+        userId,
+        userName: student.userName,
+        sentiment: student.userSentiment,
+        enterTime: student.userEnterTime,
+        exitTime: student.userExitTime,
+        roomTime: student.roomTime,
+        learningTime: student.learningTime,
+        activeTime: student.activeTime,
+        pollsSeen: student.totalPollsSeen,
+        pollsResponded: student.totalPollsResponded,
+        messages: student.totalMessages,
+        handRaises: student.totalHandRaise,
+        unmutes: student.totalUnmutes,
+      },
+      performance: {
+        answered: totalAnswered,
+        correct: totalCorrect,
+        percent: percentOf(totalCorrect, totalAnswered),
+        classPercent: percentOf(classCorrect, classAnswered.length),
+      },
+      activities: activityReports,
+      chat: {
+        total: messages.length,
+        confusionSignals: messages.filter(m => m.confusion).length,
+        messages,
+      },
+      reactions: {
+        total: reactions.length,
+        byEmotion,
+        events: reactions.map(r => ({ time: r.eventDatetime, emotion: r.emotion, partOfActivity: r.partOfActivity })),
+      },
+    };
+  }
+
+  /** Per-session poll totals for every question (or one), with the session's date and teacher. */
+  private async getQuestionSessionRows(questionId?: number) {
+    return db.select({
+      questionId: userPolls.questionId,
+      questionText: sql<string | null>`max(${userPolls.questionText})`,
+      courseSessionId: userPolls.courseSessionId,
+      courseSessionName: courseSessions.courseSessionName,
+      scheduledStartTime: courseSessions.scheduledStartTime,
+      teacherDbId: courseSessions.teacherDbId,
+      teacherName: sql<string | null>`coalesce(${teachers.nameArabic}, ${teachers.name})`,
+      seen: sql<number>`(count(*) filter (where ${userPolls.pollSeen}))::int`,
+      answered: sql<number>`(count(*) filter (where ${userPolls.pollAnswered}))::int`,
+      correct: sql<number>`(count(*) filter (where ${userPolls.pollAnswered} and ${userPolls.isCorrectAnswer}))::int`,
+    })
+      .from(userPolls)
+      .leftJoin(courseSessions, eq(userPolls.courseSessionId, courseSessions.courseSessionId))
+      .leftJoin(teachers, eq(courseSessions.teacherDbId, teachers.id))
+      .where(questionId !== undefined
+        ? eq(userPolls.questionId, questionId)
+        : sql`${userPolls.questionId} is not null`)
+      .groupBy(
+        userPolls.questionId, userPolls.courseSessionId, courseSessions.courseSessionName,
+        courseSessions.scheduledStartTime, courseSessions.teacherDbId, teachers.nameArabic, teachers.name,
+      )
+      .orderBy(sql`${courseSessions.scheduledStartTime} asc nulls last`);
+  }
+
+  /**
+   * Every question asked in any imported session, most widely used first. A
+   * question is marked as a likely item problem when at least two teachers
+   * used it and every one of their classes scored below the rubric's low band.
+   */
+  async getQuestionBank(search?: string): Promise<any[]> {
+    const [rows, rubric] = await Promise.all([this.getQuestionSessionRows(), this.getActiveRubric()]);
+    const percentOf = (correct: number, answered: number) => answered > 0 ? Math.round(correct / answered * 100) : 0;
+
+    const byQuestion = new Map<number, typeof rows>();
+    for (const row of rows) {
+      const list = byQuestion.get(row.questionId!) || [];
+      list.push(row);
+      byQuestion.set(row.questionId!, list);
+    }
+
+    const needle = normalizeArabic((search || '').trim()).toLowerCase();
+    const bank = Array.from(byQuestion.entries()).map(([questionId, list]) => {
+      const questionText = this.cleanQuestionText(list.find(r => r.questionText)?.questionText || '');
+      const answered = list.reduce((s, r) => s + r.answered, 0);
+      const correct = list.reduce((s, r) => s + r.correct, 0);
+      const teacherTotals = new Map<number, { answered: number; correct: number }>();
+      for (const r of list) {
+        if (r.teacherDbId === null) continue;
+        const totals = teacherTotals.get(r.teacherDbId) || { answered: 0, correct: 0 };
+        totals.answered += r.answered;
+        totals.correct += r.correct;
+        teacherTotals.set(r.teacherDbId, totals);
+      }
+      const teacherPercents = Array.from(teacherTotals.values())
+        .filter(t => t.answered > 0)
+        .map(t => percentOf(t.correct, t.answered));
+      return {
+        questionId,
+        questionText,
+        sessions: list.length,
+        teachers: teacherTotals.size,
+        seen: list.reduce((s, r) => s + r.seen, 0),
+        answered,
+        percent: percentOf(correct, answered),
+        lastUsedAt: list[list.length - 1].scheduledStartTime,
+        likelyItemProblem: teacherPercents.length >= 2 && teacherPercents.every(p => p < rubric.config.correctness.low),
+      };
+    });
+
+    return bank
+      .filter(q => !needle || String(q.questionId) === needle || normalizeArabic(q.questionText).toLowerCase().includes(needle))
+      .sort((a, b) => b.sessions - a.sessions || a.percent - b.percent);
+  }
+
+  /**
+   * One question across sessions: correctness per session in date order,
+   * per-teacher results best first, and the pre-activity explanation verdict
+   * each session's latest stored report attached to the question.
+   */
+  async getQuestionHistory(questionId: number): Promise<any | undefined> {
+    const rows = await this.getQuestionSessionRows(questionId);
+    if (rows.length === 0) return undefined;
+    const percentOf = (correct: number, answered: number) => answered > 0 ? Math.round(correct / answered * 100) : 0;
+
+    const snapshots = await db.selectDistinctOn([reportSnapshots.courseSessionId], {
+      courseSessionId: reportSnapshots.courseSessionId,
+      activityAnalyses: sql<any[] | null>`${reportSnapshots.data}->'activityAnalyses'`,
+    })
+      .from(reportSnapshots)
+      .where(inArray(reportSnapshots.courseSessionId, rows.map(r => r.courseSessionId)))
+      .orderBy(reportSnapshots.courseSessionId, desc(reportSnapshots.createdAt), desc(reportSnapshots.id));
+    const analysesBySession = new Map(snapshots.map(s => [s.courseSessionId, s.activityAnalyses]));
+    const sessions = rows.map(row => {
+      const analyses: any[] = analysesBySession.get(row.courseSessionId) || [];
+      const reported = analyses
+        .flatMap(a => (a.instances || []).map((inst: any) => ({ label: a.label, inst })))
+        .flatMap(({ label, inst }) => (inst.questions || [])
+          .filter((q: any) => q.questionId === String(questionId))
+          .map((q: any) => ({ label, q })))[0];
+      return {
+        courseSessionId: row.courseSessionId,
+        courseSessionName: row.courseSessionName,
+        scheduledStartTime: row.scheduledStartTime,
+        teacherDbId: row.teacherDbId,
+        teacherName: row.teacherName,
+        seen: row.seen,
+        answered: row.answered,
+        correct: row.correct,
+        percent: percentOf(row.correct, row.answered),
+        activity: reported?.label ?? null,
+        teacherExplanationMin: reported?.q.teacherExplanationMin ?? null,
+        teacherExplanationVerdict: reported?.q.teacherExplanationVerdict || null,
+      };
+    });
+
+    const byTeacher = new Map<number | null, { teacherDbId: number | null; teacherName: string | null; sessions: number; answered: number; correct: number }>();
+    for (const s of sessions) {
+      const entry = byTeacher.get(s.teacherDbId) || { teacherDbId: s.teacherDbId, teacherName: s.teacherName, sessions: 0, answered: 0, correct: 0 };
+      entry.sessions++;
+      entry.answered += s.answered;
+      entry.correct += s.correct;
+      byTeacher.set(s.teacherDbId, entry);
+    }
+
+    const answered = sessions.reduce((s, r) => s + r.answered, 0);
+    const correct = sessions.reduce((s, r) => s + r.correct, 0);
+    return {
+      questionId,
+      questionText: this.cleanQuestionText(rows.find(r => r.questionText)?.questionText || ''),
+      answered,
+      percent: percentOf(correct, answered),
+      sessions,
+      teachers: Array.from(byTeacher.values())
+        .map(t => ({ ...t, percent: percentOf(t.correct, t.answered) }))
+        .sort((a, b) => b.percent - a.percent),
+    };
+  }
+
+  /**
+   * One trend line: the rolling average and session-to-session change at each
+   * point, the direction of the least-squares fit across all points, and the
+   * sessions whose change moved the line most. Changes smaller than 5% of the
+   * scale count as steady.
+   */
+  private buildTrendSeries(
+    key: string,
+    label: { en: string; ar: string },
+    scale: { min: number; max: number },
+    points: { courseSessionId: number; courseSessionName: string | null; scheduledStartTime: string | null; value: number }[]
+  ): any {
+    const round1 = (v: number) => Math.round(v * 10) / 10;
+    const threshold = (scale.max - scale.min) * 0.05;
+
+    const withAverages = points.map((p, i) => {
+      const window = points.slice(Math.max(0, i - TREND_WINDOW + 1), i + 1);
+      return {
+        ...p,
+        rollingAverage: round1(window.reduce((s, w) => s + w.value, 0) / window.length),
+        delta: i > 0 ? round1(p.value - points[i - 1].value) : null,
+      };
+    });
+
+    let change = 0;
+    const n = points.length;
+    if (n >= 2) {
+      const meanX = (n - 1) / 2;
+      const meanY = points.reduce((s, p) => s + p.value, 0) / n;
+      let num = 0;
+      let den = 0;
+      points.forEach((p, i) => {
+        num += (i - meanX) * (p.value - meanY);
+        den += (i - meanX) ** 2;
+      });
+      change = round1(num / den * (n - 1));
+    }
+
+    const movers = withAverages
+      .filter(p => p.delta !== null && Math.abs(p.delta) >= threshold)
+      .sort((a, b) => Math.abs(b.delta!) - Math.abs(a.delta!))
+      .slice(0, 3)
+      .map(p => ({ courseSessionId: p.courseSessionId, courseSessionName: p.courseSessionName, delta: p.delta }));
+
+    return {
+      key,
+      label: label.en,
+      labelAr: label.ar,
+      scale,
+      points: withAverages,
+      change,
+      direction: n < 2 || Math.abs(change) < threshold ? 'steady' : change > 0 ? 'improving' : 'declining',
+      movers,
+    };
+  }
+
+  /**
+   * A teacher's scores across their sessions, oldest first, read from each
+   * session's latest stored report: the QA overall score, every QA criterion,
+   * the communication score and overall poll correctness.
+   */
+  async getTeacherTrends(teacherDbId: number): Promise<any> {
+    const rows = await db.selectDistinctOn([reportSnapshots.courseSessionId], {
+      courseSessionId: reportSnapshots.courseSessionId,
+      courseSessionName: courseSessions.courseSessionName,
+      scheduledStartTime: courseSessions.scheduledStartTime,
+      overallScore: sql<number | null>`(${reportSnapshots.data}->'qaEvaluation'->>'overallScore')::real`,
+      criteria: sql<{ id: number; nameEn: string; nameAr: string; score: number }[] | null>`${reportSnapshots.data}->'qaEvaluation'->'criteria'`,
+      communicationScore: sql<number | null>`(${reportSnapshots.data}->'qaEvaluation'->'teacherCommunication'->'communicationScore'->>'score')::real`,
+      correctnessPercent: sql<number | null>`(${reportSnapshots.data}->'pollStats'->>'correctnessPercent')::real`,
+    })
+      .from(reportSnapshots)
+      .innerJoin(courseSessions, eq(reportSnapshots.courseSessionId, courseSessions.courseSessionId))
+      .where(eq(courseSessions.teacherDbId, teacherDbId))
+      .orderBy(reportSnapshots.courseSessionId, desc(reportSnapshots.createdAt), desc(reportSnapshots.id));
+
+    // scheduledStartTime is an ISO string, so text order is date order; undated sessions go last
+    const sessions = rows.sort((a, b) =>
+      Number(!a.scheduledStartTime) - Number(!b.scheduledStartTime)
+      || (a.scheduledStartTime || '').localeCompare(b.scheduledStartTime || '')
+      || a.courseSessionId - b.courseSessionId);
+    const pointsOf = (valueOf: (row: typeof rows[number]) => number | null | undefined) => sessions
+      .map(row => ({
+        courseSessionId: row.courseSessionId,
+        courseSessionName: row.courseSessionName,
+        scheduledStartTime: row.scheduledStartTime,
+        value: valueOf(row),
+      }))
+      .filter((p): p is typeof p & { value: number } => typeof p.value === 'number');
+
+    const series = [
+      this.buildTrendSeries('overall', { en: 'Overall QA score', ar: 'التقييم العام' }, { min: 1, max: 5 }, pointsOf(r => r.overallScore)),
+      this.buildTrendSeries('correctness', { en: 'Student correctness', ar: 'صحة إجابات الطلاب' }, { min: 0, max: 100 }, pointsOf(r => r.correctnessPercent)),
+      this.buildTrendSeries('communication', { en: 'Communication score', ar: 'مهارات التواصل' }, { min: 0, max: 100 }, pointsOf(r => r.communicationScore)),
+    ];
+
+    const criteriaById = new Map<number, { en: string; ar: string }>();
+    for (const row of sessions) {
+      for (const c of row.criteria || []) {
+        if (!criteriaById.has(c.id)) criteriaById.set(c.id, { en: c.nameEn, ar: c.nameAr });
+      }
+    }
+    for (const [id, name] of Array.from(criteriaById.entries()).sort((a, b) => a[0] - b[0])) {
+      series.push(this.buildTrendSeries(`criterion-${id}`, name, { min: 1, max: 5 },
+        pointsOf(r => r.criteria?.find(c => c.id === id)?.score)));
+    }
+
+    return {
+      teacherId: teacherDbId,
+      sessionCount: sessions.length,
+      window: TREND_WINDOW,
+      series: series.filter(s => s.points.length > 0),
+    };
+  }
+
+  /**
+   * Percentile ranks of a session's QA criteria, communication score and key
+   * metrics among the latest reports of every session in the same course,
+   * subject or grade level. Ranks count ties as half below; the cohort is
+   * described only by quartiles, never by individual sessions.
+   */
+  async getSessionBenchmarks(courseSessionId: number, cohort: BenchmarkCohort): Promise<any | undefined> {
+    const data = reportSnapshots.data;
+    const cohortColumns = {
+      course: sql<string | null>`${courseSessions.courseId}::text`,
+      subject: sql<string | null>`${data}->'topicTaxonomy'->>'subject'`,
+      level: sql<string | null>`nullif(${data}->'session'->>'level', '')`,
+    };
+
+    const [targetRow] = await db.select(cohortColumns)
+      .from(reportSnapshots)
+      .leftJoin(courseSessions, eq(reportSnapshots.courseSessionId, courseSessions.courseSessionId))
+      .where(eq(reportSnapshots.courseSessionId, courseSessionId))
+      .orderBy(desc(reportSnapshots.createdAt), desc(reportSnapshots.id))
+      .limit(1);
+    if (!targetRow) return undefined;
+    const cohortValue = targetRow[cohort];
+
+    // Only each session's latest snapshot counts, and only the cohort's rows are unpacked
+    const latestIds = db.selectDistinctOn([reportSnapshots.courseSessionId], { id: reportSnapshots.id })
+      .from(reportSnapshots)
+      .orderBy(reportSnapshots.courseSessionId, desc(reportSnapshots.createdAt), desc(reportSnapshots.id));
+    const rows = await db.select({
+      courseSessionId: reportSnapshots.courseSessionId,
+      criterionScores: sql<Record<string, number> | null>`(select jsonb_object_agg(c->>'id', (c->>'score')::real) from jsonb_array_elements(${data}->'qaEvaluation'->'criteria') c)`,
+      criterionNames: sql<Record<string, string> | null>`(select jsonb_object_agg(c->>'id', c->>'nameEn') from jsonb_array_elements(${data}->'qaEvaluation'->'criteria') c)`,
+      communicationScore: sql<number | null>`(${data}->'qaEvaluation'->'teacherCommunication'->'communicationScore'->>'score')::real`,
+      responseRate: sql<number | null>`(${data}->'qaEvaluation'->'summary'->>'responseRate')::real`,
+      correctness: sql<number | null>`(${data}->'qaEvaluation'->'summary'->>'overallCorrectness')::real`,
+      teacherTalkMin: sql<number | null>`(${data}->'qaEvaluation'->'summary'->>'teacherTalkMin')::real`,
+      teachingTimeMin: sql<number | null>`(${data}->'qaEvaluation'->'summary'->>'teachingTimeMin')::real`,
+      studentActivePercent: sql<number | null>`(${data}->'qaEvaluation'->'summary'->>'studentActivePercent')::real`,
+    })
+      .from(reportSnapshots)
+      .leftJoin(courseSessions, eq(reportSnapshots.courseSessionId, courseSessions.courseSessionId))
+      .where(and(
+        inArray(reportSnapshots.id, latestIds),
+        cohortValue === null
+          ? eq(reportSnapshots.courseSessionId, courseSessionId)
+          : sql`${cohortColumns[cohort]} = ${cohortValue}`,
+      ));
+
+    const target = rows.find(r => r.courseSessionId === courseSessionId);
+    if (!target) return undefined;
+
+    const talkRatio = (r: typeof rows[number]) => r.teacherTalkMin !== null && r.teachingTimeMin
+      ? Math.round(r.teacherTalkMin / r.teachingTimeMin * 100)
+      : null;
+
+    const benchmark = (valueOf: (r: typeof rows[number]) => number | null | undefined, higherIsBetter = true) => {
+      const value = valueOf(target);
+      const values = rows.map(valueOf).filter((v): v is number => typeof v === 'number').sort((a, b) => a - b);
+      if (typeof value !== 'number') return null;
+      const quantile = (q: number) => {
+        const pos = (values.length - 1) * q;
+        const lo = Math.floor(pos);
+        return Math.round((values[lo] + (values[Math.ceil(pos)] - values[lo]) * (pos - lo)) * 10) / 10;
+      };
+      const below = values.filter(v => v < value).length;
+      const equal = values.filter(v => v === value).length;
+      return {
+        value,
+        higherIsBetter,
+        cohortSize: values.length,
+        percentile: values.length >= MIN_COHORT_SIZE ? Math.round((below + equal / 2) / values.length * 100) : null,
+        distribution: values.length >= MIN_COHORT_SIZE
+          ? { min: values[0], p25: quantile(0.25), median: quantile(0.5), p75: quantile(0.75), max: values[values.length - 1] }
+          : null,
+      };
+    };
+
+    const criteria = Object.keys(target.criterionScores || {}).map(id => ({
+      id: Number(id),
+      name: target.criterionNames?.[id] ?? `Criterion ${id}`,
+      ...benchmark(r => r.criterionScores?.[id])!,
+    }));
+
+    return {
+      cohort,
+      cohortValue,
+      cohortSize: rows.length,
+      minCohortSize: MIN_COHORT_SIZE,
+      criteria: criteria.sort((a, b) => a.id - b.id),
+      metrics: {
+        communicationScore: benchmark(r => r.communicationScore),
+        responseRate: benchmark(r => r.responseRate),
+        correctness: benchmark(r => r.correctness),
+        teacherTalkRatio: benchmark(talkRatio, false),
+        studentActivePercent: benchmark(r => r.studentActivePercent),
+      },
+    };
+  }
+
+  /** Every course with imported sessions, most recently taught first. */
+  async listCourses(): Promise<any[]> {
+    return db.select({
+      courseId: courseSessions.courseId,
+      sessionCount: sql<number>`count(*)::int`,
+      teacherCount: sql<number>`count(distinct ${courseSessions.teacherDbId})::int`,
+      firstSessionAt: sql<string | null>`min(${courseSessions.scheduledStartTime})`,
+      lastSessionAt: sql<string | null>`max(${courseSessions.scheduledStartTime})`,
+      sampleSessionName: sql<string | null>`max(${courseSessions.courseSessionName})`,
+    })
+      .from(courseSessions)
+      .where(sql`${courseSessions.courseId} is not null`)
+      .groupBy(courseSessions.courseId)
+      .orderBy(sql`max(${courseSessions.scheduledStartTime}) desc nulls last`);
+  }
+
+  /**
+   * Roll-up of every session in a course, read from each session's latest
+   * stored report: attendance and completion per session in date order,
+   * correctness per activity type, the topics confusion clustered on most,
+   * the teachers involved, and QA criteria averages. Sessions without a
+   * stored report are listed but left out of the averages.
+   */
+  async getCourseReport(courseId: number): Promise<any | undefined> {
+    const sessions = await db.select({
+      courseSessionId: courseSessions.courseSessionId,
+      courseSessionName: courseSessions.courseSessionName,
+      scheduledStartTime: courseSessions.scheduledStartTime,
+      teacherDbId: courseSessions.teacherDbId,
+      teacherName: sql<string | null>`coalesce(${teachers.nameArabic}, ${teachers.name})`,
+    })
+      .from(courseSessions)
+      .leftJoin(teachers, eq(courseSessions.teacherDbId, teachers.id))
+      .where(eq(courseSessions.courseId, courseId))
+      .orderBy(sql`${courseSessions.scheduledStartTime} asc nulls last`, asc(courseSessions.courseSessionId));
+    if (sessions.length === 0) return undefined;
+
+    const snapshots = await db.selectDistinctOn([reportSnapshots.courseSessionId], {
+      courseSessionId: reportSnapshots.courseSessionId,
+      data: reportSnapshots.data,
+    })
+      .from(reportSnapshots)
+      .where(inArray(reportSnapshots.courseSessionId, sessions.map(s => s.courseSessionId)))
+      .orderBy(reportSnapshots.courseSessionId, desc(reportSnapshots.createdAt), desc(reportSnapshots.id));
+    const reports = new Map(snapshots.map(s => [s.courseSessionId, s.data as ReportData]));
+
+    const average = (values: number[]) => values.length > 0
+      ? Math.round(values.reduce((s, v) => s + v, 0) / values.length * 10) / 10
+      : null;
+
+    const activityTypes = new Map<string, { activityType: string; label: string; sortOrder: number; values: number[] }>();
+    const topics = new Map<string, { occurrences: number; sessions: Set<number> }>();
+    const criteria = new Map<number, { id: number; nameEn: string; nameAr: string; scores: number[] }>();
+    const teacherRows = new Map<number | null, { teacherDbId: number | null; teacherName: string | null; sessions: number; scores: number[] }>();
+
+    const timeline = sessions.map(session => {
+      const report = reports.get(session.courseSessionId);
+      const qa = report?.qaEvaluation;
+
+      const teacher = teacherRows.get(session.teacherDbId)
+        || { teacherDbId: session.teacherDbId, teacherName: session.teacherName, sessions: 0, scores: [] as number[] };
+      teacher.sessions++;
+      if (typeof qa?.overallScore === 'number') teacher.scores.push(qa.overallScore);
+      teacherRows.set(session.teacherDbId, teacher);
+
+      for (const analysis of report?.activityAnalyses || []) {
+        const percents = (analysis.instances || [])
+          .map(inst => inst.overallCorrectness?.percent)
+          .filter((p): p is number => typeof p === 'number');
+        if (percents.length === 0) continue;
+        const entry = activityTypes.get(analysis.activityType)
+          || { activityType: analysis.activityType, label: analysis.label, sortOrder: analysis.sortOrder ?? 99, values: [] as number[] };
+        entry.values.push(...percents);
+        activityTypes.set(analysis.activityType, entry);
+      }
+
+      for (const moment of qa?.transcriptAnalysis?.confusionMoments || []) {
+        if (!moment.concept) continue;
+        const entry = topics.get(moment.concept) || { occurrences: 0, sessions: new Set<number>() };
+        entry.occurrences++;
+        entry.sessions.add(session.courseSessionId);
+        topics.set(moment.concept, entry);
+      }
+
+      for (const c of qa?.criteria || []) {
+        const entry = criteria.get(c.id) || { id: c.id, nameEn: c.nameEn, nameAr: c.nameAr, scores: [] as number[] };
+        entry.scores.push(c.score);
+        criteria.set(c.id, entry);
+      }
+
+      return {
+        courseSessionId: session.courseSessionId,
+        courseSessionName: session.courseSessionName,
+        scheduledStartTime: session.scheduledStartTime,
+        teacherName: session.teacherName,
+        hasReport: !!report,
+        attendance: report?.studentMetrics?.totalStudents ?? null,
+        completionPercent: report?.studentMetrics?.sessionCompletedPercent ?? null,
+        correctness: report?.pollStats?.correctnessPercent ?? null,
+        overallScore: qa?.overallScore ?? null,
+      };
+    });
+
+    return {
+      courseId,
+      sessionCount: sessions.length,
+      reportedSessions: reports.size,
+      firstSessionAt: sessions[0].scheduledStartTime,
+      lastSessionAt: sessions[sessions.length - 1].scheduledStartTime,
+      sessions: timeline,
+      activityTypes: Array.from(activityTypes.values())
+        .sort((a, b) => a.sortOrder - b.sortOrder)
+        .map(a => ({ activityType: a.activityType, label: a.label, instances: a.values.length, avgCorrectness: average(a.values) })),
+      confusionTopics: Array.from(topics.entries())
+        .map(([topic, t]) => ({ topic, occurrences: t.occurrences, sessions: t.sessions.size }))
+        .sort((a, b) => b.sessions - a.sessions || b.occurrences - a.occurrences)
+        .slice(0, 10),
+      teachers: Array.from(teacherRows.values())
+        .map(t => ({ teacherDbId: t.teacherDbId, teacherName: t.teacherName, sessions: t.sessions, avgOverallScore: average(t.scores) }))
+        .sort((a, b) => b.sessions - a.sessions),
+      criteria: Array.from(criteria.values())
+        .sort((a, b) => a.id - b.id)
+        .map(c => ({ id: c.id, nameEn: c.nameEn, nameAr: c.nameAr, sessions: c.scores.length, average: average(c.scores) })),
+    };
   }
 }
 
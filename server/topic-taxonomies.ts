@@ -0,0 +1,177 @@
+import { z } from "zod";
+import { compileNormalized, normalizeArabic } from "./arabic-normalize";
+
+/**
+ * Topic taxonomies turn transcript text into the topic labels shown in the
+ * activity timeline, confusion moments, explanation reviews and feedback.
+ * Each taxonomy covers one subject: `keywords` are matched against the topic
+ * part of the session name (see parseSessionNameParts) to pick it, and
+ * `terms` are regex patterns with the English label they produce; built-in
+ * patterns carry Arabic and English alternatives so English-medium sessions
+ * get the same labels. Patterns and keywords are normalized like the text
+ * they match (see arabic-normalize), so "الدائرة" also covers "الدائره".
+ *
+ * The built-in taxonomies below ship with the app; admins can add subjects or
+ * override a built-in by saving a taxonomy with the same subject key.
+ */
+
+export interface TaxonomyTerm {
+  /** Regex source, matched case-insensitively against normalized transcript text. */
+  pattern: string;
+  label: string;
+}
+
+export interface TopicTaxonomyConfig {
+  /** Stable key, e.g. "geometry-circles". */
+  subject: string;
+  name: string;
+  /** Substrings of the session topic that select this taxonomy. */
+  keywords: string[];
+  terms: TaxonomyTerm[];
+}
+
+export interface ResolvedTaxonomy {
+  /** null for built-ins and the general fallback. */
+  id: number | null;
+  subject: string;
+  name: string;
+  updatedAt: string | null;
+  terms: [RegExp, string][];
+}
+
+/** Used when no taxonomy's keywords match the session topic. */
+export const GENERAL_SUBJECT = "general";
+
+export const BUILTIN_TAXONOMIES: TopicTaxonomyConfig[] = [
+  {
+    subject: "geometry-circles",
+    name: "Geometry — Circles",
+    keywords: ["الدائرة", "الدوائر", "دائرة", "circle"],
+    terms: [
+      { pattern: "الدائرة|circles?", label: "Circles" },
+      { pattern: "المستقيم|مستقيمات|\\blines?\\b", label: "Lines in circles" },
+      { pattern: "نصف القطر|أنصاف.*القطر|radius|radii", label: "Radius" },
+      { pattern: "القطر|diameter", label: "Diameter" },
+      { pattern: "الوتر|وتر|chords?", label: "Chord" },
+      { pattern: "مماس|التماس|tangents?", label: "Tangent" },
+      { pattern: "الزاوية\\s*المركزية|central\\s*angles?", label: "Central angles" },
+      { pattern: "الزاوية\\s*المحيطية|inscribed\\s*angles?", label: "Inscribed angles" },
+      { pattern: "الزوايا|زاوية|angles?", label: "Angles" },
+      { pattern: "المحيط|perimeter|circumference", label: "Perimeter" },
+      { pattern: "المساحة|\\barea\\b", label: "Area" },
+      { pattern: "المضلع|مضلعات|رباعي|polygons?|quadrilateral", label: "Polygons" },
+      { pattern: "القوس|\\barcs?\\b", label: "Arc" },
+      { pattern: "طاء.*نق|نق\\s*تربيع|\\bpi\\s*r|r\\s*squared", label: "Circle formulas" },
+      { pattern: "مربع|مثلث|سداسي|squares?|triangles?|hexagons?", label: "Shapes in circles" },
+    ],
+  },
+  {
+    subject: "algebra",
+    name: "Algebra",
+    keywords: ["جبر", "المعادلات", "معادلة", "المتباينات", "متباينة", "الدوال", "دالة", "كثيرات الحدود", "algebra", "equation", "inequalit", "function", "polynomial"],
+    terms: [
+      { pattern: "معادلة\\s*تربيعية|المعادلات التربيعية|quadratic", label: "Quadratic equations" },
+      { pattern: "معادلة|المعادلات|equations?", label: "Equations" },
+      { pattern: "متباينة|المتباينات|inequalit(y|ies)", label: "Inequalities" },
+      { pattern: "الدالة|دوال|د\\(س\\)|functions?|f\\(x\\)", label: "Functions" },
+      { pattern: "المتغير|متغيرات|المجهول|variables?|unknown", label: "Variables" },
+      { pattern: "كثيرة? الحدود|كثيرات الحدود|حدودية|polynomials?", label: "Polynomials" },
+      { pattern: "تحليل|نحلل|العوامل|factor(ing|ise|ize)?", label: "Factoring" },
+      { pattern: "الأس|أسس|الأسس|تربيع|تكعيب|exponents?|powers?|squared|cubed", label: "Exponents" },
+      { pattern: "الجذر|جذور|roots?", label: "Roots" },
+      { pattern: "الميل|ميل المستقيم|slope|gradient", label: "Slope" },
+      { pattern: "المقطع|التمثيل البياني|بياني|graph|intercept", label: "Graphing" },
+      { pattern: "نظام المعادلات|التعويض|الحذف|system\\s*of\\s*equations|substitution|elimination", label: "Systems of equations" },
+    ],
+  },
+  {
+    subject: "physics",
+    name: "Physics",
+    keywords: ["فيزياء", "الفيزياء", "الحركة", "القوة", "القوى", "الطاقة", "الكهرباء", "الموجات", "physics", "motion", "force", "energy", "electric", "wave"],
+    terms: [
+      { pattern: "السرعة|سرعة|velocity|speed", label: "Velocity" },
+      { pattern: "التسارع|تسارع|acceleration", label: "Acceleration" },
+      { pattern: "الإزاحة|المسافة|displacement|distance", label: "Displacement" },
+      { pattern: "قانون نيوتن|نيوتن|newton", label: "Newton's laws" },
+      { pattern: "القوة|القوى|قوة|forces?", label: "Forces" },
+      { pattern: "الاحتكاك|friction", label: "Friction" },
+      { pattern: "الطاقة\\s*الحركية|الطاقة\\s*الكامنة|الطاقة|energy", label: "Energy" },
+      { pattern: "الشغل|القدرة|\\bwork\\b|\\bpower\\b", label: "Work and power" },
+      { pattern: "الزخم|كمية الحركة|momentum", label: "Momentum" },
+      { pattern: "التيار|الجهد|المقاومة|أوم|current|voltage|resistance|ohm", label: "Electric circuits" },
+      { pattern: "الموجة|موجات|التردد|الطول الموجي|waves?|frequency|wavelength", label: "Waves" },
+      { pattern: "الكتلة|الوزن|الجاذبية|\\bmass\\b|weight|gravity", label: "Mass and gravity" },
+    ],
+  },
+  {
+    subject: "arabic-grammar",
+    name: "Arabic Grammar",
+    keywords: ["النحو", "نحو", "قواعد", "الإعراب", "إعراب", "لغتي", "grammar"],
+    terms: [
+      { pattern: "المبتدأ|الخبر", label: "Nominal sentence" },
+      { pattern: "الفاعل|نائب الفاعل", label: "Subject (fa'il)" },
+      { pattern: "المفعول|مفعول به", label: "Objects" },
+      { pattern: "الفعل الماضي|الفعل المضارع|فعل الأمر|الأفعال", label: "Verb forms" },
+      { pattern: "كان وأخواتها|إن وأخواتها|النواسخ", label: "Kana and Inna" },
+      { pattern: "الإعراب|نعرب|إعراب", label: "Parsing (i'rab)" },
+      { pattern: "مرفوع|منصوب|مجرور|مجزوم|الرفع|النصب|الجر|الجزم", label: "Case endings" },
+      { pattern: "الضمة|الفتحة|الكسرة|السكون", label: "Vowel marks" },
+      { pattern: "حرف الجر|حروف الجر", label: "Prepositions" },
+      { pattern: "النعت|الصفة", label: "Adjectives" },
+      { pattern: "الجمع|المثنى|المفرد", label: "Number (singular, dual, plural)" },
+      { pattern: "الضمير|ضمائر", label: "Pronouns" },
+    ],
+  },
+];
+
+/** Topic labels that apply in every subject. */
+const SHARED_TERMS: TaxonomyTerm[] = [
+  { pattern: "اشرح|اشرحي|يلا.*اشرح|explain\\s*(it\\s*)?to\\s*(us|the\\s*class)", label: "Student called to explain" },
+];
+
+export const taxonomyTermSchema = z.object({
+  pattern: z.string().min(1).max(500),
+  label: z.string().min(1).max(100),
+});
+
+export const topicTaxonomyConfigSchema = z.object({
+  subject: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, "subject must be lowercase letters, digits and dashes").max(50),
+  name: z.string().min(1).max(100),
+  keywords: z.array(z.string().min(1).max(100)),
+  terms: z.array(taxonomyTermSchema).min(1),
+});
+
+/** Checks the schema cannot express. Returns a message, or null when the taxonomy is usable. */
+export function validateTaxonomy(config: TopicTaxonomyConfig): string | null {
+  if (config.subject === GENERAL_SUBJECT) return `"${GENERAL_SUBJECT}" is reserved for the fallback taxonomy`;
+  for (const term of config.terms) {
+    try {
+      new RegExp(term.pattern, "i");
+    } catch {
+      return `Invalid pattern for "${term.label}": ${term.pattern}`;
+    }
+  }
+  return null;
+}
+
+export function compileTerms(terms: TaxonomyTerm[]): [RegExp, string][] {
+  return [...terms, ...SHARED_TERMS].map(t => [compileNormalized(t.pattern), t.label]);
+}
+
+/**
+ * Pick the taxonomy for a session topic: the first (in the given order) with a
+ * keyword contained in the topic. Returns undefined when none match.
+ */
+export function matchTaxonomy<T extends { keywords: string[] }>(taxonomies: T[], topic: string): T | undefined {
+  const normalized = normalizeArabic(topic).toLowerCase();
+  if (!normalized.trim()) return undefined;
+  return taxonomies.find(t => t.keywords.some(k => k.trim() && normalized.includes(normalizeArabic(k.trim()).toLowerCase())));
+}
+
+export const GENERAL_TAXONOMY: ResolvedTaxonomy = {
+  id: null,
+  subject: GENERAL_SUBJECT,
+  name: "General",
+  updatedAt: null,
+  terms: compileTerms([]),
+};
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, real, boolean, timestamp, jsonb, serial, uniqueIndex } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, real, boolean, timestamp, jsonb, serial, uniqueIndex, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -75,6 +75,8 @@ export const sessionTranscripts = pgTable("session_transcripts", {
   startTime: text("start_time").notNull(),
   endTime: text("end_time").notNull(),
   text: text("text").notNull(),
+  /** Copy of `text` folded by normalizeArabic, matched by the detectors. */
+  normalizedText: text("normalized_text"),
   lineOrder: integer("line_order"),
 });
 
@@ -83,6 +85,7 @@ export const sessionChats = pgTable("session_chats", {
   courseSessionId: integer("course_session_id").notNull(),
   messageId: text("message_id"),
   messageText: text("message_text"),
+  normalizedMessageText: text("normalized_message_text"),
   creatorId: integer("creator_id"),
   userType: text("user_type"),
   creatorName: text("creator_name"),
@@ -152,6 +155,125 @@ export const userSessions = pgTable("user_sessions", {
   platforms: text("platforms"),
 });
 
+// ============ Import History ============
+
+export const SESSION_FILE_TYPES = [
+  "courseSession", "transcript", "chats", "classroomActivity",
+  "userPoll", "userReaction", "userSession",
+] as const;
+
+export type SessionFileType = typeof SESSION_FILE_TYPES[number];
+
+export const sessionImports = pgTable("session_imports", {
+  id: serial("id").primaryKey(),
+  courseSessionId: integer("course_session_id").notNull(),
+  fileType: varchar("file_type", { length: 50 }).notNull(),
+  fileName: text("file_name").notNull(),
+  rowCount: integer("row_count").notNull(),
+  mode: varchar("mode", { length: 20 }).notNull(),
+  teacherId: integer("teacher_id").references(() => teachers.id),
+  mappingVersion: integer("mapping_version"),
+  encoding: varchar("encoding", { length: 30 }),
+  importedAt: timestamp("imported_at").defaultNow().notNull(),
+});
+
+export const columnMappings = pgTable("column_mappings", {
+  id: serial("id").primaryKey(),
+  fileType: varchar("file_type", { length: 50 }).notNull(),
+  version: integer("version").notNull(),
+  mapping: jsonb("mapping").notNull(),
+  isActive: boolean("is_active").default(false).notNull(),
+  notes: text("notes"),
+  createdBy: integer("created_by").references(() => teachers.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("column_mappings_type_version_idx").on(table.fileType, table.version),
+]);
+
+export const scoringRubrics = pgTable("scoring_rubrics", {
+  id: serial("id").primaryKey(),
+  version: integer("version").notNull().unique(),
+  config: jsonb("config").notNull(),
+  isActive: boolean("is_active").default(false).notNull(),
+  notes: text("notes"),
+  createdBy: integer("created_by").references(() => teachers.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const scoringProfiles = pgTable("scoring_profiles", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 100 }).notNull().unique(),
+  description: text("description"),
+  config: jsonb("config").notNull(),
+  createdBy: integer("created_by").references(() => teachers.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const scoringProfileAssignments = pgTable("scoring_profile_assignments", {
+  id: serial("id").primaryKey(),
+  profileId: integer("profile_id").notNull().references(() => scoringProfiles.id, { onDelete: "cascade" }),
+  scopeType: varchar("scope_type", { length: 20 }).notNull(),
+  scopeValue: varchar("scope_value", { length: 100 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("scoring_profile_assignments_scope_idx").on(table.scopeType, table.scopeValue),
+]);
+
+export const lexiconAssignments = pgTable("lexicon_assignments", {
+  id: serial("id").primaryKey(),
+  packId: varchar("pack_id", { length: 50 }).notNull(),
+  scopeType: varchar("scope_type", { length: 20 }).notNull(),
+  scopeValue: varchar("scope_value", { length: 100 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("lexicon_assignments_scope_idx").on(table.scopeType, table.scopeValue),
+]);
+
+export const topicTaxonomies = pgTable("topic_taxonomies", {
+  id: serial("id").primaryKey(),
+  subject: varchar("subject", { length: 50 }).notNull().unique(),
+  name: varchar("name", { length: 100 }).notNull(),
+  keywords: jsonb("keywords").notNull(),
+  terms: jsonb("terms").notNull(),
+  createdBy: integer("created_by").references(() => teachers.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const importJobs = pgTable("import_jobs", {
+  id: serial("id").primaryKey(),
+  teacherId: integer("teacher_id").references(() => teachers.id),
+  status: varchar("status", { length: 20 }).default("pending").notNull(),
+  mode: varchar("mode", { length: 20 }).default("create").notNull(),
+  stage: text("stage"),
+  progress: integer("progress").default(0).notNull(),
+  stages: jsonb("stages").default([]).notNull(),
+  files: jsonb("files").notNull(),
+  sessionIds: jsonb("session_ids"),
+  results: jsonb("results"),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  finishedAt: timestamp("finished_at"),
+});
+
+// ============ Report Snapshots ============
+
+export const reportSnapshots = pgTable("report_snapshots", {
+  id: serial("id").primaryKey(),
+  courseSessionId: integer("course_session_id").notNull(),
+  engineVersion: varchar("engine_version", { length: 20 }).notNull(),
+  inputHash: varchar("input_hash", { length: 64 }).notNull(),
+  rubricVersion: integer("rubric_version").default(0).notNull(),
+  data: jsonb("data").notNull(),
+  trigger: varchar("trigger", { length: 20 }).notNull(),
+  createdBy: integer("created_by").references(() => teachers.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("report_snapshots_session_idx").on(table.courseSessionId, table.createdAt),
+]);
+
 export const insertTeacherSchema = createInsertSchema(teachers).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertReportViewSchema = createInsertSchema(reportViews).omit({ id: true, viewedAt: true });
 export const insertReportFeedbackSchema = createInsertSchema(reportFeedback).omit({ id: true, createdAt: true, updatedAt: true });
@@ -163,6 +285,15 @@ export const insertClassroomActivitySchema = createInsertSchema(classroomActivit
 export const insertUserPollSchema = createInsertSchema(userPolls).omit({ id: true });
 export const insertUserReactionSchema = createInsertSchema(userReactions).omit({ id: true });
 export const insertUserSessionSchema = createInsertSchema(userSessions).omit({ id: true });
+export const insertSessionImportSchema = createInsertSchema(sessionImports).omit({ id: true, importedAt: true });
+export const insertColumnMappingSchema = createInsertSchema(columnMappings).omit({ id: true, createdAt: true });
+export const insertScoringRubricSchema = createInsertSchema(scoringRubrics).omit({ id: true, createdAt: true });
+export const insertScoringProfileSchema = createInsertSchema(scoringProfiles).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertScoringProfileAssignmentSchema = createInsertSchema(scoringProfileAssignments).omit({ id: true, createdAt: true });
+export const insertLexiconAssignmentSchema = createInsertSchema(lexiconAssignments).omit({ id: true, createdAt: true });
+export const insertTopicTaxonomySchema = createInsertSchema(topicTaxonomies).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertImportJobSchema = createInsertSchema(importJobs).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertReportSnapshotSchema = createInsertSchema(reportSnapshots).omit({ id: true, createdAt: true });
 
 export type CourseSession = typeof courseSessions.$inferSelect;
 export type SessionTranscript = typeof sessionTranscripts.$inferSelect;
@@ -179,6 +310,57 @@ export type InsertClassroomActivity = z.infer<typeof insertClassroomActivitySche
 export type InsertUserPoll = z.infer<typeof insertUserPollSchema>;
 export type InsertUserReaction = z.infer<typeof insertUserReactionSchema>;
 export type InsertUserSession = z.infer<typeof insertUserSessionSchema>;
+export type SessionImport = typeof sessionImports.$inferSelect;
+export type InsertSessionImport = z.infer<typeof insertSessionImportSchema>;
+export type ColumnMapping = typeof columnMappings.$inferSelect;
+export type InsertColumnMapping = z.infer<typeof insertColumnMappingSchema>;
+export type ScoringRubricVersion = typeof scoringRubrics.$inferSelect;
+export type InsertScoringRubricVersion = z.infer<typeof insertScoringRubricSchema>;
+export type ScoringProfile = typeof scoringProfiles.$inferSelect;
+export type InsertScoringProfile = z.infer<typeof insertScoringProfileSchema>;
+export type ScoringProfileAssignment = typeof scoringProfileAssignments.$inferSelect;
+export type InsertScoringProfileAssignment = z.infer<typeof insertScoringProfileAssignmentSchema>;
+export type LexiconAssignment = typeof lexiconAssignments.$inferSelect;
+export type InsertLexiconAssignment = z.infer<typeof insertLexiconAssignmentSchema>;
+export type TopicTaxonomy = typeof topicTaxonomies.$inferSelect;
+export type InsertTopicTaxonomy = z.infer<typeof insertTopicTaxonomySchema>;
+export type ImportJob = typeof importJobs.$inferSelect;
+export type InsertImportJob = z.infer<typeof insertImportJobSchema>;
+export type ReportSnapshot = typeof reportSnapshots.$inferSelect;
+export type InsertReportSnapshot = z.infer<typeof insertReportSnapshotSchema>;
+
+/** A student a report flags for follow-up, with the reasons found. */
+export interface AtRiskStudent {
+  userId: number;
+  userName: string | null;
+  riskLevel: "High" | "Medium";
+  correctness: number | null;
+  reasons: { code: string; detail: string }[];
+}
+
+/**
+ * The parts of a stored report (`ReportSnapshot.data`) the server reads back.
+ * Every field is optional: snapshots from older engine versions may lack any of them.
+ */
+export interface ReportData {
+  topicTaxonomy?: { id: number | null; subject: string; name: string; updatedAt: string | null };
+  dialectLexicon?: { id: string; name: string; language: string };
+  pollStats?: { correctnessPercent?: number };
+  studentMetrics?: { totalStudents?: number; sessionCompletedPercent?: number };
+  activityAnalyses?: {
+    activityType: string;
+    label: string;
+    sortOrder?: number;
+    instances?: { overallCorrectness?: { percent?: number } | null }[];
+  }[];
+  atRiskStudents?: AtRiskStudent[];
+  qaEvaluation?: {
+    overallScore?: number;
+    profile?: { id: number | null; name: string; updatedAt: string | null };
+    criteria?: { id: number; nameEn: string; nameAr: string; score: number }[];
+    transcriptAnalysis?: { confusionMoments?: { concept?: string | null }[] };
+  };
+}
 
 export type Teacher = typeof teachers.$inferSelect;
 export type InsertTeacher = z.infer<typeof insertTeacherSchema>;